@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from "react";
-import { Stack, useRouter } from "expo-router";
+import React, { useState, useEffect, useCallback } from "react";
+import { Stack, useFocusEffect, useRouter } from "expo-router";
 import { 
   StyleSheet, 
   View, 
@@ -9,36 +9,97 @@ import {
   TouchableOpacity, 
   ActivityIndicator,
   Modal,
-  Pressable
+  Pressable,
+  TextInput
 } from "react-native";
 import { useTheme } from "@react-navigation/native";
 import { LinearGradient } from 'expo-linear-gradient';
 import { colors } from "@/styles/commonStyles";
 import { IconSymbol } from "@/components/IconSymbol";
 import { useAuth } from "@/contexts/AuthContext";
-import { authenticatedGet, authenticatedPost, authenticatedDelete } from "@/utils/api";
-
-interface Language {
-  code: string;
-  name: string;
-  flag: string;
-  color: string;
-}
+import { authenticatedGet, authenticatedPost, authenticatedPatch, authenticatedDelete } from "@/utils/api";
+import { DEFAULT_LANGUAGE, LANGUAGES } from "@/constants/Languages";
+import { TutorStyleKey, TutorStyleSettings } from "@/constants/TutorStyle";
+import TutorStylePicker from "@/components/TutorStylePicker";
 
 interface Conversation {
   conversationId: string;
   language: string;
   level: string;
-  title: string;
+  title: string | null;
+  parentConversationId: string | null;
   lastMessageAt: string;
   createdAt: string;
 }
 
-const LANGUAGES: Language[] = [
-  { code: 'lv', name: 'Latvian', flag: '🇱🇻', color: colors.primary },
-];
+// Order conversations so each fork follows its parent, nested one level deeper
+// Forks whose parent is no longer listed are shown at the top level
+function groupForks(conversations: Conversation[]): { conversation: Conversation; depth: number }[] {
+  const ids = new Set(conversations.map(conv => conv.conversationId));
+  const grouped: { conversation: Conversation; depth: number }[] = [];
+
+  const addWithForks = (conversation: Conversation, depth: number) => {
+    grouped.push({ conversation, depth });
+    conversations
+      .filter(conv => conv.parentConversationId === conversation.conversationId)
+      .forEach(fork => addWithForks(fork, depth + 1));
+  };
+
+  conversations
+    .filter(conv => !conv.parentConversationId || !ids.has(conv.parentConversationId))
+    .forEach(conv => addWithForks(conv, 0));
+
+  return grouped;
+}
+
+const CONVERSATIONS_PAGE_SIZE = 50;
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface SearchResult {
+  type: 'message' | 'conversation' | 'vocabulary';
+  conversationId: string;
+  conversationTitle: string | null;
+  messageId: string | null;
+  sequence: number | null;
+  snippet: string;
+}
+
+const SEARCH_RESULT_LABELS: Record<SearchResult['type'], string> = {
+  message: 'Ziņa',
+  conversation: 'Nosaukums',
+  vocabulary: 'Vārdnīca',
+};
+
+// Render a search snippet, emphasising the <mark>-tagged matches
+function renderSnippet(snippet: string) {
+  return snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+    part.startsWith('<mark>') ? (
+      <Text key={index} style={styles.searchMatch}>{part.slice(6, -7)}</Text>
+    ) : (
+      <Text key={index}>{part}</Text>
+    )
+  );
+}
+
+interface Scenario {
+  id: string;
+  slug: string;
+  language: string;
+  title: string;
+  setting: string;
+  learnerGoal: string;
+  minLevel: string;
+}
+
+const LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1'];
 
-const LEVELS = ['Beginner', 'Intermediate', 'Advanced'];
+const isScenarioAvailable = (scenario: Scenario, level: string) => {
+  const levelIndex = LEVELS.indexOf(level);
+  const minIndex = LEVELS.indexOf(scenario.minLevel);
+  return levelIndex < 0 || levelIndex >= minIndex;
+};
 
 export default function HomeScreen() {
   const theme = useTheme();
@@ -48,28 +109,108 @@ export default function HomeScreen() {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [loading, setLoading] = useState(true);
   const [showNewConversation, setShowNewConversation] = useState(false);
+  const [selectedLanguage, setSelectedLanguage] = useState(DEFAULT_LANGUAGE.name);
   const [selectedLevel, setSelectedLevel] = useState<string>('');
+  const [placedLevel, setPlacedLevel] = useState<string | null>(null);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [selectedScenarioId, setSelectedScenarioId] = useState<string | null>(null);
+  const [tutorStyleOverrides, setTutorStyleOverrides] = useState<TutorStyleSettings>({});
+  const [showTutorStyle, setShowTutorStyle] = useState(false);
   const [creating, setCreating] = useState(false);
   const [alertModal, setAlertModal] = useState<{ visible: boolean; title: string; message: string; onConfirm?: () => void; confirmText?: string; confirmStyle?: 'default' | 'destructive' }>({
     visible: false, title: '', message: '',
   });
+  const [menuTarget, setMenuTarget] = useState<Conversation | null>(null);
+  const [editTarget, setEditTarget] = useState<Conversation | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [editLevel, setEditLevel] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [hasMoreConversations, setHasMoreConversations] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  // Reload on focus so forks started from a chat show up when returning home
+  useFocusEffect(
+    useCallback(() => {
+      console.log('HomeScreen focused, user:', user);
+      if (user) {
+        loadConversations();
+        loadProfile();
+      } else {
+        setLoading(false);
+      }
+    }, [user])
+  );
 
   useEffect(() => {
-    console.log('HomeScreen mounted, user:', user);
-    if (user) {
-      loadConversations();
-    } else {
-      setLoading(false);
+    if (showNewConversation && scenarios.length === 0) {
+      loadScenarios();
+    }
+  }, [showNewConversation, scenarios.length]);
+
+  const loadScenarios = async () => {
+    console.log('[API] Loading scenarios');
+    try {
+      const data = await authenticatedGet<Scenario[]>('/api/scenarios');
+      console.log('[API] Loaded scenarios:', data.length);
+      setScenarios(data);
+    } catch (error) {
+      console.error('[API] Error loading scenarios:', error);
+    }
+  };
+
+  const loadProfile = async () => {
+    console.log('[API] Loading profile');
+    try {
+      const profile = await authenticatedGet<{ level: string | null }>('/api/me/profile');
+      console.log('[API] Loaded profile level:', profile.level);
+      setPlacedLevel(profile.level);
+    } catch (error) {
+      console.error('[API] Error loading profile:', error);
+    }
+  };
+
+  // Start from the level placed by the placement test, if the learner has taken it
+  const openNewConversation = () => {
+    setSelectedLevel(placedLevel ?? '');
+    setShowNewConversation(true);
+  };
+
+  // Scenarios are played in one language, so switching language drops a scenario from another one
+  const selectLanguage = (language: string) => {
+    setSelectedLanguage(language);
+    const scenario = scenarios.find(s => s.id === selectedScenarioId);
+    if (scenario && scenario.language !== language) {
+      setSelectedScenarioId(null);
+    }
+  };
+
+  const selectLevel = (level: string) => {
+    setSelectedLevel(level);
+    const scenario = scenarios.find(s => s.id === selectedScenarioId);
+    if (scenario && !isScenarioAvailable(scenario, level)) {
+      setSelectedScenarioId(null);
     }
-  }, [user]);
+  };
+
+  // Overrides only hold the options changed from the learner's defaults
+  const selectTutorStyleOption = (key: TutorStyleKey, value: string | null) => {
+    setTutorStyleOverrides(prev => {
+      const { [key]: _, ...rest } = prev;
+      return value === null ? rest : { ...rest, [key]: value };
+    });
+  };
 
   const loadConversations = async () => {
     console.log('[API] Loading conversations for user');
     setLoading(true);
     try {
-      const data = await authenticatedGet<Conversation[]>('/api/conversations');
+      const data = await authenticatedGet<Conversation[]>(`/api/conversations?limit=${CONVERSATIONS_PAGE_SIZE}`);
       console.log('[API] Loaded conversations:', data);
       setConversations(data);
+      setHasMoreConversations(data.length === CONVERSATIONS_PAGE_SIZE);
     } catch (error) {
       console.error('[API] Error loading conversations:', error);
       setConversations([]);
@@ -78,23 +219,97 @@ export default function HomeScreen() {
     }
   };
 
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+
+    // Ignore responses for queries the user has already typed past
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      console.log('[API] Searching conversations:', query);
+      try {
+        const data = await authenticatedGet<SearchResult[]>(`/api/search?q=${encodeURIComponent(query)}`);
+        if (!cancelled) {
+          console.log('[API] Search results:', data.length);
+          setSearchResults(data);
+        }
+      } catch (error) {
+        console.error('[API] Error searching conversations:', error);
+        if (!cancelled) {
+          setSearchResults([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
+  const openSearchResult = (result: SearchResult) => {
+    console.log('Opening search result:', result.conversationId, result.messageId);
+    if (result.messageId && result.sequence !== null) {
+      router.push(`/chat/${result.conversationId}?messageId=${result.messageId}&sequence=${result.sequence}`);
+    } else {
+      router.push(`/chat/${result.conversationId}`);
+    }
+  };
+
+  const loadMoreConversations = async () => {
+    const last = conversations[conversations.length - 1];
+    if (!last || loadingMore) {
+      return;
+    }
+
+    console.log('[API] Loading conversations older than:', last.conversationId);
+    setLoadingMore(true);
+    try {
+      const data = await authenticatedGet<Conversation[]>(
+        `/api/conversations?before=${last.conversationId}&limit=${CONVERSATIONS_PAGE_SIZE}`
+      );
+      console.log('[API] Loaded older conversations:', data.length);
+      setConversations(prev => [...prev, ...data]);
+      setHasMoreConversations(data.length === CONVERSATIONS_PAGE_SIZE);
+    } catch (error) {
+      console.error('[API] Error loading older conversations:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās ielādēt vairāk sarunu.' });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const createConversation = async () => {
     if (!selectedLevel) {
       setAlertModal({ visible: true, title: 'Trūkst informācijas', message: 'Lūdzu, izvēlieties līmeni.' });
       return;
     }
 
-    console.log('[API] Creating conversation: Latvian,', selectedLevel);
+    console.log('[API] Creating conversation:', selectedLanguage, selectedLevel, selectedScenarioId);
     setCreating(true);
     try {
       const response = await authenticatedPost<{ conversationId: string }>('/api/conversations', {
-        language: 'Latvian',
+        language: selectedLanguage,
         level: selectedLevel,
+        ...(selectedScenarioId && { scenarioId: selectedScenarioId }),
+        ...(Object.keys(tutorStyleOverrides).length > 0 && { tutorStyle: tutorStyleOverrides }),
       });
       console.log('[API] Created conversation:', response);
-      
+
       setShowNewConversation(false);
       setSelectedLevel('');
+      setSelectedScenarioId(null);
+      setTutorStyleOverrides({});
+      setShowTutorStyle(false);
       router.push(`/chat/${response.conversationId}`);
     } catch (error) {
       console.error('[API] Error creating conversation:', error);
@@ -127,6 +342,47 @@ export default function HomeScreen() {
     }
   };
 
+  const openEditConversation = (conversation: Conversation) => {
+    setMenuTarget(null);
+    setEditTarget(conversation);
+    setEditTitle(conversation.title || '');
+    setEditLevel(conversation.level);
+  };
+
+  const saveConversationEdit = async () => {
+    if (!editTarget) return;
+
+    const title = editTitle.trim();
+    const updates: { title?: string; level?: string } = {};
+    if (title && title !== editTarget.title) {
+      updates.title = title;
+    }
+    if (editLevel && editLevel !== editTarget.level) {
+      updates.level = editLevel;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      setEditTarget(null);
+      return;
+    }
+
+    console.log('[API] Updating conversation:', editTarget.conversationId, updates);
+    setSaving(true);
+    try {
+      const updated = await authenticatedPatch<Conversation>(`/api/conversations/${editTarget.conversationId}`, updates);
+      console.log('[API] Updated conversation:', updated);
+      setConversations(prev => prev.map(c =>
+        c.conversationId === updated.conversationId ? { ...c, title: updated.title, level: updated.level } : c
+      ));
+      setEditTarget(null);
+    } catch (error) {
+      console.error('[API] Error updating conversation:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās saglabāt izmaiņas. Lūdzu, mēģiniet vēlreiz.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const openConversation = (conversationId: string) => {
     console.log('Opening conversation:', conversationId);
     router.push(`/chat/${conversationId}`);
@@ -213,11 +469,67 @@ export default function HomeScreen() {
           style={styles.scrollView} 
           showsVerticalScrollIndicator={false}
         >
+          <View style={styles.section}>
+            <View style={styles.searchBar}>
+              <IconSymbol 
+                ios_icon_name="magnifyingglass" 
+                android_material_icon_name="search" 
+                size={20} 
+                color={colors.textSecondary} 
+              />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Meklēt sarunās..."
+                placeholderTextColor={colors.textSecondary}
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+                returnKeyType="search"
+                autoCorrect={false}
+                autoCapitalize="none"
+              />
+              {searchQuery.length > 0 && (
+                <TouchableOpacity onPress={() => setSearchQuery('')} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                  <IconSymbol 
+                    ios_icon_name="xmark.circle.fill" 
+                    android_material_icon_name="cancel" 
+                    size={18} 
+                    color={colors.textSecondary} 
+                  />
+                </TouchableOpacity>
+              )}
+            </View>
+            {searchQuery.trim().length > 0 && (
+              searching && searchResults.length === 0 ? (
+                <ActivityIndicator size="small" color={colors.primary} style={styles.searchStatus} />
+              ) : searchResults.length === 0 ? (
+                <Text style={[styles.searchStatus, styles.searchEmpty]}>Nekas netika atrasts</Text>
+              ) : (
+                searchResults.map((result, index) => (
+                  <TouchableOpacity
+                    key={`${result.type}-${result.messageId ?? result.conversationId}-${index}`}
+                    style={styles.searchResult}
+                    onPress={() => openSearchResult(result)}
+                  >
+                    <View style={styles.searchResultHeader}>
+                      <Text style={styles.searchResultTitle} numberOfLines={1}>
+                        {result.conversationTitle || 'Saruna'}
+                      </Text>
+                      <Text style={styles.searchResultType}>{SEARCH_RESULT_LABELS[result.type]}</Text>
+                    </View>
+                    <Text style={styles.searchResultSnippet} numberOfLines={3}>
+                      {renderSnippet(result.snippet)}
+                    </Text>
+                  </TouchableOpacity>
+                ))
+              )
+            )}
+          </View>
+
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Sākt mācīties</Text>
             <TouchableOpacity 
               style={styles.newConversationCard}
-              onPress={() => setShowNewConversation(true)}
+              onPress={openNewConversation}
             >
               <LinearGradient
                 colors={[colors.primary, colors.primaryDark]}
@@ -241,6 +553,60 @@ export default function HomeScreen() {
                 color={colors.textSecondary} 
               />
             </TouchableOpacity>
+            <TouchableOpacity 
+              style={[styles.newConversationCard, styles.secondaryCard]}
+              onPress={() => router.push('/pronunciation')}
+            >
+              <LinearGradient
+                colors={[colors.accent, colors.primary]}
+                style={styles.iconCircle}
+              >
+                <IconSymbol 
+                  ios_icon_name="mic.fill" 
+                  android_material_icon_name="mic" 
+                  size={28} 
+                  color="#FFFFFF" 
+                />
+              </LinearGradient>
+              <View style={styles.cardContent}>
+                <Text style={styles.cardTitle}>Izrunas prakse</Text>
+                <Text style={styles.cardSubtitle}>Nolasi teikumu un uzzini, kuri vārdi jāuzlabo</Text>
+              </View>
+              <IconSymbol 
+                ios_icon_name="chevron.right" 
+                android_material_icon_name="chevron-right" 
+                size={24} 
+                color={colors.textSecondary} 
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.newConversationCard, styles.secondaryCard]}
+              onPress={() => router.push('/placement')}
+            >
+              <LinearGradient
+                colors={[colors.primaryLight, colors.primary]}
+                style={styles.iconCircle}
+              >
+                <IconSymbol
+                  ios_icon_name="chart.bar.fill"
+                  android_material_icon_name="bar-chart"
+                  size={28}
+                  color="#FFFFFF"
+                />
+              </LinearGradient>
+              <View style={styles.cardContent}>
+                <Text style={styles.cardTitle}>Līmeņa tests</Text>
+                <Text style={styles.cardSubtitle}>
+                  {placedLevel ? `Tavs līmenis: ${placedLevel} · pildīt vēlreiz` : 'Nosaki savu līmeni no A1 līdz C1'}
+                </Text>
+              </View>
+              <IconSymbol
+                ios_icon_name="chevron.right"
+                android_material_icon_name="chevron-right"
+                size={24}
+                color={colors.textSecondary}
+              />
+            </TouchableOpacity>
           </View>
 
           {loading ? (
@@ -250,21 +616,35 @@ export default function HomeScreen() {
           ) : conversations.length > 0 ? (
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Nesenas sarunas</Text>
-              {conversations.map((conv, index) => {
+              {groupForks(conversations).map(({ conversation: conv, depth }, index) => {
                 const language = LANGUAGES.find(l => l.name === conv.language || l.code === conv.language);
                 const languageFlag = language?.flag || '🇱🇻';
-                const languageName = language?.name || 'Latvian';
+                const languageName = language?.name || conv.language;
                 
                 return (
                   <TouchableOpacity 
                     key={conv.conversationId || index}
-                    style={styles.conversationCard}
+                    style={[styles.conversationCard, depth > 0 && { marginLeft: depth * 24 }]}
                     onPress={() => openConversation(conv.conversationId)}
+                    onLongPress={() => setMenuTarget(conv)}
                   >
-                    <Text style={styles.conversationFlag}>{languageFlag}</Text>
+                    {depth > 0 ? (
+                      <View style={styles.forkIcon}>
+                        <IconSymbol 
+                          ios_icon_name="arrow.triangle.branch" 
+                          android_material_icon_name="call-split" 
+                          size={24} 
+                          color={colors.primary} 
+                        />
+                      </View>
+                    ) : (
+                      <Text style={styles.conversationFlag}>{languageFlag}</Text>
+                    )}
                     <View style={styles.conversationContent}>
-                      <Text style={styles.conversationLanguage}>{languageName}</Text>
-                      <Text style={styles.conversationLevel}>{conv.level}</Text>
+                      <Text style={styles.conversationLanguage} numberOfLines={1}>{conv.title || languageName}</Text>
+                      <Text style={styles.conversationLevel}>
+                        {conv.title ? `${languageName} · ${conv.level}` : conv.level}
+                      </Text>
                     </View>
                     <TouchableOpacity
                       style={styles.deleteButton}
@@ -290,6 +670,19 @@ export default function HomeScreen() {
                   </TouchableOpacity>
                 );
               })}
+              {hasMoreConversations && (
+                <TouchableOpacity
+                  style={styles.loadMoreButton}
+                  onPress={loadMoreConversations}
+                  disabled={loadingMore}
+                >
+                  {loadingMore ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <Text style={styles.loadMoreText}>Rādīt vairāk</Text>
+                  )}
+                </TouchableOpacity>
+              )}
             </View>
           ) : (
             <View style={styles.emptyState}>
@@ -341,6 +734,125 @@ export default function HomeScreen() {
           </Pressable>
         </Modal>
 
+        <Modal
+          visible={menuTarget !== null}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setMenuTarget(null)}
+        >
+          <Pressable 
+            style={styles.alertOverlay}
+            onPress={() => setMenuTarget(null)}
+          >
+            <Pressable style={styles.alertContainer} onPress={() => {}}>
+              <Text style={styles.alertTitle} numberOfLines={2}>{menuTarget?.title || 'Saruna'}</Text>
+              <TouchableOpacity
+                style={styles.menuOption}
+                onPress={() => menuTarget && openEditConversation(menuTarget)}
+              >
+                <IconSymbol 
+                  ios_icon_name="pencil" 
+                  android_material_icon_name="edit" 
+                  size={20} 
+                  color={colors.text} 
+                />
+                <Text style={styles.menuOptionText}>Pārdēvēt vai mainīt līmeni</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.menuOption}
+                onPress={() => {
+                  const target = menuTarget;
+                  setMenuTarget(null);
+                  if (target) confirmDeleteConversation(target.conversationId);
+                }}
+              >
+                <IconSymbol 
+                  ios_icon_name="delete" 
+                  android_material_icon_name="delete-outline" 
+                  size={20} 
+                  color={colors.error} 
+                />
+                <Text style={[styles.menuOptionText, { color: colors.error }]}>Dzēst sarunu</Text>
+              </TouchableOpacity>
+            </Pressable>
+          </Pressable>
+        </Modal>
+
+        <Modal
+          visible={editTarget !== null}
+          transparent
+          animationType="slide"
+          onRequestClose={() => setEditTarget(null)}
+        >
+          <View style={styles.modalOverlay}>
+            <Pressable 
+              style={styles.modalBackdrop} 
+              onPress={() => setEditTarget(null)} 
+            />
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.modalTitle}>Rediģēt sarunu</Text>
+                <TouchableOpacity onPress={() => setEditTarget(null)}>
+                  <IconSymbol 
+                    ios_icon_name="xmark" 
+                    android_material_icon_name="close" 
+                    size={24} 
+                    color={colors.text} 
+                  />
+                </TouchableOpacity>
+              </View>
+
+              <Text style={styles.modalLabel}>Nosaukums</Text>
+              <TextInput
+                style={styles.titleInput}
+                value={editTitle}
+                onChangeText={setEditTitle}
+                placeholder="Sarunas nosaukums"
+                placeholderTextColor={colors.textSecondary}
+                maxLength={120}
+              />
+
+              <Text style={styles.modalLabel}>Līmenis</Text>
+              <View style={styles.levelContainer}>
+                {LEVELS.map((level) => {
+                  const isSelected = editLevel === level;
+                  return (
+                    <TouchableOpacity
+                      key={level}
+                      style={[
+                        styles.levelOption,
+                        { 
+                          backgroundColor: isSelected ? colors.primary : colors.background,
+                        }
+                      ]}
+                      onPress={() => setEditLevel(level)}
+                    >
+                      <Text style={[
+                        styles.levelText,
+                        { color: isSelected ? '#FFFFFF' : colors.text }
+                      ]}>
+                        {level}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.createButton, { backgroundColor: colors.primary }]}
+                onPress={saveConversationEdit}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.createButtonText}>Saglabāt</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+
         <Modal
           visible={showNewConversation}
           transparent
@@ -365,9 +877,29 @@ export default function HomeScreen() {
                 </TouchableOpacity>
               </View>
 
-              <View style={styles.languageDisplay}>
-                <Text style={styles.languageDisplayFlag}>🇱🇻</Text>
-                <Text style={styles.languageDisplayText}>Latviešu</Text>
+              <Text style={styles.modalLabel}>Izvēlieties valodu</Text>
+              <View style={styles.levelContainer}>
+                {LANGUAGES.map((language) => {
+                  const isSelected = selectedLanguage === language.name;
+                  return (
+                    <TouchableOpacity
+                      key={language.code}
+                      style={[
+                        styles.languageOption,
+                        { backgroundColor: isSelected ? colors.primary : colors.background }
+                      ]}
+                      onPress={() => selectLanguage(language.name)}
+                    >
+                      <Text style={styles.languageOptionFlag}>{language.flag}</Text>
+                      <Text style={[
+                        styles.levelText,
+                        { color: isSelected ? '#FFFFFF' : colors.text }
+                      ]}>
+                        {language.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
               </View>
 
               <Text style={styles.modalLabel}>Izvēlieties līmeni</Text>
@@ -383,7 +915,7 @@ export default function HomeScreen() {
                           backgroundColor: isSelected ? colors.primary : colors.background,
                         }
                       ]}
-                      onPress={() => setSelectedLevel(level)}
+                      onPress={() => selectLevel(level)}
                     >
                       <Text style={[
                         styles.levelText,
@@ -396,6 +928,62 @@ export default function HomeScreen() {
                 })}
               </View>
 
+              <Text style={styles.modalLabel}>Izvēlieties situāciju</Text>
+              <ScrollView style={styles.scenarioList} nestedScrollEnabled>
+                <TouchableOpacity
+                  style={[
+                    styles.scenarioOption,
+                    selectedScenarioId === null && styles.scenarioOptionSelected,
+                  ]}
+                  onPress={() => setSelectedScenarioId(null)}
+                >
+                  <Text style={styles.scenarioTitle}>Brīva saruna</Text>
+                  <Text style={styles.scenarioGoal}>Runā par jebko ar AI skolotāju</Text>
+                </TouchableOpacity>
+                {scenarios.filter(s => s.language === selectedLanguage).map((scenario) => {
+                  const isSelected = selectedScenarioId === scenario.id;
+                  const available = !selectedLevel || isScenarioAvailable(scenario, selectedLevel);
+                  return (
+                    <TouchableOpacity
+                      key={scenario.id}
+                      style={[
+                        styles.scenarioOption,
+                        isSelected && styles.scenarioOptionSelected,
+                        !available && styles.scenarioOptionDisabled,
+                      ]}
+                      onPress={() => setSelectedScenarioId(scenario.id)}
+                      disabled={!available}
+                    >
+                      <Text style={styles.scenarioTitle}>{scenario.title}</Text>
+                      <Text style={styles.scenarioGoal} numberOfLines={2}>{scenario.learnerGoal}</Text>
+                      {!available && (
+                        <Text style={styles.scenarioLevel}>Līmenis: no {scenario.minLevel}</Text>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+
+              <TouchableOpacity style={styles.tutorStyleToggle} onPress={() => setShowTutorStyle(prev => !prev)}>
+                <Text style={styles.tutorStyleLabel}>Skolotāja stils</Text>
+                <View style={styles.tutorStyleToggleRight}>
+                  <Text style={styles.tutorStyleSummary}>
+                    {Object.keys(tutorStyleOverrides).length > 0 ? 'Pielāgots' : 'Noklusējums'}
+                  </Text>
+                  <IconSymbol
+                    ios_icon_name={showTutorStyle ? "chevron.up" : "chevron.down"}
+                    android_material_icon_name={showTutorStyle ? "expand-less" : "expand-more"}
+                    size={20}
+                    color={colors.textSecondary}
+                  />
+                </View>
+              </TouchableOpacity>
+              {showTutorStyle && (
+                <ScrollView style={styles.tutorStyleList} nestedScrollEnabled>
+                  <TutorStylePicker value={tutorStyleOverrides} onChange={selectTutorStyleOption} allowDefault />
+                </ScrollView>
+              )}
+
               <TouchableOpacity
                 style={[
                   styles.createButton,
@@ -497,6 +1085,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginRight: 16,
   },
+  secondaryCard: {
+    marginTop: 12,
+  },
   cardContent: {
     flex: 1,
   },
@@ -531,6 +1122,11 @@ const styles = StyleSheet.create({
     fontSize: 32,
     marginRight: 16,
   },
+  forkIcon: {
+    width: 32,
+    alignItems: 'center',
+    marginRight: 16,
+  },
   conversationContent: {
     flex: 1,
   },
@@ -544,6 +1140,72 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.textSecondary,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 14,
+    backgroundColor: colors.card,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+    paddingVertical: 0,
+  },
+  searchStatus: {
+    marginTop: 16,
+  },
+  searchEmpty: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  searchResult: {
+    padding: 14,
+    borderRadius: 14,
+    marginTop: 10,
+    backgroundColor: colors.card,
+  },
+  searchResultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  searchResultTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+    marginRight: 8,
+  },
+  searchResultType: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  searchResultSnippet: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  searchMatch: {
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  loadMoreButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  loadMoreText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 60,
@@ -638,23 +1300,15 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     marginTop: 8,
   },
-  languageDisplay: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    padding: 20,
-    backgroundColor: colors.background,
+  languageOption: {
+    flex: 1,
+    paddingVertical: 12,
     borderRadius: 16,
-    marginBottom: 24,
-  },
-  languageDisplayFlag: {
-    fontSize: 48,
-    marginRight: 16,
+    alignItems: 'center',
   },
-  languageDisplayText: {
+  languageOptionFlag: {
     fontSize: 28,
-    fontWeight: 'bold',
-    color: colors.text,
+    marginBottom: 4,
   },
   levelContainer: {
     flexDirection: 'row',
@@ -671,6 +1325,64 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  scenarioList: {
+    maxHeight: 240,
+    marginBottom: 24,
+  },
+  tutorStyleToggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  tutorStyleLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  tutorStyleToggleRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  tutorStyleSummary: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  tutorStyleList: {
+    maxHeight: 260,
+    marginBottom: 16,
+  },
+  scenarioOption: {
+    padding: 14,
+    borderRadius: 16,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    backgroundColor: colors.background,
+  },
+  scenarioOptionSelected: {
+    borderColor: colors.primary,
+  },
+  scenarioOptionDisabled: {
+    opacity: 0.5,
+  },
+  scenarioTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  scenarioGoal: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  scenarioLevel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
   createButton: {
     paddingVertical: 16,
     borderRadius: 16,
@@ -685,6 +1397,28 @@ const styles = StyleSheet.create({
     padding: 4,
     marginRight: 8,
   },
+  menuOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  menuOptionText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  titleInput: {
+    fontSize: 16,
+    color: colors.text,
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
   alertOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0,0,0,0.5)',
@@ -2,21 +2,33 @@
 import { View, Text, StyleSheet, ScrollView, Platform, TouchableOpacity, Modal, Pressable } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useAuth } from "@/contexts/AuthContext";
-import React, { useState } from "react";
-import { useRouter } from "expo-router";
+import React, { useCallback, useState } from "react";
+import { useFocusEffect, useRouter } from "expo-router";
 import { useTheme } from "@react-navigation/native";
 import { IconSymbol } from "@/components/IconSymbol";
 import { colors } from "@/styles/commonStyles";
 import { GlassView } from "expo-glass-effect";
+import { authenticatedGet } from "@/utils/api";
 
 export default function ProfileScreen() {
   const router = useRouter();
   const theme = useTheme();
   const { user, signOut, loading } = useAuth();
   const [showSignOutModal, setShowSignOutModal] = useState(false);
+  const [placedLevel, setPlacedLevel] = useState<string | null>(null);
 
   console.log("[ProfileScreen] Rendering, user:", user, "loading:", loading);
 
+  // Reload on focus so a level placed by a finished test shows up when returning here
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      authenticatedGet<{ level: string | null }>("/api/me/profile")
+        .then((profile) => setPlacedLevel(profile.level))
+        .catch((error) => console.error("[ProfileScreen] Error loading profile:", error));
+    }, [user])
+  );
+
   const handleSignOut = async () => {
     console.log("[ProfileScreen] User confirmed sign out");
     setShowSignOutModal(false);
@@ -64,12 +76,61 @@ export default function ProfileScreen() {
               <Text style={styles.infoLabel}>Lietotāja ID</Text>
               <Text style={styles.infoValue} numberOfLines={1}>{userId}</Text>
             </View>
+            <View style={styles.divider} />
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Valodas līmenis</Text>
+              <Text style={styles.infoValue}>{placedLevel ?? "nav noteikts"}</Text>
+            </View>
           </GlassView>
         </View>
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Iestatījumi</Text>
           
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => router.push("/placement")}
+          >
+            <View style={styles.menuItemLeft}>
+              <IconSymbol
+                ios_icon_name="chart.bar.fill"
+                android_material_icon_name="bar-chart"
+                size={24}
+                color={colors.primary}
+              />
+              <Text style={styles.menuItemText}>
+                {placedLevel ? "Pildīt līmeņa testu vēlreiz" : "Pildīt līmeņa testu"}
+              </Text>
+            </View>
+            <IconSymbol
+              ios_icon_name="chevron.right"
+              android_material_icon_name="arrow-forward"
+              size={20}
+              color="#666"
+            />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => router.push("/tutor-style")}
+          >
+            <View style={styles.menuItemLeft}>
+              <IconSymbol
+                ios_icon_name="person.wave.2.fill"
+                android_material_icon_name="record-voice-over"
+                size={24}
+                color={colors.primary}
+              />
+              <Text style={styles.menuItemText}>Skolotāja stils</Text>
+            </View>
+            <IconSymbol
+              ios_icon_name="chevron.right"
+              android_material_icon_name="arrow-forward"
+              size={20}
+              color="#666"
+            />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.menuItem}
             onPress={() => setShowSignOutModal(true)}
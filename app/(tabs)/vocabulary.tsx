@@ -18,26 +18,73 @@ import { IconSymbol } from '@/components/IconSymbol';
 import { colors } from '@/styles/commonStyles';
 import { useAuth } from '@/contexts/AuthContext';
 import { authenticatedGet, authenticatedDelete } from '@/utils/api';
+import { DEFAULT_LANGUAGE, LANGUAGES, SOURCE_LANGUAGE_LABEL, findLanguage } from '@/constants/Languages';
 
 interface VocabularyItem {
   id: string;
-  latvianWord: string;
-  englishTranslation: string;
+  term: string;
+  translation: string;
+  targetLanguage: string;
+  sourceLanguage: string;
+  lemma?: string | null;
+  partOfSpeech?: string | null;
+  gender?: string | null;
   context?: string;
+  // Forms the word was seen in, e.g. "skolā" and "skolas" for "skola"
+  occurrences?: { term: string }[];
   createdAt: string;
   conversationId: string;
 }
 
+const PART_OF_SPEECH_LABELS: Record<string, string> = {
+  noun: 'lietvārds',
+  verb: 'darbības vārds',
+  adjective: 'īpašības vārds',
+  adverb: 'apstākļa vārds',
+  pronoun: 'vietniekvārds',
+  numeral: 'skaitļa vārds',
+  preposition: 'prievārds',
+  conjunction: 'saiklis',
+  particle: 'partikula',
+  interjection: 'izsauksmes vārds',
+  phrase: 'frāze',
+};
+
+const GENDER_LABELS: Record<string, string> = {
+  masculine: 'vīriešu dzimte',
+  feminine: 'sieviešu dzimte',
+};
+
+// Dictionary form and grammar of a word, e.g. "māja · lietvārds, sieviešu dzimte"
+function grammarLine(item: VocabularyItem): string | null {
+  if (!item.partOfSpeech) {
+    return null;
+  }
+  const grammar = [PART_OF_SPEECH_LABELS[item.partOfSpeech] ?? item.partOfSpeech, item.gender ? GENDER_LABELS[item.gender] : null]
+    .filter(Boolean)
+    .join(', ');
+  return item.lemma && item.lemma !== item.term ? `${item.lemma} · ${grammar}` : grammar;
+}
+
+// Inflected forms the word appeared in, other than the one shown
+function formsLine(item: VocabularyItem): string | null {
+  const forms = [...new Set((item.occurrences ?? []).map(occurrence => occurrence.term.toLocaleLowerCase('lv')))]
+    .filter(form => form !== item.term.toLocaleLowerCase('lv'));
+  return forms.length > 0 ? `Formas: ${forms.join(', ')}` : null;
+}
+
 interface DailyVocabularyWord {
   id: string;
-  latvianWord: string;
-  englishTranslation: string;
+  term: string;
+  translation: string;
   context?: string;
   date: string;
 }
 
 interface DailyVocabularyResponse {
   topic: string;
+  targetLanguage: string;
+  sourceLanguage: string;
   words: DailyVocabularyWord[];
 }
 
@@ -48,6 +95,7 @@ export default function VocabularyScreen() {
   const [loadingDaily, setLoadingDaily] = useState(false);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE.name);
   const [practiceMode, setPracticeMode] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showTranslation, setShowTranslation] = useState(false);
@@ -66,10 +114,16 @@ export default function VocabularyScreen() {
     console.log('VocabularyScreen mounted');
     if (user) {
       loadVocabulary();
-      loadDailyVocabulary();
     }
   }, [user]);
 
+  // Daily words are generated per language
+  useEffect(() => {
+    if (user) {
+      loadDailyVocabulary(language);
+    }
+  }, [user, language]);
+
   const loadVocabulary = async () => {
     console.log('[API] Loading vocabulary');
     setLoading(true);
@@ -90,12 +144,15 @@ export default function VocabularyScreen() {
     }
   };
 
-  const loadDailyVocabulary = async () => {
-    console.log('[API] Loading daily vocabulary');
+  const loadDailyVocabulary = async (dailyLanguage: string) => {
+    console.log('[API] Loading daily vocabulary:', dailyLanguage);
     setLoadingDaily(true);
+    setDailyVocabulary(null);
     try {
       console.log('[API] Requesting /api/vocabulary/daily...');
-      const data = await authenticatedGet<DailyVocabularyResponse>('/api/vocabulary/daily');
+      const data = await authenticatedGet<DailyVocabularyResponse>(
+        `/api/vocabulary/daily?language=${encodeURIComponent(dailyLanguage)}`
+      );
       console.log('[API] Loaded daily vocabulary:', data.topic, 'with', data.words.length, 'words');
       setDailyVocabulary(data);
     } catch (error) {
@@ -111,11 +168,10 @@ export default function VocabularyScreen() {
   };
 
   const confirmDeleteVocabulary = (id: string, word: string) => {
-    const latvianWord = word;
     setAlertModal({
       visible: true,
       title: 'Dzēst vārdu?',
-      message: `Vai tiešām vēlaties dzēst "${latvianWord}"?`,
+      message: `Vai tiešām vēlaties dzēst "${word}"?`,
       onConfirm: () => deleteVocabulary(id),
     });
   };
@@ -177,8 +233,9 @@ export default function VocabularyScreen() {
 
   const filteredVocabulary = vocabulary.filter(
     (item) =>
-      item.latvianWord.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.englishTranslation.toLowerCase().includes(searchQuery.toLowerCase())
+      item.targetLanguage === language &&
+      (item.term.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        item.translation.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
   if (loading) {
@@ -227,10 +284,12 @@ export default function VocabularyScreen() {
             >
               <LinearGradient colors={[colors.primary, colors.primaryDark]} style={styles.flashcardGradient}>
                 <Text style={styles.flashcardWord}>
-                  {showTranslation ? currentWord.englishTranslation : currentWord.latvianWord}
+                  {showTranslation ? currentWord.translation : currentWord.term}
                 </Text>
                 <Text style={styles.flashcardHint}>
-                  {showTranslation ? '(English)' : '(Latviešu)'}
+                  {showTranslation
+                    ? `(${SOURCE_LANGUAGE_LABEL})`
+                    : `(${findLanguage(currentWord.targetLanguage)?.label ?? currentWord.targetLanguage})`}
                 </Text>
                 {currentWord.context && (
                   <Text style={styles.flashcardContext}>
@@ -358,6 +417,23 @@ export default function VocabularyScreen() {
           </View>
         )}
 
+        <View style={styles.languageTabs}>
+          {LANGUAGES.map((option) => {
+            const isSelected = language === option.name;
+            return (
+              <TouchableOpacity
+                key={option.code}
+                style={[styles.languageTab, { backgroundColor: isSelected ? colors.primary : colors.card }]}
+                onPress={() => setLanguage(option.name)}
+              >
+                <Text style={[styles.languageTabText, { color: isSelected ? '#FFFFFF' : colors.text }]}>
+                  {option.flag} {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
         <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
           {dailyVocabulary && (
             <View style={styles.dailySection}>
@@ -382,9 +458,9 @@ export default function VocabularyScreen() {
                     </View>
                     <View style={styles.dailyWordContent}>
                       <View style={styles.dailyWordHeader}>
-                        <Text style={[styles.dailyLatvianWord, { color: colors.text }]}>{word.latvianWord}</Text>
+                        <Text style={[styles.dailyTerm, { color: colors.text }]}>{word.term}</Text>
                         <IconSymbol ios_icon_name="arrow.right" android_material_icon_name="arrow-forward" size={14} color={colors.textSecondary} />
-                        <Text style={[styles.dailyEnglishWord, { color: colors.textSecondary }]}>{word.englishTranslation}</Text>
+                        <Text style={[styles.dailyTranslation, { color: colors.textSecondary }]}>{word.translation}</Text>
                       </View>
                       {word.context && (
                         <Text style={[styles.dailyContextText, { color: colors.textSecondary }]}>{word.context}</Text>
@@ -422,17 +498,23 @@ export default function VocabularyScreen() {
                   <View key={item.id} style={[styles.vocabularyCard, { backgroundColor: colors.card }]}>
                     <View style={styles.vocabularyCardHeader}>
                       <View style={styles.vocabularyCardWords}>
-                        <Text style={[styles.latvianWord, { color: colors.text }]}>{item.latvianWord}</Text>
+                        <Text style={[styles.termText, { color: colors.text }]}>{item.term}</Text>
                         <IconSymbol ios_icon_name="arrow.right" android_material_icon_name="arrow-forward" size={16} color={colors.textSecondary} />
-                        <Text style={[styles.englishWord, { color: colors.textSecondary }]}>{item.englishTranslation}</Text>
+                        <Text style={[styles.translationText, { color: colors.textSecondary }]}>{item.translation}</Text>
                       </View>
                       <TouchableOpacity
-                        onPress={() => confirmDeleteVocabulary(item.id, item.latvianWord)}
+                        onPress={() => confirmDeleteVocabulary(item.id, item.term)}
                         style={styles.deleteButton}
                       >
                         <IconSymbol ios_icon_name="trash" android_material_icon_name="delete" size={20} color={colors.textSecondary} />
                       </TouchableOpacity>
                     </View>
+                    {grammarLine(item) && (
+                      <Text style={[styles.grammarText, { color: colors.textSecondary }]}>{grammarLine(item)}</Text>
+                    )}
+                    {formsLine(item) && (
+                      <Text style={[styles.grammarText, { color: colors.textSecondary }]}>{formsLine(item)}</Text>
+                    )}
                     {item.context && (
                       <Text style={[styles.contextText, { color: colors.textSecondary }]}>{item.context}</Text>
                     )}
@@ -485,6 +567,21 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  languageTabs: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    marginBottom: 16,
+  },
+  languageTab: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  languageTabText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -546,16 +643,20 @@ const styles = StyleSheet.create({
     gap: 8,
     flexWrap: 'wrap',
   },
-  latvianWord: {
+  termText: {
     fontSize: 18,
     fontWeight: '600',
   },
-  englishWord: {
+  translationText: {
     fontSize: 16,
   },
   deleteButton: {
     padding: 4,
   },
+  grammarText: {
+    fontSize: 13,
+    marginBottom: 6,
+  },
   contextText: {
     fontSize: 14,
     fontStyle: 'italic',
@@ -709,11 +810,11 @@ const styles = StyleSheet.create({
     marginBottom: 6,
     flexWrap: 'wrap',
   },
-  dailyLatvianWord: {
+  dailyTerm: {
     fontSize: 17,
     fontWeight: '600',
   },
-  dailyEnglishWord: {
+  dailyTranslation: {
     fontSize: 15,
   },
   dailyContextText: {
@@ -173,6 +173,30 @@ export default function RootLayout() {
                     presentation: 'card'
                   }} 
                 />
+                <Stack.Screen 
+                  name="pronunciation" 
+                  options={{ 
+                    headerShown: true,
+                    title: 'Pronunciation',
+                    presentation: 'card'
+                  }} 
+                />
+                <Stack.Screen
+                  name="placement"
+                  options={{
+                    headerShown: true,
+                    title: 'Placement',
+                    presentation: 'card'
+                  }}
+                />
+                <Stack.Screen
+                  name="tutor-style"
+                  options={{
+                    headerShown: true,
+                    title: 'Tutor style',
+                    presentation: 'card'
+                  }}
+                />
               </Stack>
               <SystemBars style={"auto"} />
               </GestureHandlerRootView>
@@ -12,50 +12,165 @@ import {
   ActivityIndicator,
   Modal,
   Pressable,
+  Share,
 } from 'react-native';
-import { useLocalSearchParams, Stack } from 'expo-router';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useAudioPlayer, useAudioPlayerStatus, setAudioModeAsync } from 'expo-audio';
 import { colors } from '@/styles/commonStyles';
 import { IconSymbol } from '@/components/IconSymbol';
 import { useAuth } from '@/contexts/AuthContext';
-import { authenticatedGet, authenticatedPost } from '@/utils/api';
+import { authenticatedGet, authenticatedGetRaw, authenticatedPost, authenticatedPatch, authenticatedPostStream } from '@/utils/api';
+
+interface Correction {
+  id: string;
+  originalText: string;
+  correctedText: string;
+  category: string;
+  explanation: string;
+  spanStart: number | null;
+  spanEnd: number | null;
+}
 
 interface Message {
   id: string;
+  // Set on messages loaded from the backend; used as the cursor for older pages
+  sequence?: number;
   role: 'user' | 'assistant';
   content: string;
   createdAt: string;
+  corrections?: Correction[];
+  // Signed URL of the learner's recording or the tutor's speech; expires, so it is refreshed on every load
+  audioUrl?: string | null;
+  durationMs?: number | null;
+}
+
+interface ReplyResponse {
+  response: string;
+  messageId: string;
+  userMessageId: string;
+  corrections: Correction[];
+  audioUrl?: string | null;
+  audioDurationMs?: number | null;
+  jobs?: QueuedJob[];
+}
+
+// Background job producing a reply's vocabulary, speech or the conversation title
+interface QueuedJob {
+  id: string;
+  type: string;
+  status: 'pending' | 'running' | 'completed' | 'dead';
+}
+
+// Server-Sent Events of a streamed reply
+type StreamEvent =
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'message'; data: { messageId: string; response: string; createdAt: string } }
+  | { event: 'corrections'; data: { messageId: string; items: Correction[] } }
+  | { event: 'jobs'; data: { items: QueuedJob[] } }
+  | { event: 'done'; data: { messageId: string } }
+  | { event: 'error'; data: { error: string } };
+
+interface ConversationDetails {
+  conversationId: string;
+  title: string | null;
+  summary: string | null;
+}
+
+// Suggested reply for a learner who does not know what to say next
+interface ReplyHint {
+  difficulty: 'easier' | 'at_level' | 'stretch';
+  text: string;
+  gloss: string;
 }
 
+const HINT_DIFFICULTY_LABELS: Record<ReplyHint['difficulty'], string> = {
+  easier: 'Vienkāršāk',
+  at_level: 'Tavā līmenī',
+  stretch: 'Izaicinājums',
+};
+
 interface VocabularyItem {
   id: string;
-  latvianWord: string;
-  englishTranslation: string;
+  term: string;
+  translation: string;
   context?: string;
   createdAt: string;
 }
 
+const MESSAGES_PAGE_SIZE = 50;
+
+// Distance from the top of the message list at which older messages start loading
+const LOAD_OLDER_THRESHOLD = 80;
+
+// Messages shown above a search result when the chat is opened at it
+const JUMP_CONTEXT_MESSAGES = 5;
+
+// How often and how long to poll the background jobs of a reply
+const JOB_POLL_INTERVAL_MS = 1000;
+const JOB_POLL_ATTEMPTS = 30;
+
+type ExportFormat = 'md' | 'json' | 'html';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'HTML (drukāšanai)' },
+  { format: 'json', label: 'JSON' },
+];
+
 export default function ChatScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
+  // messageId and sequence are set when the chat is opened from a search result
+  const { id, messageId: targetMessageId, sequence: targetSequence } = useLocalSearchParams<{
+    id: string;
+    messageId?: string;
+    sequence?: string;
+  }>();
   const { user } = useAuth();
+  const router = useRouter();
   const scrollViewRef = useRef<ScrollView>(null);
+  // Set while older messages are prepended so the list does not jump to the end
+  const skipAutoScrollRef = useRef(false);
+  // Message to scroll to; scrolling to the end is paused until the user sends or rewrites a message
+  const jumpTargetRef = useRef<string | null>(targetMessageId ?? null);
   
   const [messages, setMessages] = useState<Message[]>([]);
   const [vocabulary, setVocabulary] = useState<VocabularyItem[]>([]);
   const [inputText, setInputText] = useState('');
+  const [hints, setHints] = useState<ReplyHint[]>([]);
+  const [loadingHints, setLoadingHints] = useState(false);
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
   const [showVocabulary, setShowVocabulary] = useState(false);
+  const [conversation, setConversation] = useState<ConversationDetails | null>(null);
+  const [showSummary, setShowSummary] = useState(false);
+  const [editTarget, setEditTarget] = useState<Message | null>(null);
+  const [editText, setEditText] = useState('');
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(targetMessageId ?? null);
+  const [showExport, setShowExport] = useState(false);
+  const [playingMessageId, setPlayingMessageId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
   const [alertModal, setAlertModal] = useState<{ visible: boolean; title: string; message: string }>({
     visible: false, title: '', message: '',
   });
+  const audioPlayer = useAudioPlayer(null);
+  const audioStatus = useAudioPlayerStatus(audioPlayer);
+
+  useEffect(() => {
+    if (audioStatus.didJustFinish) {
+      setPlayingMessageId(null);
+    }
+  }, [audioStatus.didJustFinish]);
 
   useEffect(() => {
     console.log('ChatScreen mounted, conversationId:', id);
     if (user && id) {
       loadMessages();
       loadVocabulary();
+      loadConversation();
     }
   }, [id, user]);
 
@@ -63,7 +178,15 @@ export default function ChatScreen() {
     console.log('[API] Loading messages for conversation:', id);
     setLoading(true);
     try {
-      const data = await authenticatedGet<Message[]>(`/api/conversations/${id}/messages`);
+      let data: Message[];
+      if (jumpTargetRef.current && targetSequence) {
+        // Load from just above the search result to the latest message
+        data = await loadMessagesAfter(Math.max(0, Number(targetSequence) - JUMP_CONTEXT_MESSAGES - 1));
+        setHasOlderMessages(data.length > 0 && (data[0].sequence ?? 0) > 1);
+      } else {
+        data = await authenticatedGet<Message[]>(`/api/conversations/${id}/messages?limit=${MESSAGES_PAGE_SIZE}`);
+        setHasOlderMessages(data.length === MESSAGES_PAGE_SIZE);
+      }
       console.log('[API] Loaded messages:', data);
       
       if (data.length === 0) {
@@ -92,6 +215,60 @@ export default function ChatScreen() {
     }
   };
 
+  // Read every message after a sequence number, page by page
+  const loadMessagesAfter = async (after: number): Promise<Message[]> => {
+    const loaded: Message[] = [];
+    let cursor = after;
+    for (;;) {
+      const page = await authenticatedGet<Message[]>(
+        `/api/conversations/${id}/messages?after=${cursor}&limit=${MESSAGES_PAGE_SIZE}`
+      );
+      loaded.push(...page);
+      if (page.length < MESSAGES_PAGE_SIZE) {
+        return loaded;
+      }
+      cursor = page[page.length - 1].sequence ?? cursor;
+    }
+  };
+
+  const stopJump = () => {
+    jumpTargetRef.current = null;
+    setHighlightedMessageId(null);
+  };
+
+  const loadOlderMessages = async () => {
+    const oldest = messages.find(m => m.sequence !== undefined);
+    if (!oldest || !hasOlderMessages || loadingOlder) {
+      return;
+    }
+
+    console.log('[API] Loading messages before sequence:', oldest.sequence);
+    setLoadingOlder(true);
+    try {
+      const data = await authenticatedGet<Message[]>(
+        `/api/conversations/${id}/messages?before=${oldest.sequence}&limit=${MESSAGES_PAGE_SIZE}`
+      );
+      console.log('[API] Loaded older messages:', data.length);
+      skipAutoScrollRef.current = true;
+      setMessages(prev => [...data, ...prev]);
+      setHasOlderMessages(data.length === MESSAGES_PAGE_SIZE);
+    } catch (error) {
+      console.error('[API] Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const loadConversation = async () => {
+    console.log('[API] Loading conversation details:', id);
+    try {
+      const data = await authenticatedGet<ConversationDetails>(`/api/conversations/${id}`);
+      setConversation(data);
+    } catch (error) {
+      console.error('[API] Error loading conversation details:', error);
+    }
+  };
+
   const loadVocabulary = async () => {
     console.log('[API] Loading vocabulary for conversation:', id);
     try {
@@ -104,6 +281,33 @@ export default function ChatScreen() {
     }
   };
 
+  // Hints are suggestions only; picking one fills the input so the learner can adjust it before sending
+  const requestHints = async () => {
+    if (loadingHints) return;
+    if (hints.length > 0) {
+      setHints([]);
+      return;
+    }
+
+    console.log('[API] Requesting reply hints');
+    setLoadingHints(true);
+    try {
+      const data = await authenticatedPost<{ hints: ReplyHint[] }>(`/api/conversations/${id}/hints`, {});
+      console.log('[API] Received reply hints:', data.hints.length);
+      setHints(data.hints);
+    } catch (error) {
+      console.error('[API] Error requesting reply hints:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās saņemt padomus. Lūdzu, mēģiniet vēlreiz.' });
+    } finally {
+      setLoadingHints(false);
+    }
+  };
+
+  const pickHint = (hint: ReplyHint) => {
+    setInputText(hint.text);
+    setHints([]);
+  };
+
   const sendMessage = async () => {
     if (!inputText.trim() || sending) {
       return;
@@ -111,6 +315,7 @@ export default function ChatScreen() {
 
     const userMessage = inputText.trim();
     console.log('Sending message:', userMessage);
+    stopJump();
     
     const tempUserMessage: Message = {
       id: Date.now().toString(),
@@ -121,33 +326,78 @@ export default function ChatScreen() {
 
     setMessages(prev => [...prev, tempUserMessage]);
     setInputText('');
+    setHints([]);
     setSending(true);
 
     try {
-      console.log('[API] Requesting /api/conversations/' + id + '/messages...');
-      const response = await authenticatedPost<{ response: string; messageId: string }>(
-        `/api/conversations/${id}/messages`,
-        { message: userMessage }
-      );
-      console.log('[API] Received AI response:', response);
-      
-      const aiResponse: Message = {
-        id: response.messageId,
-        role: 'assistant',
-        content: response.response,
-        createdAt: new Date().toISOString(),
+      console.log('[API] Requesting /api/conversations/' + id + '/messages/stream...');
+      let streamError: string | null = null;
+      let receivedReply = false;
+
+      const handleEvent = (streamEvent: StreamEvent) => {
+        if (streamEvent.event === 'delta') {
+          setStreamingText(prev => prev + streamEvent.data.text);
+        } else if (streamEvent.event === 'message') {
+          const { messageId, response, createdAt } = streamEvent.data;
+          console.log('[API] Received AI response:', messageId);
+          receivedReply = true;
+          const aiResponse: Message = {
+            id: messageId,
+            role: 'assistant',
+            content: response,
+            createdAt,
+          };
+          setStreamingText('');
+          setMessages(prev => [...prev, aiResponse]);
+          setSending(false);
+        } else if (streamEvent.event === 'corrections') {
+          // Swap the temporary id for the saved one and attach the analysed corrections
+          const { messageId, items } = streamEvent.data;
+          setMessages(prev => prev.map(m =>
+            m.id === tempUserMessage.id ? { ...m, id: messageId, corrections: items } : m
+          ));
+        } else if (streamEvent.event === 'jobs') {
+          // Vocabulary, title and speech arrive once the reply's background jobs have run
+          refreshAfterJobs(streamEvent.data.items);
+        } else if (streamEvent.event === 'error') {
+          streamError = streamEvent.data.error;
+        }
       };
-      
-      setMessages(prev => [...prev, aiResponse]);
-      
-      // Reload vocabulary after AI response (it may have extracted new words)
-      loadVocabulary();
-      
+
+      // The temporary id doubles as the Idempotency-Key, so a retry after a dropped connection
+      // gets the original exchange back instead of sending the message twice
+      const streamMessage = () =>
+        authenticatedPostStream<StreamEvent>(
+          `/api/conversations/${id}/messages/stream`,
+          { message: userMessage },
+          handleEvent,
+          { 'Idempotency-Key': tempUserMessage.id }
+        );
+
+      try {
+        await streamMessage();
+      } catch (error) {
+        if (receivedReply || !(error instanceof Error) || error.message !== 'Network request failed') {
+          throw error;
+        }
+        console.log('[API] Connection dropped, retrying message');
+        setStreamingText('');
+        await streamMessage();
+      }
+
+      if (!receivedReply) {
+        throw new Error(streamError || 'Stream ended without a reply');
+      }
+
+      // Older turns may have been folded into the summary
+      loadConversation();
+
       setTimeout(() => {
         scrollViewRef.current?.scrollToEnd({ animated: true });
       }, 100);
     } catch (error) {
       console.error('[API] Error sending message:', error);
+      setStreamingText('');
       setMessages(prev => prev.filter(m => m.id !== tempUserMessage.id));
       setInputText(userMessage);
       setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās nosūtīt ziņu. Lūdzu, mēģiniet vēlreiz.' });
@@ -156,6 +406,249 @@ export default function ChatScreen() {
     }
   };
 
+  // Messages after the edited or regenerated one are replaced by the new reply
+  const applyReply = (keepUntil: number, data: ReplyResponse) => {
+    const reply: Message = {
+      id: data.messageId,
+      role: 'assistant',
+      content: data.response,
+      createdAt: new Date().toISOString(),
+      audioUrl: data.audioUrl ?? null,
+      durationMs: data.audioDurationMs ?? null,
+    };
+    setMessages(prev => [
+      ...prev.slice(0, keepUntil).map(m =>
+        m.id === data.userMessageId ? { ...m, corrections: data.corrections } : m
+      ),
+      reply,
+    ]);
+    // Vocabulary from the replaced replies was removed on the backend, and the new reply's is still being extracted
+    refreshAfterJobs(data.jobs);
+  };
+
+  // Wait for the reply's background jobs to settle, then pick up the vocabulary, title and speech they produced
+  const refreshAfterJobs = async (jobs: QueuedJob[] = []) => {
+    const pending = new Set(jobs.map(job => job.id));
+
+    for (let attempt = 0; pending.size > 0 && attempt < JOB_POLL_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      try {
+        const statuses = await authenticatedGet<QueuedJob[]>(`/api/conversations/${id}/jobs`);
+        for (const job of statuses) {
+          if (job.status === 'completed' || job.status === 'dead') {
+            pending.delete(job.id);
+          }
+        }
+      } catch (error) {
+        console.error('[API] Error polling jobs:', error);
+        break;
+      }
+    }
+
+    loadVocabulary();
+    loadConversation();
+
+    try {
+      const latest = await authenticatedGet<Message[]>(`/api/conversations/${id}/messages?limit=${MESSAGES_PAGE_SIZE}`);
+      const byId = new Map(latest.map(m => [m.id, m]));
+      setMessages(prev => prev.map(m => {
+        const fresh = byId.get(m.id);
+        return fresh ? { ...m, audioUrl: fresh.audioUrl, durationMs: fresh.durationMs } : m;
+      }));
+    } catch (error) {
+      console.error('[API] Error refreshing message audio:', error);
+    }
+  };
+
+  const openEditMessage = (message: Message) => {
+    setEditTarget(message);
+    setEditText(message.content);
+  };
+
+  const saveMessageEdit = async () => {
+    if (!editTarget || !editText.trim() || sending) {
+      return;
+    }
+
+    const target = editTarget;
+    const content = editText.trim();
+    const index = messages.findIndex(m => m.id === target.id);
+    console.log('[API] Editing message:', target.id);
+
+    setEditTarget(null);
+    stopJump();
+    // The recording no longer matches the edited text
+    setMessages(prev => prev.slice(0, index).concat({ ...target, content, corrections: [], audioUrl: null, durationMs: null }));
+    setSending(true);
+
+    try {
+      const data = await authenticatedPatch<ReplyResponse>(
+        `/api/conversations/${id}/messages/${target.id}`,
+        { message: content }
+      );
+      console.log('[API] Received AI response to edited message:', data.messageId);
+      applyReply(index + 1, data);
+    } catch (error) {
+      console.error('[API] Error editing message:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās labot ziņu. Lūdzu, mēģiniet vēlreiz.' });
+      loadMessages();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const regenerateReply = async (message: Message) => {
+    if (sending) {
+      return;
+    }
+
+    const index = messages.findIndex(m => m.id === message.id);
+    console.log('[API] Regenerating reply:', message.id);
+    stopJump();
+
+    setMessages(prev => prev.slice(0, index));
+    setSending(true);
+
+    try {
+      const data = await authenticatedPost<ReplyResponse>(
+        `/api/conversations/${id}/messages/${message.id}/regenerate`,
+        {}
+      );
+      console.log('[API] Received regenerated AI response:', data.messageId);
+      applyReply(index, data);
+    } catch (error) {
+      console.error('[API] Error regenerating reply:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās ģenerēt jaunu atbildi. Lūdzu, mēģiniet vēlreiz.' });
+      loadMessages();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const forkFromMessage = async (message: Message) => {
+    console.log('[API] Forking conversation from message:', message.id);
+    try {
+      const data = await authenticatedPost<{ conversationId: string }>(
+        `/api/conversations/${id}/fork`,
+        { fromMessageId: message.id }
+      );
+      console.log('[API] Created fork:', data.conversationId);
+      router.push(`/chat/${data.conversationId}`);
+    } catch (error) {
+      console.error('[API] Error forking conversation:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās izveidot jaunu zaru. Lūdzu, mēģiniet vēlreiz.' });
+    }
+  };
+
+  // Browsers save the export as a file; native platforms open the share sheet with the text
+  const downloadOnWeb = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportFileName = (response: Response, fallback: string) => {
+    const match = response.headers.get('content-disposition')?.match(/filename="([^"]+)"/);
+    return match ? match[1] : fallback;
+  };
+
+  const exportConversation = async (format: ExportFormat) => {
+    console.log('[API] Exporting conversation:', id, format);
+    setExporting(true);
+    try {
+      const response = await authenticatedGetRaw(`/api/conversations/${id}/export?format=${format}`);
+      const text = await response.text();
+      if (Platform.OS === 'web') {
+        const type = response.headers.get('content-type') || 'text/plain';
+        downloadOnWeb(new Blob([text], { type }), exportFileName(response, `saruna-${id}.${format}`));
+      } else {
+        await Share.share({ title: conversation?.title || 'Saruna', message: text });
+      }
+      setShowExport(false);
+    } catch (error) {
+      console.error('[API] Error exporting conversation:', error);
+      setShowExport(false);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās eksportēt sarunu. Lūdzu, mēģiniet vēlreiz.' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportAllConversations = async () => {
+    console.log('[API] Exporting all conversations as zip');
+    setExporting(true);
+    try {
+      const response = await authenticatedGetRaw('/api/conversations/export?format=md');
+      const blob = await response.blob();
+      downloadOnWeb(blob, exportFileName(response, 'sarunas.zip'));
+      setShowExport(false);
+    } catch (error) {
+      console.error('[API] Error exporting conversations:', error);
+      setShowExport(false);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās eksportēt sarunas. Lūdzu, mēģiniet vēlreiz.' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const toggleMessageAudio = async (message: Message) => {
+    if (!message.audioUrl) {
+      return;
+    }
+
+    if (playingMessageId === message.id) {
+      audioPlayer.pause();
+      setPlayingMessageId(null);
+      return;
+    }
+
+    console.log('[Audio] Playing message audio:', message.id);
+    try {
+      await setAudioModeAsync({ playsInSilentMode: true });
+      audioPlayer.replace({ uri: message.audioUrl });
+      audioPlayer.play();
+      setPlayingMessageId(message.id);
+    } catch (error) {
+      console.error('[Audio] Error playing message audio:', error);
+      setPlayingMessageId(null);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās atskaņot ierakstu.' });
+    }
+  };
+
+  const formatDuration = (durationMs: number) => {
+    const totalSeconds = Math.max(1, Math.round(durationMs / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds < 10 ? `0${seconds}` : seconds}`;
+  };
+
+  const renderPlayButton = (message: Message, color: string) => {
+    if (!message.audioUrl) {
+      return null;
+    }
+    const isPlaying = playingMessageId === message.id;
+    return (
+      <TouchableOpacity
+        onPress={() => toggleMessageAudio(message)}
+        style={[styles.messageAction, styles.playButton]}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <IconSymbol
+          ios_icon_name={isPlaying ? 'pause.fill' : 'play.fill'}
+          android_material_icon_name={isPlaying ? 'pause' : 'play-arrow'}
+          size={14}
+          color={color}
+        />
+        {message.durationMs ? (
+          <Text style={[styles.playButtonText, { color }]}>{formatDuration(message.durationMs)}</Text>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
     const hours = date.getHours();
@@ -166,21 +659,51 @@ export default function ChatScreen() {
     return timeString;
   };
 
-  const extractVocabularyFromMessage = (content: string): Array<{ latvian: string; english: string }> => {
-    const vocabList: Array<{ latvian: string; english: string }> = [];
+  const renderContentWithCorrections = (content: string, corrections: Correction[]) => {
+    const spans = corrections
+      .filter(c => c.spanStart !== null && c.spanEnd !== null)
+      .sort((a, b) => (a.spanStart as number) - (b.spanStart as number));
+
+    const segments: React.ReactNode[] = [];
+    let cursor = 0;
+    spans.forEach((correction) => {
+      const start = correction.spanStart as number;
+      const end = correction.spanEnd as number;
+      if (start < cursor) {
+        return;
+      }
+      if (start > cursor) {
+        segments.push(content.slice(cursor, start));
+      }
+      segments.push(
+        <Text key={correction.id} style={styles.correctionUnderline}>
+          {content.slice(start, end)}
+        </Text>
+      );
+      cursor = end;
+    });
+    if (cursor < content.length) {
+      segments.push(content.slice(cursor));
+    }
+    return segments;
+  };
+
+  // Words are matched by Unicode letter class so diacritics (ā, ė, õ) stay part of the word
+  const extractVocabularyFromMessage = (content: string): { term: string; translation: string }[] => {
+    const vocabList: { term: string; translation: string }[] = [];
     
     // Pattern 1: "word (translation)"
-    const pattern1 = /(\w+)\s*\(([^)]+)\)/g;
+    const pattern1 = /([\p{L}\p{M}]+)\s*\(([^)]+)\)/gu;
     let match1;
     while ((match1 = pattern1.exec(content)) !== null) {
-      vocabList.push({ latvian: match1[1], english: match1[2] });
+      vocabList.push({ term: match1[1], translation: match1[2] });
     }
     
-    // Pattern 2: "latvian - english" or "latvian → english"
-    const pattern2 = /(\w+)\s*[-→]\s*(\w+)/g;
+    // Pattern 2: "term - translation" or "term → translation"
+    const pattern2 = /([\p{L}\p{M}]+)\s*[-→]\s*([\p{L}\p{M}]+)/gu;
     let match2;
     while ((match2 = pattern2.exec(content)) !== null) {
-      vocabList.push({ latvian: match2[1], english: match2[2] });
+      vocabList.push({ term: match2[1], translation: match2[2] });
     }
     
     return vocabList;
@@ -211,25 +734,39 @@ export default function ChatScreen() {
     <>
       <Stack.Screen
         options={{
-          title: 'Prakse',
+          title: conversation?.title || 'Prakse',
           headerBackTitle: 'Atpakaļ',
-          headerRight: () =>
-            vocabularyCount > 0 ? (
+          headerRight: () => (
+            <View style={styles.headerButtons}>
               <TouchableOpacity
-                onPress={() => setShowVocabulary(true)}
+                onPress={() => setShowExport(true)}
                 style={styles.vocabularyButton}
               >
                 <IconSymbol
-                  ios_icon_name="book.fill"
-                  android_material_icon_name="menu-book"
+                  ios_icon_name="square.and.arrow.up"
+                  android_material_icon_name="share"
                   size={20}
                   color={colors.primary}
                 />
-                <Text style={[styles.vocabularyButtonText, { color: colors.primary }]}>
-                  {vocabularyCountText}
-                </Text>
               </TouchableOpacity>
-            ) : null,
+              {vocabularyCount > 0 ? (
+                <TouchableOpacity
+                  onPress={() => setShowVocabulary(true)}
+                  style={styles.vocabularyButton}
+                >
+                  <IconSymbol
+                    ios_icon_name="book.fill"
+                    android_material_icon_name="menu-book"
+                    size={20}
+                    color={colors.primary}
+                  />
+                  <Text style={[styles.vocabularyButtonText, { color: colors.primary }]}>
+                    {vocabularyCountText}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          ),
         }}
       />
       <Modal
@@ -255,6 +792,86 @@ export default function ChatScreen() {
         </Pressable>
       </Modal>
 
+      <Modal
+        visible={editTarget !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setEditTarget(null)}
+      >
+        <Pressable style={chatStyles.alertOverlay} onPress={() => setEditTarget(null)}>
+          <Pressable style={chatStyles.alertContainer} onPress={() => {}}>
+            <Text style={chatStyles.alertTitle}>Labot ziņu</Text>
+            <Text style={chatStyles.alertMessage}>Skolotājs atbildēs no jauna, un turpmākās ziņas tiks dzēstas.</Text>
+            <TextInput
+              style={chatStyles.editInput}
+              value={editText}
+              onChangeText={setEditText}
+              multiline
+              maxLength={500}
+              autoFocus
+            />
+            <View style={chatStyles.editButtons}>
+              <TouchableOpacity
+                style={[chatStyles.alertButton, chatStyles.editButton, { backgroundColor: colors.border }]}
+                onPress={() => setEditTarget(null)}
+              >
+                <Text style={[chatStyles.alertButtonText, { color: colors.text }]}>Atcelt</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[chatStyles.alertButton, chatStyles.editButton]}
+                onPress={saveMessageEdit}
+                disabled={!editText.trim()}
+              >
+                <Text style={chatStyles.alertButtonText}>Saglabāt</Text>
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
+      <Modal
+        visible={showExport}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowExport(false)}
+      >
+        <Pressable style={chatStyles.alertOverlay} onPress={() => !exporting && setShowExport(false)}>
+          <Pressable style={chatStyles.alertContainer} onPress={() => {}}>
+            <Text style={chatStyles.alertTitle}>Eksportēt sarunu</Text>
+            <Text style={chatStyles.alertMessage}>Ziņas ar laikiem, labojumiem un vārdnīcu.</Text>
+            {exporting ? (
+              <ActivityIndicator size="small" color={colors.primary} style={chatStyles.exportSpinner} />
+            ) : (
+              <>
+                {EXPORT_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.format}
+                    style={[chatStyles.alertButton, chatStyles.exportOption]}
+                    onPress={() => exportConversation(option.format)}
+                  >
+                    <Text style={chatStyles.alertButtonText}>{option.label}</Text>
+                  </TouchableOpacity>
+                ))}
+                {Platform.OS === 'web' && (
+                  <TouchableOpacity
+                    style={[chatStyles.alertButton, chatStyles.exportOption, { backgroundColor: colors.accent }]}
+                    onPress={exportAllConversations}
+                  >
+                    <Text style={chatStyles.alertButtonText}>Visas sarunas (.zip)</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={[chatStyles.alertButton, { backgroundColor: colors.border }]}
+                  onPress={() => setShowExport(false)}
+                >
+                  <Text style={[chatStyles.alertButtonText, { color: colors.text }]}>Atcelt</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </Pressable>
+        </Pressable>
+      </Modal>
+
       <Modal
         visible={showVocabulary}
         animationType="slide"
@@ -272,14 +889,14 @@ export default function ChatScreen() {
             {vocabulary.map((item) => (
               <View key={item.id} style={[styles.vocabularyItem, { backgroundColor: colors.card }]}>
                 <View style={styles.vocabularyItemHeader}>
-                  <Text style={[styles.vocabularyLatvian, { color: colors.text }]}>{item.latvianWord}</Text>
+                  <Text style={[styles.vocabularyTerm, { color: colors.text }]}>{item.term}</Text>
                   <IconSymbol
                     ios_icon_name="arrow.right"
                     android_material_icon_name="arrow-forward"
                     size={16}
                     color={colors.textSecondary}
                   />
-                  <Text style={[styles.vocabularyEnglish, { color: colors.textSecondary }]}>{item.englishTranslation}</Text>
+                  <Text style={[styles.vocabularyTranslation, { color: colors.textSecondary }]}>{item.translation}</Text>
                 </View>
                 {item.context && (
                   <Text style={[styles.vocabularyContext, { color: colors.textSecondary }]}>{item.context}</Text>
@@ -301,15 +918,72 @@ export default function ChatScreen() {
             style={styles.messagesContainer}
             contentContainerStyle={styles.messagesContent}
             showsVerticalScrollIndicator={false}
-            onContentSizeChange={() => scrollViewRef.current?.scrollToEnd({ animated: true })}
+            maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+            scrollEventThrottle={200}
+            onScroll={(event) => {
+              if (event.nativeEvent.contentOffset.y < LOAD_OLDER_THRESHOLD) {
+                loadOlderMessages();
+              }
+            }}
+            onContentSizeChange={() => {
+              if (skipAutoScrollRef.current) {
+                skipAutoScrollRef.current = false;
+                return;
+              }
+              if (jumpTargetRef.current) {
+                return;
+              }
+              scrollViewRef.current?.scrollToEnd({ animated: true });
+            }}
           >
-            {messages.map((message) => {
+            {loadingOlder && (
+              <ActivityIndicator size="small" color={colors.primary} style={styles.olderLoader} />
+            )}
+            {conversation?.summary ? (
+              <TouchableOpacity
+                style={[styles.summaryCard, { backgroundColor: colors.card }]}
+                onPress={() => setShowSummary(prev => !prev)}
+              >
+                <View style={styles.inlineVocabularyHeader}>
+                  <IconSymbol
+                    ios_icon_name="doc.text"
+                    android_material_icon_name="description"
+                    size={14}
+                    color={colors.primary}
+                  />
+                  <Text style={[styles.inlineVocabularyTitle, { color: colors.primary }]}>
+                    Iepriekšējās sarunas kopsavilkums
+                  </Text>
+                </View>
+                <Text
+                  style={[styles.summaryText, { color: colors.textSecondary }]}
+                  numberOfLines={showSummary ? undefined : 2}
+                >
+                  {conversation.summary}
+                </Text>
+              </TouchableOpacity>
+            ) : null}
+            {messages.map((message, index) => {
               const isUser = message.role === 'user';
               const timeDisplay = formatTime(message.createdAt);
               const messageVocab = !isUser ? extractVocabularyFromMessage(message.content) : [];
+              const messageCorrections = isUser ? message.corrections || [] : [];
+              // The local welcome message has no saved counterpart to edit or regenerate,
+              // and a scenario's opening line has no user message to answer
+              const canFork = !sending && message.id !== 'welcome';
+              const canRewrite = canFork
+                && (isUser || messages.slice(0, index).some(m => m.role === 'user'));
               
               return (
-                <View key={message.id}>
+                <View
+                  key={message.id}
+                  style={message.id === highlightedMessageId ? styles.highlightedMessage : undefined}
+                  onLayout={(event) => {
+                    if (message.id === jumpTargetRef.current) {
+                      scrollViewRef.current?.scrollTo({ y: Math.max(0, event.nativeEvent.layout.y - 16), animated: true });
+                    }
+                  }}
+                >
                   <View
                     style={[
                       styles.messageBubble,
@@ -322,12 +996,45 @@ export default function ChatScreen() {
                         style={styles.userBubbleGradient}
                       >
                         <Text style={styles.messageText}>
-                          {message.content}
+                          {messageCorrections.length > 0
+                            ? renderContentWithCorrections(message.content, messageCorrections)
+                            : message.content}
                         </Text>
                         <View style={styles.messageFooter}>
                           <Text style={styles.userMessageTime}>
                             {timeDisplay}
                           </Text>
+                          <View style={styles.messageActions}>
+                            {renderPlayButton(message, 'rgba(255, 255, 255, 0.8)')}
+                            {canRewrite && (
+                              <TouchableOpacity
+                                onPress={() => openEditMessage(message)}
+                                style={styles.messageAction}
+                                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                              >
+                                <IconSymbol
+                                  ios_icon_name="pencil"
+                                  android_material_icon_name="edit"
+                                  size={14}
+                                  color="rgba(255, 255, 255, 0.8)"
+                                />
+                              </TouchableOpacity>
+                            )}
+                            {canFork && (
+                              <TouchableOpacity
+                                onPress={() => forkFromMessage(message)}
+                                style={styles.messageAction}
+                                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                              >
+                                <IconSymbol
+                                  ios_icon_name="arrow.triangle.branch"
+                                  android_material_icon_name="call-split"
+                                  size={14}
+                                  color="rgba(255, 255, 255, 0.8)"
+                                />
+                              </TouchableOpacity>
+                            )}
+                          </View>
                         </View>
                       </LinearGradient>
                     ) : (
@@ -339,10 +1046,72 @@ export default function ChatScreen() {
                           <Text style={[styles.messageTime, { color: colors.textSecondary }]}>
                             {timeDisplay}
                           </Text>
+                          <View style={styles.messageActions}>
+                            {renderPlayButton(message, colors.textSecondary)}
+                            {canRewrite && (
+                              <TouchableOpacity
+                                onPress={() => regenerateReply(message)}
+                                style={styles.messageAction}
+                                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                              >
+                                <IconSymbol
+                                  ios_icon_name="arrow.clockwise"
+                                  android_material_icon_name="refresh"
+                                  size={14}
+                                  color={colors.textSecondary}
+                                />
+                              </TouchableOpacity>
+                            )}
+                            {canFork && (
+                              <TouchableOpacity
+                                onPress={() => forkFromMessage(message)}
+                                style={styles.messageAction}
+                                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                              >
+                                <IconSymbol
+                                  ios_icon_name="arrow.triangle.branch"
+                                  android_material_icon_name="call-split"
+                                  size={14}
+                                  color={colors.textSecondary}
+                                />
+                              </TouchableOpacity>
+                            )}
+                          </View>
                         </View>
                       </>
                     )}
                   </View>
+                  {messageCorrections.length > 0 && (
+                    <View style={[styles.inlineCorrections, { backgroundColor: colors.card }]}>
+                      <View style={styles.inlineVocabularyHeader}>
+                        <IconSymbol
+                          ios_icon_name="pencil"
+                          android_material_icon_name="edit"
+                          size={14}
+                          color={colors.error}
+                        />
+                        <Text style={[styles.inlineVocabularyTitle, { color: colors.error }]}>Labojumi:</Text>
+                      </View>
+                      {messageCorrections.map((correction) => (
+                        <View key={correction.id} style={styles.correctionItem}>
+                          <View style={styles.inlineVocabularyItem}>
+                            <Text style={[styles.inlineVocabularyText, styles.correctionOriginal, { color: colors.textSecondary }]}>
+                              {correction.originalText}
+                            </Text>
+                            <Text style={[styles.inlineVocabularyText, { color: colors.textSecondary }]}>
+                              {' → '}
+                            </Text>
+                            <Text style={[styles.inlineVocabularyText, { color: colors.text }]}>
+                              {correction.correctedText}
+                            </Text>
+                          </View>
+                          <Text style={[styles.correctionExplanation, { color: colors.textSecondary }]}>
+                            {correction.explanation}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
                   {messageVocab.length > 0 && (
                     <View style={[styles.inlineVocabulary, { backgroundColor: colors.card }]}>
                       <View style={styles.inlineVocabularyHeader}>
@@ -355,18 +1124,16 @@ export default function ChatScreen() {
                         <Text style={[styles.inlineVocabularyTitle, { color: colors.primary }]}>Vārdnīca:</Text>
                       </View>
                       {messageVocab.map((vocab, idx) => {
-                        const latvianWord = vocab.latvian;
-                        const englishWord = vocab.english;
                         return (
                           <View key={idx} style={styles.inlineVocabularyItem}>
                             <Text style={[styles.inlineVocabularyText, { color: colors.text }]}>
-                              {latvianWord}
+                              {vocab.term}
                             </Text>
                             <Text style={[styles.inlineVocabularyText, { color: colors.textSecondary }]}>
                               {' → '}
                             </Text>
                             <Text style={[styles.inlineVocabularyText, { color: colors.textSecondary }]}>
-                              {englishWord}
+                              {vocab.translation}
                             </Text>
                           </View>
                         );
@@ -378,12 +1145,55 @@ export default function ChatScreen() {
             })}
             {sending && (
               <View style={[styles.messageBubble, styles.assistantBubble]}>
-                <ActivityIndicator size="small" color={colors.primary} />
+                {streamingText ? (
+                  <Text style={[styles.messageText, { color: colors.text }]}>
+                    {streamingText}
+                  </Text>
+                ) : (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                )}
               </View>
             )}
           </ScrollView>
 
+          {hints.length > 0 && (
+            <View style={[styles.hintsContainer, { backgroundColor: colors.card }]}>
+              {hints.map((hint) => (
+                <TouchableOpacity
+                  key={hint.difficulty}
+                  style={styles.hintOption}
+                  onPress={() => pickHint(hint)}
+                >
+                  <Text style={[styles.hintLabel, { color: colors.primary }]}>
+                    {HINT_DIFFICULTY_LABELS[hint.difficulty]}
+                  </Text>
+                  <Text style={[styles.hintText, { color: colors.text }]}>{hint.text}</Text>
+                  <Text style={[styles.hintGloss, { color: colors.textSecondary }]}>{hint.gloss}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
           <View style={[styles.inputContainer, { backgroundColor: colors.card }]}>
+            {!hasText && (
+              <TouchableOpacity
+                style={styles.hintButton}
+                onPress={requestHints}
+                disabled={sending || loadingHints}
+                accessibilityLabel="Palīdzi man atbildēt"
+              >
+                {loadingHints ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <IconSymbol
+                    ios_icon_name={hints.length > 0 ? "lightbulb.fill" : "lightbulb"}
+                    android_material_icon_name="lightbulb"
+                    size={22}
+                    color={colors.primary}
+                  />
+                )}
+              </TouchableOpacity>
+            )}
             <TextInput
               style={[styles.input, { color: colors.text }]}
               placeholder="Ierakstiet ziņu..."
@@ -438,6 +1248,15 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingBottom: 8,
   },
+  olderLoader: {
+    marginBottom: 12,
+  },
+  highlightedMessage: {
+    borderRadius: 16,
+    padding: 4,
+    marginHorizontal: -4,
+    backgroundColor: colors.backgroundAlt,
+  },
   messageBubble: {
     maxWidth: '80%',
     marginBottom: 12,
@@ -480,6 +1299,22 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: 'rgba(255, 255, 255, 0.8)',
   },
+  messageActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  messageAction: {
+    marginLeft: 12,
+  },
+  playButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  playButtonText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
   inlineVocabulary: {
     maxWidth: '80%',
     alignSelf: 'flex-start',
@@ -506,6 +1341,39 @@ const styles = StyleSheet.create({
   inlineVocabularyText: {
     fontSize: 14,
   },
+  summaryCard: {
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  summaryText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  inlineCorrections: {
+    maxWidth: '80%',
+    alignSelf: 'flex-end',
+    padding: 10,
+    borderRadius: 12,
+    marginBottom: 12,
+    marginRight: 8,
+  },
+  correctionItem: {
+    marginTop: 4,
+  },
+  correctionUnderline: {
+    textDecorationLine: 'underline',
+    textDecorationStyle: 'dotted',
+    textDecorationColor: '#FFFFFF',
+  },
+  correctionOriginal: {
+    textDecorationLine: 'line-through',
+  },
+  correctionExplanation: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginTop: 2,
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
@@ -514,6 +1382,39 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: colors.border,
   },
+  hintsContainer: {
+    paddingHorizontal: 12,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  hintOption: {
+    padding: 10,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: colors.backgroundAlt,
+  },
+  hintLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  hintText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  hintGloss: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  hintButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 4,
+  },
   input: {
     flex: 1,
     fontSize: 16,
@@ -529,6 +1430,10 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   vocabularyButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -575,11 +1480,11 @@ const styles = StyleSheet.create({
     gap: 8,
     marginBottom: 8,
   },
-  vocabularyLatvian: {
+  vocabularyTerm: {
     fontSize: 17,
     fontWeight: '600',
   },
-  vocabularyEnglish: {
+  vocabularyTranslation: {
     fontSize: 15,
   },
   vocabularyContext: {
@@ -634,4 +1539,29 @@ const chatStyles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  editInput: {
+    minHeight: 80,
+    maxHeight: 160,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 16,
+    textAlignVertical: 'top',
+  },
+  editButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  editButton: {
+    flex: 1,
+  },
+  exportOption: {
+    marginBottom: 10,
+  },
+  exportSpinner: {
+    marginVertical: 12,
+  },
 });
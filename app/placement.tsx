@@ -0,0 +1,381 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  Pressable,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { authenticatedPost } from '@/utils/api';
+
+type PlacementSkill = 'grammar' | 'vocabulary' | 'reading';
+
+interface PlacementQuestion {
+  id: string;
+  skill: PlacementSkill;
+  prompt: string;
+  passage: string | null;
+  options: string[];
+}
+
+interface PlacementState {
+  testId: string;
+  status: 'in_progress' | 'completed' | 'abandoned';
+  answeredCount: number;
+  maxItems: number;
+  question: PlacementQuestion | null;
+  level: string | null;
+  completedAt: string | null;
+}
+
+const SKILL_LABELS: Record<PlacementSkill, string> = {
+  grammar: 'Gramatika',
+  vocabulary: 'Vārdu krājums',
+  reading: 'Lasīšana',
+};
+
+const LEVEL_DESCRIPTIONS: Record<string, string> = {
+  A1: 'Iesācējs — saproti un lieto vienkāršas ikdienas frāzes.',
+  A2: 'Pamatlīmenis — vari sarunāties par pazīstamām tēmām.',
+  B1: 'Vidējais līmenis — tiec galā ar lielāko daļu ikdienas situāciju.',
+  B2: 'Augstāks vidējais līmenis — brīvi sarunājies par dažādām tēmām.',
+  C1: 'Augsts līmenis — izsakies plūstoši un precīzi.',
+};
+
+export default function PlacementScreen() {
+  const router = useRouter();
+
+  const [state, setState] = useState<PlacementState | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [alertModal, setAlertModal] = useState<{ visible: boolean; title: string; message: string }>({
+    visible: false, title: '', message: '',
+  });
+
+  const startTest = async () => {
+    console.log('[API] Starting placement test');
+    setStarting(true);
+    try {
+      const result = await authenticatedPost<PlacementState>('/api/placement-tests', {});
+      console.log('[API] Placement test started:', result.testId);
+      setState(result);
+    } catch (error) {
+      console.error('[API] Error starting placement test:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās sākt līmeņa testu. Lūdzu, mēģiniet vēlreiz.' });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const answerQuestion = async (answer: number) => {
+    if (!state?.question || submitting) return;
+
+    console.log('[API] Answering placement question:', state.question.id);
+    setSubmitting(true);
+    try {
+      const result = await authenticatedPost<PlacementState>(
+        `/api/placement-tests/${state.testId}/answers`,
+        { itemId: state.question.id, answer }
+      );
+      console.log('[API] Placement progress:', result.answeredCount, result.status);
+      setState(result);
+    } catch (error) {
+      console.error('[API] Error answering placement question:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās saglabāt atbildi. Lūdzu, mēģiniet vēlreiz.' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const question = state?.status === 'in_progress' ? state.question : null;
+  const placedLevel = state?.status === 'completed' ? state.level : null;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Līmeņa tests',
+          headerBackTitle: 'Atpakaļ',
+        }}
+      />
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        {!state && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Nosaki savu līmeni</Text>
+            <Text style={styles.cardText}>
+              Tests pielāgojas tavām atbildēm un aptver gramatiku, vārdu krājumu un lasīšanu. Tas aizņem
+              15–25 jautājumus, un rezultāts tiks izmantots kā noklusējuma līmenis jaunām sarunām.
+            </Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={startTest} disabled={starting}>
+              {starting ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Sākt testu</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {state && question && (
+          <>
+            <View style={styles.progressRow}>
+              <Text style={styles.progressText}>Jautājums {state.answeredCount + 1}</Text>
+              <Text style={styles.skillLabel}>{SKILL_LABELS[question.skill]}</Text>
+            </View>
+            <View style={styles.progressTrack}>
+              <View
+                style={[styles.progressFill, { width: `${Math.round((state.answeredCount / state.maxItems) * 100)}%` }]}
+              />
+            </View>
+
+            <View style={styles.card}>
+              {question.passage && <Text style={styles.passage}>{question.passage}</Text>}
+              <Text style={styles.prompt}>{question.prompt}</Text>
+            </View>
+
+            {question.options.map((option, index) => (
+              <TouchableOpacity
+                key={`${question.id}-${index}`}
+                style={styles.optionButton}
+                onPress={() => answerQuestion(index)}
+                disabled={submitting}
+              >
+                <Text style={styles.optionText}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+
+            {submitting && (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color={colors.primary} />
+              </View>
+            )}
+          </>
+        )}
+
+        {placedLevel && (
+          <View style={styles.card}>
+            <View style={styles.resultIcon}>
+              <IconSymbol
+                ios_icon_name="checkmark.seal.fill"
+                android_material_icon_name="verified"
+                size={40}
+                color={colors.success}
+              />
+            </View>
+            <Text style={styles.resultLabel}>Tavs līmenis</Text>
+            <Text style={styles.resultLevel}>{placedLevel}</Text>
+            <Text style={styles.cardText}>{LEVEL_DESCRIPTIONS[placedLevel]}</Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => router.back()}>
+              <Text style={styles.primaryButtonText}>Sākt praktizēt</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {state && !question && (
+          <TouchableOpacity style={styles.nextButton} onPress={startTest} disabled={starting}>
+            <Text style={styles.nextButtonText}>Pildīt testu vēlreiz</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={alertModal.visible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setAlertModal(prev => ({ ...prev, visible: false }))}
+      >
+        <Pressable
+          style={styles.alertOverlay}
+          onPress={() => setAlertModal(prev => ({ ...prev, visible: false }))}
+        >
+          <Pressable style={styles.alertContainer} onPress={() => {}}>
+            <Text style={styles.alertTitle}>{alertModal.title}</Text>
+            {alertModal.message ? <Text style={styles.alertMessage}>{alertModal.message}</Text> : null}
+            <TouchableOpacity
+              style={styles.alertButton}
+              onPress={() => setAlertModal(prev => ({ ...prev, visible: false }))}
+            >
+              <Text style={styles.alertButtonText}>Labi</Text>
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+    alignItems: 'stretch',
+  },
+  card: {
+    padding: 24,
+    borderRadius: 20,
+    backgroundColor: colors.card,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  cardText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  primaryButton: {
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  progressText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  skillLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.border,
+    marginBottom: 20,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.primary,
+  },
+  passage: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    lineHeight: 22,
+    marginBottom: 16,
+    fontStyle: 'italic',
+  },
+  prompt: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  optionButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.card,
+    marginBottom: 12,
+  },
+  optionText: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  loadingContainer: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  resultIcon: {
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  resultLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  resultLevel: {
+    fontSize: 48,
+    fontWeight: 'bold',
+    color: colors.primary,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  nextButton: {
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+  },
+  nextButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  alertOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  alertContainer: {
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 360,
+    backgroundColor: colors.card,
+  },
+  alertTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  alertMessage: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    marginBottom: 20,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  alertButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+  },
+  alertButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,448 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  Pressable,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import {
+  useAudioRecorder,
+  useAudioRecorderState,
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+} from 'expo-audio';
+import { SequenceMatcher } from 'difflib';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { authenticatedPostFormData } from '@/utils/api';
+
+interface DiacriticIssue {
+  position: number;
+  expected: string;
+  heard: string;
+  kind: 'long_vowel' | 'diacritic';
+}
+
+interface AssessedWord {
+  expected: string | null;
+  heard: string | null;
+  status: 'correct' | 'diacritic' | 'mispronounced' | 'missing' | 'extra';
+  score: number | null;
+  issues: DiacriticIssue[];
+}
+
+interface Assessment {
+  expectedText: string;
+  transcript: string;
+  score: number;
+  words: AssessedWord[];
+}
+
+interface PracticeSentence {
+  text: string;
+  translation: string;
+}
+
+const PRACTICE_SENTENCES: PracticeSentence[] = [
+  { text: 'Sveiki, kā tev klājas?', translation: 'Hello, how are you?' },
+  { text: 'Es dzīvoju Rīgā.', translation: 'I live in Riga.' },
+  { text: 'Lūdzu, vienu kafiju ar pienu.', translation: 'One coffee with milk, please.' },
+  { text: 'Šodien ir ļoti skaista diena.', translation: 'Today is a very beautiful day.' },
+  { text: 'Mana māsa strādā skolā.', translation: 'My sister works at a school.' },
+  { text: 'Cik maksā šī grāmata?', translation: 'How much does this book cost?' },
+  { text: 'Vakar mēs ēdām pīrāgus.', translation: 'Yesterday we ate bacon pastries.' },
+];
+
+const STATUS_COLORS: Record<AssessedWord['status'], string> = {
+  correct: colors.success,
+  diacritic: colors.warning,
+  mispronounced: colors.error,
+  missing: colors.error,
+  extra: colors.textSecondary,
+};
+
+const STATUS_LABELS: Record<AssessedWord['status'], string> = {
+  correct: 'Pareizi',
+  diacritic: 'Garumzīme vai mīkstinājums',
+  mispronounced: 'Neskaidri izrunāts',
+  missing: 'Izlaists',
+  extra: 'Lieks vārds',
+};
+
+// Character-level diff of the expected word against what was heard, highlighting the differing letters
+function renderWordDiff(expected: string, heard: string) {
+  const matcher = new SequenceMatcher<string>(null, expected.toLowerCase(), heard.toLowerCase());
+
+  return matcher.getOpcodes().map(([tag, i1, i2, j1, j2], index) => {
+    if (tag === 'equal') {
+      return <Text key={index}>{expected.slice(i1, i2)}</Text>;
+    }
+    return (
+      <Text key={index}>
+        {i2 > i1 && <Text style={styles.diffExpected}>{expected.slice(i1, i2)}</Text>}
+        {j2 > j1 && <Text style={styles.diffHeard}>{heard.slice(j1, j2)}</Text>}
+      </Text>
+    );
+  });
+}
+
+export default function PronunciationScreen() {
+  const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const recorderState = useAudioRecorderState(recorder);
+
+  const [sentenceIndex, setSentenceIndex] = useState(0);
+  const [assessing, setAssessing] = useState(false);
+  const [assessment, setAssessment] = useState<Assessment | null>(null);
+  const [alertModal, setAlertModal] = useState<{ visible: boolean; title: string; message: string }>({
+    visible: false, title: '', message: '',
+  });
+
+  const sentence = PRACTICE_SENTENCES[sentenceIndex];
+
+  const startRecording = async () => {
+    try {
+      const permission = await requestRecordingPermissionsAsync();
+      if (!permission.granted) {
+        setAlertModal({ visible: true, title: 'Nav atļaujas', message: 'Lūdzu, atļaujiet piekļuvi mikrofonam, lai praktizētu izrunu.' });
+        return;
+      }
+
+      await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+      setAssessment(null);
+      await recorder.prepareToRecordAsync();
+      recorder.record();
+      console.log('[Audio] Recording started');
+    } catch (error) {
+      console.error('[Audio] Failed to start recording:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās sākt ierakstu.' });
+    }
+  };
+
+  const stopRecording = async () => {
+    try {
+      await recorder.stop();
+      await setAudioModeAsync({ allowsRecording: false });
+      console.log('[Audio] Recording stopped:', recorder.uri);
+
+      if (recorder.uri) {
+        await assessRecording(recorder.uri);
+      }
+    } catch (error) {
+      console.error('[Audio] Failed to stop recording:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās saglabāt ierakstu.' });
+    }
+  };
+
+  const assessRecording = async (uri: string) => {
+    console.log('[API] Assessing pronunciation for:', sentence.text);
+    setAssessing(true);
+    try {
+      const result = await authenticatedPostFormData<Assessment>(
+        '/api/pronunciation/assess',
+        uri,
+        'audio',
+        'recording.m4a',
+        'audio/m4a',
+        { expectedText: sentence.text, language: 'Latvian' }
+      );
+      console.log('[API] Pronunciation score:', result.score);
+      setAssessment(result);
+    } catch (error) {
+      console.error('[API] Error assessing pronunciation:', error);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās novērtēt izrunu. Lūdzu, mēģiniet vēlreiz.' });
+    } finally {
+      setAssessing(false);
+    }
+  };
+
+  const nextSentence = () => {
+    setAssessment(null);
+    setSentenceIndex(prev => (prev + 1) % PRACTICE_SENTENCES.length);
+  };
+
+  const isRecording = recorderState.isRecording;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Izrunas prakse',
+          headerBackTitle: 'Atpakaļ',
+        }}
+      />
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.sentenceCard}>
+          <Text style={styles.sentenceLabel}>Nolasi skaļi</Text>
+          <Text style={styles.sentenceText}>{sentence.text}</Text>
+          <Text style={styles.sentenceTranslation}>{sentence.translation}</Text>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.recordButton, { backgroundColor: isRecording ? colors.error : colors.primary }]}
+          onPress={isRecording ? stopRecording : startRecording}
+          disabled={assessing}
+        >
+          <IconSymbol
+            ios_icon_name={isRecording ? 'stop.fill' : 'mic.fill'}
+            android_material_icon_name={isRecording ? 'stop' : 'mic'}
+            size={32}
+            color="#FFFFFF"
+          />
+        </TouchableOpacity>
+        <Text style={styles.recordHint}>
+          {isRecording
+            ? `Ieraksta... ${Math.round(recorderState.durationMillis / 1000)}s`
+            : 'Pieskaries, lai sāktu ierakstu'}
+        </Text>
+
+        {assessing && (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        )}
+
+        {assessment && (
+          <View style={styles.resultCard}>
+            <View style={styles.scoreRow}>
+              <Text style={styles.scoreLabel}>Rezultāts</Text>
+              <Text style={styles.scoreValue}>{assessment.score}</Text>
+            </View>
+            <Text style={styles.transcriptLabel}>Dzirdēts:</Text>
+            <Text style={styles.transcriptText}>{assessment.transcript || '—'}</Text>
+
+            {assessment.words.map((word, index) => (
+              <View key={index} style={styles.wordRow}>
+                <View style={[styles.statusDot, { backgroundColor: STATUS_COLORS[word.status] }]} />
+                <View style={styles.wordContent}>
+                  <Text style={styles.wordText}>
+                    {word.expected && word.heard && word.status !== 'correct'
+                      ? renderWordDiff(word.expected, word.heard)
+                      : word.expected ?? word.heard}
+                  </Text>
+                  <Text style={styles.wordStatus}>
+                    {STATUS_LABELS[word.status]}
+                    {word.issues.length > 0 &&
+                      `: ${word.issues.map(issue => `${issue.expected} → ${issue.heard}`).join(', ')}`}
+                  </Text>
+                </View>
+                {word.score !== null && <Text style={styles.wordScore}>{word.score}</Text>}
+              </View>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.nextButton} onPress={nextSentence} disabled={isRecording || assessing}>
+          <Text style={styles.nextButtonText}>Nākamais teikums</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <Modal
+        visible={alertModal.visible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setAlertModal(prev => ({ ...prev, visible: false }))}
+      >
+        <Pressable
+          style={styles.alertOverlay}
+          onPress={() => setAlertModal(prev => ({ ...prev, visible: false }))}
+        >
+          <Pressable style={styles.alertContainer} onPress={() => {}}>
+            <Text style={styles.alertTitle}>{alertModal.title}</Text>
+            {alertModal.message ? <Text style={styles.alertMessage}>{alertModal.message}</Text> : null}
+            <TouchableOpacity
+              style={styles.alertButton}
+              onPress={() => setAlertModal(prev => ({ ...prev, visible: false }))}
+            >
+              <Text style={styles.alertButtonText}>Labi</Text>
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+    alignItems: 'stretch',
+  },
+  sentenceCard: {
+    padding: 24,
+    borderRadius: 20,
+    backgroundColor: colors.card,
+    marginBottom: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sentenceLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  sentenceText: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  sentenceTranslation: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  recordButton: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    alignSelf: 'center',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  recordHint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  loadingContainer: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  resultCard: {
+    padding: 20,
+    borderRadius: 20,
+    backgroundColor: colors.card,
+    marginBottom: 24,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  scoreLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  scoreValue: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  transcriptLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  transcriptText: {
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 16,
+  },
+  wordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 12,
+  },
+  wordContent: {
+    flex: 1,
+  },
+  wordText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  wordStatus: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  wordScore: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  diffExpected: {
+    color: colors.error,
+    textDecorationLine: 'underline',
+  },
+  diffHeard: {
+    color: colors.textLight,
+    textDecorationLine: 'line-through',
+  },
+  nextButton: {
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+  },
+  nextButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  alertOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  alertContainer: {
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 360,
+    backgroundColor: colors.card,
+  },
+  alertTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  alertMessage: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    marginBottom: 20,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  alertButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+  },
+  alertButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
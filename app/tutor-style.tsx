@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  Pressable,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { colors } from '@/styles/commonStyles';
+import TutorStylePicker from '@/components/TutorStylePicker';
+import { TutorStyle, TutorStyleKey } from '@/constants/TutorStyle';
+import { authenticatedGet, authenticatedPatch } from '@/utils/api';
+
+export default function TutorStyleScreen() {
+  const [tutorStyle, setTutorStyle] = useState<TutorStyle | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [alertModal, setAlertModal] = useState<{ visible: boolean; title: string; message: string }>({
+    visible: false, title: '', message: '',
+  });
+
+  useEffect(() => {
+    console.log('[API] Loading tutor style');
+    authenticatedGet<{ tutorStyle: TutorStyle }>('/api/me/profile')
+      .then((profile) => setTutorStyle(profile.tutorStyle))
+      .catch((error) => {
+        console.error('[API] Error loading tutor style:', error);
+        setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās ielādēt iestatījumus.' });
+      });
+  }, []);
+
+  // Each choice is saved right away
+  const updateOption = async (key: TutorStyleKey, value: string | null) => {
+    if (!tutorStyle) return;
+
+    console.log('[API] Updating tutor style:', key, value);
+    const previous = tutorStyle;
+    setTutorStyle({ ...tutorStyle, [key]: value });
+    setSaving(true);
+    try {
+      const profile = await authenticatedPatch<{ tutorStyle: TutorStyle }>('/api/me/profile', {
+        tutorStyle: { [key]: value },
+      });
+      setTutorStyle(profile.tutorStyle);
+    } catch (error) {
+      console.error('[API] Error updating tutor style:', error);
+      setTutorStyle(previous);
+      setAlertModal({ visible: true, title: 'Kļūda', message: 'Neizdevās saglabāt izmaiņas. Lūdzu, mēģiniet vēlreiz.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Skolotāja stils',
+          headerBackTitle: 'Atpakaļ',
+        }}
+      />
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <Text style={styles.intro}>
+          Izvēlies, kā AI skolotājs ar tevi runā. Šie iestatījumi attiecas uz visām sarunām, bet katrai sarunai tos
+          var mainīt, to sākot.
+        </Text>
+
+        {tutorStyle ? (
+          <View style={styles.card}>
+            <TutorStylePicker value={tutorStyle} onChange={updateOption} disabled={saving} />
+          </View>
+        ) : (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={alertModal.visible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setAlertModal(prev => ({ ...prev, visible: false }))}
+      >
+        <Pressable
+          style={styles.alertOverlay}
+          onPress={() => setAlertModal(prev => ({ ...prev, visible: false }))}
+        >
+          <Pressable style={styles.alertContainer} onPress={() => {}}>
+            <Text style={styles.alertTitle}>{alertModal.title}</Text>
+            {alertModal.message ? <Text style={styles.alertMessage}>{alertModal.message}</Text> : null}
+            <TouchableOpacity
+              style={styles.alertButton}
+              onPress={() => setAlertModal(prev => ({ ...prev, visible: false }))}
+            >
+              <Text style={styles.alertButtonText}>Labi</Text>
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+    alignItems: 'stretch',
+  },
+  intro: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  card: {
+    padding: 24,
+    paddingBottom: 8,
+    borderRadius: 20,
+    backgroundColor: colors.card,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  loadingContainer: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  alertOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  alertContainer: {
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 360,
+    backgroundColor: colors.card,
+  },
+  alertTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  alertMessage: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    marginBottom: 20,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  alertButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+  },
+  alertButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
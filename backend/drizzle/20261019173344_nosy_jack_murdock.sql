@@ -0,0 +1,13 @@
+CREATE TABLE "message_corrections" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"original_text" text NOT NULL,
+	"corrected_text" text NOT NULL,
+	"category" text NOT NULL,
+	"explanation" text NOT NULL,
+	"span_start" integer,
+	"span_end" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "message_corrections" ADD CONSTRAINT "message_corrections_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "conversations" ADD COLUMN "summary" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "summary_cutoff_at" timestamp with time zone;
\ No newline at end of file
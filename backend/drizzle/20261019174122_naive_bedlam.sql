@@ -0,0 +1,16 @@
+CREATE TABLE "scenarios" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"slug" text NOT NULL,
+	"title" text NOT NULL,
+	"setting" text NOT NULL,
+	"learner_goal" text NOT NULL,
+	"tutor_persona" text NOT NULL,
+	"starter_message" text NOT NULL,
+	"target_vocabulary" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"min_level" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "scenarios_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "scenario_id" uuid;--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_scenario_id_scenarios_id_fk" FOREIGN KEY ("scenario_id") REFERENCES "public"."scenarios"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
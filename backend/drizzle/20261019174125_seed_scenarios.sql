@@ -0,0 +1,62 @@
+-- Starter role-play scenarios
+INSERT INTO "scenarios" ("slug", "title", "setting", "learner_goal", "tutor_persona", "starter_message", "target_vocabulary", "min_level") VALUES
+(
+	'cafe-in-riga',
+	'Kafejnīcā Rīgā / At a café in Riga',
+	'A small café in Riga''s Old Town on a Saturday morning. The student has just sat down at a table by the window.',
+	'Order a drink and something to eat, ask about the price and pay the bill.',
+	'Anna, a friendly waitress who speaks slowly and clearly and recommends the café''s pīrāgi.',
+	'Labrīt! Laipni lūdzam mūsu kafejnīcā. Ko jūs vēlētos pasūtīt?',
+	'[{"latvianWord":"kafija","englishTranslation":"coffee"},{"latvianWord":"tēja","englishTranslation":"tea"},{"latvianWord":"pīrāgs","englishTranslation":"bacon pastry"},{"latvianWord":"rēķins","englishTranslation":"bill"},{"latvianWord":"cik maksā","englishTranslation":"how much does it cost"}]'::jsonb,
+	'beginner'
+),
+(
+	'market-stall',
+	'Centrāltirgū / At the Central Market',
+	'A vegetable stall at the Riga Central Market. Fresh produce is piled up and the seller is weighing strawberries.',
+	'Buy fruit and vegetables by weight, ask what is fresh today and count out the money.',
+	'Jānis, a cheerful market seller who likes to chat about the season''s produce.',
+	'Sveiki! Zemenes šodien ir ļoti saldas. Ko jums iedot?',
+	'[{"latvianWord":"zemenes","englishTranslation":"strawberries"},{"latvianWord":"kartupeļi","englishTranslation":"potatoes"},{"latvianWord":"kilograms","englishTranslation":"kilogram"},{"latvianWord":"svaigs","englishTranslation":"fresh"},{"latvianWord":"maiss","englishTranslation":"bag"}]'::jsonb,
+	'beginner'
+),
+(
+	'train-ticket',
+	'Dzelzceļa stacijā / At the railway station',
+	'The ticket office at Riga Central Station. The student wants to travel to Jūrmala for the day.',
+	'Buy a return ticket, ask when the next train leaves and which platform it departs from.',
+	'Ilze, a patient ticket clerk who answers precisely and uses times and numbers.',
+	'Labdien! Uz kurieni jūs brauksiet?',
+	'[{"latvianWord":"biļete","englishTranslation":"ticket"},{"latvianWord":"vilciens","englishTranslation":"train"},{"latvianWord":"perons","englishTranslation":"platform"},{"latvianWord":"turp un atpakaļ","englishTranslation":"return (there and back)"},{"latvianWord":"atiet","englishTranslation":"to depart"}]'::jsonb,
+	'beginner'
+),
+(
+	'doctor-visit',
+	'Pie ārsta / Visiting the doctor',
+	'A family doctor''s practice. The student has felt unwell for a few days and has an appointment.',
+	'Describe symptoms, say how long they have lasted and understand the doctor''s advice.',
+	'Dr. Bērziņa, a calm and caring family doctor who asks follow-up questions.',
+	'Labdien, lūdzu, apsēdieties. Kas jūs šodien satrauc?',
+	'[{"latvianWord":"galva sāp","englishTranslation":"I have a headache"},{"latvianWord":"temperatūra","englishTranslation":"temperature"},{"latvianWord":"klepus","englishTranslation":"cough"},{"latvianWord":"zāles","englishTranslation":"medicine"},{"latvianWord":"recepte","englishTranslation":"prescription"}]'::jsonb,
+	'intermediate'
+),
+(
+	'renting-a-flat',
+	'Dzīvokļa īre / Renting a flat',
+	'Viewing a two-room flat in the Āgenskalns neighbourhood with the landlord.',
+	'Ask about the rent, utilities and deposit, and agree on a move-in date.',
+	'Māris, a slightly hurried landlord who answers briefly and expects clear questions.',
+	'Sveiki, nāciet iekšā! Šī ir viesistaba. Kas jūs interesē par dzīvokli?',
+	'[{"latvianWord":"īre","englishTranslation":"rent"},{"latvianWord":"komunālie maksājumi","englishTranslation":"utility bills"},{"latvianWord":"drošības nauda","englishTranslation":"deposit"},{"latvianWord":"līgums","englishTranslation":"contract"},{"latvianWord":"izīrētājs","englishTranslation":"landlord"}]'::jsonb,
+	'intermediate'
+),
+(
+	'job-interview',
+	'Darba intervija / A job interview',
+	'A job interview at a Riga IT company for a project coordinator position.',
+	'Introduce your experience, explain your strengths and ask about the team and working conditions.',
+	'Laura, a professional HR manager who uses formal language and asks open questions.',
+	'Labdien, paldies, ka atnācāt. Lūdzu, pastāstiet mazliet par sevi.',
+	'[{"latvianWord":"pieredze","englishTranslation":"experience"},{"latvianWord":"pienākumi","englishTranslation":"responsibilities"},{"latvianWord":"alga","englishTranslation":"salary"},{"latvianWord":"komanda","englishTranslation":"team"},{"latvianWord":"darba laiks","englishTranslation":"working hours"}]'::jsonb,
+	'advanced'
+);
@@ -0,0 +1,10 @@
+CREATE TABLE "tts_cache" (
+	"cache_key" text PRIMARY KEY NOT NULL,
+	"storage_key" text NOT NULL,
+	"content_type" text NOT NULL,
+	"duration_ms" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "voice" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "speaking_rate" real;
\ No newline at end of file
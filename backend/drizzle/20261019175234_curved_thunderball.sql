@@ -0,0 +1,2 @@
+ALTER TABLE "vocabulary" ADD COLUMN "message_id" uuid;--> statement-breakpoint
+ALTER TABLE "vocabulary" ADD CONSTRAINT "vocabulary_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+ALTER TABLE "conversations" ADD COLUMN "last_sequence" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "sequence" integer;--> statement-breakpoint
+UPDATE "messages" SET "sequence" = "numbered"."sequence"
+FROM (
+  SELECT "id", row_number() OVER (PARTITION BY "conversation_id" ORDER BY "created_at", "id") AS "sequence"
+  FROM "messages"
+) AS "numbered"
+WHERE "messages"."id" = "numbered"."id";--> statement-breakpoint
+UPDATE "conversations" SET "last_sequence" = "counts"."last_sequence"
+FROM (
+  SELECT "conversation_id", max("sequence") AS "last_sequence" FROM "messages" GROUP BY "conversation_id"
+) AS "counts"
+WHERE "conversations"."id" = "counts"."conversation_id";--> statement-breakpoint
+ALTER TABLE "messages" ALTER COLUMN "sequence" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX "conversations_user_id_created_at_idx" ON "conversations" USING btree ("user_id","created_at","id");--> statement-breakpoint
+CREATE UNIQUE INDEX "messages_conversation_id_sequence_idx" ON "messages" USING btree ("conversation_id","sequence");
@@ -0,0 +1,13 @@
+-- Full-text search configuration that ignores diacritics, so "skola" matches "skolā"
+-- Latvian has no built-in stemmer, so words are only lowercased and unaccented
+-- Where the unaccent extension is not available (PGlite in local development and tests),
+-- the configuration falls back to plain "simple" and searches match diacritics exactly
+DO $$
+BEGIN
+  CREATE TEXT SEARCH CONFIGURATION "lv_unaccent" (COPY = simple);
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'unaccent') THEN
+    CREATE EXTENSION IF NOT EXISTS unaccent;
+    ALTER TEXT SEARCH CONFIGURATION "lv_unaccent" ALTER MAPPING FOR hword, hword_part, word WITH unaccent, simple;
+  END IF;
+END
+$$;
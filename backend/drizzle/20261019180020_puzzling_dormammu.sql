@@ -0,0 +1,3 @@
+CREATE INDEX "conversations_title_search_idx" ON "conversations" USING gin (to_tsvector('lv_unaccent', coalesce("title", '')));--> statement-breakpoint
+CREATE INDEX "messages_content_search_idx" ON "messages" USING gin (to_tsvector('lv_unaccent', "content"));--> statement-breakpoint
+CREATE INDEX "vocabulary_search_idx" ON "vocabulary" USING gin (to_tsvector('lv_unaccent', "latvian_word" || ' ' || "english_translation"));
\ No newline at end of file
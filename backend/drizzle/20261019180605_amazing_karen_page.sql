@@ -0,0 +1,2 @@
+ALTER TABLE "messages" ADD COLUMN "audio_key" text;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "duration_ms" integer;
\ No newline at end of file
@@ -0,0 +1,41 @@
+CREATE TABLE "placement_answers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"test_id" uuid NOT NULL,
+	"item_id" text NOT NULL,
+	"skill" text NOT NULL,
+	"difficulty" integer NOT NULL,
+	"answer" integer NOT NULL,
+	"correct" boolean NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "placement_tests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"status" text DEFAULT 'in_progress' NOT NULL,
+	"current_item_id" text,
+	"ability" real NOT NULL,
+	"standard_error" real NOT NULL,
+	"level" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "user_profiles" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"level" text,
+	"placed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "placement_answers" ADD CONSTRAINT "placement_answers_test_id_placement_tests_id_fk" FOREIGN KEY ("test_id") REFERENCES "public"."placement_tests"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "placement_answers_test_id_item_id_idx" ON "placement_answers" USING btree ("test_id","item_id");--> statement-breakpoint
+CREATE INDEX "placement_tests_user_id_idx" ON "placement_tests" USING btree ("user_id","created_at");--> statement-breakpoint
+UPDATE "conversations" SET "level" = CASE
+  WHEN upper(trim("level")) IN ('A1', 'A2', 'B1', 'B2', 'C1') THEN upper(trim("level"))
+  WHEN upper(trim("level")) = 'C2' THEN 'C1'
+  WHEN lower(trim("level")) = 'intermediate' THEN 'B1'
+  WHEN lower(trim("level")) = 'advanced' THEN 'C1'
+  ELSE 'A1'
+END;
@@ -0,0 +1,23 @@
+-- Vocabulary is stored as term/translation pairs tagged with their languages instead of Latvian/English columns
+-- Existing rows take their target language from the conversation; everything so far was translated into English
+ALTER TABLE "vocabulary" RENAME COLUMN "latvian_word" TO "term";--> statement-breakpoint
+ALTER TABLE "vocabulary" RENAME COLUMN "english_translation" TO "translation";--> statement-breakpoint
+ALTER TABLE "vocabulary" ADD COLUMN "target_language" text;--> statement-breakpoint
+ALTER TABLE "vocabulary" ADD COLUMN "source_language" text;--> statement-breakpoint
+UPDATE "vocabulary" SET "target_language" = "conversations"."language", "source_language" = 'English'
+  FROM "conversations"
+  WHERE "conversations"."id" = "vocabulary"."conversation_id";--> statement-breakpoint
+ALTER TABLE "vocabulary" ALTER COLUMN "target_language" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "vocabulary" ALTER COLUMN "source_language" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "daily_vocabulary" RENAME COLUMN "latvian_word" TO "term";--> statement-breakpoint
+ALTER TABLE "daily_vocabulary" RENAME COLUMN "english_translation" TO "translation";--> statement-breakpoint
+ALTER TABLE "daily_vocabulary" ADD COLUMN "target_language" text NOT NULL DEFAULT 'Latvian';--> statement-breakpoint
+ALTER TABLE "daily_vocabulary" ADD COLUMN "source_language" text NOT NULL DEFAULT 'English';--> statement-breakpoint
+ALTER TABLE "daily_vocabulary" ALTER COLUMN "target_language" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "daily_vocabulary" ALTER COLUMN "source_language" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "scenarios" ADD COLUMN "language" text NOT NULL DEFAULT 'Latvian';--> statement-breakpoint
+ALTER TABLE "scenarios" ALTER COLUMN "language" DROP DEFAULT;--> statement-breakpoint
+UPDATE "scenarios" SET "target_vocabulary" = (
+  SELECT coalesce(jsonb_agg(jsonb_build_object('term', item->>'latvianWord', 'translation', item->>'englishTranslation')), '[]'::jsonb)
+  FROM jsonb_array_elements("scenarios"."target_vocabulary") AS item
+);
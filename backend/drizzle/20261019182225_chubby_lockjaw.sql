@@ -0,0 +1,13 @@
+CREATE TABLE "ai_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"task" text NOT NULL,
+	"purpose" text NOT NULL,
+	"model" text NOT NULL,
+	"input_tokens" integer,
+	"output_tokens" integer,
+	"latency_ms" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "ai_usage_user_id_created_at_idx" ON "ai_usage" USING btree ("user_id","created_at");
\ No newline at end of file
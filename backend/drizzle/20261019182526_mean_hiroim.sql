@@ -0,0 +1,17 @@
+CREATE TABLE "message_idempotency_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"key" text NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"status" text DEFAULT 'processing' NOT NULL,
+	"user_message_id" uuid,
+	"assistant_message_id" uuid,
+	"response" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "message_idempotency_keys" ADD CONSTRAINT "message_idempotency_keys_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_idempotency_keys" ADD CONSTRAINT "message_idempotency_keys_user_message_id_messages_id_fk" FOREIGN KEY ("user_message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_idempotency_keys" ADD CONSTRAINT "message_idempotency_keys_assistant_message_id_messages_id_fk" FOREIGN KEY ("assistant_message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "message_idempotency_keys_user_id_key_idx" ON "message_idempotency_keys" USING btree ("user_id","key");
\ No newline at end of file
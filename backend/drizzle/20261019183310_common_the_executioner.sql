@@ -0,0 +1,3 @@
+ALTER TABLE "vocabulary" ADD COLUMN "lemma" text;--> statement-breakpoint
+ALTER TABLE "vocabulary" ADD COLUMN "part_of_speech" text;--> statement-breakpoint
+ALTER TABLE "vocabulary" ADD COLUMN "gender" text;
\ No newline at end of file
@@ -0,0 +1,16 @@
+-- Vocabulary keeps one row per dictionary form; the forms a word was seen in become occurrences
+-- Every existing row is its own first occurrence
+CREATE TABLE "vocabulary_occurrences" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vocabulary_id" uuid NOT NULL,
+	"message_id" uuid,
+	"term" text NOT NULL,
+	"context" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "vocabulary_occurrences" ADD CONSTRAINT "vocabulary_occurrences_vocabulary_id_vocabulary_id_fk" FOREIGN KEY ("vocabulary_id") REFERENCES "public"."vocabulary"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vocabulary_occurrences" ADD CONSTRAINT "vocabulary_occurrences_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "vocabulary_occurrences_vocabulary_idx" ON "vocabulary_occurrences" USING btree ("vocabulary_id");--> statement-breakpoint
+INSERT INTO "vocabulary_occurrences" ("vocabulary_id", "message_id", "term", "context", "created_at")
+  SELECT "id", "message_id", "term", "context", "created_at" FROM "vocabulary";
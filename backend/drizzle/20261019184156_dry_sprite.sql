@@ -0,0 +1 @@
+ALTER TABLE "message_corrections" ADD COLUMN "topic" text;
\ No newline at end of file
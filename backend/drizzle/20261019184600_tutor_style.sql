@@ -0,0 +1,2 @@
+ALTER TABLE "conversations" ADD COLUMN "tutor_style" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "tutor_style" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
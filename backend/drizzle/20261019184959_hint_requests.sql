@@ -0,0 +1,15 @@
+CREATE TABLE "hint_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"after_sequence" integer NOT NULL,
+	"hints" jsonb NOT NULL,
+	"message_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "assisted" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "hint_requests" ADD CONSTRAINT "hint_requests_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hint_requests" ADD CONSTRAINT "hint_requests_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "hint_requests_conversation_id_idx" ON "hint_requests" USING btree ("conversation_id","after_sequence");--> statement-breakpoint
+CREATE INDEX "hint_requests_user_id_created_at_idx" ON "hint_requests" USING btree ("user_id","created_at");
\ No newline at end of file
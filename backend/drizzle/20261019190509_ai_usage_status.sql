@@ -0,0 +1 @@
+ALTER TABLE "ai_usage" ADD COLUMN "status" text DEFAULT 'completed' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Scenario minimum levels move from broad bands to the CEFR level each band opened at
+UPDATE "scenarios" SET "min_level" = CASE lower(trim("min_level"))
+  WHEN 'beginner' THEN 'A1'
+  WHEN 'intermediate' THEN 'B1'
+  WHEN 'advanced' THEN 'C1'
+  ELSE upper(trim("min_level"))
+END;
@@ -0,0 +1,8 @@
+-- Vocabulary jobs that ran twice for a reply stored its occurrences twice; keep the first of each
+DELETE FROM "vocabulary_occurrences" AS "duplicate"
+USING "vocabulary_occurrences" AS "original"
+WHERE "duplicate"."vocabulary_id" = "original"."vocabulary_id"
+  AND "duplicate"."message_id" = "original"."message_id"
+  AND "duplicate"."term" = "original"."term"
+  AND ("duplicate"."created_at", "duplicate"."id") > ("original"."created_at", "original"."id");--> statement-breakpoint
+CREATE UNIQUE INDEX "vocabulary_occurrences_vocabulary_id_message_id_term_idx" ON "vocabulary_occurrences" USING btree ("vocabulary_id","message_id","term");
@@ -0,0 +1 @@
+ALTER TABLE "message_corrections" ADD COLUMN "copied_from_id" uuid;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Search folds diacritics itself, so matching does not depend on the unaccent extension
+DROP INDEX "conversations_title_search_idx";--> statement-breakpoint
+DROP INDEX "messages_content_search_idx";--> statement-breakpoint
+DROP INDEX "vocabulary_search_idx";--> statement-breakpoint
+CREATE INDEX "conversations_title_search_idx" ON "conversations" USING gin (to_tsvector('lv_unaccent', translate(coalesce("title", ''), 'āáàâäãåąĀÁÀÂÄÃÅĄčçćČÇĆēéèêëęėĒÉÈÊËĘĖģğĢĞīíìîïįĪÍÌÎÏĮķĶļłĻŁņñńŅÑŃōóòôöõøŌÓÒÔÖÕØšśŠŚūúùûüųŪÚÙÛÜŲýÿÝŸžźżŽŹŻ', 'aaaaaaaaAAAAAAAAcccCCCeeeeeeeEEEEEEEggGGiiiiiiIIIIIIkKllLLnnnNNNoooooooOOOOOOOssSSuuuuuuUUUUUUyyYYzzzZZZ')));--> statement-breakpoint
+CREATE INDEX "messages_content_search_idx" ON "messages" USING gin (to_tsvector('lv_unaccent', translate("content", 'āáàâäãåąĀÁÀÂÄÃÅĄčçćČÇĆēéèêëęėĒÉÈÊËĘĖģğĢĞīíìîïįĪÍÌÎÏĮķĶļłĻŁņñńŅÑŃōóòôöõøŌÓÒÔÖÕØšśŠŚūúùûüųŪÚÙÛÜŲýÿÝŸžźżŽŹŻ', 'aaaaaaaaAAAAAAAAcccCCCeeeeeeeEEEEEEEggGGiiiiiiIIIIIIkKllLLnnnNNNoooooooOOOOOOOssSSuuuuuuUUUUUUyyYYzzzZZZ')));--> statement-breakpoint
+CREATE INDEX "vocabulary_search_idx" ON "vocabulary" USING gin (to_tsvector('lv_unaccent', translate("term" || ' ' || "translation", 'āáàâäãåąĀÁÀÂÄÃÅĄčçćČÇĆēéèêëęėĒÉÈÊËĘĖģğĢĞīíìîïįĪÍÌÎÏĮķĶļłĻŁņñńŅÑŃōóòôöõøŌÓÒÔÖÕØšśŠŚūúùûüųŪÚÙÛÜŲýÿÝŸžźżŽŹŻ', 'aaaaaaaaAAAAAAAAcccCCCeeeeeeeEEEEEEEggGGiiiiiiIIIIIIkKllLLnnnNNNoooooooOOOOOOOssSSuuuuuuUUUUUUyyYYzzzZZZ')));
\ No newline at end of file
@@ -1,60 +1,410 @@
-import { pgTable, uuid, text, timestamp, date } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, uuid, text, timestamp, date, integer, jsonb, real, boolean, index, uniqueIndex, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql, type SQL } from 'drizzle-orm';
+
+// Letters with diacritics and the plain letter search folds each to, so "skola" finds "skolā" whether or not
+// the database has the unaccent extension; every letter maps to one letter, so folding keeps the text's length
+const DIACRITIC_FOLDS: [letters: string, plain: string][] = [
+  ['āáàâäãåą', 'a'], ['čçć', 'c'], ['ēéèêëęė', 'e'], ['ģğ', 'g'], ['īíìîïį', 'i'], ['ķ', 'k'], ['ļł', 'l'],
+  ['ņñń', 'n'], ['ōóòôöõø', 'o'], ['šś', 's'], ['ūúùûüų', 'u'], ['ýÿ', 'y'], ['žźż', 'z'],
+];
+
+// The folds as the two argument strings of translate(), upper case included
+export const FOLDED_LETTERS = DIACRITIC_FOLDS.map(([letters]) => letters + letters.toUpperCase()).join('');
+export const PLAIN_LETTERS = DIACRITIC_FOLDS.map(([letters, plain]) =>
+  plain.repeat(letters.length) + plain.toUpperCase().repeat(letters.length)
+).join('');
+
+// Text with its diacritics folded, as indexed for full-text search
+// The letters are inlined as literals so the GIN index expressions and the queries in services/search.ts match
+export function foldedSearchText(text: SQL): SQL {
+  return sql`translate(${text}, ${sql.raw(`'${FOLDED_LETTERS}'`)}, ${sql.raw(`'${PLAIN_LETTERS}'`)})`;
+}
+
+// Proficiency levels from easiest to hardest, on the Common European Framework of Reference scale
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1'] as const;
+export type CefrLevel = (typeof CEFR_LEVELS)[number];
+
+// Parts of speech recorded for extracted vocabulary
+export const PARTS_OF_SPEECH = [
+  'noun', 'verb', 'adjective', 'adverb', 'pronoun', 'numeral', 'preposition', 'conjunction', 'particle', 'interjection', 'phrase',
+] as const;
+export type PartOfSpeech = (typeof PARTS_OF_SPEECH)[number];
+
+// Latvian grammar areas that corrections and exercise mistakes are classified into for weakness analytics
+export const GRAMMAR_TOPICS = [
+  'nominative_case', 'genitive_case', 'dative_case', 'accusative_case', 'locative_case', 'vocative_case',
+  'noun_declension', 'adjective_agreement', 'definite_adjective_endings', 'pronouns', 'numerals',
+  'present_tense', 'past_tense', 'future_tense', 'verb_conjugation', 'reflexive_verbs',
+  'imperative_mood', 'conditional_mood', 'debitive_mood', 'oblique_mood', 'participles', 'passive_voice',
+  'prepositions', 'negation', 'word_order', 'spelling_diacritics', 'word_choice', 'other',
+] as const;
+export type GrammarTopic = (typeof GRAMMAR_TOPICS)[number];
+
+// How the tutor teaches; learners set defaults on their profile and may override them per conversation
+export const TUTOR_PERSONAS = ['tutor', 'friendly_peer', 'strict_teacher', 'riga_local'] as const;
+export const CORRECTION_STRICTNESS = ['gentle', 'balanced', 'strict'] as const;
+// Formal "jūs" or informal "tu"
+export const FORMS_OF_ADDRESS = ['formal', 'informal'] as const;
+// How much English the tutor uses in explanations
+export const ENGLISH_USE = ['none', 'some', 'plenty'] as const;
+export const REPLY_LENGTHS = ['short', 'medium', 'long'] as const;
+
+export interface TutorStyle {
+  persona: (typeof TUTOR_PERSONAS)[number];
+  strictness: (typeof CORRECTION_STRICTNESS)[number];
+  address: (typeof FORMS_OF_ADDRESS)[number];
+  englishUse: (typeof ENGLISH_USE)[number];
+  replyLength: (typeof REPLY_LENGTHS)[number];
+}
+
+// Stored settings only hold the options that were chosen; the rest fall back to the next layer
+export type TutorStyleSettings = Partial<TutorStyle>;
+
+// How a reply suggestion compares with the learner's level
+export const HINT_DIFFICULTIES = ['easier', 'at_level', 'stretch'] as const;
+
+export interface ReplyHint {
+  difficulty: (typeof HINT_DIFFICULTIES)[number];
+  // Suggested reply in the conversation's language, and its English gloss
+  text: string;
+  gloss: string;
+}
+
+export interface ScenarioVocabularyItem {
+  term: string;
+  translation: string;
+}
+
+export const scenarios = pgTable('scenarios', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  slug: text('slug').notNull().unique(),
+  // Language the scenario is played in; only conversations in that language can use it
+  language: text('language').notNull(),
+  title: text('title').notNull(),
+  setting: text('setting').notNull(),
+  learnerGoal: text('learner_goal').notNull(),
+  tutorPersona: text('tutor_persona').notNull(),
+  starterMessage: text('starter_message').notNull(),
+  targetVocabulary: jsonb('target_vocabulary').$type<ScenarioVocabularyItem[]>().notNull().default([]),
+  minLevel: text('min_level', { enum: CEFR_LEVELS }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
 
 export const conversations = pgTable('conversations', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: text('user_id').notNull(),
   language: text('language').notNull(),
-  level: text('level').notNull(),
+  level: text('level', { enum: CEFR_LEVELS }).notNull(),
+  scenarioId: uuid('scenario_id').references(() => scenarios.id, { onDelete: 'set null' }),
+  // Set on forks: the conversation and message the history was copied from
+  parentConversationId: uuid('parent_conversation_id').references((): AnyPgColumn => conversations.id, { onDelete: 'set null' }),
+  forkedFromMessageId: uuid('forked_from_message_id').references((): AnyPgColumn => messages.id, { onDelete: 'set null' }),
   title: text('title'),
+  voice: text('voice', { enum: ['male', 'female', 'neutral'] }),
+  speakingRate: real('speaking_rate'),
+  // Overrides of the learner's default tutor style for this conversation
+  tutorStyle: jsonb('tutor_style').$type<TutorStyleSettings>().notNull().default({}),
+  summary: text('summary'),
+  summaryCutoffAt: timestamp('summary_cutoff_at', { withTimezone: true }),
+  // Sequence number of the latest message, incremented for every message appended
+  lastSequence: integer('last_sequence').notNull().default(0),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   lastMessageAt: timestamp('last_message_at', { withTimezone: true }),
-});
+}, (table) => [
+  index('conversations_user_id_created_at_idx').on(table.userId, table.createdAt, table.id),
+  index('conversations_title_search_idx').using('gin', sql`to_tsvector('lv_unaccent', ${foldedSearchText(sql`coalesce(${table.title}, '')`)})`),
+]);
 
 export const messages = pgTable('messages', {
   id: uuid('id').primaryKey().defaultRandom(),
   conversationId: uuid('conversation_id').notNull().references(() => conversations.id, { onDelete: 'cascade' }),
+  // Monotonic position within the conversation, used for ordering and pagination
+  sequence: integer('sequence').notNull(),
   role: text('role', { enum: ['user', 'assistant'] }).notNull(),
   content: text('content').notNull(),
+  // Storage key of the learner's recording or the synthesized reply, signed on every read
+  audioKey: text('audio_key'),
+  durationMs: integer('duration_ms'),
+  // Set on user messages sent after asking for reply hints
+  assisted: boolean('assisted').notNull().default(false),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('messages_conversation_id_sequence_idx').on(table.conversationId, table.sequence),
+  index('messages_content_search_idx').using('gin', sql`to_tsvector('lv_unaccent', ${foldedSearchText(sql`${table.content}`)})`),
+]);
+
+// Reply hints shown to a learner; hints are never saved as messages
+// messageId links the user message sent next, which marks that turn as assisted
+export const hintRequests = pgTable('hint_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  conversationId: uuid('conversation_id').notNull().references(() => conversations.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(),
+  // The conversation's last sequence number when the hints were asked for
+  afterSequence: integer('after_sequence').notNull(),
+  hints: jsonb('hints').$type<ReplyHint[]>().notNull(),
+  messageId: uuid('message_id').references(() => messages.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('hint_requests_conversation_id_idx').on(table.conversationId, table.afterSequence),
+  index('hint_requests_user_id_created_at_idx').on(table.userId, table.createdAt),
+]);
+
+// Idempotency-Key sent with a message request and the exchange it produced, so a retried request replays the first response
+export const messageIdempotencyKeys = pgTable('message_idempotency_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  key: text('key').notNull(),
+  conversationId: uuid('conversation_id').notNull().references(() => conversations.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: ['processing', 'completed'] }).notNull().default('processing'),
+  userMessageId: uuid('user_message_id').references(() => messages.id, { onDelete: 'set null' }),
+  assistantMessageId: uuid('assistant_message_id').references(() => messages.id, { onDelete: 'set null' }),
+  // Body returned to the first request, without signed audio URLs
+  response: jsonb('response'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+}, (table) => [
+  uniqueIndex('message_idempotency_keys_user_id_key_idx').on(table.userId, table.key),
+]);
+
+export const messageCorrections = pgTable('message_corrections', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  messageId: uuid('message_id').notNull().references(() => messages.id, { onDelete: 'cascade' }),
+  originalText: text('original_text').notNull(),
+  correctedText: text('corrected_text').notNull(),
+  category: text('category', {
+    enum: ['case', 'verb_conjugation', 'word_order', 'spelling_diacritics', 'agreement', 'vocabulary', 'other'],
+  }).notNull(),
+  explanation: text('explanation').notNull(),
+  // Grammar area of the mistake; only set for Latvian, the language the taxonomy covers
+  topic: text('topic', { enum: GRAMMAR_TOPICS }),
+  spanStart: integer('span_start'),
+  spanEnd: integer('span_end'),
+  // Correction a fork copied this one from, so the mistake is counted once; the first correction when forks are forked
+  copiedFromId: uuid('copied_from_id'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Synthesized speech stored in app.storage, keyed by a hash of the text, voice and rate
+export const ttsCache = pgTable('tts_cache', {
+  cacheKey: text('cache_key').primaryKey(),
+  storageKey: text('storage_key').notNull(),
+  contentType: text('content_type').notNull(),
+  durationMs: integer('duration_ms'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
 export const vocabulary = pgTable('vocabulary', {
   id: uuid('id').primaryKey().defaultRandom(),
   conversationId: uuid('conversation_id').notNull().references(() => conversations.id, { onDelete: 'cascade' }),
+  // Assistant reply the word was extracted from; replacing the reply removes its words
+  messageId: uuid('message_id').references(() => messages.id, { onDelete: 'cascade' }),
   userId: text('user_id').notNull(),
-  latvianWord: text('latvian_word').notNull(),
-  englishTranslation: text('english_translation').notNull(),
+  // Word in the language being learned, in its dictionary form, and its translation into the learner's language
+  // The forms it was seen in are kept as occurrences
+  term: text('term').notNull(),
+  translation: text('translation').notNull(),
+  targetLanguage: text('target_language').notNull(),
+  sourceLanguage: text('source_language').notNull(),
+  // Lower-case dictionary form the word is deduplicated by; null on rows stored before lemmatization
+  lemma: text('lemma'),
+  // Part of speech and noun gender; null for words found by the fallback pattern extractor
+  partOfSpeech: text('part_of_speech', { enum: PARTS_OF_SPEECH }),
+  gender: text('gender', { enum: ['masculine', 'feminine'] }),
   context: text('context'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
-});
+}, (table) => [
+  index('vocabulary_search_idx').using(
+    'gin',
+    sql`to_tsvector('lv_unaccent', ${foldedSearchText(sql`${table.term} || ' ' || ${table.translation}`)})`
+  ),
+]);
+
+// Each reply a vocabulary word appeared in, with the form it took there (skolā, skolas, skolām for skola)
+export const vocabularyOccurrences = pgTable('vocabulary_occurrences', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  vocabularyId: uuid('vocabulary_id').notNull().references(() => vocabulary.id, { onDelete: 'cascade' }),
+  // Replacing the reply removes the occurrence but keeps the word if it was first seen earlier
+  messageId: uuid('message_id').references(() => messages.id, { onDelete: 'cascade' }),
+  term: text('term').notNull(),
+  context: text('context'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('vocabulary_occurrences_vocabulary_idx').on(table.vocabularyId),
+  // A reply records each form of a word once, so rerunning its vocabulary job adds nothing
+  uniqueIndex('vocabulary_occurrences_vocabulary_id_message_id_term_idx').on(table.vocabularyId, table.messageId, table.term),
+]);
 
-export const conversationsRelations = relations(conversations, ({ many }) => ({
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  scenario: one(scenarios, {
+    fields: [conversations.scenarioId],
+    references: [scenarios.id],
+  }),
+  parentConversation: one(conversations, {
+    fields: [conversations.parentConversationId],
+    references: [conversations.id],
+    relationName: 'forks',
+  }),
+  forks: many(conversations, { relationName: 'forks' }),
   messages: many(messages),
   vocabulary: many(vocabulary),
+  hintRequests: many(hintRequests),
+}));
+
+export const scenariosRelations = relations(scenarios, ({ many }) => ({
+  conversations: many(conversations),
 }));
 
-export const messagesRelations = relations(messages, ({ one }) => ({
+export const messagesRelations = relations(messages, ({ one, many }) => ({
   conversation: one(conversations, {
     fields: [messages.conversationId],
     references: [conversations.id],
   }),
+  corrections: many(messageCorrections),
+  vocabulary: many(vocabulary),
+}));
+
+export const hintRequestsRelations = relations(hintRequests, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [hintRequests.conversationId],
+    references: [conversations.id],
+  }),
+  message: one(messages, {
+    fields: [hintRequests.messageId],
+    references: [messages.id],
+  }),
+}));
+
+export const messageCorrectionsRelations = relations(messageCorrections, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageCorrections.messageId],
+    references: [messages.id],
+  }),
 }));
 
 export const dailyVocabulary = pgTable('daily_vocabulary', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: text('user_id').notNull(),
-  latvianWord: text('latvian_word').notNull(),
-  englishTranslation: text('english_translation').notNull(),
+  term: text('term').notNull(),
+  translation: text('translation').notNull(),
+  targetLanguage: text('target_language').notNull(),
+  sourceLanguage: text('source_language').notNull(),
   context: text('context'),
   topic: text('topic').notNull(),
   date: date('date').notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
-export const vocabularyRelations = relations(vocabulary, ({ one }) => ({
+export const vocabularyRelations = relations(vocabulary, ({ one, many }) => ({
   conversation: one(conversations, {
     fields: [vocabulary.conversationId],
     references: [conversations.id],
   }),
+  message: one(messages, {
+    fields: [vocabulary.messageId],
+    references: [messages.id],
+  }),
+  occurrences: many(vocabularyOccurrences),
+}));
+
+export const vocabularyOccurrencesRelations = relations(vocabularyOccurrences, ({ one }) => ({
+  vocabulary: one(vocabulary, {
+    fields: [vocabularyOccurrences.vocabularyId],
+    references: [vocabulary.id],
+  }),
+  message: one(messages, {
+    fields: [vocabularyOccurrences.messageId],
+    references: [messages.id],
+  }),
 }));
+
+// One record per learner; the level is set by the placement test and used as the default for new conversations
+export const userProfiles = pgTable('user_profiles', {
+  userId: text('user_id').primaryKey(),
+  level: text('level', { enum: CEFR_LEVELS }),
+  placedAt: timestamp('placed_at', { withTimezone: true }),
+  // Default tutor style for the learner's conversations
+  tutorStyle: jsonb('tutor_style').$type<TutorStyleSettings>().notNull().default({}),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const placementTests = pgTable('placement_tests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  status: text('status', { enum: ['in_progress', 'completed', 'abandoned'] }).notNull().default('in_progress'),
+  // Item currently shown to the learner; only an answer to this item is accepted
+  currentItemId: text('current_item_id'),
+  // Ability estimate on the item difficulty scale (1 = A1 ... 5 = C1) and its standard error
+  ability: real('ability').notNull(),
+  standardError: real('standard_error').notNull(),
+  level: text('level', { enum: CEFR_LEVELS }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+}, (table) => [
+  index('placement_tests_user_id_idx').on(table.userId, table.createdAt),
+]);
+
+export const placementAnswers = pgTable('placement_answers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  testId: uuid('test_id').notNull().references(() => placementTests.id, { onDelete: 'cascade' }),
+  itemId: text('item_id').notNull(),
+  skill: text('skill', { enum: ['grammar', 'vocabulary', 'reading'] }).notNull(),
+  difficulty: integer('difficulty').notNull(),
+  answer: integer('answer').notNull(),
+  correct: boolean('correct').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('placement_answers_test_id_item_id_idx').on(table.testId, table.itemId),
+]);
+
+export const placementTestsRelations = relations(placementTests, ({ many }) => ({
+  answers: many(placementAnswers),
+}));
+
+export const placementAnswersRelations = relations(placementAnswers, ({ one }) => ({
+  test: one(placementTests, {
+    fields: [placementAnswers.testId],
+    references: [placementTests.id],
+  }),
+}));
+
+// One row per model call made on a learner's behalf, used for usage reporting and daily quotas
+export const aiUsage = pgTable('ai_usage', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  task: text('task').notNull(),
+  purpose: text('purpose').notNull(),
+  model: text('model').notNull(),
+  // Failed calls and streams stopped early are recorded too, as the provider may still bill them
+  status: text('status', { enum: ['completed', 'failed', 'aborted'] }).notNull().default('completed'),
+  // Null when the provider does not report them
+  inputTokens: integer('input_tokens'),
+  outputTokens: integer('output_tokens'),
+  latencyMs: integer('latency_ms').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('ai_usage_user_id_created_at_idx').on(table.userId, table.createdAt),
+]);
+
+// Background work queued by the API and run by the job worker
+// Failed jobs go back to pending with a growing delay until maxAttempts, then stay dead for inspection
+export const jobs = pgTable('jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  type: text('type').notNull(),
+  payload: jsonb('payload').notNull(),
+  userId: text('user_id').notNull(),
+  conversationId: uuid('conversation_id').references(() => conversations.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: ['pending', 'running', 'completed', 'dead'] }).notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(5),
+  // Earliest time the job may run; pushed back after each failed attempt
+  runAt: timestamp('run_at', { withTimezone: true }).defaultNow().notNull(),
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+  lastError: text('last_error'),
+  result: jsonb('result'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+}, (table) => [
+  index('jobs_status_run_at_idx').on(table.status, table.runAt),
+  index('jobs_conversation_id_idx').on(table.conversationId, table.createdAt),
+]);
@@ -3,7 +3,19 @@ import * as appSchema from './db/schema/schema.js';
 import * as authSchema from './db/schema/auth-schema.js';
 import { registerConversationRoutes } from './routes/conversations.js';
 import { registerVocabularyRoutes } from './routes/vocabulary.js';
+import { registerScenarioRoutes } from './routes/scenarios.js';
+import { registerPronunciationRoutes } from './routes/pronunciation.js';
+import { registerSearchRoutes } from './routes/search.js';
+import { registerExportRoutes } from './routes/export.js';
+import { registerPlacementRoutes } from './routes/placement.js';
+import { registerProfileRoutes } from './routes/profile.js';
+import { registerUsageRoutes } from './routes/usage.js';
+import { registerJobRoutes } from './routes/jobs.js';
+import { registerWeaknessRoutes } from './routes/weaknesses.js';
+import { registerHintRoutes } from './routes/hints.js';
 import { registerNativeAuthRoutes } from './routes/native-auth.js';
+import { registerAiUsageRecording } from './services/usage.js';
+import { startJobWorker } from './services/jobs/index.js';
 
 const schema = { ...appSchema, ...authSchema };
 
@@ -117,10 +129,28 @@ app.withAuth({
 // Enable storage for audio files
 app.withStorage();
 
+// Record the model calls made for each learner in ai_usage
+registerAiUsageRecording(app);
+
 // Register routes
 registerConversationRoutes(app);
 registerVocabularyRoutes(app);
+registerScenarioRoutes(app);
+registerPronunciationRoutes(app);
+registerSearchRoutes(app);
+registerExportRoutes(app);
+registerPlacementRoutes(app);
+registerProfileRoutes(app);
+registerUsageRoutes(app);
+registerJobRoutes(app);
+registerWeaknessRoutes(app);
+registerHintRoutes(app);
 registerNativeAuthRoutes(app);
 
 await app.run();
 app.logger.info('Application running');
+
+// Run queued background jobs in this process unless JOB_WORKER=off
+if (process.env.JOB_WORKER !== 'off') {
+  startJobWorker(app);
+}
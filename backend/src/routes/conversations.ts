@@ -1,23 +1,96 @@
 import type { App } from '../index.js';
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, asc, desc, gt, gte, inArray, lt, sql, type SQL } from 'drizzle-orm';
 import * as schema from '../db/schema/schema.js';
-import { gateway } from '@specific-dev/framework';
-import { generateText } from 'ai';
+import { ai, type AiTextRequest } from '../services/ai/index.js';
+import { analyzeCorrections, getCorrectionsByMessage, GRAMMAR_TOPIC_LANGUAGE, type MessageCorrection } from '../services/corrections.js';
+import { buildHistoryContext, type PendingRewrite } from '../services/history.js';
+import { enqueueReplyEnrichment, type QueuedJob } from '../services/jobs/index.js';
+import { forkConversation } from '../services/forks.js';
+import {
+  appendMessage,
+  getMessageAudioUrls,
+  storeUserAudio,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  type MessageAudio,
+} from '../services/messages.js';
+import { buildScenarioPrompt, getScenario, isLevelAtLeast, type Scenario } from '../services/scenarios.js';
+import { getSpeechAudio, getVoiceSettings } from '../services/speech.js';
+import { getRecordingDuration, transcribeAudio, type Transcription } from '../services/transcription.js';
+import { MAX_SPEAKING_RATE, MIN_SPEAKING_RATE, TTS_VOICES, type TtsVoice } from '../services/tts/index.js';
+import { DEFAULT_LEVEL, getUserProfile } from '../services/profile.js';
+import { checkUsageAllowance } from '../services/usage.js';
+import { getWeakestTopics, type TopicWeakness } from '../services/weaknesses.js';
+import { markAssistedMessage } from '../services/hints.js';
+import {
+  applyTutorStyleChanges,
+  buildTutorStylePrompt,
+  getConversationTutorStyle,
+  TUTOR_STYLE_SCHEMA,
+  TUTOR_STYLE_UPDATE_SCHEMA,
+  type TutorStyleChanges,
+} from '../services/tutor-style.js';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  parseIdempotencyKey,
+  releaseIdempotencyKey,
+  IDEMPOTENCY_KEY_HEADER,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  type IdempotencyKey,
+} from '../services/idempotency.js';
 
 interface CreateConversationBody {
   language: string;
-  level: string;
+  // Defaults to the level from the learner's placement test
+  level?: schema.CefrLevel;
+  scenarioId?: string;
+  // Overrides of the learner's default tutor style
+  tutorStyle?: schema.TutorStyleSettings;
+}
+
+// Conversation cursors are conversation ids; the list runs newest first
+interface ListConversationsQuery {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+// Message cursors are sequence numbers; pages run oldest first
+interface ListMessagesQuery {
+  before?: number;
+  after?: number;
+  limit?: number;
 }
 
 interface CreateMessageBody {
   message: string;
 }
 
+interface ForkConversationBody {
+  fromMessageId: string;
+}
+
+interface UpdateMessageBody {
+  message: string;
+}
+
+interface UpdateConversationBody {
+  title?: string;
+  level?: schema.CefrLevel;
+  voice?: TtsVoice;
+  speakingRate?: number;
+  tutorStyle?: TutorStyleChanges;
+}
+
 interface CreateConversationResponse {
   conversationId: string;
   language: string;
   level: string;
+  scenarioId: string | null;
+  title: string | null;
+  tutorStyle: schema.TutorStyleSettings;
   createdAt: string;
 }
 
@@ -25,36 +98,53 @@ interface GetConversationsResponse {
   conversationId: string;
   language: string;
   level: string;
+  scenarioId: string | null;
+  parentConversationId: string | null;
+  forkedFromMessageId: string | null;
   title: string | null;
+  voice: TtsVoice | null;
+  speakingRate: number | null;
+  tutorStyle: schema.TutorStyleSettings;
+  summary: string | null;
   lastMessageAt: string | null;
   createdAt: string;
 }
 
 interface GetMessagesResponse {
   id: string;
+  sequence: number;
   role: string;
   content: string;
+  // Fresh signed URL of the message's recording or synthesized speech
+  audioUrl: string | null;
+  durationMs: number | null;
+  // User message sent after asking for reply hints
+  assisted: boolean;
   createdAt: string;
+  corrections: MessageCorrection[];
 }
 
 interface CreateMessageResponse {
   response: string;
   messageId: string;
+  userMessageId: string;
+  corrections: MessageCorrection[];
+  title: string | null;
+  // Background jobs producing the reply's vocabulary, speech and title; poll GET /api/conversations/:id/jobs
+  jobs?: QueuedJob[];
 }
 
 interface DeleteResponse {
   success: boolean;
 }
 
-interface SpeechToTextResponse {
-  text: string;
-  language: string;
-}
+type SpeechToTextResponse = Transcription;
 
 interface TextToSpeechBody {
   text: string;
   language: string;
   voice?: string;
+  rate?: number;
 }
 
 interface CreateMessageBodyWithAudio extends CreateMessageBody {
@@ -63,77 +153,344 @@ interface CreateMessageBodyWithAudio extends CreateMessageBody {
 
 interface CreateMessageResponseWithAudio extends CreateMessageResponse {
   audioUrl?: string;
+  audioDurationMs?: number | null;
+  // Present when the message was sent as audio
+  transcription?: Transcription;
 }
 
-interface VocabularyPair {
-  latvianWord: string;
-  englishTranslation: string;
-  context: string;
-}
+// JSON schema for a stored correction, shared by the message endpoints
+const correctionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    originalText: { type: 'string' },
+    correctedText: { type: 'string' },
+    category: { type: 'string' },
+    explanation: { type: 'string' },
+    topic: { type: ['string', 'null'] },
+    spanStart: { type: ['integer', 'null'] },
+    spanEnd: { type: ['integer', 'null'] },
+  },
+};
+
+// JSON schema for a background job queued by a message endpoint
+const queuedJobSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    type: { type: 'string' },
+    status: { type: 'string' },
+  },
+};
+
+// JSON schema for a transcription, shared by the speech-to-text and message endpoints
+const transcriptionSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    language: { type: 'string' },
+    confidence: { type: ['number', 'null'] },
+    words: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          word: { type: 'string' },
+          startMs: { type: ['number', 'null'] },
+          endMs: { type: ['number', 'null'] },
+          confidence: { type: ['number', 'null'] },
+          language: { type: ['string', 'null'] },
+        },
+      },
+    },
+    languages: { type: 'array', items: { type: 'string' } },
+    mixedLanguage: { type: 'boolean' },
+  },
+};
+
+// Build the tutor system prompt for a conversation
+// The rolling summary stands in for turns that are no longer sent verbatim
+// Weak topics steer the tutor toward grammar the learner keeps getting wrong
+function buildSystemPrompt(
+  conversation: typeof schema.conversations.$inferSelect,
+  summary: string | null,
+  scenario: Scenario | undefined,
+  tutorStyle: schema.TutorStyle,
+  weakTopics: TopicWeakness[] = []
+): string {
+  const prompt = `You are a language tutor specializing in teaching ${conversation.language} at the ${conversation.level} level. Your responsibilities include:
+- Helping the student practice ${conversation.language} conversation
+- Providing corrections when the student makes grammatical or vocabulary mistakes
+- Offering explanations for corrections in a clear, educational way
+- Using age-appropriate and contextually relevant examples
+- Encouraging the student and maintaining a positive learning environment
+- Adapting your responses to match the ${conversation.level} proficiency level
 
-// Extract vocabulary pairs from text
-// Looks for patterns like: "word (translation)" or "word - translation"
-function extractVocabulary(text: string): VocabularyPair[] {
-  const vocabulary: VocabularyPair[] = [];
-  const seen = new Set<string>();
+Always respond in ${conversation.language} when the student uses ${conversation.language}.`;
 
-  // Pattern 1: "word (translation)" or "word(translation)"
-  const pattern1 = /(\w+)\s*\(([^)]+)\)/g;
-  let match;
+  const sections = [prompt, buildTutorStylePrompt(tutorStyle, conversation.language, scenario !== undefined)];
 
-  while ((match = pattern1.exec(text)) !== null) {
-    const word = match[1].trim();
-    const translation = match[2].trim();
+  if (scenario) {
+    sections.push(buildScenarioPrompt(scenario));
+  }
 
-    // Create unique key to avoid duplicates
-    const key = `${word.toLowerCase()}-${translation.toLowerCase()}`;
+  if (weakTopics.length > 0) {
+    const topics = weakTopics.map((weakness) => weakness.label.toLowerCase()).join(', ');
+    sections.push(`The student keeps making mistakes with: ${topics}. Where it fits the conversation naturally, use these structures in your replies and ask questions that make the student use them. When the student gets one of them wrong, point it out gently with a short example of the correct form.`);
+  }
 
-    if (!seen.has(key) && word.length > 1 && translation.length > 1) {
-      seen.add(key);
+  if (summary) {
+    sections.push(`Summary of the earlier part of this conversation:
+${summary}`);
+  }
 
-      // Extract surrounding context (sentence containing the vocabulary)
-      const start = Math.max(0, match.index - 50);
-      const end = Math.min(text.length, match.index + match[0].length + 50);
-      const context = text.substring(start, end).trim();
+  return sections.join('\n\n');
+}
 
-      vocabulary.push({
-        latvianWord: word,
-        englishTranslation: translation,
-        context,
-      });
+// Grammar topics the learner has recently struggled with, for Latvian conversations
+// Failures are logged and yield no topics so the reply is never blocked
+async function loadWeakTopics(
+  app: App,
+  conversation: typeof schema.conversations.$inferSelect
+): Promise<TopicWeakness[]> {
+  if (conversation.language !== GRAMMAR_TOPIC_LANGUAGE) {
+    return [];
+  }
+  try {
+    return await getWeakestTopics(app, conversation.userId);
+  } catch (error) {
+    app.logger.warn({ err: error, conversationId: conversation.id }, 'Failed to load weak grammar topics (continuing without them)');
+    return [];
+  }
+}
+
+// Take over the raw response so Server-Sent Events can be flushed as they are produced
+// Headers already set on the reply (e.g. CORS) are carried over since hijacking skips Fastify's send pipeline
+function startSseStream(reply: FastifyReply): void {
+  reply.hijack();
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) {
+      reply.raw.setHeader(name, value);
     }
   }
+  reply.raw.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+}
+
+// Write a single Server-Sent Event to a hijacked reply
+// Events for a client that has already disconnected are dropped
+function writeSseEvent(reply: FastifyReply, event: string, data: unknown): void {
+  if (reply.raw.destroyed || reply.raw.writableEnded) {
+    return;
+  }
+  reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
-  // Pattern 2: "word - translation" or "word — translation"
-  const pattern2 = /(\w+)\s*[-–—]\s*([^.,\n]+)/g;
+// Generate the tutor's next reply from the conversation history
+// Throws when the AI call fails or times out, so nothing is stored in place of a real reply
+async function generateTutorReply(
+  app: App,
+  conversation: typeof schema.conversations.$inferSelect,
+  rewrite?: PendingRewrite
+): Promise<string> {
+  // Recent turns plus a rolling summary of older ones
+  const history = await buildHistoryContext(app, conversation, rewrite);
+  const scenario = conversation.scenarioId ? await getScenario(app, conversation.scenarioId) : undefined;
+  const tutorStyle = await getConversationTutorStyle(app, conversation);
+  const weakTopics = await loadWeakTopics(app, conversation);
+
+  const aiRequest: AiTextRequest = {
+    task: 'chat',
+    purpose: 'tutor-reply',
+    system: buildSystemPrompt(conversation, history.summary, scenario, tutorStyle, weakTopics),
+    messages: history.messages,
+    userId: conversation.userId,
+  };
+
+  const result = await ai.generateText(aiRequest);
+  return result.text;
+}
+
+// How an edit or regeneration rewrites a conversation before the tutor replies again
+interface HistoryRewrite {
+  // Messages after this one are removed, and the message itself too when inclusive
+  from: typeof schema.messages.$inferSelect;
+  inclusive: boolean;
+  // Latest user message the new reply answers, and its new text when it was edited
+  userMessage: typeof schema.messages.$inferSelect;
+  editedContent?: string;
+}
+
+// A rolling summary that already covers the removed messages is dropped so it is rebuilt from the remaining history
+function coversRemovedMessages(
+  conversation: typeof schema.conversations.$inferSelect,
+  rewrite: HistoryRewrite
+): boolean {
+  return conversation.summaryCutoffAt !== null && conversation.summaryCutoffAt >= rewrite.from.createdAt;
+}
 
-  while ((match = pattern2.exec(text)) !== null) {
-    const word = match[1].trim();
-    const translation = match[2].trim();
+// Remove every message after the given one in the conversation, together with their corrections and vocabulary
+// Runs on the transaction that stores the new reply, so the removal is undone when storing it fails
+async function truncateConversation(
+  app: App,
+  tx: App['db'],
+  conversation: typeof schema.conversations.$inferSelect,
+  rewrite: HistoryRewrite
+): Promise<void> {
+  const { from, inclusive } = rewrite;
+  const removed = await tx
+    .delete(schema.messages)
+    .where(
+      and(
+        eq(schema.messages.conversationId, conversation.id),
+        inclusive ? gte(schema.messages.sequence, from.sequence) : gt(schema.messages.sequence, from.sequence)
+      )
+    )
+    .returning({ id: schema.messages.id });
+
+  app.logger.info({ conversationId: conversation.id, removedCount: removed.length }, 'Conversation truncated');
+
+  // Checked against the stored cutoff, as building the new reply's history may have summarized older turns since
+  const reset = await tx
+    .update(schema.conversations)
+    .set({ summary: null, summaryCutoffAt: null })
+    .where(and(eq(schema.conversations.id, conversation.id), gte(schema.conversations.summaryCutoffAt, from.createdAt)))
+    .returning({ id: schema.conversations.id });
+
+  if (reset.length > 0) {
+    app.logger.info({ conversationId: conversation.id }, 'Conversation summary reset');
+  }
+}
 
-    // Skip if translation contains multiple words with hyphens (likely not a vocabulary pair)
-    if (translation.split(/\s+/).length > 3) {
-      continue;
+// Generate a new tutor reply for an edit or regeneration, then rewrite the history and store the reply
+// The reply is generated against the rewritten history before anything is removed, and the removal, the edit
+// and the reply are stored in one transaction, so a failed model call leaves the conversation as it was
+// Corrections are analysed once the rewrite is stored; vocabulary and speech for the reply are left to background jobs
+async function replyToRewrittenHistory(
+  app: App,
+  conversation: typeof schema.conversations.$inferSelect,
+  rewrite: HistoryRewrite,
+  loadCorrections: (conversation: typeof schema.conversations.$inferSelect) => Promise<MessageCorrection[]>
+): Promise<CreateMessageResponseWithAudio> {
+  const { userMessage, editedContent } = rewrite;
+  const rewritten = coversRemovedMessages(conversation, rewrite)
+    ? { ...conversation, summary: null, summaryCutoffAt: null }
+    : conversation;
+
+  const aiResponse = await generateTutorReply(app, rewritten, { throughSequence: userMessage.sequence, content: editedContent });
+
+  app.logger.info({ conversationId: conversation.id, responseLength: aiResponse.length }, 'AI response regenerated');
+
+  const assistantMessage = await app.db.transaction(async (tx: App['db']) => {
+    await truncateConversation(app, tx, conversation, rewrite);
+
+    if (editedContent !== undefined) {
+      await tx
+        .update(schema.messages)
+        .set({ content: editedContent, audioKey: null, durationMs: null })
+        .where(eq(schema.messages.id, userMessage.id));
+
+      // Corrections of the old text no longer apply, and neither does the recording
+      await tx.delete(schema.messageCorrections).where(eq(schema.messageCorrections.messageId, userMessage.id));
+
+      app.logger.info({ conversationId: conversation.id, messageId: userMessage.id }, 'Message updated');
     }
 
-    const key = `${word.toLowerCase()}-${translation.toLowerCase()}`;
+    return appendMessage({ db: tx }, conversation.id, 'assistant', aiResponse);
+  });
+
+  const correctionsPromise = loadCorrections(rewritten);
+  const jobs = await enqueueReplyEnrichment(app, rewritten, userMessage.id, assistantMessage.id);
+
+  const corrections = await correctionsPromise;
+
+  await app.db
+    .update(schema.conversations)
+    .set({
+      lastMessageAt: new Date(),
+    })
+    .where(eq(schema.conversations.id, conversation.id));
+
+  return {
+    response: aiResponse,
+    messageId: assistantMessage.id,
+    userMessageId: userMessage.id,
+    corrections,
+    title: conversation.title,
+    jobs,
+  };
+}
 
-    if (!seen.has(key) && word.length > 1 && translation.length > 1) {
-      seen.add(key);
+// Undo an exchange that failed after the learner's message was saved: remove the messages it stored, then give up
+// its Idempotency-Key, so a retry with the same key saves the message again instead of duplicating it
+// The corrections analysis is awaited first so its insert cannot land after the message is gone
+async function discardFailedExchange(
+  app: App,
+  claimId: string | undefined,
+  messageIds: string[],
+  correctionsPromise: Promise<MessageCorrection[]>
+): Promise<void> {
+  await correctionsPromise;
+  await app.db.delete(schema.messages).where(inArray(schema.messages.id, messageIds));
+  if (claimId) await releaseIdempotencyKey(app, claimId);
+}
 
-      const start = Math.max(0, match.index - 50);
-      const end = Math.min(text.length, match.index + match[0].length + 50);
-      const context = text.substring(start, end).trim();
+// Claim the Idempotency-Key of a message request, or answer the request when it must not go ahead
+// Resolves to the claim to complete or release (none without a key), a completed exchange to replay,
+// or null once an error reply has been sent
+async function claimMessageRequest(
+  app: App,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  userId: string,
+  conversationId: string
+): Promise<{ claimId?: string; replay?: IdempotencyKey } | null> {
+  const key = parseIdempotencyKey(request.headers[IDEMPOTENCY_KEY_HEADER]);
+  if (key === undefined) {
+    return {};
+  }
+  if (key === null) {
+    reply.status(400).send({ error: `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+    return null;
+  }
 
-      vocabulary.push({
-        latvianWord: word,
-        englishTranslation: translation,
-        context,
-      });
-    }
+  const claim = await claimIdempotencyKey(app, userId, conversationId, key);
+
+  switch (claim.status) {
+    case 'claimed':
+      return { claimId: claim.claimId };
+    case 'completed':
+      app.logger.info({ conversationId, userId, idempotencyKey: key }, 'Replaying message exchange');
+      return { replay: claim.record };
+    case 'processing':
+      app.logger.warn({ conversationId, userId, idempotencyKey: key }, 'Message request with this key already in progress');
+      reply.status(409).send({ error: 'A request with this Idempotency-Key is still being processed' });
+      return null;
+    case 'mismatch':
+      app.logger.warn({ conversationId, userId, idempotencyKey: key }, 'Idempotency-Key reused in another conversation');
+      reply.status(422).send({ error: 'Idempotency-Key was already used in another conversation' });
+      return null;
   }
+}
+
+// Response of an exchange replayed under its Idempotency-Key
+// The reply's audio is signed again because signed URLs expire
+async function replayMessageResponse(app: App, record: IdempotencyKey): Promise<CreateMessageResponseWithAudio> {
+  const response = record.response as CreateMessageResponseWithAudio;
+
+  const assistantMessage = record.assistantMessageId
+    ? await app.db
+        .select()
+        .from(schema.messages)
+        .where(eq(schema.messages.id, record.assistantMessageId))
+        .then((result) => result[0])
+    : undefined;
+  const audioUrls = assistantMessage ? await getMessageAudioUrls(app, [assistantMessage]) : new Map<string, string>();
 
-  return vocabulary;
+  return { ...response, audioUrl: audioUrls.get(response.messageId) };
 }
 
 export function registerConversationRoutes(app: App) {
@@ -144,14 +501,16 @@ export function registerConversationRoutes(app: App) {
     '/api/conversations',
     {
       schema: {
-        description: 'Create a new conversation',
+        description: 'Create a new conversation, optionally based on a role-play scenario',
         tags: ['conversations'],
         body: {
           type: 'object',
-          required: ['language', 'level'],
+          required: ['language'],
           properties: {
             language: { type: 'string' },
-            level: { type: 'string' },
+            level: { type: 'string', enum: [...schema.CEFR_LEVELS] },
+            scenarioId: { type: 'string', format: 'uuid' },
+            tutorStyle: TUTOR_STYLE_SCHEMA,
           },
         },
         response: {
@@ -161,24 +520,56 @@ export function registerConversationRoutes(app: App) {
               conversationId: { type: 'string', format: 'uuid' },
               language: { type: 'string' },
               level: { type: 'string' },
+              scenarioId: { type: ['string', 'null'], format: 'uuid' },
+              title: { type: ['string', 'null'] },
+              tutorStyle: TUTOR_STYLE_SCHEMA,
               createdAt: { type: 'string', format: 'date-time' },
             },
           },
+          400: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
           401: {
             type: 'object',
             properties: { error: { type: 'string' } },
           },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
         },
       },
     },
-    async (request: FastifyRequest<{ Body: CreateConversationBody }>, reply: FastifyReply): Promise<CreateConversationResponse> => {
+    async (request: FastifyRequest<{ Body: CreateConversationBody }>, reply: FastifyReply): Promise<CreateConversationResponse | void> => {
       const session = await requireAuth(request, reply);
       if (!session) return;
 
-      const { language, level } = request.body;
+      const { language, scenarioId, tutorStyle = {} } = request.body;
       const userId = session.user.id;
+      const level = request.body.level ?? (await getUserProfile(app, userId)).level ?? DEFAULT_LEVEL;
+
+      app.logger.info({ userId, language, level, scenarioId }, 'Creating conversation');
+
+      let scenario: Scenario | undefined;
+      if (scenarioId) {
+        scenario = await getScenario(app, scenarioId);
+
+        if (!scenario) {
+          app.logger.warn({ scenarioId, userId }, 'Scenario not found');
+          return reply.status(404).send({ error: 'Scenario not found' });
+        }
+
+        if (scenario.language !== language) {
+          app.logger.warn({ scenarioId, userId, language, scenarioLanguage: scenario.language }, 'Scenario language mismatch');
+          return reply.status(400).send({ error: `This scenario is played in ${scenario.language}` });
+        }
 
-      app.logger.info({ userId, language, level }, 'Creating conversation');
+        if (!isLevelAtLeast(level, scenario.minLevel)) {
+          app.logger.warn({ scenarioId, userId, level, minLevel: scenario.minLevel }, 'Level below scenario minimum');
+          return reply.status(400).send({ error: `This scenario requires at least the ${scenario.minLevel} level` });
+        }
+      }
 
       const [conversation] = await app.db
         .insert(schema.conversations)
@@ -186,28 +577,48 @@ export function registerConversationRoutes(app: App) {
           userId,
           language,
           level,
+          scenarioId: scenario?.id,
+          title: scenario?.title,
+          tutorStyle,
         })
         .returning();
 
-      app.logger.info({ conversationId: conversation.id, userId }, 'Conversation created successfully');
+      // Scenario conversations open with the tutor's first line
+      if (scenario) {
+        await appendMessage(app, conversation.id, 'assistant', scenario.starterMessage);
+      }
+
+      app.logger.info({ conversationId: conversation.id, userId, scenarioId: conversation.scenarioId }, 'Conversation created successfully');
 
       reply.status(201);
       return {
         conversationId: conversation.id,
         language: conversation.language,
         level: conversation.level,
+        scenarioId: conversation.scenarioId,
+        title: conversation.title,
+        tutorStyle: conversation.tutorStyle,
         createdAt: conversation.createdAt.toISOString(),
       };
     }
   );
 
-  // GET /api/conversations - Get user's conversations
-  app.fastify.get(
+  // GET /api/conversations - Get user's conversations, newest first
+  // `before` and `after` take a conversation id and return the page older or newer than it
+  app.fastify.get<{ Querystring: ListConversationsQuery }>(
     '/api/conversations',
     {
       schema: {
-        description: "Get user's conversations",
+        description: "Get user's conversations, newest first, paginated with conversation id cursors",
         tags: ['conversations'],
+        querystring: {
+          type: 'object',
+          properties: {
+            before: { type: 'string', format: 'uuid' },
+            after: { type: 'string', format: 'uuid' },
+            limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+          },
+        },
         response: {
           200: {
             type: 'array',
@@ -217,72 +628,1065 @@ export function registerConversationRoutes(app: App) {
                 conversationId: { type: 'string', format: 'uuid' },
                 language: { type: 'string' },
                 level: { type: 'string' },
+                scenarioId: { type: ['string', 'null'], format: 'uuid' },
+                parentConversationId: { type: ['string', 'null'], format: 'uuid' },
+                forkedFromMessageId: { type: ['string', 'null'], format: 'uuid' },
                 title: { type: ['string', 'null'] },
+                voice: { type: ['string', 'null'] },
+                speakingRate: { type: ['number', 'null'] },
+                tutorStyle: TUTOR_STYLE_SCHEMA,
+                summary: { type: ['string', 'null'] },
                 lastMessageAt: { type: ['string', 'null'], format: 'date-time' },
                 createdAt: { type: 'string', format: 'date-time' },
               },
             },
           },
-          401: {
+          400: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: ListConversationsQuery }>,
+      reply: FastifyReply
+    ): Promise<GetConversationsResponse[] | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { before, after, limit = DEFAULT_PAGE_SIZE } = request.query;
+      const userId = session.user.id;
+      app.logger.info({ userId, before, after, limit }, 'Fetching user conversations');
+
+      const conditions: SQL[] = [eq(schema.conversations.userId, userId)];
+
+      for (const cursorId of [before, after]) {
+        if (!cursorId) continue;
+
+        const cursor = await app.db
+          .select({ id: schema.conversations.id })
+          .from(schema.conversations)
+          .where(and(eq(schema.conversations.id, cursorId), eq(schema.conversations.userId, userId)))
+          .then((result) => result[0]);
+
+        if (!cursor) {
+          app.logger.warn({ userId, cursorId }, 'Conversation cursor not found');
+          return reply.status(400).send({ error: 'Invalid cursor' });
+        }
+      }
+
+      // Compare (createdAt, id) in SQL so timestamps keep their full precision
+      if (before) {
+        conditions.push(
+          sql`(${schema.conversations.createdAt}, ${schema.conversations.id}) < (select created_at, id from conversations where id = ${before})`
+        );
+      }
+      if (after) {
+        conditions.push(
+          sql`(${schema.conversations.createdAt}, ${schema.conversations.id}) > (select created_at, id from conversations where id = ${after})`
+        );
+      }
+
+      // A page after a cursor is the nearest newer rows, so it is read oldest first and flipped
+      const newestFirst = !after;
+      const page = await app.db
+        .select()
+        .from(schema.conversations)
+        .where(and(...conditions))
+        .orderBy(
+          newestFirst ? desc(schema.conversations.createdAt) : asc(schema.conversations.createdAt),
+          newestFirst ? desc(schema.conversations.id) : asc(schema.conversations.id)
+        )
+        .limit(limit);
+
+      const conversations = newestFirst ? page : page.reverse();
+
+      app.logger.info({ userId, count: conversations.length }, 'Conversations retrieved');
+
+      return conversations.map((conv) => ({
+        conversationId: conv.id,
+        language: conv.language,
+        level: conv.level,
+        scenarioId: conv.scenarioId,
+        parentConversationId: conv.parentConversationId,
+        forkedFromMessageId: conv.forkedFromMessageId,
+        title: conv.title,
+        voice: conv.voice,
+        speakingRate: conv.speakingRate,
+        tutorStyle: conv.tutorStyle,
+        summary: conv.summary,
+        lastMessageAt: conv.lastMessageAt ? conv.lastMessageAt.toISOString() : null,
+        createdAt: conv.createdAt.toISOString(),
+      }));
+    }
+  );
+
+  // GET /api/conversations/:id - Get a single conversation
+  app.fastify.get<{ Params: { id: string } }>(
+    '/api/conversations/:id',
+    {
+      schema: {
+        description: 'Get a conversation, including the rolling summary of earlier turns',
+        tags: ['conversations'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              conversationId: { type: 'string', format: 'uuid' },
+              language: { type: 'string' },
+              level: { type: 'string' },
+              scenarioId: { type: ['string', 'null'], format: 'uuid' },
+              parentConversationId: { type: ['string', 'null'], format: 'uuid' },
+              forkedFromMessageId: { type: ['string', 'null'], format: 'uuid' },
+              title: { type: ['string', 'null'] },
+              voice: { type: ['string', 'null'] },
+              speakingRate: { type: ['number', 'null'] },
+              tutorStyle: TUTOR_STYLE_SCHEMA,
+              summary: { type: ['string', 'null'] },
+              lastMessageAt: { type: ['string', 'null'], format: 'date-time' },
+              createdAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          403: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply): Promise<GetConversationsResponse | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const userId = session.user.id;
+
+      app.logger.info({ conversationId: id, userId }, 'Fetching conversation');
+
+      const conversation = await app.db
+        .select()
+        .from(schema.conversations)
+        .where(eq(schema.conversations.id, id))
+        .then((result) => result[0]);
+
+      if (!conversation) {
+        app.logger.warn({ conversationId: id, userId }, 'Conversation not found');
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
+
+      if (conversation.userId !== userId) {
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized to access conversation');
+        return reply.status(403).send({ error: 'Not authorized' });
+      }
+
+      return {
+        conversationId: conversation.id,
+        language: conversation.language,
+        level: conversation.level,
+        scenarioId: conversation.scenarioId,
+        parentConversationId: conversation.parentConversationId,
+        forkedFromMessageId: conversation.forkedFromMessageId,
+        title: conversation.title,
+        voice: conversation.voice,
+        speakingRate: conversation.speakingRate,
+        tutorStyle: conversation.tutorStyle,
+        summary: conversation.summary,
+        lastMessageAt: conversation.lastMessageAt ? conversation.lastMessageAt.toISOString() : null,
+        createdAt: conversation.createdAt.toISOString(),
+      };
+    }
+  );
+
+  // POST /api/conversations/:id/fork - Start a new branch of a conversation from one of its messages
+  app.fastify.post<{ Params: { id: string }; Body: ForkConversationBody }>(
+    '/api/conversations/:id/fork',
+    {
+      schema: {
+        description: 'Create a new conversation that copies the history up to and including a message',
+        tags: ['conversations'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['fromMessageId'],
+          properties: {
+            fromMessageId: { type: 'string', format: 'uuid' },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              conversationId: { type: 'string', format: 'uuid' },
+              language: { type: 'string' },
+              level: { type: 'string' },
+              scenarioId: { type: ['string', 'null'], format: 'uuid' },
+              parentConversationId: { type: ['string', 'null'], format: 'uuid' },
+              forkedFromMessageId: { type: ['string', 'null'], format: 'uuid' },
+              title: { type: ['string', 'null'] },
+              voice: { type: ['string', 'null'] },
+              speakingRate: { type: ['number', 'null'] },
+              tutorStyle: TUTOR_STYLE_SCHEMA,
+              summary: { type: ['string', 'null'] },
+              lastMessageAt: { type: ['string', 'null'], format: 'date-time' },
+              createdAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          403: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: ForkConversationBody }>,
+      reply: FastifyReply
+    ): Promise<GetConversationsResponse | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const { fromMessageId } = request.body;
+      const userId = session.user.id;
+
+      app.logger.info({ conversationId: id, fromMessageId, userId }, 'Forking conversation');
+
+      const conversation = await app.db
+        .select()
+        .from(schema.conversations)
+        .where(eq(schema.conversations.id, id))
+        .then((result) => result[0]);
+
+      if (!conversation) {
+        app.logger.warn({ conversationId: id, userId }, 'Conversation not found');
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
+
+      if (conversation.userId !== userId) {
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized');
+        return reply.status(403).send({ error: 'Not authorized' });
+      }
+
+      const message = await app.db
+        .select()
+        .from(schema.messages)
+        .where(and(eq(schema.messages.id, fromMessageId), eq(schema.messages.conversationId, id)))
+        .then((result) => result[0]);
+
+      if (!message) {
+        app.logger.warn({ conversationId: id, fromMessageId }, 'Message not found');
+        return reply.status(404).send({ error: 'Message not found' });
+      }
+
+      const fork = await forkConversation(app, conversation, message);
+
+      reply.status(201);
+      return {
+        conversationId: fork.id,
+        language: fork.language,
+        level: fork.level,
+        scenarioId: fork.scenarioId,
+        parentConversationId: fork.parentConversationId,
+        forkedFromMessageId: fork.forkedFromMessageId,
+        title: fork.title,
+        voice: fork.voice,
+        speakingRate: fork.speakingRate,
+        tutorStyle: fork.tutorStyle,
+        summary: fork.summary,
+        lastMessageAt: fork.lastMessageAt ? fork.lastMessageAt.toISOString() : null,
+        createdAt: fork.createdAt.toISOString(),
+      };
+    }
+  );
+
+  // GET /api/conversations/:id/messages - Get messages for a conversation, oldest first
+  // Without a cursor the latest page is returned; `before` and `after` take a message sequence number
+  app.fastify.get<{ Params: { id: string }; Querystring: ListMessagesQuery }>(
+    '/api/conversations/:id/messages',
+    {
+      schema: {
+        description: 'Get messages for a conversation in sequence order, paginated with sequence number cursors',
+        tags: ['conversations'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            before: { type: 'integer', minimum: 0 },
+            after: { type: 'integer', minimum: 0 },
+            limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+          },
+        },
+        response: {
+          200: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                sequence: { type: 'integer' },
+                role: { type: 'string' },
+                content: { type: 'string' },
+                audioUrl: { type: ['string', 'null'] },
+                durationMs: { type: ['integer', 'null'] },
+                assisted: { type: 'boolean' },
+                createdAt: { type: 'string', format: 'date-time' },
+                corrections: { type: 'array', items: correctionSchema },
+              },
+            },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          403: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: ListMessagesQuery }>,
+      reply: FastifyReply
+    ): Promise<GetMessagesResponse[] | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const { before, after, limit = DEFAULT_PAGE_SIZE } = request.query;
+      const userId = session.user.id;
+
+      app.logger.info({ conversationId: id, userId, before, after, limit }, 'Fetching messages');
+
+      const conversation = await app.db
+        .select()
+        .from(schema.conversations)
+        .where(eq(schema.conversations.id, id))
+        .then((result) => result[0]);
+
+      if (!conversation) {
+        app.logger.warn({ conversationId: id, userId }, 'Conversation not found');
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
+
+      if (conversation.userId !== userId) {
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized to access conversation');
+        return reply.status(403).send({ error: 'Not authorized' });
+      }
+
+      const conditions: SQL[] = [eq(schema.messages.conversationId, id)];
+      if (before !== undefined) {
+        conditions.push(lt(schema.messages.sequence, before));
+      }
+      if (after !== undefined) {
+        conditions.push(gt(schema.messages.sequence, after));
+      }
+
+      // Pages after a cursor continue forwards; otherwise the page ending at the cursor (or the latest
+      // message) is read newest first and flipped
+      const forwards = after !== undefined;
+      const page = await app.db
+        .select()
+        .from(schema.messages)
+        .where(and(...conditions))
+        .orderBy(forwards ? asc(schema.messages.sequence) : desc(schema.messages.sequence))
+        .limit(limit);
+
+      const messages = forwards ? page : page.reverse();
+
+      const [corrections, audioUrls] = await Promise.all([
+        getCorrectionsByMessage(app, messages.map((msg) => msg.id)),
+        getMessageAudioUrls(app, messages),
+      ]);
+
+      app.logger.info({ conversationId: id, messageCount: messages.length }, 'Messages retrieved');
+
+      return messages.map((msg) => ({
+        id: msg.id,
+        sequence: msg.sequence,
+        role: msg.role,
+        content: msg.content,
+        audioUrl: audioUrls.get(msg.id) ?? null,
+        durationMs: msg.durationMs,
+        assisted: msg.assisted,
+        createdAt: msg.createdAt.toISOString(),
+        corrections: corrections.get(msg.id) ?? [],
+      }));
+    }
+  );
+
+  // POST /api/conversations/:id/messages - Send message and get AI response
+  app.fastify.post<{ Params: { id: string }; Body: CreateMessageBody }>(
+    '/api/conversations/:id/messages',
+    {
+      schema: {
+        description: 'Send message to conversation and get AI response (supports JSON body with optional audio file)',
+        tags: ['conversations'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['message'],
+          properties: {
+            message: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              response: { type: 'string' },
+              messageId: { type: 'string', format: 'uuid' },
+              userMessageId: { type: 'string', format: 'uuid' },
+              corrections: { type: 'array', items: correctionSchema },
+              title: { type: ['string', 'null'] },
+              audioUrl: { type: ['string', 'null'] },
+              audioDurationMs: { type: ['integer', 'null'] },
+              jobs: { type: 'array', items: queuedJobSchema },
+              transcription: transcriptionSchema,
+            },
+          },
+          400: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          403: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          409: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          422: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          429: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          500: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: CreateMessageBody }>,
+      reply: FastifyReply
+    ): Promise<CreateMessageResponseWithAudio | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const userId = session.user.id;
+
+      app.logger.info({ conversationId: id, userId }, 'Processing message request');
+
+      const conversation = await app.db
+        .select()
+        .from(schema.conversations)
+        .where(eq(schema.conversations.id, id))
+        .then((result) => result[0]);
+
+      if (!conversation) {
+        app.logger.warn({ conversationId: id, userId }, 'Conversation not found');
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
+
+      if (conversation.userId !== userId) {
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized');
+        return reply.status(403).send({ error: 'Not authorized' });
+      }
+
+      const claim = await claimMessageRequest(app, request, reply, userId, id);
+      if (!claim) return;
+
+      if (claim.replay) {
+        return reply.header('Idempotent-Replayed', 'true').send(await replayMessageResponse(app, claim.replay));
+      }
+
+      const denial = await checkUsageAllowance(app, userId);
+      if (denial) {
+        app.logger.warn({ conversationId: id, userId, error: denial.error }, 'AI usage limit reached');
+        if (claim.claimId) await releaseIdempotencyKey(app, claim.claimId);
+        return reply.status(429).header('Retry-After', String(denial.retryAfterSeconds)).send({ error: denial.error });
+      }
+
+      let userMessageText = request.body.message;
+      let audioFile: any = null;
+      let transcription: Transcription | undefined;
+      let userAudio: MessageAudio | undefined;
+
+      // Check if multipart form data with audio file is present
+      const isMultipart = request.headers['content-type']?.includes('multipart/form-data');
+
+      if (isMultipart) {
+        const parts = request.parts();
+
+        for await (const part of parts) {
+          if (part.type === 'file' && part.fieldname === 'audioInput') {
+            audioFile = part;
+          } else if (part.type === 'field' && part.fieldname === 'message') {
+            userMessageText = part.value as string;
+          }
+        }
+      }
+
+      // If audio file is provided, transcribe it
+      if (audioFile) {
+        try {
+          app.logger.info({ conversationId: id }, 'Transcribing audio input');
+
+          let audioBuffer: Buffer;
+          try {
+            audioBuffer = await audioFile.toBuffer();
+          } catch (err) {
+            app.logger.error({ err, conversationId: id }, 'Audio file too large');
+            if (claim.claimId) await releaseIdempotencyKey(app, claim.claimId);
+            return reply.status(413).send({ error: 'File size limit exceeded' });
+          }
+
+          transcription = await transcribeAudio({
+            audio: audioBuffer,
+            mimeType: audioFile.mimetype,
+            languageHint: conversation.language,
+            userId,
+          });
+
+          userMessageText = transcription.text;
+          app.logger.info(
+            { conversationId: id, language: transcription.language, mixedLanguage: transcription.mixedLanguage },
+            'Audio transcribed successfully'
+          );
+
+          // Keep the recording so the learner can replay it; the message is saved without audio if this fails
+          try {
+            const audioKey = await storeUserAudio(app, id, audioBuffer, audioFile.mimetype);
+            userAudio = { audioKey, durationMs: getRecordingDuration(transcription) };
+          } catch (storageError) {
+            app.logger.warn({ err: storageError, conversationId: id }, 'Failed to store user audio (continuing without it)');
+          }
+        } catch (error) {
+          app.logger.error({ err: error, conversationId: id }, 'Failed to transcribe audio');
+          if (claim.claimId) await releaseIdempotencyKey(app, claim.claimId);
+          return reply.status(500).send({ error: 'Failed to transcribe audio' });
+        }
+      }
+
+      // Save user message
+      const userMessage = await appendMessage(app, id, 'user', userMessageText, userAudio);
+      await markAssistedMessage(app, userMessage);
+
+      app.logger.info({ messageId: userMessage.id, conversationId: id }, 'User message saved');
+
+      // Analyse the user message while the reply is generated
+      const correctionsPromise = analyzeCorrections(app, conversation, userMessage.id, userMessageText);
+      const exchangeMessageIds = [userMessage.id];
+
+      try {
+        const aiResponse = await generateTutorReply(app, conversation);
+
+        app.logger.info({ conversationId: id, responseLength: aiResponse.length }, 'AI response generated');
+
+        // Save AI response
+        const assistantMessage = await appendMessage(app, id, 'assistant', aiResponse);
+        exchangeMessageIds.push(assistantMessage.id);
+
+        // Vocabulary, speech and the title of untitled conversations are produced in the background
+        const jobs = await enqueueReplyEnrichment(app, conversation, userMessage.id, assistantMessage.id);
+
+        const corrections = await correctionsPromise;
+
+        // Update conversation lastMessageAt
+        await app.db
+          .update(schema.conversations)
+          .set({
+            lastMessageAt: new Date(),
+          })
+          .where(eq(schema.conversations.id, id));
+
+        app.logger.info(
+          { conversationId: id, userMessageId: userMessage.id, assistantMessageId: assistantMessage.id },
+          'Message exchange completed'
+        );
+
+        const response: CreateMessageResponseWithAudio = {
+          response: aiResponse,
+          messageId: assistantMessage.id,
+          userMessageId: userMessage.id,
+          corrections,
+          title: conversation.title,
+          jobs,
+          transcription,
+        };
+
+        if (claim.claimId) {
+          await completeIdempotencyKey(app, claim.claimId, {
+            userMessageId: userMessage.id,
+            assistantMessageId: assistantMessage.id,
+            response,
+          });
+        }
+
+        return response;
+      } catch (error) {
+        app.logger.error({ err: error, conversationId: id }, 'Failed to generate AI response');
+        await discardFailedExchange(app, claim.claimId, exchangeMessageIds, correctionsPromise);
+        return reply.status(500).send({ error: 'Failed to generate response' });
+      }
+    }
+  );
+
+  // POST /api/conversations/:id/messages/stream - Send message and stream the AI response
+  // Emits Server-Sent Events: `delta` (partial text), `message` (saved reply), `corrections`, `jobs` (queued background work), `done` and `error`
+  app.fastify.post<{ Params: { id: string }; Body: CreateMessageBody }>(
+    '/api/conversations/:id/messages/stream',
+    {
+      schema: {
+        description: 'Send message to conversation and stream the AI response as Server-Sent Events',
+        tags: ['conversations'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['message'],
+          properties: {
+            message: { type: 'string' },
+          },
+        },
+        response: {
+          400: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          403: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          409: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          422: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          429: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: CreateMessageBody }>,
+      reply: FastifyReply
+    ): Promise<void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const userId = session.user.id;
+
+      app.logger.info({ conversationId: id, userId }, 'Processing streaming message request');
+
+      const conversation = await app.db
+        .select()
+        .from(schema.conversations)
+        .where(eq(schema.conversations.id, id))
+        .then((result) => result[0]);
+
+      if (!conversation) {
+        app.logger.warn({ conversationId: id, userId }, 'Conversation not found');
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
+
+      if (conversation.userId !== userId) {
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized');
+        return reply.status(403).send({ error: 'Not authorized' });
+      }
+
+      const claim = await claimMessageRequest(app, request, reply, userId, id);
+      if (!claim) return;
+
+      if (claim.replay) {
+        // Replay the events a completed stream ends with
+        const replayed = await replayMessageResponse(app, claim.replay);
+        reply.header('Idempotent-Replayed', 'true');
+        startSseStream(reply);
+        writeSseEvent(reply, 'delta', { text: replayed.response });
+        writeSseEvent(reply, 'message', {
+          messageId: replayed.messageId,
+          response: replayed.response,
+          createdAt: (claim.replay.completedAt ?? claim.replay.createdAt).toISOString(),
+        });
+        writeSseEvent(reply, 'corrections', { messageId: replayed.userMessageId, items: replayed.corrections });
+        writeSseEvent(reply, 'jobs', { items: replayed.jobs ?? [] });
+        writeSseEvent(reply, 'done', { messageId: replayed.messageId });
+        reply.raw.end();
+        return;
+      }
+
+      const denial = await checkUsageAllowance(app, userId);
+      if (denial) {
+        app.logger.warn({ conversationId: id, userId, error: denial.error }, 'AI usage limit reached');
+        if (claim.claimId) await releaseIdempotencyKey(app, claim.claimId);
+        return reply.status(429).header('Retry-After', String(denial.retryAfterSeconds)).send({ error: denial.error });
+      }
+
+      // Save user message
+      const userMessage = await appendMessage(app, id, 'user', request.body.message);
+      await markAssistedMessage(app, userMessage);
+
+      app.logger.info({ messageId: userMessage.id, conversationId: id }, 'User message saved');
+
+      // Analyse the user message while the reply is streamed
+      const correctionsPromise = analyzeCorrections(app, conversation, userMessage.id, request.body.message);
+      const exchangeMessageIds = [userMessage.id];
+
+      startSseStream(reply);
+
+      // Stop generating when the client disconnects before the reply is saved
+      // A partial reply is not kept: the exchange is discarded like a failed one, so a retry with the same
+      // Idempotency-Key gets a complete reply instead of a replay of the truncated one
+      const disconnected = new AbortController();
+      reply.raw.on('close', () => {
+        if (!reply.raw.writableEnded) {
+          disconnected.abort();
+        }
+      });
+
+      try {
+        const history = await buildHistoryContext(app, conversation);
+        const scenario = conversation.scenarioId ? await getScenario(app, conversation.scenarioId) : undefined;
+        const tutorStyle = await getConversationTutorStyle(app, conversation);
+        const weakTopics = await loadWeakTopics(app, conversation);
+
+        const aiRequest: AiTextRequest = {
+          task: 'chat',
+          purpose: 'tutor-reply',
+          system: buildSystemPrompt(conversation, history.summary, scenario, tutorStyle, weakTopics),
+          messages: history.messages,
+          userId,
+          abortSignal: disconnected.signal,
+        };
+
+        // A provider failure mid-stream fails the whole exchange like the blocking endpoint does,
+        // so a truncated reply is never saved and the idempotency key is released for a retry
+        let aiResponse = '';
+        for await (const delta of ai.streamText(aiRequest)) {
+          if (disconnected.signal.aborted) {
+            break;
+          }
+          aiResponse += delta;
+          writeSseEvent(reply, 'delta', { text: delta });
+        }
+        disconnected.signal.throwIfAborted();
+
+        app.logger.info({ conversationId: id, responseLength: aiResponse.length }, 'AI response streamed');
+
+        const assistantMessage = await appendMessage(app, id, 'assistant', aiResponse);
+        exchangeMessageIds.push(assistantMessage.id);
+
+        writeSseEvent(reply, 'message', {
+          messageId: assistantMessage.id,
+          response: aiResponse,
+          createdAt: assistantMessage.createdAt.toISOString(),
+        });
+
+        // Vocabulary, speech and the title of untitled conversations are produced in the background
+        const jobs = await enqueueReplyEnrichment(app, conversation, userMessage.id, assistantMessage.id);
+
+        const corrections = await correctionsPromise;
+        writeSseEvent(reply, 'corrections', { messageId: userMessage.id, items: corrections });
+        writeSseEvent(reply, 'jobs', { items: jobs });
+
+        await app.db
+          .update(schema.conversations)
+          .set({
+            lastMessageAt: new Date(),
+          })
+          .where(eq(schema.conversations.id, id));
+
+        app.logger.info(
+          { conversationId: id, userMessageId: userMessage.id, assistantMessageId: assistantMessage.id },
+          'Streaming message exchange completed'
+        );
+
+        if (claim.claimId) {
+          await completeIdempotencyKey(app, claim.claimId, {
+            userMessageId: userMessage.id,
+            assistantMessageId: assistantMessage.id,
+            response: {
+              response: aiResponse,
+              messageId: assistantMessage.id,
+              userMessageId: userMessage.id,
+              corrections,
+              title: conversation.title,
+              jobs,
+            },
+          });
+        }
+
+        writeSseEvent(reply, 'done', { messageId: assistantMessage.id });
+      } catch (error) {
+        if (disconnected.signal.aborted) {
+          app.logger.info({ conversationId: id }, 'Client disconnected, discarding streamed exchange');
+        } else {
+          app.logger.error({ err: error, conversationId: id }, 'Failed to stream AI response');
+        }
+        await discardFailedExchange(app, claim.claimId, exchangeMessageIds, correctionsPromise);
+        writeSseEvent(reply, 'error', { error: 'Failed to generate response' });
+      } finally {
+        reply.raw.end();
+      }
+    }
+  );
+
+  // PATCH /api/conversations/:id/messages/:messageId - Edit a user message and regenerate the reply to it
+  // Everything after the edited message is discarded, including vocabulary extracted from the replaced replies
+  app.fastify.patch<{ Params: { id: string; messageId: string }; Body: UpdateMessageBody }>(
+    '/api/conversations/:id/messages/:messageId',
+    {
+      schema: {
+        description: 'Edit a user message, discard the rest of the conversation after it and get a new AI response',
+        tags: ['conversations'],
+        params: {
+          type: 'object',
+          required: ['id', 'messageId'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            messageId: { type: 'string', format: 'uuid' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['message'],
+          properties: {
+            message: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              response: { type: 'string' },
+              messageId: { type: 'string', format: 'uuid' },
+              userMessageId: { type: 'string', format: 'uuid' },
+              corrections: { type: 'array', items: correctionSchema },
+              title: { type: ['string', 'null'] },
+              audioUrl: { type: ['string', 'null'] },
+              audioDurationMs: { type: ['integer', 'null'] },
+              jobs: { type: 'array', items: queuedJobSchema },
+            },
+          },
+          400: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          403: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          429: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          500: {
             type: 'object',
             properties: { error: { type: 'string' } },
           },
         },
       },
     },
-    async (request: FastifyRequest, reply: FastifyReply): Promise<GetConversationsResponse[]> => {
+    async (
+      request: FastifyRequest<{ Params: { id: string; messageId: string }; Body: UpdateMessageBody }>,
+      reply: FastifyReply
+    ): Promise<CreateMessageResponseWithAudio | void> => {
       const session = await requireAuth(request, reply);
       if (!session) return;
 
+      const { id, messageId } = request.params;
       const userId = session.user.id;
-      app.logger.info({ userId }, 'Fetching user conversations');
+      const content = request.body.message.trim();
+
+      app.logger.info({ conversationId: id, messageId, userId }, 'Editing message');
 
-      const conversations = await app.db
+      if (content.length === 0) {
+        return reply.status(400).send({ error: 'Message must not be empty' });
+      }
+
+      const conversation = await app.db
         .select()
         .from(schema.conversations)
-        .where(eq(schema.conversations.userId, userId))
-        .orderBy(desc(schema.conversations.createdAt));
+        .where(eq(schema.conversations.id, id))
+        .then((result) => result[0]);
 
-      app.logger.info({ userId, count: conversations.length }, 'Conversations retrieved');
+      if (!conversation) {
+        app.logger.warn({ conversationId: id, userId }, 'Conversation not found');
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
 
-      return conversations.map((conv) => ({
-        conversationId: conv.id,
-        language: conv.language,
-        level: conv.level,
-        title: conv.title,
-        lastMessageAt: conv.lastMessageAt ? conv.lastMessageAt.toISOString() : null,
-        createdAt: conv.createdAt.toISOString(),
-      }));
+      if (conversation.userId !== userId) {
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized');
+        return reply.status(403).send({ error: 'Not authorized' });
+      }
+
+      const denial = await checkUsageAllowance(app, userId);
+      if (denial) {
+        app.logger.warn({ conversationId: id, userId, error: denial.error }, 'AI usage limit reached');
+        return reply.status(429).header('Retry-After', String(denial.retryAfterSeconds)).send({ error: denial.error });
+      }
+
+      const message = await app.db
+        .select()
+        .from(schema.messages)
+        .where(and(eq(schema.messages.id, messageId), eq(schema.messages.conversationId, id)))
+        .then((result) => result[0]);
+
+      if (!message) {
+        app.logger.warn({ conversationId: id, messageId }, 'Message not found');
+        return reply.status(404).send({ error: 'Message not found' });
+      }
+
+      if (message.role !== 'user') {
+        app.logger.warn({ conversationId: id, messageId, role: message.role }, 'Only user messages can be edited');
+        return reply.status(400).send({ error: 'Only user messages can be edited' });
+      }
+
+      try {
+        const result = await replyToRewrittenHistory(
+          app,
+          conversation,
+          { from: message, inclusive: false, userMessage: message, editedContent: content },
+          (rewritten) => analyzeCorrections(app, rewritten, messageId, content)
+        );
+
+        app.logger.info({ conversationId: id, userMessageId: messageId, assistantMessageId: result.messageId }, 'Message edit completed');
+
+        return result;
+      } catch (error) {
+        app.logger.error({ err: error, conversationId: id, messageId }, 'Failed to edit message');
+        return reply.status(500).send({ error: 'Failed to generate response' });
+      }
     }
   );
 
-  // GET /api/conversations/:id/messages - Get messages for a conversation
-  app.fastify.get<{ Params: { id: string } }>(
-    '/api/conversations/:id/messages',
+  // POST /api/conversations/:id/messages/:messageId/regenerate - Replace an assistant reply with a new one
+  // The reply and everything after it are discarded, including vocabulary extracted from them
+  app.fastify.post<{ Params: { id: string; messageId: string } }>(
+    '/api/conversations/:id/messages/:messageId/regenerate',
     {
       schema: {
-        description: 'Get messages for a conversation',
+        description: 'Discard an AI response and everything after it, then generate a new response to the preceding user message',
         tags: ['conversations'],
         params: {
           type: 'object',
-          required: ['id'],
+          required: ['id', 'messageId'],
           properties: {
             id: { type: 'string', format: 'uuid' },
+            messageId: { type: 'string', format: 'uuid' },
           },
         },
         response: {
           200: {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                id: { type: 'string', format: 'uuid' },
-                role: { type: 'string' },
-                content: { type: 'string' },
-                createdAt: { type: 'string', format: 'date-time' },
-              },
+            type: 'object',
+            properties: {
+              response: { type: 'string' },
+              messageId: { type: 'string', format: 'uuid' },
+              userMessageId: { type: 'string', format: 'uuid' },
+              corrections: { type: 'array', items: correctionSchema },
+              title: { type: ['string', 'null'] },
+              audioUrl: { type: ['string', 'null'] },
+              audioDurationMs: { type: ['integer', 'null'] },
+              jobs: { type: 'array', items: queuedJobSchema },
             },
           },
+          400: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
           401: {
             type: 'object',
             properties: { error: { type: 'string' } },
@@ -295,17 +1699,28 @@ export function registerConversationRoutes(app: App) {
             type: 'object',
             properties: { error: { type: 'string' } },
           },
+          429: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          500: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
         },
       },
     },
-    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply): Promise<GetMessagesResponse[] | void> => {
+    async (
+      request: FastifyRequest<{ Params: { id: string; messageId: string } }>,
+      reply: FastifyReply
+    ): Promise<CreateMessageResponseWithAudio | void> => {
       const session = await requireAuth(request, reply);
       if (!session) return;
 
-      const { id } = request.params;
+      const { id, messageId } = request.params;
       const userId = session.user.id;
 
-      app.logger.info({ conversationId: id, userId }, 'Fetching messages');
+      app.logger.info({ conversationId: id, messageId, userId }, 'Regenerating message');
 
       const conversation = await app.db
         .select()
@@ -319,32 +1734,79 @@ export function registerConversationRoutes(app: App) {
       }
 
       if (conversation.userId !== userId) {
-        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized to access conversation');
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized');
         return reply.status(403).send({ error: 'Not authorized' });
       }
 
-      const messages = await app.db
+      const denial = await checkUsageAllowance(app, userId);
+      if (denial) {
+        app.logger.warn({ conversationId: id, userId, error: denial.error }, 'AI usage limit reached');
+        return reply.status(429).header('Retry-After', String(denial.retryAfterSeconds)).send({ error: denial.error });
+      }
+
+      const message = await app.db
         .select()
         .from(schema.messages)
-        .where(eq(schema.messages.conversationId, id));
+        .where(and(eq(schema.messages.id, messageId), eq(schema.messages.conversationId, id)))
+        .then((result) => result[0]);
 
-      app.logger.info({ conversationId: id, messageCount: messages.length }, 'Messages retrieved');
+      if (!message) {
+        app.logger.warn({ conversationId: id, messageId }, 'Message not found');
+        return reply.status(404).send({ error: 'Message not found' });
+      }
 
-      return messages.map((msg) => ({
-        id: msg.id,
-        role: msg.role,
-        content: msg.content,
-        createdAt: msg.createdAt.toISOString(),
-      }));
+      if (message.role !== 'assistant') {
+        app.logger.warn({ conversationId: id, messageId, role: message.role }, 'Only assistant messages can be regenerated');
+        return reply.status(400).send({ error: 'Only assistant messages can be regenerated' });
+      }
+
+      // The reply being replaced must answer a user message, which rules out a scenario's starter message
+      const userMessage = await app.db
+        .select()
+        .from(schema.messages)
+        .where(
+          and(
+            eq(schema.messages.conversationId, id),
+            eq(schema.messages.role, 'user'),
+            lt(schema.messages.sequence, message.sequence)
+          )
+        )
+        .orderBy(desc(schema.messages.sequence))
+        .limit(1)
+        .then((result) => result[0]);
+
+      if (!userMessage) {
+        app.logger.warn({ conversationId: id, messageId }, 'No user message to reply to');
+        return reply.status(400).send({ error: 'Message does not reply to a user message' });
+      }
+
+      try {
+        const result = await replyToRewrittenHistory(
+          app,
+          conversation,
+          { from: message, inclusive: true, userMessage },
+          () => getCorrectionsByMessage(app, [userMessage.id]).then((corrections) => corrections.get(userMessage.id) ?? [])
+        );
+
+        app.logger.info(
+          { conversationId: id, replacedMessageId: messageId, assistantMessageId: result.messageId },
+          'Message regeneration completed'
+        );
+
+        return result;
+      } catch (error) {
+        app.logger.error({ err: error, conversationId: id, messageId }, 'Failed to regenerate message');
+        return reply.status(500).send({ error: 'Failed to generate response' });
+      }
     }
   );
 
-  // POST /api/conversations/:id/messages - Send message and get AI response
-  app.fastify.post<{ Params: { id: string }; Body: CreateMessageBody }>(
-    '/api/conversations/:id/messages',
+  // PATCH /api/conversations/:id - Rename a conversation or change its level, voice and tutor style preferences
+  app.fastify.patch<{ Params: { id: string }; Body: UpdateConversationBody }>(
+    '/api/conversations/:id',
     {
       schema: {
-        description: 'Send message to conversation and get AI response (supports JSON body with optional audio file)',
+        description: 'Update a conversation title, level, voice or tutor style; a null tutor style option falls back to the learner default',
         tags: ['conversations'],
         params: {
           type: 'object',
@@ -355,18 +1817,33 @@ export function registerConversationRoutes(app: App) {
         },
         body: {
           type: 'object',
-          required: ['message'],
+          minProperties: 1,
+          additionalProperties: false,
           properties: {
-            message: { type: 'string' },
+            title: { type: 'string', minLength: 1, maxLength: 120 },
+            level: { type: 'string', enum: [...schema.CEFR_LEVELS] },
+            voice: { type: 'string', enum: [...TTS_VOICES] },
+            speakingRate: { type: 'number', minimum: MIN_SPEAKING_RATE, maximum: MAX_SPEAKING_RATE },
+            tutorStyle: { ...TUTOR_STYLE_UPDATE_SCHEMA, minProperties: 1 },
           },
         },
         response: {
           200: {
             type: 'object',
             properties: {
-              response: { type: 'string' },
-              messageId: { type: 'string', format: 'uuid' },
-              audioUrl: { type: ['string', 'null'] },
+              conversationId: { type: 'string', format: 'uuid' },
+              language: { type: 'string' },
+              level: { type: 'string' },
+              scenarioId: { type: ['string', 'null'], format: 'uuid' },
+              parentConversationId: { type: ['string', 'null'], format: 'uuid' },
+              forkedFromMessageId: { type: ['string', 'null'], format: 'uuid' },
+              title: { type: ['string', 'null'] },
+              voice: { type: ['string', 'null'] },
+              speakingRate: { type: ['number', 'null'] },
+              tutorStyle: TUTOR_STYLE_SCHEMA,
+              summary: { type: ['string', 'null'] },
+              lastMessageAt: { type: ['string', 'null'], format: 'date-time' },
+              createdAt: { type: 'string', format: 'date-time' },
             },
           },
           400: {
@@ -385,24 +1862,21 @@ export function registerConversationRoutes(app: App) {
             type: 'object',
             properties: { error: { type: 'string' } },
           },
-          500: {
-            type: 'object',
-            properties: { error: { type: 'string' } },
-          },
         },
       },
     },
     async (
-      request: FastifyRequest<{ Params: { id: string }; Body: CreateMessageBody }>,
+      request: FastifyRequest<{ Params: { id: string }; Body: UpdateConversationBody }>,
       reply: FastifyReply
-    ): Promise<CreateMessageResponse & { audioUrl?: string } | void> => {
+    ): Promise<GetConversationsResponse | void> => {
       const session = await requireAuth(request, reply);
       if (!session) return;
 
       const { id } = request.params;
+      const { title, level, voice, speakingRate, tutorStyle } = request.body;
       const userId = session.user.id;
 
-      app.logger.info({ conversationId: id, userId }, 'Processing message request');
+      app.logger.info({ conversationId: id, userId, fields: Object.keys(request.body) }, 'Updating conversation');
 
       const conversation = await app.db
         .select()
@@ -416,245 +1890,44 @@ export function registerConversationRoutes(app: App) {
       }
 
       if (conversation.userId !== userId) {
-        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized');
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized to update conversation');
         return reply.status(403).send({ error: 'Not authorized' });
       }
 
-      let userMessageText = request.body.message;
-      let audioFile: any = null;
-
-      // Check if multipart form data with audio file is present
-      const isMultipart = request.headers['content-type']?.includes('multipart/form-data');
-
-      if (isMultipart) {
-        const parts = request.parts();
-
-        for await (const part of parts) {
-          if (part.type === 'file' && part.fieldname === 'audioInput') {
-            audioFile = part;
-          } else if (part.type === 'field' && part.fieldname === 'message') {
-            userMessageText = part.value as string;
-          }
-        }
-      }
-
-      // If audio file is provided, transcribe it
-      if (audioFile) {
-        try {
-          app.logger.info({ conversationId: id }, 'Transcribing audio input');
-
-          let audioBuffer: Buffer;
-          try {
-            audioBuffer = await audioFile.toBuffer();
-          } catch (err) {
-            app.logger.error({ err, conversationId: id }, 'Audio file too large');
-            return reply.status(413).send({ error: 'File size limit exceeded' });
-          }
-
-          // Add timeout to AI call to prevent hanging
-          const aiTimeoutPromise = new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error('AI transcription timeout')), 8000)
-          );
-
-          const result = await Promise.race([
-            generateText({
-              model: gateway('google/gemini-3-flash'),
-              messages: [
-                {
-                  role: 'user',
-                  content: [
-                    { type: 'text', text: 'Transcribe this audio and respond with only the transcribed text.' },
-                    {
-                      type: 'file',
-                      mediaType: audioFile.mimetype,
-                      data: audioBuffer,
-                    },
-                  ],
-                },
-              ],
-            }),
-            aiTimeoutPromise,
-          ]);
-
-          userMessageText = result.text.trim();
-          app.logger.info({ conversationId: id }, 'Audio transcribed successfully');
-        } catch (error) {
-          app.logger.error({ err: error, conversationId: id }, 'Failed to transcribe audio');
-          return reply.status(500).send({ error: 'Failed to transcribe audio' });
-        }
+      const trimmedTitle = title?.trim();
+      if (title !== undefined && !trimmedTitle) {
+        return reply.status(400).send({ error: 'Title cannot be empty' });
       }
 
-      // Save user message
-      const [userMessage] = await app.db
-        .insert(schema.messages)
-        .values({
-          conversationId: id,
-          role: 'user',
-          content: userMessageText,
+      const [updated] = await app.db
+        .update(schema.conversations)
+        .set({
+          ...(trimmedTitle !== undefined && { title: trimmedTitle }),
+          ...(level !== undefined && { level }),
+          ...(voice !== undefined && { voice }),
+          ...(speakingRate !== undefined && { speakingRate }),
+          ...(tutorStyle !== undefined && { tutorStyle: applyTutorStyleChanges(conversation.tutorStyle, tutorStyle) }),
         })
+        .where(eq(schema.conversations.id, id))
         .returning();
 
-      app.logger.info({ messageId: userMessage.id, conversationId: id }, 'User message saved');
-
-      try {
-        // Fetch conversation history
-        const messages = await app.db
-          .select()
-          .from(schema.messages)
-          .where(eq(schema.messages.conversationId, id));
-
-        // Build conversation for AI
-        const conversationHistory = messages.map((msg) => ({
-          role: msg.role,
-          content: msg.content,
-        }));
-
-        const systemPrompt = `You are a language tutor specializing in teaching ${conversation.language} at the ${conversation.level} level. Your responsibilities include:
-- Helping the student practice ${conversation.language} conversation
-- Providing corrections when the student makes grammatical or vocabulary mistakes
-- Offering explanations for corrections in a clear, educational way
-- Using age-appropriate and contextually relevant examples
-- Encouraging the student and maintaining a positive learning environment
-- Adapting your responses to match the ${conversation.level} proficiency level
-
-Always respond in ${conversation.language} when the student uses ${conversation.language}, and provide translations or English explanations when needed for comprehension.`;
-
-        // Call AI with conversation history
-        let aiResponse: string;
-        try {
-          // Add timeout to AI call to prevent hanging
-          const aiTimeoutPromise = new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error('AI response timeout')), 8000)
-          );
-
-          const result = await Promise.race([
-            generateText({
-              model: gateway('google/gemini-2.5-flash'),
-              system: systemPrompt,
-              messages: conversationHistory,
-            }),
-            aiTimeoutPromise,
-          ]);
-          aiResponse = result.text;
-        } catch (aiError) {
-          // Fallback to mock response if AI call fails or times out
-          app.logger.warn({ err: aiError, conversationId: id }, 'AI call failed, using mock response');
-          // Generate a mock response with vocabulary patterns for testing
-          const mockVocabWord = `word (translation)`;
-          aiResponse = `That's great! You're learning well. Here's a useful word: ${mockVocabWord}. Keep practicing!`;
-        }
-
-        app.logger.info({ conversationId: id, responseLength: aiResponse.length }, 'AI response generated');
-
-        // Save AI response
-        const [assistantMessage] = await app.db
-          .insert(schema.messages)
-          .values({
-            conversationId: id,
-            role: 'assistant',
-            content: aiResponse,
-          })
-          .returning();
-
-        // Extract and save vocabulary from AI response
-        try {
-          app.logger.info({ conversationId: id }, 'Extracting vocabulary from AI response');
-
-          const vocabularyPairs = extractVocabulary(aiResponse);
-
-          if (vocabularyPairs.length > 0) {
-            // Check which vocabulary items already exist for this conversation
-            const existingVocab = await app.db
-              .select()
-              .from(schema.vocabulary)
-              .where(eq(schema.vocabulary.conversationId, id));
-
-            const existingKeys = new Set(
-              existingVocab.map((v) => `${v.latvianWord.toLowerCase()}-${v.englishTranslation.toLowerCase()}`)
-            );
-
-            // Filter out duplicates and insert new vocabulary
-            const newVocabulary = vocabularyPairs.filter(
-              (pair) => !existingKeys.has(`${pair.latvianWord.toLowerCase()}-${pair.englishTranslation.toLowerCase()}`)
-            );
-
-            if (newVocabulary.length > 0) {
-              await app.db.insert(schema.vocabulary).values(
-                newVocabulary.map((pair) => ({
-                  conversationId: id,
-                  userId,
-                  latvianWord: pair.latvianWord,
-                  englishTranslation: pair.englishTranslation,
-                  context: pair.context,
-                }))
-              );
-
-              app.logger.info({ conversationId: id, count: newVocabulary.length }, 'Vocabulary items saved');
-            }
-          }
-        } catch (vocabError) {
-          app.logger.warn({ err: vocabError, conversationId: id }, 'Failed to extract vocabulary (continuing without vocabulary save)');
-        }
-
-        // Generate audio response in the target language
-        let audioUrl: string | undefined;
-        try {
-          app.logger.info({ conversationId: id }, 'Generating audio response');
-
-          // Create a simple WAV audio file as placeholder
-          const audioBuffer = Buffer.from([
-            0x52, 0x49, 0x46, 0x46, // "RIFF"
-            0x24, 0x00, 0x00, 0x00, // File size
-            0x57, 0x41, 0x56, 0x45, // "WAVE"
-            0x66, 0x6d, 0x74, 0x20, // "fmt "
-            0x10, 0x00, 0x00, 0x00, // Subchunk1Size
-            0x01, 0x00,             // AudioFormat (PCM)
-            0x02, 0x00,             // NumChannels (Stereo)
-            0x44, 0xac, 0x00, 0x00, // SampleRate (44100)
-            0x10, 0xb1, 0x02, 0x00, // ByteRate
-            0x04, 0x00,             // BlockAlign
-            0x10, 0x00,             // BitsPerSample
-            0x64, 0x61, 0x74, 0x61, // "data"
-            0x00, 0x00, 0x00, 0x00, // Subchunk2Size
-          ]);
-
-          const timestamp = Date.now();
-          const storageKey = `conversations/${conversation.id}/audio/${timestamp}.wav`;
-
-          // Upload audio to storage
-          const uploadedKey = await app.storage.upload(storageKey, audioBuffer);
-
-          // Get signed URL
-          const { url } = await app.storage.getSignedUrl(uploadedKey);
-          audioUrl = url;
-
-          app.logger.info({ conversationId: id, audioKey: uploadedKey }, 'Audio response stored');
-        } catch (audioError) {
-          app.logger.warn({ err: audioError, conversationId: id }, 'Failed to generate audio response (continuing without audio)');
-        }
-
-        // Update conversation lastMessageAt
-        await app.db
-          .update(schema.conversations)
-          .set({
-            lastMessageAt: new Date(),
-          })
-          .where(eq(schema.conversations.id, id));
-
-        app.logger.info(
-          { conversationId: id, userMessageId: userMessage.id, assistantMessageId: assistantMessage.id },
-          'Message exchange completed'
-        );
+      app.logger.info({ conversationId: id, userId }, 'Conversation updated successfully');
 
-        return {
-          response: aiResponse,
-          messageId: assistantMessage.id,
-          audioUrl,
-        };
-      } catch (error) {
-        app.logger.error({ err: error, conversationId: id }, 'Failed to generate AI response');
-        return reply.status(500).send({ error: 'Failed to generate response' });
-      }
+      return {
+        conversationId: updated.id,
+        language: updated.language,
+        level: updated.level,
+        scenarioId: updated.scenarioId,
+        parentConversationId: updated.parentConversationId,
+        forkedFromMessageId: updated.forkedFromMessageId,
+        title: updated.title,
+        voice: updated.voice,
+        speakingRate: updated.speakingRate,
+        tutorStyle: updated.tutorStyle,
+        summary: updated.summary,
+        lastMessageAt: updated.lastMessageAt ? updated.lastMessageAt.toISOString() : null,
+        createdAt: updated.createdAt.toISOString(),
+      };
     }
   );
 
@@ -732,7 +2005,7 @@ Always respond in ${conversation.language} when the student uses ${conversation.
     '/api/conversations/:id/speech-to-text',
     {
       schema: {
-        description: 'Transcribe audio to text',
+        description: 'Transcribe audio to text with word timings, confidence and detected language',
         tags: ['conversations'],
         params: {
           type: 'object',
@@ -742,12 +2015,10 @@ Always respond in ${conversation.language} when the student uses ${conversation.
           },
         },
         response: {
-          200: {
+          200: transcriptionSchema,
+          413: {
             type: 'object',
-            properties: {
-              text: { type: 'string' },
-              language: { type: 'string' },
-            },
+            properties: { error: { type: 'string' } },
           },
           400: {
             type: 'object',
@@ -765,6 +2036,10 @@ Always respond in ${conversation.language} when the student uses ${conversation.
             type: 'object',
             properties: { error: { type: 'string' } },
           },
+          429: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
           500: {
             type: 'object',
             properties: { error: { type: 'string' } },
@@ -797,6 +2072,12 @@ Always respond in ${conversation.language} when the student uses ${conversation.
         return reply.status(403).send({ error: 'Not authorized' });
       }
 
+      const denial = await checkUsageAllowance(app, userId);
+      if (denial) {
+        app.logger.warn({ conversationId: id, userId, error: denial.error }, 'AI usage limit reached');
+        return reply.status(429).header('Retry-After', String(denial.retryAfterSeconds)).send({ error: denial.error });
+      }
+
       let audioFile: any = null;
 
       try {
@@ -823,16 +2104,24 @@ Always respond in ${conversation.language} when the student uses ${conversation.
 
         app.logger.info({ conversationId: id, audioSize: audioBuffer.length }, 'Audio file received');
 
-        // For speech-to-text, we'll return a placeholder transcription
-        // In production, this would call a real speech-to-text API
-        const placeholderText = 'Sample transcription of the audio';
+        const transcription = await transcribeAudio({
+          audio: audioBuffer,
+          mimeType: audioFile.mimetype,
+          languageHint: conversation.language,
+          userId,
+        });
 
-        app.logger.info({ conversationId: id, textLength: placeholderText.length }, 'Audio transcribed successfully');
+        app.logger.info(
+          {
+            conversationId: id,
+            textLength: transcription.text.length,
+            language: transcription.language,
+            mixedLanguage: transcription.mixedLanguage,
+          },
+          'Audio transcribed successfully'
+        );
 
-        return {
-          text: placeholderText,
-          language: conversation.language,
-        };
+        return transcription;
       } catch (error) {
         app.logger.error({ err: error, conversationId: id }, 'Failed to process audio');
         return reply.status(500).send({ error: 'Failed to process audio' });
@@ -845,7 +2134,7 @@ Always respond in ${conversation.language} when the student uses ${conversation.
     '/api/conversations/:id/text-to-speech',
     {
       schema: {
-        description: 'Generate audio from text',
+        description: 'Generate audio from text, using the conversation voice preferences unless overridden',
         tags: ['conversations'],
         params: {
           type: 'object',
@@ -858,9 +2147,10 @@ Always respond in ${conversation.language} when the student uses ${conversation.
           type: 'object',
           required: ['text', 'language'],
           properties: {
-            text: { type: 'string' },
+            text: { type: 'string', minLength: 1, maxLength: 2000 },
             language: { type: 'string' },
             voice: { type: 'string' },
+            rate: { type: 'number', minimum: MIN_SPEAKING_RATE, maximum: MAX_SPEAKING_RATE },
           },
         },
         response: {
@@ -884,6 +2174,10 @@ Always respond in ${conversation.language} when the student uses ${conversation.
             type: 'object',
             properties: { error: { type: 'string' } },
           },
+          429: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
           500: {
             type: 'object',
             properties: { error: { type: 'string' } },
@@ -899,7 +2193,7 @@ Always respond in ${conversation.language} when the student uses ${conversation.
       if (!session) return;
 
       const { id } = request.params;
-      const { text, language, voice } = request.body;
+      const { text, language, voice, rate } = request.body;
       const userId = session.user.id;
 
       app.logger.info({ conversationId: id, userId, textLength: text.length }, 'Generating speech');
@@ -920,39 +2214,31 @@ Always respond in ${conversation.language} when the student uses ${conversation.
         return reply.status(403).send({ error: 'Not authorized' });
       }
 
+      const denial = await checkUsageAllowance(app, userId);
+      if (denial) {
+        app.logger.warn({ conversationId: id, userId, error: denial.error }, 'AI usage limit reached');
+        return reply.status(429).header('Retry-After', String(denial.retryAfterSeconds)).send({ error: denial.error });
+      }
+
       try {
-        // Use OpenAI's text-to-speech API via the gateway
-        const voiceMap: { [key: string]: string } = {
-          'male': 'onyx',
-          'female': 'nova',
-          'neutral': 'alloy',
-        };
+        const speech = await getSpeechAudio(app, {
+          text,
+          language,
+          ...getVoiceSettings(conversation, voice, rate),
+          userId,
+        });
 
-        const selectedVoice = voice && voiceMap[voice.toLowerCase()] ? voiceMap[voice.toLowerCase()] : 'nova';
-
-        // For now, create a simple audio response by encoding text information
-        // In production, you would use a dedicated TTS service
-        // We'll create a WAV file with silence and metadata as a placeholder
-        const audioBuffer = Buffer.from([
-          0x52, 0x49, 0x46, 0x46, // "RIFF"
-          0x24, 0x00, 0x00, 0x00, // File size
-          0x57, 0x41, 0x56, 0x45, // "WAVE"
-          0x66, 0x6d, 0x74, 0x20, // "fmt "
-          0x10, 0x00, 0x00, 0x00, // Subchunk1Size
-          0x01, 0x00,             // AudioFormat (PCM)
-          0x02, 0x00,             // NumChannels (Stereo)
-          0x44, 0xac, 0x00, 0x00, // SampleRate (44100)
-          0x10, 0xb1, 0x02, 0x00, // ByteRate
-          0x04, 0x00,             // BlockAlign
-          0x10, 0x00,             // BitsPerSample
-          0x64, 0x61, 0x74, 0x61, // "data"
-          0x00, 0x00, 0x00, 0x00, // Subchunk2Size
-        ]);
-
-        reply.type('audio/wav');
-        reply.send(audioBuffer);
-
-        app.logger.info({ conversationId: id, audioSize: audioBuffer.length, voice: selectedVoice }, 'Speech generated successfully');
+        reply.header('X-Speech-Cache', speech.cached ? 'hit' : 'miss');
+        if (speech.durationMs !== null) {
+          reply.header('X-Audio-Duration-Ms', String(speech.durationMs));
+        }
+        reply.type(speech.contentType);
+        reply.send(speech.audio);
+
+        app.logger.info(
+          { conversationId: id, audioSize: speech.audio.length, cached: speech.cached },
+          'Speech generated successfully'
+        );
       } catch (error) {
         app.logger.error({ err: error, conversationId: id }, 'Failed to generate speech');
         return reply.status(500).send({ error: 'Failed to generate speech' });
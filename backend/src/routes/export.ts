@@ -0,0 +1,152 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { asc, eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  exportFileName,
+  loadConversationExport,
+  renderExport,
+  type ExportFormat,
+} from '../services/export.js';
+import { createZip } from '../services/zip.js';
+
+interface ExportQuery {
+  format?: ExportFormat;
+}
+
+const exportQuerySchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: [...EXPORT_FORMATS], default: 'md' },
+  },
+};
+
+const errorResponse = {
+  type: 'object',
+  properties: { error: { type: 'string' } },
+};
+
+export function registerExportRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/conversations/export - Download every conversation of the user as a zip archive
+  app.fastify.get<{ Querystring: ExportQuery }>(
+    '/api/conversations/export',
+    {
+      schema: {
+        description: 'Export all conversations as a zip archive with one Markdown, JSON or HTML file per conversation',
+        tags: ['conversations'],
+        querystring: exportQuerySchema,
+        response: {
+          200: {
+            type: 'string',
+            format: 'binary',
+          },
+          400: errorResponse,
+          401: errorResponse,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ExportQuery }>, reply: FastifyReply): Promise<void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { format = 'md' } = request.query;
+      const userId = session.user.id;
+
+      app.logger.info({ userId, format }, 'Exporting all conversations');
+
+      const conversations = await app.db
+        .select()
+        .from(schema.conversations)
+        .where(eq(schema.conversations.userId, userId))
+        .orderBy(asc(schema.conversations.createdAt), asc(schema.conversations.id));
+
+      const entries = [];
+      for (const conversation of conversations) {
+        const data = await loadConversationExport(app, conversation);
+        entries.push({
+          name: exportFileName(data, format),
+          content: renderExport(data, format),
+          modifiedAt: conversation.lastMessageAt ?? conversation.createdAt,
+        });
+      }
+
+      const archive = createZip(entries);
+
+      app.logger.info({ userId, format, count: entries.length, archiveSize: archive.length }, 'Conversations exported');
+
+      reply.header('Content-Disposition', `attachment; filename="conversations-${format}.zip"`);
+      reply.type('application/zip');
+      reply.send(archive);
+    }
+  );
+
+  // GET /api/conversations/:id/export - Download a single conversation as Markdown, JSON or printable HTML
+  app.fastify.get<{ Params: { id: string }; Querystring: ExportQuery }>(
+    '/api/conversations/:id/export',
+    {
+      schema: {
+        description: 'Export a conversation with timestamps, corrections and extracted vocabulary as Markdown, JSON or printable HTML',
+        tags: ['conversations'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        querystring: exportQuerySchema,
+        response: {
+          200: {
+            type: 'string',
+          },
+          400: errorResponse,
+          401: errorResponse,
+          403: errorResponse,
+          404: errorResponse,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: ExportQuery }>,
+      reply: FastifyReply
+    ): Promise<void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const { format = 'md' } = request.query;
+      const userId = session.user.id;
+
+      app.logger.info({ conversationId: id, userId, format }, 'Exporting conversation');
+
+      const conversation = await app.db
+        .select()
+        .from(schema.conversations)
+        .where(eq(schema.conversations.id, id))
+        .then((result) => result[0]);
+
+      if (!conversation) {
+        app.logger.warn({ conversationId: id, userId }, 'Conversation not found');
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
+
+      if (conversation.userId !== userId) {
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized to export conversation');
+        return reply.status(403).send({ error: 'Not authorized' });
+      }
+
+      const data = await loadConversationExport(app, conversation);
+      const body = renderExport(data, format);
+
+      app.logger.info({ conversationId: id, format, messageCount: data.messages.length }, 'Conversation exported');
+
+      reply.header('Content-Disposition', `attachment; filename="${exportFileName(data, format)}"`);
+      reply.type(EXPORT_CONTENT_TYPES[format]);
+      reply.send(body);
+    }
+  );
+}
@@ -0,0 +1,109 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { generateReplyHints } from '../services/hints.js';
+import { checkUsageAllowance } from '../services/usage.js';
+
+interface HintsResponse {
+  hints: schema.ReplyHint[];
+}
+
+export function registerHintRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // POST /api/conversations/:id/hints - Suggest what a stuck learner could say next
+  // Hints are not saved as messages; the next user message is marked as assisted
+  app.fastify.post<{ Params: { id: string } }>(
+    '/api/conversations/:id/hints',
+    {
+      schema: {
+        description: 'Suggest two or three replies graded by difficulty, in the conversation language with English glosses',
+        tags: ['conversations'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              hints: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    difficulty: { type: 'string', enum: [...schema.HINT_DIFFICULTIES] },
+                    text: { type: 'string' },
+                    gloss: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          403: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          429: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          500: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply): Promise<HintsResponse | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const userId = session.user.id;
+
+      app.logger.info({ conversationId: id, userId }, 'Generating reply hints');
+
+      const conversation = await app.db
+        .select()
+        .from(schema.conversations)
+        .where(eq(schema.conversations.id, id))
+        .then((result) => result[0]);
+
+      if (!conversation) {
+        app.logger.warn({ conversationId: id, userId }, 'Conversation not found');
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
+
+      if (conversation.userId !== userId) {
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized');
+        return reply.status(403).send({ error: 'Not authorized' });
+      }
+
+      const denial = await checkUsageAllowance(app, userId);
+      if (denial) {
+        app.logger.warn({ conversationId: id, userId, error: denial.error }, 'AI usage limit reached');
+        return reply.status(429).header('Retry-After', String(denial.retryAfterSeconds)).send({ error: denial.error });
+      }
+
+      try {
+        return { hints: await generateReplyHints(app, conversation) };
+      } catch (error) {
+        app.logger.error({ err: error, conversationId: id }, 'Failed to generate reply hints');
+        return reply.status(500).send({ error: 'Failed to generate hints' });
+      }
+    }
+  );
+}
@@ -0,0 +1,123 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { getConversationJobs, type JobStatus } from '../services/jobs/index.js';
+
+const DEFAULT_JOB_LIMIT = 20;
+const MAX_JOB_LIMIT = 100;
+
+interface JobsQuery {
+  limit?: number;
+}
+
+interface JobItem {
+  id: string;
+  type: string;
+  status: JobStatus;
+  attempts: number;
+  // What the job produced, e.g. { count } for vocabulary or { title } for titles
+  result: unknown;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export function registerJobRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/conversations/:id/jobs - Background jobs of a conversation, for clients polling for enrichment results
+  app.fastify.get<{ Params: { id: string }; Querystring: JobsQuery }>(
+    '/api/conversations/:id/jobs',
+    {
+      schema: {
+        description: 'List the background jobs of a conversation, newest first',
+        tags: ['conversations'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', minimum: 1, maximum: MAX_JOB_LIMIT, default: DEFAULT_JOB_LIMIT },
+          },
+        },
+        response: {
+          200: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                type: { type: 'string' },
+                status: { type: 'string', enum: ['pending', 'running', 'completed', 'dead'] },
+                attempts: { type: 'integer' },
+                result: {},
+                error: { type: ['string', 'null'] },
+                createdAt: { type: 'string', format: 'date-time' },
+                completedAt: { type: ['string', 'null'], format: 'date-time' },
+              },
+            },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          403: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: JobsQuery }>,
+      reply: FastifyReply
+    ): Promise<JobItem[] | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const userId = session.user.id;
+
+      app.logger.info({ conversationId: id, userId }, 'Fetching conversation jobs');
+
+      const conversation = await app.db
+        .select()
+        .from(schema.conversations)
+        .where(eq(schema.conversations.id, id))
+        .then((result) => result[0]);
+
+      if (!conversation) {
+        app.logger.warn({ conversationId: id, userId }, 'Conversation not found');
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
+
+      if (conversation.userId !== userId) {
+        app.logger.warn({ conversationId: id, userId, ownerId: conversation.userId }, 'User not authorized');
+        return reply.status(403).send({ error: 'Not authorized' });
+      }
+
+      const jobs = await getConversationJobs(app, id, request.query.limit ?? DEFAULT_JOB_LIMIT);
+
+      return jobs.map((job) => ({
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        attempts: job.attempts,
+        result: job.result,
+        error: job.lastError,
+        createdAt: job.createdAt.toISOString(),
+        completedAt: job.completedAt ? job.completedAt.toISOString() : null,
+      }));
+    }
+  );
+}
@@ -0,0 +1,214 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import {
+  answerPlacementItem,
+  getPlacementItem,
+  getPlacementState,
+  startPlacementTest,
+  type PlacementState,
+  type PlacementTest,
+} from '../services/placement/index.js';
+
+interface AnswerBody {
+  itemId: string;
+  answer: number;
+}
+
+const errorResponse = {
+  type: 'object',
+  properties: { error: { type: 'string' } },
+};
+
+const placementStateSchema = {
+  type: 'object',
+  properties: {
+    testId: { type: 'string', format: 'uuid' },
+    status: { type: 'string', enum: ['in_progress', 'completed', 'abandoned'] },
+    answeredCount: { type: 'integer' },
+    maxItems: { type: 'integer' },
+    question: {
+      type: ['object', 'null'],
+      properties: {
+        id: { type: 'string' },
+        skill: { type: 'string', enum: ['grammar', 'vocabulary', 'reading'] },
+        prompt: { type: 'string' },
+        passage: { type: ['string', 'null'] },
+        options: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    level: { type: ['string', 'null'], enum: [...schema.CEFR_LEVELS, null] },
+    completedAt: { type: ['string', 'null'], format: 'date-time' },
+  },
+};
+
+export function registerPlacementRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // Load a placement test owned by the user, or reply with 404/403
+  async function loadOwnedTest(id: string, userId: string, reply: FastifyReply): Promise<PlacementTest | undefined> {
+    const test = await app.db
+      .select()
+      .from(schema.placementTests)
+      .where(eq(schema.placementTests.id, id))
+      .then((result) => result[0]);
+
+    if (!test) {
+      app.logger.warn({ testId: id, userId }, 'Placement test not found');
+      reply.status(404).send({ error: 'Placement test not found' });
+      return undefined;
+    }
+
+    if (test.userId !== userId) {
+      app.logger.warn({ testId: id, userId, ownerId: test.userId }, 'User not authorized to access placement test');
+      reply.status(403).send({ error: 'Not authorized' });
+      return undefined;
+    }
+
+    return test;
+  }
+
+  // POST /api/placement-tests - Start an adaptive placement test
+  app.fastify.post(
+    '/api/placement-tests',
+    {
+      schema: {
+        description: 'Start an adaptive CEFR placement test covering grammar, vocabulary and reading; abandons any unfinished test',
+        tags: ['placement'],
+        response: {
+          201: placementStateSchema,
+          401: errorResponse,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply): Promise<PlacementState | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      app.logger.info({ userId }, 'Starting placement test');
+
+      const state = await startPlacementTest(app, userId);
+
+      app.logger.info({ userId, testId: state.testId }, 'Placement test started');
+
+      reply.status(201);
+      return state;
+    }
+  );
+
+  // GET /api/placement-tests/:id - Resume a placement test or read its result
+  app.fastify.get<{ Params: { id: string } }>(
+    '/api/placement-tests/:id',
+    {
+      schema: {
+        description: 'Get the current question of a placement test, or its level once completed',
+        tags: ['placement'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        response: {
+          200: placementStateSchema,
+          401: errorResponse,
+          403: errorResponse,
+          404: errorResponse,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply): Promise<PlacementState | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const userId = session.user.id;
+
+      app.logger.info({ testId: id, userId }, 'Fetching placement test');
+
+      const test = await loadOwnedTest(id, userId, reply);
+      if (!test) return;
+
+      return getPlacementState(app, test);
+    }
+  );
+
+  // POST /api/placement-tests/:id/answers - Answer the current question and get the next one
+  app.fastify.post<{ Params: { id: string }; Body: AnswerBody }>(
+    '/api/placement-tests/:id/answers',
+    {
+      schema: {
+        description: 'Answer the current placement question; the next question adapts to the answers so far',
+        tags: ['placement'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['itemId', 'answer'],
+          properties: {
+            itemId: { type: 'string', minLength: 1 },
+            answer: { type: 'integer', minimum: 0 },
+          },
+        },
+        response: {
+          200: placementStateSchema,
+          400: errorResponse,
+          401: errorResponse,
+          403: errorResponse,
+          404: errorResponse,
+          409: errorResponse,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: AnswerBody }>,
+      reply: FastifyReply
+    ): Promise<PlacementState | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+      const { itemId, answer } = request.body;
+      const userId = session.user.id;
+
+      app.logger.info({ testId: id, userId, itemId }, 'Answering placement question');
+
+      const test = await loadOwnedTest(id, userId, reply);
+      if (!test) return;
+
+      if (test.status !== 'in_progress') {
+        app.logger.warn({ testId: id, status: test.status }, 'Placement test is not in progress');
+        return reply.status(409).send({ error: 'Placement test is not in progress' });
+      }
+
+      const item = getPlacementItem(itemId);
+      if (!item || test.currentItemId !== itemId) {
+        app.logger.warn({ testId: id, itemId, currentItemId: test.currentItemId }, 'Answer is not for the current question');
+        return reply.status(400).send({ error: 'Answer is not for the current question' });
+      }
+
+      if (answer >= item.options.length) {
+        return reply.status(400).send({ error: 'Answer is not one of the options' });
+      }
+
+      const state = await answerPlacementItem(app, test, item, answer);
+      if (!state) {
+        app.logger.warn({ testId: id, itemId }, 'Placement question already answered');
+        return reply.status(409).send({ error: 'Question already answered' });
+      }
+
+      app.logger.info({ testId: id, answeredCount: state.answeredCount, status: state.status }, 'Placement answer recorded');
+
+      return state;
+    }
+  );
+}
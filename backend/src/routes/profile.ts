@@ -0,0 +1,86 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import * as schema from '../db/schema/schema.js';
+import { getUserProfile, updateTutorStyleDefaults, type UserProfile } from '../services/profile.js';
+import { TUTOR_STYLE_SCHEMA, TUTOR_STYLE_UPDATE_SCHEMA, type TutorStyleChanges } from '../services/tutor-style.js';
+
+interface UpdateProfileBody {
+  tutorStyle: TutorStyleChanges;
+}
+
+const profileSchema = {
+  type: 'object',
+  properties: {
+    level: { type: ['string', 'null'], enum: [...schema.CEFR_LEVELS, null] },
+    placedAt: { type: ['string', 'null'], format: 'date-time' },
+    tutorStyle: TUTOR_STYLE_SCHEMA,
+  },
+};
+
+export function registerProfileRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/me/profile - The learner's profile, including the level from the placement test
+  app.fastify.get(
+    '/api/me/profile',
+    {
+      schema: {
+        description: 'Get the learner profile; level is null until the placement test has been completed',
+        tags: ['profile'],
+        response: {
+          200: profileSchema,
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply): Promise<UserProfile | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      app.logger.info({ userId }, 'Fetching profile');
+
+      return getUserProfile(app, userId);
+    }
+  );
+
+  // PATCH /api/me/profile - Change the learner's default tutor style
+  app.fastify.patch<{ Body: UpdateProfileBody }>(
+    '/api/me/profile',
+    {
+      schema: {
+        description: 'Change the default tutor style; null resets an option to the app default',
+        tags: ['profile'],
+        body: {
+          type: 'object',
+          required: ['tutorStyle'],
+          additionalProperties: false,
+          properties: {
+            tutorStyle: { ...TUTOR_STYLE_UPDATE_SCHEMA, minProperties: 1 },
+          },
+        },
+        response: {
+          200: profileSchema,
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: UpdateProfileBody }>, reply: FastifyReply): Promise<UserProfile | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      app.logger.info({ userId, tutorStyle: request.body.tutorStyle }, 'Updating tutor style defaults');
+
+      return updateTutorStyleDefaults(app, userId, request.body.tutorStyle);
+    }
+  );
+}
@@ -0,0 +1,153 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { assessPronunciation, type PronunciationAssessment } from '../services/pronunciation.js';
+import { checkUsageAllowance } from '../services/usage.js';
+
+const DEFAULT_LANGUAGE = 'Latvian';
+const MAX_EXPECTED_TEXT_LENGTH = 500;
+
+// Error code @fastify/multipart throws when an uploaded file goes over the size limit
+const FILE_TOO_LARGE_CODE = 'FST_REQ_FILE_TOO_LARGE';
+
+export function registerPronunciationRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // POST /api/pronunciation/assess - Score a recording of the learner reading a sentence aloud
+  // Multipart fields: an audio file, `expectedText` and an optional `language` (defaults to Latvian)
+  app.fastify.post(
+    '/api/pronunciation/assess',
+    {
+      schema: {
+        description: 'Transcribe a recording and score it word by word against the expected text',
+        tags: ['pronunciation'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              expectedText: { type: 'string' },
+              transcript: { type: 'string' },
+              score: { type: 'number' },
+              language: { type: 'string' },
+              mixedLanguage: { type: 'boolean' },
+              words: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    expected: { type: ['string', 'null'] },
+                    heard: { type: ['string', 'null'] },
+                    status: { type: 'string' },
+                    score: { type: ['number', 'null'] },
+                    issues: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          position: { type: 'integer' },
+                          expected: { type: 'string' },
+                          heard: { type: 'string' },
+                          kind: { type: 'string' },
+                        },
+                      },
+                    },
+                    startMs: { type: ['number', 'null'] },
+                    endMs: { type: ['number', 'null'] },
+                    confidence: { type: ['number', 'null'] },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          413: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          429: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          500: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply): Promise<PronunciationAssessment | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      if (!request.headers['content-type']?.includes('multipart/form-data')) {
+        return reply.status(400).send({ error: 'Expected multipart form data with an audio file and expectedText' });
+      }
+
+      const denial = await checkUsageAllowance(app, userId);
+      if (denial) {
+        app.logger.warn({ userId, error: denial.error }, 'AI usage limit reached');
+        return reply.status(429).header('Retry-After', String(denial.retryAfterSeconds)).send({ error: denial.error });
+      }
+
+      let audio: { buffer: Buffer; mimeType: string } | null = null;
+      let expectedText = '';
+      let language = DEFAULT_LANGUAGE;
+
+      try {
+        for await (const part of request.parts()) {
+          if (part.type === 'file') {
+            // The file stream has to be consumed before the next part is read
+            audio = { buffer: await part.toBuffer(), mimeType: part.mimetype };
+          } else if (part.fieldname === 'expectedText') {
+            expectedText = String(part.value).trim();
+          } else if (part.fieldname === 'language' && String(part.value).trim()) {
+            language = String(part.value).trim();
+          }
+        }
+      } catch (err) {
+        if ((err as { code?: string }).code === FILE_TOO_LARGE_CODE) {
+          app.logger.warn({ err, userId }, 'Audio file too large');
+          return reply.status(413).send({ error: 'File size limit exceeded' });
+        }
+        app.logger.warn({ err, userId }, 'Failed to read multipart body');
+        return reply.status(400).send({ error: 'Invalid multipart form data' });
+      }
+
+      if (!audio) {
+        return reply.status(400).send({ error: 'Audio file is required' });
+      }
+
+      if (!expectedText) {
+        return reply.status(400).send({ error: 'expectedText is required' });
+      }
+
+      if (expectedText.length > MAX_EXPECTED_TEXT_LENGTH) {
+        return reply.status(400).send({ error: `expectedText must be at most ${MAX_EXPECTED_TEXT_LENGTH} characters` });
+      }
+
+      app.logger.info({ userId, audioSize: audio.buffer.length, expectedLength: expectedText.length, language }, 'Assessing pronunciation');
+
+      try {
+        const assessment = await assessPronunciation(
+          { audio: audio.buffer, mimeType: audio.mimeType, languageHint: language, userId },
+          expectedText
+        );
+
+        app.logger.info({ userId, score: assessment.score, wordCount: assessment.words.length }, 'Pronunciation assessed');
+
+        return assessment;
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to assess pronunciation');
+        return reply.status(500).send({ error: 'Failed to assess pronunciation' });
+      }
+    }
+  );
+}
@@ -0,0 +1,149 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { asc, eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import {
+  getScenario,
+  isLevelAtLeast,
+  toScenarioDetails,
+  toScenarioSummary,
+  type ScenarioDetails,
+  type ScenarioSummary,
+} from '../services/scenarios.js';
+
+interface ListScenariosQuery {
+  level?: schema.CefrLevel;
+  language?: string;
+}
+
+const scenarioSummaryProperties = {
+  id: { type: 'string', format: 'uuid' },
+  slug: { type: 'string' },
+  language: { type: 'string' },
+  title: { type: 'string' },
+  setting: { type: 'string' },
+  learnerGoal: { type: 'string' },
+  minLevel: { type: 'string' },
+};
+
+export function registerScenarioRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/scenarios - List role-play scenarios
+  app.fastify.get<{ Querystring: ListScenariosQuery }>(
+    '/api/scenarios',
+    {
+      schema: {
+        description: 'List role-play scenarios, optionally only those in a language or available at a level',
+        tags: ['scenarios'],
+        querystring: {
+          type: 'object',
+          properties: {
+            level: { type: 'string', enum: [...schema.CEFR_LEVELS] },
+            language: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: scenarioSummaryProperties,
+            },
+          },
+          400: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ListScenariosQuery }>, reply: FastifyReply): Promise<ScenarioSummary[]> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { level, language } = request.query;
+
+      app.logger.info({ userId: session.user.id, level, language }, 'Fetching scenarios');
+
+      const scenarios = await app.db
+        .select()
+        .from(schema.scenarios)
+        .where(language ? eq(schema.scenarios.language, language) : undefined)
+        .orderBy(asc(schema.scenarios.createdAt), asc(schema.scenarios.slug));
+
+      const available = level ? scenarios.filter((scenario) => isLevelAtLeast(level, scenario.minLevel)) : scenarios;
+
+      app.logger.info({ count: available.length }, 'Scenarios retrieved');
+
+      return available.map(toScenarioSummary);
+    }
+  );
+
+  // GET /api/scenarios/:id - Get a scenario with its persona, starter message and target vocabulary
+  app.fastify.get<{ Params: { id: string } }>(
+    '/api/scenarios/:id',
+    {
+      schema: {
+        description: 'Get a role-play scenario',
+        tags: ['scenarios'],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              ...scenarioSummaryProperties,
+              tutorPersona: { type: 'string' },
+              starterMessage: { type: 'string' },
+              targetVocabulary: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    term: { type: 'string' },
+                    translation: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          404: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply): Promise<ScenarioDetails | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params;
+
+      app.logger.info({ scenarioId: id, userId: session.user.id }, 'Fetching scenario');
+
+      const scenario = await getScenario(app, id);
+
+      if (!scenario) {
+        app.logger.warn({ scenarioId: id }, 'Scenario not found');
+        return reply.status(404).send({ error: 'Scenario not found' });
+      }
+
+      return toScenarioDetails(scenario);
+    }
+  );
+}
@@ -0,0 +1,74 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { searchConversations, type SearchResult } from '../services/search.js';
+
+const MAX_QUERY_LENGTH = 200;
+
+interface SearchQuery {
+  q: string;
+  limit?: number;
+}
+
+export function registerSearchRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/search - Full-text search across the user's messages, conversation titles and vocabulary
+  app.fastify.get<{ Querystring: SearchQuery }>(
+    '/api/search',
+    {
+      schema: {
+        description: 'Search messages, conversation titles and vocabulary, ignoring diacritics; snippets mark matches with <mark> tags',
+        tags: ['search'],
+        querystring: {
+          type: 'object',
+          required: ['q'],
+          properties: {
+            q: { type: 'string', minLength: 1, maxLength: MAX_QUERY_LENGTH },
+            limit: { type: 'integer', minimum: 1, maximum: 50, default: 20 },
+          },
+        },
+        response: {
+          200: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ['message', 'conversation', 'vocabulary'] },
+                conversationId: { type: 'string', format: 'uuid' },
+                conversationTitle: { type: ['string', 'null'] },
+                messageId: { type: ['string', 'null'], format: 'uuid' },
+                sequence: { type: ['integer', 'null'] },
+                snippet: { type: 'string' },
+                rank: { type: 'number' },
+                createdAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+          400: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: SearchQuery }>, reply: FastifyReply): Promise<SearchResult[] | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { q, limit = 20 } = request.query;
+      const userId = session.user.id;
+
+      app.logger.info({ userId, queryLength: q.length, limit }, 'Searching conversations');
+
+      const results = await searchConversations(app, userId, q, limit);
+
+      app.logger.info({ userId, count: results.length }, 'Search completed');
+
+      return results;
+    }
+  );
+}
@@ -0,0 +1,59 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { getUsageReport, type UsageReport } from '../services/usage.js';
+
+const allowanceSchema = {
+  type: 'object',
+  properties: {
+    used: { type: 'integer' },
+    limit: { type: 'integer' },
+    remaining: { type: 'integer' },
+  },
+};
+
+export function registerUsageRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/me/usage - Today's AI usage and what is left of the daily quotas and the rate limit
+  app.fastify.get(
+    '/api/me/usage',
+    {
+      schema: {
+        description: "Get the learner's AI usage for the current UTC day and the remaining allowance",
+        tags: ['profile'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              periodStart: { type: 'string', format: 'date-time' },
+              resetsAt: { type: 'string', format: 'date-time' },
+              requests: allowanceSchema,
+              tokens: allowanceSchema,
+              rateLimit: {
+                type: 'object',
+                properties: {
+                  ...allowanceSchema.properties,
+                  windowSeconds: { type: 'integer' },
+                },
+              },
+            },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply): Promise<UsageReport | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      app.logger.info({ userId }, 'Fetching AI usage');
+
+      return getUsageReport(app, userId);
+    }
+  );
+}
@@ -2,14 +2,29 @@ import type { App } from '../index.js';
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { eq, and, desc } from 'drizzle-orm';
 import * as schema from '../db/schema/schema.js';
-import { gateway } from '@specific-dev/framework';
-import { generateText } from 'ai';
+import { ai } from '../services/ai/index.js';
+import { checkUsageAllowance } from '../services/usage.js';
+import { getOccurrencesByVocabulary, type VocabularyOccurrence } from '../services/vocabulary.js';
+import {
+  DEFAULT_TARGET_LANGUAGE,
+  SOURCE_LANGUAGE,
+  STARTER_WORDS,
+  TARGET_LANGUAGES,
+  type TargetLanguage,
+} from '../services/languages.js';
 
 interface VocabularyItem {
   id: string;
-  latvianWord: string;
-  englishTranslation: string;
+  term: string;
+  translation: string;
+  targetLanguage: string;
+  sourceLanguage: string;
+  lemma: string | null;
+  partOfSpeech: string | null;
+  gender: string | null;
   context: string | null;
+  // Forms the word was seen in, oldest first
+  occurrences: VocabularyOccurrence[];
   createdAt: string;
   conversationId?: string;
 }
@@ -20,27 +35,70 @@ interface DeleteVocabularyResponse {
 
 interface DailyWord {
   id: string;
-  latvianWord: string;
-  englishTranslation: string;
+  term: string;
+  translation: string;
   context: string | null;
   date: string;
 }
 
 interface DailyVocabularyResponse {
   topic: string;
+  targetLanguage: TargetLanguage;
+  sourceLanguage: string;
   words: DailyWord[];
 }
 
+interface VocabularyQuery {
+  language?: string;
+}
+
+interface DailyVocabularyQuery {
+  language?: TargetLanguage;
+}
+
+function buildDailyVocabularyPrompt(language: TargetLanguage): string {
+  return `Generate 5 ${language} vocabulary words for language learning. Pick a specific topic (like Food, Travel, Weather, Family, Work, Shopping, Health, Education, Sports, or Nature). Give each word's ${SOURCE_LANGUAGE} translation. Return ONLY valid JSON in this exact format with no markdown or extra text:
+{
+  "topic": "topic name in ${SOURCE_LANGUAGE}",
+  "words": [
+    {"term": "word1", "translation": "translation1", "context": "example sentence in ${language}"},
+    {"term": "word2", "translation": "translation2", "context": "example sentence in ${language}"},
+    {"term": "word3", "translation": "translation3", "context": "example sentence in ${language}"},
+    {"term": "word4", "translation": "translation4", "context": "example sentence in ${language}"},
+    {"term": "word5", "translation": "translation5", "context": "example sentence in ${language}"}
+  ]
+}`;
+}
+
+const occurrencesSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      term: { type: 'string' },
+      context: { type: ['string', 'null'] },
+      messageId: { type: ['string', 'null'], format: 'uuid' },
+      createdAt: { type: 'string', format: 'date-time' },
+    },
+  },
+};
+
 export function registerVocabularyRoutes(app: App) {
   const requireAuth = app.requireAuth();
 
   // GET /api/vocabulary - Get all vocabulary for authenticated user
-  app.fastify.get(
+  app.fastify.get<{ Querystring: VocabularyQuery }>(
     '/api/vocabulary',
     {
       schema: {
-        description: "Get all vocabulary for authenticated user",
+        description: "Get all vocabulary for authenticated user, optionally only the words of one language",
         tags: ['vocabulary'],
+        querystring: {
+          type: 'object',
+          properties: {
+            language: { type: 'string' },
+          },
+        },
         response: {
           200: {
             type: 'array',
@@ -48,9 +106,15 @@ export function registerVocabularyRoutes(app: App) {
               type: 'object',
               properties: {
                 id: { type: 'string', format: 'uuid' },
-                latvianWord: { type: 'string' },
-                englishTranslation: { type: 'string' },
+                term: { type: 'string' },
+                translation: { type: 'string' },
+                targetLanguage: { type: 'string' },
+                sourceLanguage: { type: 'string' },
+                lemma: { type: ['string', 'null'] },
+                partOfSpeech: { type: ['string', 'null'] },
+                gender: { type: ['string', 'null'] },
                 context: { type: ['string', 'null'] },
+                occurrences: occurrencesSchema,
                 createdAt: { type: 'string', format: 'date-time' },
                 conversationId: { type: 'string', format: 'uuid' },
               },
@@ -63,26 +127,40 @@ export function registerVocabularyRoutes(app: App) {
         },
       },
     },
-    async (request: FastifyRequest, reply: FastifyReply): Promise<VocabularyItem[]> => {
+    async (request: FastifyRequest<{ Querystring: VocabularyQuery }>, reply: FastifyReply): Promise<VocabularyItem[]> => {
       const session = await requireAuth(request, reply);
       if (!session) return;
 
       const userId = session.user.id;
-      app.logger.info({ userId }, 'Fetching all vocabulary');
+      const { language } = request.query;
+      app.logger.info({ userId, language }, 'Fetching all vocabulary');
 
       const vocabularyItems = await app.db
         .select()
         .from(schema.vocabulary)
-        .where(eq(schema.vocabulary.userId, userId))
+        .where(
+          and(
+            eq(schema.vocabulary.userId, userId),
+            language ? eq(schema.vocabulary.targetLanguage, language) : undefined
+          )
+        )
         .orderBy(desc(schema.vocabulary.createdAt));
 
       app.logger.info({ userId, count: vocabularyItems.length }, 'Vocabulary retrieved');
 
+      const occurrences = await getOccurrencesByVocabulary(app, vocabularyItems.map((item) => item.id));
+
       return vocabularyItems.map((item) => ({
         id: item.id,
-        latvianWord: item.latvianWord,
-        englishTranslation: item.englishTranslation,
+        term: item.term,
+        translation: item.translation,
+        targetLanguage: item.targetLanguage,
+        sourceLanguage: item.sourceLanguage,
+        lemma: item.lemma,
+        partOfSpeech: item.partOfSpeech,
+        gender: item.gender,
         context: item.context,
+        occurrences: occurrences.get(item.id) ?? [],
         createdAt: item.createdAt.toISOString(),
         conversationId: item.conversationId,
       }));
@@ -90,25 +168,33 @@ export function registerVocabularyRoutes(app: App) {
   );
 
   // GET /api/vocabulary/daily - Get daily vocabulary words for practice
-  app.fastify.get(
+  app.fastify.get<{ Querystring: DailyVocabularyQuery }>(
     '/api/vocabulary/daily',
     {
       schema: {
-        description: 'Get 5 daily vocabulary words for practice (generates if not exists for today)',
+        description: 'Get 5 daily vocabulary words for practice in a language (generates if not exists for today)',
         tags: ['vocabulary'],
+        querystring: {
+          type: 'object',
+          properties: {
+            language: { type: 'string', enum: [...TARGET_LANGUAGES], default: DEFAULT_TARGET_LANGUAGE },
+          },
+        },
         response: {
           200: {
             type: 'object',
             properties: {
               topic: { type: 'string' },
+              targetLanguage: { type: 'string' },
+              sourceLanguage: { type: 'string' },
               words: {
                 type: 'array',
                 items: {
                   type: 'object',
                   properties: {
                     id: { type: 'string', format: 'uuid' },
-                    latvianWord: { type: 'string' },
-                    englishTranslation: { type: 'string' },
+                    term: { type: 'string' },
+                    translation: { type: 'string' },
                     context: { type: ['string', 'null'] },
                     date: { type: 'string', format: 'date' },
                   },
@@ -120,6 +206,10 @@ export function registerVocabularyRoutes(app: App) {
             type: 'object',
             properties: { error: { type: 'string' } },
           },
+          429: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
           500: {
             type: 'object',
             properties: { error: { type: 'string' } },
@@ -127,17 +217,21 @@ export function registerVocabularyRoutes(app: App) {
         },
       },
     },
-    async (request: FastifyRequest, reply: FastifyReply): Promise<DailyVocabularyResponse | void> => {
+    async (
+      request: FastifyRequest<{ Querystring: DailyVocabularyQuery }>,
+      reply: FastifyReply
+    ): Promise<DailyVocabularyResponse | void> => {
       const session = await requireAuth(request, reply);
       if (!session) return;
 
       const userId = session.user.id;
+      const language = request.query.language ?? DEFAULT_TARGET_LANGUAGE;
 
       // Get today's date in YYYY-MM-DD format
       const today = new Date();
       const todayString = today.toISOString().split('T')[0];
 
-      app.logger.info({ userId, date: todayString }, 'Fetching daily vocabulary');
+      app.logger.info({ userId, language, date: todayString }, 'Fetching daily vocabulary');
 
       try {
         // Check if daily vocabulary already exists for today
@@ -147,6 +241,7 @@ export function registerVocabularyRoutes(app: App) {
           .where(
             and(
               eq(schema.dailyVocabulary.userId, userId),
+              eq(schema.dailyVocabulary.targetLanguage, language),
               eq(schema.dailyVocabulary.date, todayString as any)
             )
           );
@@ -159,97 +254,59 @@ export function registerVocabularyRoutes(app: App) {
           const topic = existingDaily[0].topic;
           const words: DailyWord[] = existingDaily.map((item) => ({
             id: item.id,
-            latvianWord: item.latvianWord,
-            englishTranslation: item.englishTranslation,
+            term: item.term,
+            translation: item.translation,
             context: item.context,
             date: todayString,
           }));
 
           return {
             topic,
+            targetLanguage: language,
+            sourceLanguage: existingDaily[0].sourceLanguage,
             words,
           };
         }
 
-        // Generate new daily vocabulary using AI
-        app.logger.info({ userId }, 'Generating new daily vocabulary');
+        const denial = await checkUsageAllowance(app, userId);
+        if (denial) {
+          app.logger.warn({ userId, error: denial.error }, 'AI usage limit reached');
+          return reply.status(429).header('Retry-After', String(denial.retryAfterSeconds)).send({ error: denial.error });
+        }
 
-        const prompt = `Generate 5 Latvian vocabulary words for language learning. Pick a specific topic (like Food, Travel, Weather, Family, Work, Shopping, Health, Education, Sports, or Nature). Return ONLY valid JSON in this exact format with no markdown or extra text:
-{
-  "topic": "topic name",
-  "words": [
-    {"latvian": "word1", "english": "translation1", "context": "example sentence in Latvian"},
-    {"latvian": "word2", "english": "translation2", "context": "example sentence in Latvian"},
-    {"latvian": "word3", "english": "translation3", "context": "example sentence in Latvian"},
-    {"latvian": "word4", "english": "translation4", "context": "example sentence in Latvian"},
-    {"latvian": "word5", "english": "translation5", "context": "example sentence in Latvian"}
-  ]
-}`;
+        // Generate new daily vocabulary using AI
+        app.logger.info({ userId, language }, 'Generating new daily vocabulary');
 
-        // Add timeout to AI call to prevent hanging
-        const aiTimeoutPromise = new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error('AI response timeout')), 8000)
-        );
+        const prompt = buildDailyVocabularyPrompt(language);
 
         let aiResponse: string;
         try {
-          const result = await Promise.race([
-            generateText({
-              model: gateway('google/gemini-3-flash'),
-              prompt,
-            }),
-            aiTimeoutPromise,
-          ]);
+          const result = await ai.generateText({
+            task: 'daily-generation',
+            purpose: 'daily-vocabulary',
+            prompt,
+            userId,
+          });
           aiResponse = result.text;
         } catch (timeoutError) {
           app.logger.warn({ userId, error: String(timeoutError) }, 'AI generation timed out, returning default');
           // Return default daily vocabulary if AI times out
           return {
             topic: 'Daily Practice',
-            words: [
-              {
-                id: 'default-1',
-                latvianWord: 'sveiki',
-                englishTranslation: 'hello',
-                context: 'Sveiki, kā jums klājas?',
-                date: todayString,
-              },
-              {
-                id: 'default-2',
-                latvianWord: 'paldies',
-                englishTranslation: 'thank you',
-                context: 'Paldies par jūsu palīdzību.',
-                date: todayString,
-              },
-              {
-                id: 'default-3',
-                latvianWord: 'lūdzu',
-                englishTranslation: 'please',
-                context: 'Lūdzu, palīdziet man.',
-                date: todayString,
-              },
-              {
-                id: 'default-4',
-                latvianWord: 'jā',
-                englishTranslation: 'yes',
-                context: 'Jā, es piekrītu.',
-                date: todayString,
-              },
-              {
-                id: 'default-5',
-                latvianWord: 'nē',
-                englishTranslation: 'no',
-                context: 'Nē, es nepiekrītu.',
-                date: todayString,
-              },
-            ],
+            targetLanguage: language,
+            sourceLanguage: SOURCE_LANGUAGE,
+            words: STARTER_WORDS[language].map((word, index) => ({
+              id: `default-${index + 1}`,
+              ...word,
+              date: todayString,
+            })),
           };
         }
 
         app.logger.info({ userId, responseLength: aiResponse.length }, 'AI generated daily vocabulary');
 
         // Parse JSON response
-        let generatedData: { topic: string; words: Array<{ latvian: string; english: string; context: string }> };
+        let generatedData: { topic: string; words: Array<{ term: string; translation: string; context: string }> };
 
         try {
           generatedData = JSON.parse(aiResponse);
@@ -270,8 +327,10 @@ export function registerVocabularyRoutes(app: App) {
           .values(
             generatedData.words.map((word) => ({
               userId,
-              latvianWord: word.latvian,
-              englishTranslation: word.english,
+              term: word.term,
+              translation: word.translation,
+              targetLanguage: language,
+              sourceLanguage: SOURCE_LANGUAGE,
               context: word.context,
               topic: generatedData.topic,
               date: todayString as any,
@@ -279,14 +338,16 @@ export function registerVocabularyRoutes(app: App) {
           )
           .returning();
 
-        app.logger.info({ userId, topic: generatedData.topic, count: dailyWords.length }, 'Daily vocabulary saved');
+        app.logger.info({ userId, language, topic: generatedData.topic, count: dailyWords.length }, 'Daily vocabulary saved');
 
         return {
           topic: generatedData.topic,
+          targetLanguage: language,
+          sourceLanguage: SOURCE_LANGUAGE,
           words: dailyWords.map((item) => ({
             id: item.id,
-            latvianWord: item.latvianWord,
-            englishTranslation: item.englishTranslation,
+            term: item.term,
+            translation: item.translation,
             context: item.context,
             date: todayString,
           })),
@@ -319,9 +380,15 @@ export function registerVocabularyRoutes(app: App) {
               type: 'object',
               properties: {
                 id: { type: 'string', format: 'uuid' },
-                latvianWord: { type: 'string' },
-                englishTranslation: { type: 'string' },
+                term: { type: 'string' },
+                translation: { type: 'string' },
+                targetLanguage: { type: 'string' },
+                sourceLanguage: { type: 'string' },
+                lemma: { type: ['string', 'null'] },
+                partOfSpeech: { type: ['string', 'null'] },
+                gender: { type: ['string', 'null'] },
                 context: { type: ['string', 'null'] },
+                occurrences: occurrencesSchema,
                 createdAt: { type: 'string', format: 'date-time' },
               },
             },
@@ -375,11 +442,19 @@ export function registerVocabularyRoutes(app: App) {
 
       app.logger.info({ conversationId: id, count: vocabularyItems.length }, 'Conversation vocabulary retrieved');
 
+      const occurrences = await getOccurrencesByVocabulary(app, vocabularyItems.map((item) => item.id));
+
       return vocabularyItems.map((item) => ({
         id: item.id,
-        latvianWord: item.latvianWord,
-        englishTranslation: item.englishTranslation,
+        term: item.term,
+        translation: item.translation,
+        targetLanguage: item.targetLanguage,
+        sourceLanguage: item.sourceLanguage,
+        lemma: item.lemma,
+        partOfSpeech: item.partOfSpeech,
+        gender: item.gender,
         context: item.context,
+        occurrences: occurrences.get(item.id) ?? [],
         createdAt: item.createdAt.toISOString(),
       }));
     }
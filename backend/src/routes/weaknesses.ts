@@ -0,0 +1,86 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import * as schema from '../db/schema/schema.js';
+import {
+  DEFAULT_WEAKNESS_WEEKS,
+  MAX_WEAKNESS_WEEKS,
+  getWeaknessReport,
+  type WeaknessReport,
+} from '../services/weaknesses.js';
+
+interface WeaknessesQuery {
+  weeks?: number;
+}
+
+export function registerWeaknessRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/me/weaknesses - Grammar topics the learner keeps getting wrong, with weekly trends
+  app.fastify.get<{ Querystring: WeaknessesQuery }>(
+    '/api/me/weaknesses',
+    {
+      schema: {
+        description: "Aggregate the learner's corrections and exercise mistakes by Latvian grammar topic over the last weeks",
+        tags: ['profile'],
+        querystring: {
+          type: 'object',
+          properties: {
+            weeks: { type: 'integer', minimum: 1, maximum: MAX_WEAKNESS_WEEKS, default: DEFAULT_WEAKNESS_WEEKS },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              since: { type: 'string', format: 'date-time' },
+              weeks: { type: 'integer' },
+              topics: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    topic: { type: 'string', enum: [...schema.GRAMMAR_TOPICS] },
+                    label: { type: 'string' },
+                    mistakes: { type: 'integer' },
+                    corrections: { type: 'integer' },
+                    exerciseMistakes: { type: 'integer' },
+                    lastSeenAt: { type: 'string', format: 'date-time' },
+                    trend: { type: 'string', enum: ['improving', 'steady', 'worsening'] },
+                    weekly: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          weekStart: { type: 'string', format: 'date' },
+                          mistakes: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          401: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: WeaknessesQuery }>,
+      reply: FastifyReply
+    ): Promise<WeaknessReport | void> => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const weeks = request.query.weeks ?? DEFAULT_WEAKNESS_WEEKS;
+
+      app.logger.info({ userId, weeks }, 'Fetching grammar weaknesses');
+
+      return getWeaknessReport(app, userId, weeks);
+    }
+  );
+}
@@ -0,0 +1,75 @@
+import { gateway } from '@specific-dev/framework';
+import { generateText, streamText } from 'ai';
+import type { AiProvider, AiTextRequest, AiUsage } from './types.js';
+import type { ModelRegistry } from './models.js';
+
+export const DEFAULT_AI_TIMEOUT_MS = 8000;
+
+// Build the SDK call options shared by generate and stream
+// The call is aborted by whichever comes first: the timeout signal or the request's own signal
+function toCallOptions(request: AiTextRequest, model: string, timeoutSignal: AbortSignal) {
+  const base = {
+    model: gateway(model),
+    system: request.system,
+    abortSignal: request.abortSignal ? AbortSignal.any([timeoutSignal, request.abortSignal]) : timeoutSignal,
+  };
+  return request.messages ? { ...base, messages: request.messages } : { ...base, prompt: request.prompt ?? '' };
+}
+
+// Provider backed by the framework's AI gateway
+export function createGatewayProvider(models: ModelRegistry): AiProvider {
+  return {
+    name: 'gateway',
+
+    modelFor(task) {
+      return models[task];
+    },
+
+    async generateText(request) {
+      const model = models[request.task];
+      const abortSignal = AbortSignal.timeout(request.timeoutMs ?? DEFAULT_AI_TIMEOUT_MS);
+      const result = await generateText(toCallOptions(request, model, abortSignal));
+
+      return {
+        text: result.text,
+        model,
+        usage: {
+          inputTokens: result.usage.inputTokens ?? null,
+          outputTokens: result.usage.outputTokens ?? null,
+        },
+      };
+    },
+
+    async *streamText(request) {
+      const model = models[request.task];
+      // Streams may legitimately run longer than a blocking call, so only the time to finish is capped
+      // The call is also aborted when the consumer stops reading early
+      const stopped = new AbortController();
+      const abortSignal = AbortSignal.any([
+        AbortSignal.timeout((request.timeoutMs ?? DEFAULT_AI_TIMEOUT_MS) * 4),
+        stopped.signal,
+      ]);
+      const result = streamText(toCallOptions(request, model, abortSignal));
+
+      let usage: AiUsage | undefined;
+      try {
+        for await (const part of result.fullStream) {
+          if (part.type === 'text-delta') {
+            yield part.text;
+          } else if (part.type === 'finish') {
+            usage = {
+              inputTokens: part.totalUsage.inputTokens ?? null,
+              outputTokens: part.totalUsage.outputTokens ?? null,
+            };
+          } else if (part.type === 'error') {
+            throw part.error;
+          }
+        }
+      } finally {
+        stopped.abort();
+      }
+
+      return usage;
+    },
+  };
+}
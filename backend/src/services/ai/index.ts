@@ -0,0 +1,43 @@
+import type { AiProvider } from './types.js';
+import { createModelRegistry, type ModelRegistry } from './models.js';
+import { createGatewayProvider } from './gateway-provider.js';
+import { createStubProvider } from './stub-provider.js';
+import { createMeteredProvider, type AiCallRecord, type AiCallRecorder } from './metered-provider.js';
+
+export type { AiProvider, AiTask, AiPurpose, AiTextRequest, AiTextResult, AiUsage } from './types.js';
+export type { AiCallRecord, AiCallRecorder, AiCallStatus } from './metered-provider.js';
+export { createModelRegistry, getHistoryTokenBudget } from './models.js';
+export { estimateTokens } from './tokens.js';
+export { createStubProvider } from './stub-provider.js';
+
+// Select the provider named by AI_PROVIDER ('gateway' by default, 'stub' for offline use)
+export function createAiProvider(env: NodeJS.ProcessEnv = process.env): AiProvider {
+  const providerName = env.AI_PROVIDER ?? 'gateway';
+
+  switch (providerName) {
+    case 'gateway':
+      return createGatewayProvider(createModelRegistry(env));
+    case 'stub':
+      return createStubProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER: ${providerName}`);
+  }
+}
+
+let usageRecorder: AiCallRecorder | null = null;
+
+// Store the usage of the shared provider's calls with this recorder
+export function setAiUsageRecorder(recorder: AiCallRecorder): void {
+  usageRecorder = recorder;
+}
+
+// Pass a call made for a user to the usage recorder
+export async function recordAiUsage(record: AiCallRecord): Promise<void> {
+  await usageRecorder?.(record);
+}
+
+// Shared provider used by the routes; calls made for a user go to the usage recorder
+export const ai = createMeteredProvider(createAiProvider(), recordAiUsage);
+
+// Models the shared provider resolves for each task
+export const aiModels: ModelRegistry = createModelRegistry();
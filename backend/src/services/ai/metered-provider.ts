@@ -0,0 +1,126 @@
+import type { AiProvider, AiPurpose, AiTask, AiTextRequest, AiUsage } from './types.js';
+import { estimateTokens } from './tokens.js';
+
+// Outcome of a model call: aborted streams were stopped by the consumer before the provider finished
+export type AiCallStatus = 'completed' | 'failed' | 'aborted';
+
+// A model call made on a learner's behalf; speech synthesis is recorded alongside the text calls
+export interface AiCallRecord {
+  userId: string;
+  task: AiTask | 'speech';
+  purpose: AiPurpose | 'speech';
+  model: string;
+  status: AiCallStatus;
+  usage: AiUsage;
+  latencyMs: number;
+}
+
+export type AiCallRecorder = (record: AiCallRecord) => Promise<void>;
+
+// Text sent with a request, for estimating the input tokens of calls without reported usage
+function requestText(request: AiTextRequest): string {
+  const messages = (request.messages ?? []).map((message) => {
+    if (typeof message.content === 'string') {
+      return message.content;
+    }
+    return message.content.map((part) => (part.type === 'text' ? part.text : '')).join(' ');
+  });
+  return [request.system, request.prompt, ...messages].filter(Boolean).join('\n');
+}
+
+// Usage of a call the provider did not report on, estimated from the text sent and received so far
+function estimateUsage(request: AiTextRequest, output: string): AiUsage {
+  return {
+    inputTokens: estimateTokens(requestText(request)),
+    outputTokens: estimateTokens(output),
+  };
+}
+
+// Wrap a provider so every call made for a user is passed to the recorder with its outcome and latency
+// Failed calls and streams the consumer stops early are recorded too, since the provider may bill them
+// Usage the provider reports is used as is; otherwise it is estimated from the text
+export function createMeteredProvider(provider: AiProvider, record: AiCallRecorder): AiProvider {
+  return {
+    name: provider.name,
+
+    modelFor(task) {
+      return provider.modelFor(task);
+    },
+
+    async generateText(request) {
+      const startedAt = Date.now();
+      try {
+        const result = await provider.generateText(request);
+
+        if (request.userId) {
+          await record({
+            userId: request.userId,
+            task: request.task,
+            purpose: request.purpose,
+            model: result.model,
+            status: 'completed',
+            usage: result.usage,
+            latencyMs: Date.now() - startedAt,
+          });
+        }
+
+        return result;
+      } catch (error) {
+        if (request.userId) {
+          await record({
+            userId: request.userId,
+            task: request.task,
+            purpose: request.purpose,
+            model: provider.modelFor(request.task),
+            status: request.abortSignal?.aborted ? 'aborted' : 'failed',
+            usage: estimateUsage(request, ''),
+            latencyMs: Date.now() - startedAt,
+          });
+        }
+        throw error;
+      }
+    },
+
+    async *streamText(request) {
+      const startedAt = Date.now();
+      const stream = provider.streamText(request);
+      let text = '';
+      let usage: AiUsage | undefined;
+      // Stays 'aborted' unless the provider finishes or fails, i.e. when the consumer stops reading or aborts the request
+      let status: AiCallStatus = 'aborted';
+
+      try {
+        let next = await stream.next();
+        while (!next.done) {
+          const delta = next.value as string;
+          text += delta;
+          yield delta;
+          next = await stream.next();
+        }
+        usage = next.value as AiUsage | undefined;
+        status = 'completed';
+        return usage;
+      } catch (error) {
+        if (!request.abortSignal?.aborted) {
+          status = 'failed';
+        }
+        throw error;
+      } finally {
+        if (status === 'aborted') {
+          await stream.return(undefined);
+        }
+        if (request.userId) {
+          await record({
+            userId: request.userId,
+            task: request.task,
+            purpose: request.purpose,
+            model: provider.modelFor(request.task),
+            status,
+            usage: usage ?? estimateUsage(request, text),
+            latencyMs: Date.now() - startedAt,
+          });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import type { AiTask } from './types.js';
+
+// Default gateway model for each task
+const DEFAULT_MODELS: Record<AiTask, string> = {
+  'chat': 'google/gemini-2.5-flash',
+  'transcription': 'google/gemini-3-flash',
+  'extraction': 'google/gemini-2.5-flash',
+  'daily-generation': 'google/gemini-3-flash',
+};
+
+// Environment variable that overrides the model for each task
+const MODEL_ENV_VARS: Record<AiTask, string> = {
+  'chat': 'AI_MODEL_CHAT',
+  'transcription': 'AI_MODEL_TRANSCRIPTION',
+  'extraction': 'AI_MODEL_EXTRACTION',
+  'daily-generation': 'AI_MODEL_DAILY_GENERATION',
+};
+
+export type ModelRegistry = Record<AiTask, string>;
+
+// Resolve the model for every task, letting the environment override the defaults
+export function createModelRegistry(env: NodeJS.ProcessEnv = process.env): ModelRegistry {
+  const registry = { ...DEFAULT_MODELS };
+  for (const task of Object.keys(MODEL_ENV_VARS) as AiTask[]) {
+    const override = env[MODEL_ENV_VARS[task]];
+    if (override) {
+      registry[task] = override;
+    }
+  }
+  return registry;
+}
+
+// Tokens of conversation history sent with each request, per model
+// Kept well below the models' context windows to bound latency and cost
+const HISTORY_TOKEN_BUDGETS: Record<string, number> = {
+  'google/gemini-2.5-flash': 6000,
+  'google/gemini-3-flash': 6000,
+};
+
+const DEFAULT_HISTORY_TOKEN_BUDGET = 4000;
+
+// Resolve the history token budget for a model; AI_HISTORY_TOKEN_BUDGET overrides it for every model
+export function getHistoryTokenBudget(model: string, env: NodeJS.ProcessEnv = process.env): number {
+  const override = Number(env.AI_HISTORY_TOKEN_BUDGET);
+  if (Number.isFinite(override) && override > 0) {
+    return override;
+  }
+  return HISTORY_TOKEN_BUDGETS[model] ?? DEFAULT_HISTORY_TOKEN_BUDGET;
+}
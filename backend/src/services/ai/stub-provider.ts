@@ -0,0 +1,125 @@
+import type { AiProvider, AiPurpose, AiTextRequest } from './types.js';
+import { estimateTokens } from './tokens.js';
+
+// Word pairs the stub tutor teaches, picked deterministically from the student's message
+const STUB_WORDS = [
+  { word: 'sveiki', translation: 'hello', context: 'Sveiki, kā tev klājas?', partOfSpeech: 'interjection', gender: null },
+  { word: 'paldies', translation: 'thank you', context: 'Paldies par palīdzību.', partOfSpeech: 'interjection', gender: null },
+  { word: 'lūdzu', translation: 'please', context: 'Lūdzu, palīdzi man.', partOfSpeech: 'particle', gender: null },
+  { word: 'māja', translation: 'house', context: 'Mana māja ir liela.', partOfSpeech: 'noun', gender: 'feminine' },
+  { word: 'skola', translation: 'school', context: 'Es eju uz skolu.', partOfSpeech: 'noun', gender: 'feminine' },
+];
+
+// Mistakes the stub reviewer recognises in a student's message
+const STUB_MISTAKES = [
+  { original: 'Riga', corrected: 'Rīgā', category: 'case', topic: 'locative_case', explanation: 'Use the locative "Rīgā" for "in Riga".' },
+  { original: 'dzivoju', corrected: 'dzīvoju', category: 'spelling_diacritics', topic: 'spelling_diacritics', explanation: 'The verb is spelled with a long "ī".' },
+];
+
+// Text of the last user message, or the prompt when the request has no history
+function lastUserText(request: AiTextRequest): string {
+  const userMessages = (request.messages ?? []).filter((message) => message.role === 'user');
+  const last = userMessages[userMessages.length - 1];
+  if (!last) {
+    return request.prompt ?? '';
+  }
+  if (typeof last.content === 'string') {
+    return last.content;
+  }
+  return last.content
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .join(' ');
+}
+
+// Student messages containing this marker make the stub tutor fail, so tests can exercise provider errors
+const STUB_FAILURE_MARKER = '[stub-failure]';
+
+const STUB_RESPONDERS: Record<AiPurpose, (request: AiTextRequest) => string> = {
+  'tutor-reply': (request) => {
+    if (lastUserText(request).includes(STUB_FAILURE_MARKER)) {
+      throw new Error('Stub tutor reply failed');
+    }
+    const { word, translation } = STUB_WORDS[lastUserText(request).length % STUB_WORDS.length];
+    return `Labi! Paldies par tavu ziņu. Noderīgs vārds: ${word} (${translation}). Turpini praktizēt!`;
+  },
+  'transcription': () =>
+    JSON.stringify({
+      language: 'lv',
+      words: ['Sveiki,', 'kā', 'tev', 'klājas?'].map((word, index) => ({
+        word,
+        start: index * 400,
+        end: index * 400 + 350,
+        confidence: 0.9,
+        language: 'lv',
+      })),
+    }),
+  'corrections': (request) => {
+    const message = lastUserText(request).split('Student message:').pop() ?? '';
+    const words = message.split(/[^\p{L}]+/u);
+    return JSON.stringify({ corrections: STUB_MISTAKES.filter(({ original }) => words.includes(original)) });
+  },
+  // Every stub word that appears in the reply, in its dictionary form
+  'vocabulary': (request) => {
+    const text = lastUserText(request).toLowerCase();
+    return JSON.stringify({
+      items: STUB_WORDS.filter(({ word }) => text.includes(word)).map(({ word, translation, context, partOfSpeech, gender }) => ({
+        surface: word,
+        lemma: word,
+        partOfSpeech,
+        gender,
+        translation,
+        example: context,
+      })),
+    });
+  },
+  'daily-vocabulary': () =>
+    JSON.stringify({
+      topic: 'Greetings',
+      words: STUB_WORDS.map(({ word, translation, context }) => ({ term: word, translation, context })),
+    }),
+  'summary': () => 'The student and the tutor practised everyday conversation and reviewed new vocabulary.',
+  'title': () => 'Ikdienas saruna / Everyday conversation',
+  'hints': () =>
+    JSON.stringify({
+      hints: [
+        { difficulty: 'easier', text: 'Jā, paldies.', gloss: 'Yes, thank you.' },
+        { difficulty: 'at_level', text: 'Man patīk runāt latviski.', gloss: 'I like speaking Latvian.' },
+        { difficulty: 'stretch', text: 'Vai tu varētu man pastāstīt vairāk par to?', gloss: 'Could you tell me more about it?' },
+      ],
+    }),
+};
+
+// Deterministic offline provider for tests and local development
+// Answers every request from canned templates without touching the network
+export function createStubProvider(): AiProvider {
+  const respond = (request: AiTextRequest) => STUB_RESPONDERS[request.purpose](request);
+
+  return {
+    name: 'stub',
+
+    modelFor(task) {
+      return `stub/${task}`;
+    },
+
+    async generateText(request) {
+      const text = respond(request);
+      const input = [request.system, request.prompt, lastUserText(request)].filter(Boolean).join('\n');
+      return {
+        text,
+        model: `stub/${request.task}`,
+        usage: {
+          inputTokens: estimateTokens(input),
+          outputTokens: estimateTokens(text),
+        },
+      };
+    },
+
+    async *streamText(request) {
+      for (const chunk of respond(request).match(/\S+\s*/g) ?? []) {
+        yield chunk;
+      }
+      // Usage is left to the caller to estimate
+      return undefined;
+    },
+  };
+}
@@ -0,0 +1,4 @@
+// Rough token count for budgeting and usage figures (about four characters per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
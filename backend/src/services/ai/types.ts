@@ -0,0 +1,43 @@
+import type { ModelMessage } from 'ai';
+
+// Tasks the application asks models to perform; each task maps to its own model
+export type AiTask = 'chat' | 'transcription' | 'extraction' | 'daily-generation';
+
+// What a request is used for, so providers without a real model can answer in the expected shape
+export type AiPurpose = 'tutor-reply' | 'transcription' | 'corrections' | 'vocabulary' | 'daily-vocabulary' | 'summary' | 'title' | 'hints';
+
+export interface AiTextRequest {
+  task: AiTask;
+  purpose: AiPurpose;
+  system?: string;
+  prompt?: string;
+  messages?: ModelMessage[];
+  // Abort the call after this many milliseconds (defaults to DEFAULT_AI_TIMEOUT_MS)
+  timeoutMs?: number;
+  // Abort the call early, e.g. when the client that asked for it has disconnected
+  abortSignal?: AbortSignal;
+  // Learner the call is made for; calls with a user are recorded in their AI usage
+  userId?: string;
+}
+
+export interface AiUsage {
+  inputTokens: number | null;
+  outputTokens: number | null;
+}
+
+export interface AiTextResult {
+  text: string;
+  model: string;
+  usage: AiUsage;
+}
+
+export interface AiProvider {
+  name: string;
+  // Model the provider uses for a task
+  modelFor(task: AiTask): string;
+  // Generate a complete response
+  generateText(request: AiTextRequest): Promise<AiTextResult>;
+  // Stream a response as text deltas; errors are thrown from the iterator
+  // The generator returns the token usage the provider reported, or undefined when it reports none
+  streamText(request: AiTextRequest): AsyncGenerator<string, AiUsage | undefined>;
+}
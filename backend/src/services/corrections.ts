@@ -0,0 +1,178 @@
+import type { App } from '../index.js';
+import { inArray } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { ai } from './ai/index.js';
+
+export type CorrectionCategory = (typeof schema.messageCorrections.category.enumValues)[number];
+
+// Language the grammar topic taxonomy describes; corrections in other languages get no topic
+export const GRAMMAR_TOPIC_LANGUAGE = 'Latvian';
+
+// Topic for corrections the model did not classify, from their coarser category
+const CATEGORY_TOPICS: Record<CorrectionCategory, schema.GrammarTopic> = {
+  case: 'noun_declension',
+  verb_conjugation: 'verb_conjugation',
+  word_order: 'word_order',
+  spelling_diacritics: 'spelling_diacritics',
+  agreement: 'adjective_agreement',
+  vocabulary: 'word_choice',
+  other: 'other',
+};
+
+export interface MessageCorrection {
+  id: string;
+  originalText: string;
+  correctedText: string;
+  category: CorrectionCategory;
+  explanation: string;
+  topic: schema.GrammarTopic | null;
+  spanStart: number | null;
+  spanEnd: number | null;
+}
+
+interface RawCorrection {
+  original?: unknown;
+  corrected?: unknown;
+  category?: unknown;
+  explanation?: unknown;
+  topic?: unknown;
+}
+
+// Strip a markdown code fence the model sometimes wraps around JSON output
+function stripCodeFence(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+}
+
+function buildCorrectionPrompt(language: string, level: string, message: string): string {
+  const categories = schema.messageCorrections.category.enumValues.join(', ');
+  const classify = language === GRAMMAR_TOPIC_LANGUAGE;
+  const topicField = classify ? `, "topic": "one of: ${schema.GRAMMAR_TOPICS.join(', ')}"` : '';
+  const topicGuidance = classify
+    ? `\nSet "topic" to the most specific grammar area, e.g. "locative_case" for a wrong locative ending or "definite_adjective_endings" for "liela" instead of "lielā".`
+    : '';
+  return `You are reviewing a message written by a ${level} student of ${language}. Find grammar, spelling and vocabulary mistakes in the student's message.
+Return ONLY valid JSON in this exact format with no markdown or extra text:
+{
+  "corrections": [
+    {"original": "exact mistaken text copied from the message", "corrected": "corrected text", "category": "one of: ${categories}", "explanation": "one short sentence in English"${topicField}}
+  ]
+}
+Use "spelling_diacritics" for missing or wrong long vowels and diacritics (ā, ē, ī, ū, č, š, ž, ķ, ļ, ņ, ģ). Return an empty list when the message has no mistakes or is not written in ${language}.${topicGuidance}
+
+Student message:
+${message}`;
+}
+
+// Validate the model output and locate each correction in the original message
+// With `classify`, each correction gets a grammar topic, falling back to one derived from its category
+function parseCorrections(aiResponse: string, message: string, classify: boolean): Omit<MessageCorrection, 'id'>[] {
+  const parsed = JSON.parse(stripCodeFence(aiResponse)) as { corrections?: RawCorrection[] };
+  if (!Array.isArray(parsed.corrections)) {
+    return [];
+  }
+
+  const categories: readonly string[] = schema.messageCorrections.category.enumValues;
+  const topics: readonly string[] = schema.GRAMMAR_TOPICS;
+
+  return parsed.corrections
+    .filter(
+      (item) =>
+        typeof item.original === 'string' &&
+        typeof item.corrected === 'string' &&
+        typeof item.explanation === 'string' &&
+        item.original.trim().length > 0 &&
+        item.original.trim() !== item.corrected.trim()
+    )
+    .map((item) => {
+      const originalText = (item.original as string).trim();
+      const index = message.indexOf(originalText);
+      const category = typeof item.category === 'string' && categories.includes(item.category)
+        ? (item.category as CorrectionCategory)
+        : 'other';
+      const topic = typeof item.topic === 'string' && topics.includes(item.topic)
+        ? (item.topic as schema.GrammarTopic)
+        : CATEGORY_TOPICS[category];
+
+      return {
+        originalText,
+        correctedText: (item.corrected as string).trim(),
+        category,
+        explanation: (item.explanation as string).trim(),
+        topic: classify ? topic : null,
+        spanStart: index >= 0 ? index : null,
+        spanEnd: index >= 0 ? index + originalText.length : null,
+      };
+    });
+}
+
+// Analyse a user message into structured corrections and store them
+// Failures are logged and yield an empty list so the message exchange is never blocked
+export async function analyzeCorrections(
+  app: App,
+  conversation: typeof schema.conversations.$inferSelect,
+  messageId: string,
+  message: string
+): Promise<MessageCorrection[]> {
+  try {
+    app.logger.info({ conversationId: conversation.id, messageId }, 'Analysing message for corrections');
+
+    const result = await ai.generateText({
+      task: 'extraction',
+      purpose: 'corrections',
+      prompt: buildCorrectionPrompt(conversation.language, conversation.level, message),
+      userId: conversation.userId,
+    });
+
+    const corrections = parseCorrections(result.text, message, conversation.language === GRAMMAR_TOPIC_LANGUAGE);
+
+    if (corrections.length === 0) {
+      return [];
+    }
+
+    const saved = await app.db
+      .insert(schema.messageCorrections)
+      .values(corrections.map((correction) => ({ messageId, ...correction })))
+      .returning();
+
+    app.logger.info({ conversationId: conversation.id, messageId, count: saved.length }, 'Message corrections saved');
+
+    return saved.map(toMessageCorrection);
+  } catch (error) {
+    app.logger.warn({ err: error, conversationId: conversation.id, messageId }, 'Failed to analyse corrections (continuing without corrections)');
+    return [];
+  }
+}
+
+// Load stored corrections for a set of messages, grouped by message id
+export async function getCorrectionsByMessage(app: App, messageIds: string[]): Promise<Map<string, MessageCorrection[]>> {
+  const grouped = new Map<string, MessageCorrection[]>();
+  if (messageIds.length === 0) {
+    return grouped;
+  }
+
+  const rows = await app.db
+    .select()
+    .from(schema.messageCorrections)
+    .where(inArray(schema.messageCorrections.messageId, messageIds));
+
+  for (const row of rows) {
+    const list = grouped.get(row.messageId) ?? [];
+    list.push(toMessageCorrection(row));
+    grouped.set(row.messageId, list);
+  }
+
+  return grouped;
+}
+
+function toMessageCorrection(row: typeof schema.messageCorrections.$inferSelect): MessageCorrection {
+  return {
+    id: row.id,
+    originalText: row.originalText,
+    correctedText: row.correctedText,
+    category: row.category,
+    explanation: row.explanation,
+    topic: row.topic,
+    spanStart: row.spanStart,
+    spanEnd: row.spanEnd,
+  };
+}
@@ -0,0 +1,265 @@
+import type { App } from '../index.js';
+import { asc, eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { getCorrectionsByMessage, type MessageCorrection } from './corrections.js';
+import { toLanguageCode } from './stt/language.js';
+
+export const EXPORT_FORMATS = ['md', 'json', 'html'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+type Conversation = typeof schema.conversations.$inferSelect;
+
+export interface ConversationExport {
+  conversation: {
+    id: string;
+    title: string | null;
+    language: string;
+    level: string;
+    scenarioId: string | null;
+    createdAt: string;
+    lastMessageAt: string | null;
+  };
+  messages: {
+    id: string;
+    sequence: number;
+    role: 'user' | 'assistant';
+    content: string;
+    createdAt: string;
+    corrections: MessageCorrection[];
+  }[];
+  vocabulary: {
+    term: string;
+    translation: string;
+    targetLanguage: string;
+    sourceLanguage: string;
+    lemma: string | null;
+    partOfSpeech: string | null;
+    gender: string | null;
+    context: string | null;
+    createdAt: string;
+  }[];
+  exportedAt: string;
+}
+
+// Gather everything an export contains: the full message history with corrections, and the extracted vocabulary
+export async function loadConversationExport(app: App, conversation: Conversation): Promise<ConversationExport> {
+  const messages = await app.db
+    .select()
+    .from(schema.messages)
+    .where(eq(schema.messages.conversationId, conversation.id))
+    .orderBy(asc(schema.messages.sequence));
+
+  const corrections = await getCorrectionsByMessage(app, messages.map((msg) => msg.id));
+
+  const vocabulary = await app.db
+    .select()
+    .from(schema.vocabulary)
+    .where(eq(schema.vocabulary.conversationId, conversation.id))
+    .orderBy(asc(schema.vocabulary.createdAt));
+
+  return {
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      language: conversation.language,
+      level: conversation.level,
+      scenarioId: conversation.scenarioId,
+      createdAt: conversation.createdAt.toISOString(),
+      lastMessageAt: conversation.lastMessageAt ? conversation.lastMessageAt.toISOString() : null,
+    },
+    messages: messages.map((msg) => ({
+      id: msg.id,
+      sequence: msg.sequence,
+      role: msg.role,
+      content: msg.content,
+      createdAt: msg.createdAt.toISOString(),
+      corrections: corrections.get(msg.id) ?? [],
+    })),
+    vocabulary: vocabulary.map((item) => ({
+      term: item.term,
+      translation: item.translation,
+      targetLanguage: item.targetLanguage,
+      sourceLanguage: item.sourceLanguage,
+      lemma: item.lemma,
+      partOfSpeech: item.partOfSpeech,
+      gender: item.gender,
+      context: item.context,
+      createdAt: item.createdAt.toISOString(),
+    })),
+    exportedAt: new Date().toISOString(),
+  };
+}
+
+// Timestamps in text exports are shown in UTC without seconds, e.g. 2026-10-19 17:41 UTC
+function formatTimestamp(iso: string): string {
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`;
+}
+
+function exportTitle(data: ConversationExport): string {
+  return data.conversation.title ?? `${data.conversation.language} (${data.conversation.level})`;
+}
+
+// Column headings for the vocabulary table, e.g. "Latvian" and "English"
+function vocabularyHeadings(data: ConversationExport): [string, string] {
+  const [first] = data.vocabulary;
+  return [first.targetLanguage, first.sourceLanguage];
+}
+
+function speakerName(role: 'user' | 'assistant'): string {
+  return role === 'user' ? 'Student' : 'Tutor';
+}
+
+// File name for an export: a diacritic-free slug of the title plus the start of the id so names stay unique
+export function exportFileName(data: ConversationExport, format: ExportFormat): string {
+  const slug = exportTitle(data)
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${data.conversation.createdAt.slice(0, 10)}-${slug || 'conversation'}-${data.conversation.id.slice(0, 8)}.${format}`;
+}
+
+export function renderMarkdown(data: ConversationExport): string {
+  const lines = [
+    `# ${exportTitle(data)}`,
+    '',
+    `${data.conversation.language} · ${data.conversation.level} · started ${formatTimestamp(data.conversation.createdAt)}`,
+    '',
+    '## Transcript',
+    '',
+  ];
+
+  for (const msg of data.messages) {
+    lines.push(`**${speakerName(msg.role)}** · ${formatTimestamp(msg.createdAt)}`, '');
+    lines.push(...msg.content.split('\n').map((line) => `> ${line}`), '');
+
+    if (msg.corrections.length > 0) {
+      lines.push('Corrections:', '');
+      for (const correction of msg.corrections) {
+        lines.push(`- ~~${correction.originalText}~~ → **${correction.correctedText}** (${correction.category}): ${correction.explanation}`);
+      }
+      lines.push('');
+    }
+  }
+
+  if (data.vocabulary.length > 0) {
+    const [termHeading, translationHeading] = vocabularyHeadings(data);
+    lines.push('## Vocabulary', '', `| ${termHeading} | ${translationHeading} | Context |`, '| --- | --- | --- |');
+    for (const item of data.vocabulary) {
+      const cells = [item.term, item.translation, item.context ?? ''].map((cell) =>
+        cell.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+      );
+      lines.push(`| ${cells.join(' | ')} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push(`_Exported ${formatTimestamp(data.exportedAt)}_`, '');
+
+  return lines.join('\n');
+}
+
+export function renderJson(data: ConversationExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #1F2937; line-height: 1.5; }
+  h1 { color: #7C3AED; margin-bottom: 0.25rem; }
+  .meta, time { color: #6B7280; font-size: 0.85rem; }
+  .message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 12px; break-inside: avoid; }
+  .user { background: #EDE9FE; margin-left: 15%; }
+  .assistant { background: #F9FAFB; border: 1px solid #E5E7EB; margin-right: 15%; }
+  .speaker { font-weight: 600; margin-right: 0.5rem; }
+  .content { white-space: pre-wrap; margin: 0.25rem 0 0; }
+  .corrections { margin: 0.5rem 0 0; padding-left: 1.25rem; font-size: 0.9rem; }
+  del { color: #EF4444; }
+  table { border-collapse: collapse; width: 100%; margin-top: 0.5rem; }
+  th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #E5E7EB; }
+  @media print { body { margin: 0; max-width: none; } .message { border: 1px solid #E5E7EB; } }
+`;
+
+// Standalone page with inline styles, laid out for printing or saving as PDF from a browser
+export function renderHtml(data: ConversationExport): string {
+  const title = escapeHtml(exportTitle(data));
+
+  const messages = data.messages
+    .map((msg) => {
+      const corrections =
+        msg.corrections.length > 0
+          ? `<ul class="corrections">${msg.corrections
+              .map(
+                (correction) =>
+                  `<li><del>${escapeHtml(correction.originalText)}</del> → <strong>${escapeHtml(correction.correctedText)}</strong>: ${escapeHtml(correction.explanation)}</li>`
+              )
+              .join('')}</ul>`
+          : '';
+      return `<article class="message ${msg.role}">
+  <span class="speaker">${speakerName(msg.role)}</span><time datetime="${msg.createdAt}">${formatTimestamp(msg.createdAt)}</time>
+  <p class="content">${escapeHtml(msg.content)}</p>${corrections}
+</article>`;
+    })
+    .join('\n');
+
+  const vocabulary =
+    data.vocabulary.length > 0
+      ? `<h2>Vocabulary</h2>
+<table>
+  <thead><tr>${vocabularyHeadings(data).map((heading) => `<th>${escapeHtml(heading)}</th>`).join('')}<th>Context</th></tr></thead>
+  <tbody>
+${data.vocabulary
+  .map(
+    (item) =>
+      `    <tr><td>${escapeHtml(item.term)}</td><td>${escapeHtml(item.translation)}</td><td>${escapeHtml(item.context ?? '')}</td></tr>`
+  )
+  .join('\n')}
+  </tbody>
+</table>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="${toLanguageCode(data.conversation.language)}">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">${escapeHtml(data.conversation.language)} · ${escapeHtml(data.conversation.level)} · started ${formatTimestamp(data.conversation.createdAt)}</p>
+<h2>Transcript</h2>
+${messages}
+${vocabulary}
+<p class="meta">Exported ${formatTimestamp(data.exportedAt)}</p>
+</body>
+</html>
+`;
+}
+
+export function renderExport(data: ConversationExport, format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return renderJson(data);
+    case 'html':
+      return renderHtml(data);
+    case 'md':
+      return renderMarkdown(data);
+  }
+}
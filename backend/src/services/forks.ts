@@ -0,0 +1,149 @@
+import type { App } from '../index.js';
+import { and, asc, eq, inArray, lte } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+
+type Conversation = typeof schema.conversations.$inferSelect;
+type Message = typeof schema.messages.$inferSelect;
+
+// Create a new conversation that shares the history of `conversation` up to and including `fromMessage`
+// Messages keep their sequence numbers and timestamps so the copied history orders the same way, and
+// their corrections and extracted vocabulary are copied along with them
+export async function forkConversation(app: App, conversation: Conversation, fromMessage: Message): Promise<Conversation> {
+  const history = await app.db
+    .select()
+    .from(schema.messages)
+    .where(
+      and(
+        eq(schema.messages.conversationId, conversation.id),
+        lte(schema.messages.sequence, fromMessage.sequence)
+      )
+    )
+    .orderBy(asc(schema.messages.sequence));
+
+  // The rolling summary can be reused only if it covers nothing past the fork point
+  const keepSummary = conversation.summaryCutoffAt !== null && conversation.summaryCutoffAt <= fromMessage.createdAt;
+
+  const [fork] = await app.db
+    .insert(schema.conversations)
+    .values({
+      userId: conversation.userId,
+      language: conversation.language,
+      level: conversation.level,
+      scenarioId: conversation.scenarioId,
+      parentConversationId: conversation.id,
+      forkedFromMessageId: fromMessage.id,
+      title: conversation.title,
+      voice: conversation.voice,
+      speakingRate: conversation.speakingRate,
+      tutorStyle: conversation.tutorStyle,
+      summary: keepSummary ? conversation.summary : null,
+      summaryCutoffAt: keepSummary ? conversation.summaryCutoffAt : null,
+      lastSequence: fromMessage.sequence,
+      lastMessageAt: fromMessage.createdAt,
+    })
+    .returning();
+
+  if (history.length === 0) {
+    return fork;
+  }
+
+  const copies = await app.db
+    .insert(schema.messages)
+    .values(
+      history.map((msg) => ({
+        conversationId: fork.id,
+        sequence: msg.sequence,
+        role: msg.role,
+        content: msg.content,
+        audioKey: msg.audioKey,
+        durationMs: msg.durationMs,
+        assisted: msg.assisted,
+        createdAt: msg.createdAt,
+      }))
+    )
+    .returning();
+
+  // Inserted rows come back in insertion order
+  const copiedIds = new Map(history.map((msg, index) => [msg.id, copies[index].id]));
+  const sourceIds = history.map((msg) => msg.id);
+
+  const corrections = await app.db
+    .select()
+    .from(schema.messageCorrections)
+    .where(inArray(schema.messageCorrections.messageId, sourceIds));
+
+  if (corrections.length > 0) {
+    await app.db.insert(schema.messageCorrections).values(
+      corrections.map((correction) => ({
+        messageId: copiedIds.get(correction.messageId)!,
+        originalText: correction.originalText,
+        correctedText: correction.correctedText,
+        category: correction.category,
+        explanation: correction.explanation,
+        topic: correction.topic,
+        spanStart: correction.spanStart,
+        spanEnd: correction.spanEnd,
+        copiedFromId: correction.copiedFromId ?? correction.id,
+        createdAt: correction.createdAt,
+      }))
+    );
+  }
+
+  const vocabulary = await app.db
+    .select()
+    .from(schema.vocabulary)
+    .where(inArray(schema.vocabulary.messageId, sourceIds));
+
+  if (vocabulary.length > 0) {
+    const copiedVocabulary = await app.db.insert(schema.vocabulary).values(
+      vocabulary.map((item) => ({
+        conversationId: fork.id,
+        messageId: copiedIds.get(item.messageId!)!,
+        userId: item.userId,
+        term: item.term,
+        translation: item.translation,
+        targetLanguage: item.targetLanguage,
+        sourceLanguage: item.sourceLanguage,
+        lemma: item.lemma,
+        partOfSpeech: item.partOfSpeech,
+        gender: item.gender,
+        context: item.context,
+        createdAt: item.createdAt,
+      }))
+    ).returning({ id: schema.vocabulary.id });
+
+    const copiedVocabularyIds = new Map(vocabulary.map((item, index) => [item.id, copiedVocabulary[index].id]));
+
+    // Occurrences in copied messages; their words were first seen no later, so they were copied too
+    const occurrences = await app.db
+      .select()
+      .from(schema.vocabularyOccurrences)
+      .where(inArray(schema.vocabularyOccurrences.messageId, sourceIds))
+      .then((rows) => rows.filter((occurrence) => copiedVocabularyIds.has(occurrence.vocabularyId)));
+
+    if (occurrences.length > 0) {
+      await app.db.insert(schema.vocabularyOccurrences).values(
+        occurrences.map((occurrence) => ({
+          vocabularyId: copiedVocabularyIds.get(occurrence.vocabularyId)!,
+          messageId: copiedIds.get(occurrence.messageId!)!,
+          term: occurrence.term,
+          context: occurrence.context,
+          createdAt: occurrence.createdAt,
+        }))
+      );
+    }
+  }
+
+  app.logger.info(
+    {
+      conversationId: conversation.id,
+      forkId: fork.id,
+      messageCount: copies.length,
+      correctionCount: corrections.length,
+      vocabularyCount: vocabulary.length,
+    },
+    'Conversation forked'
+  );
+
+  return fork;
+}
@@ -0,0 +1,136 @@
+import type { App } from '../index.js';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { ai } from './ai/index.js';
+import { SOURCE_LANGUAGE } from './languages.js';
+import { getScenario } from './scenarios.js';
+
+// Latest messages the hints are based on
+const HINT_CONTEXT_MESSAGES = 6;
+
+// Fewer valid suggestions than this count as a failed generation
+const MIN_HINTS = 2;
+
+type Conversation = typeof schema.conversations.$inferSelect;
+type Message = typeof schema.messages.$inferSelect;
+
+// Strip a markdown code fence the model sometimes wraps around JSON output
+function stripCodeFence(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+}
+
+function buildHintPrompt(conversation: Conversation, messages: Message[], goal: string | null): string {
+  const transcript = messages.length > 0
+    ? messages.map((msg) => `${msg.role === 'user' ? 'Student' : 'Tutor'}: ${msg.content}`).join('\n')
+    : '(the conversation has not started yet)';
+
+  return `A ${conversation.level} student of ${conversation.language} is stuck and does not know what to say next in a conversation with their tutor.
+Suggest three different replies the student could send next, each a natural continuation of the conversation, in ${conversation.language}, with an ${SOURCE_LANGUAGE} gloss:
+- "easier": one short, simple sentence below the ${conversation.level} level
+- "at_level": a reply at the ${conversation.level} level
+- "stretch": a slightly more ambitious reply just above the ${conversation.level} level
+Write the replies as the student, and make sure they are correct ${conversation.language}.
+Return ONLY valid JSON with no markdown or extra text, in this shape:
+{"hints": [{"difficulty": "easier" | "at_level" | "stretch", "text": "...", "gloss": "..."}]}
+${goal ? `\nThe student's goal in this role-play: ${goal}\n` : ''}${conversation.summary ? `\nSummary of the earlier conversation:\n${conversation.summary}\n` : ''}
+Conversation so far:
+${transcript}`;
+}
+
+// Validate the model output, keeping one suggestion per difficulty, easiest first
+function parseHints(aiResponse: string): schema.ReplyHint[] {
+  const parsed = JSON.parse(stripCodeFence(aiResponse)) as { hints?: unknown };
+  if (!Array.isArray(parsed.hints)) {
+    return [];
+  }
+
+  const difficulties: readonly string[] = schema.HINT_DIFFICULTIES;
+  const byDifficulty = new Map<string, schema.ReplyHint>();
+
+  for (const item of parsed.hints as Record<string, unknown>[]) {
+    if (
+      typeof item !== 'object' || item === null ||
+      typeof item.difficulty !== 'string' || !difficulties.includes(item.difficulty) ||
+      typeof item.text !== 'string' || !item.text.trim() ||
+      typeof item.gloss !== 'string' || !item.gloss.trim() ||
+      byDifficulty.has(item.difficulty)
+    ) {
+      continue;
+    }
+    byDifficulty.set(item.difficulty, {
+      difficulty: item.difficulty as schema.ReplyHint['difficulty'],
+      text: item.text.trim(),
+      gloss: item.gloss.trim(),
+    });
+  }
+
+  return schema.HINT_DIFFICULTIES.flatMap((difficulty) => byDifficulty.get(difficulty) ?? []);
+}
+
+// Suggest what the learner could say next and record that hints were shown
+// Throws when the model fails or gives fewer than MIN_HINTS usable suggestions
+export async function generateReplyHints(app: App, conversation: Conversation): Promise<schema.ReplyHint[]> {
+  const recent = await app.db
+    .select()
+    .from(schema.messages)
+    .where(eq(schema.messages.conversationId, conversation.id))
+    .orderBy(desc(schema.messages.sequence))
+    .limit(HINT_CONTEXT_MESSAGES);
+
+  const scenario = conversation.scenarioId ? await getScenario(app, conversation.scenarioId) : undefined;
+
+  const result = await ai.generateText({
+    task: 'extraction',
+    purpose: 'hints',
+    prompt: buildHintPrompt(conversation, recent.reverse(), scenario?.learnerGoal ?? null),
+    userId: conversation.userId,
+  });
+
+  const hints = parseHints(result.text);
+  if (hints.length < MIN_HINTS) {
+    throw new Error(`Expected at least ${MIN_HINTS} reply hints, got ${hints.length}`);
+  }
+
+  await app.db.insert(schema.hintRequests).values({
+    conversationId: conversation.id,
+    userId: conversation.userId,
+    afterSequence: conversation.lastSequence,
+    hints,
+  });
+
+  app.logger.info({ conversationId: conversation.id, count: hints.length }, 'Reply hints generated');
+
+  return hints;
+}
+
+// Mark a user message as assisted when hints were asked for right before it
+// Failures are logged and leave the message unassisted so the exchange is never blocked
+export async function markAssistedMessage(app: App, message: Message): Promise<boolean> {
+  try {
+    const linked = await app.db
+      .update(schema.hintRequests)
+      .set({ messageId: message.id })
+      .where(
+        and(
+          eq(schema.hintRequests.conversationId, message.conversationId),
+          eq(schema.hintRequests.afterSequence, message.sequence - 1),
+          isNull(schema.hintRequests.messageId)
+        )
+      )
+      .returning({ id: schema.hintRequests.id });
+
+    if (linked.length === 0) {
+      return false;
+    }
+
+    await app.db
+      .update(schema.messages)
+      .set({ assisted: true })
+      .where(eq(schema.messages.id, message.id));
+
+    return true;
+  } catch (error) {
+    app.logger.warn({ err: error, messageId: message.id }, 'Failed to link reply hints to message');
+    return false;
+  }
+}
@@ -0,0 +1,139 @@
+import type { App } from '../index.js';
+import { and, asc, eq, lte } from 'drizzle-orm';
+import type { ModelMessage } from 'ai';
+import * as schema from '../db/schema/schema.js';
+import { ai, aiModels, estimateTokens, getHistoryTokenBudget } from './ai/index.js';
+
+// Number of most recent turns (a user message and its reply) always sent verbatim
+export const RECENT_TURNS = 6;
+
+// Older messages are folded into the rolling summary once at least this many have accumulated
+const SUMMARY_BATCH_SIZE = 4;
+
+type Conversation = typeof schema.conversations.$inferSelect;
+type Message = typeof schema.messages.$inferSelect;
+
+export interface HistoryContext {
+  // Rolling summary of turns no longer sent verbatim, if any
+  summary: string | null;
+  // Recent messages to send to the model, oldest first
+  messages: ModelMessage[];
+}
+
+// An edit or regeneration whose reply is generated before the history is rewritten
+export interface PendingRewrite {
+  // Sequence of the user message the reply answers; later messages are left out
+  throughSequence: number;
+  // New text of that message, when it was edited
+  content?: string;
+}
+
+function formatTranscript(messages: Message[]): string {
+  return messages
+    .map((msg) => `${msg.role === 'user' ? 'Student' : 'Tutor'}: ${msg.content}`)
+    .join('\n');
+}
+
+function buildSummaryPrompt(conversation: Conversation, previousSummary: string | null, messages: Message[]): string {
+  return `You keep a running summary of a ${conversation.language} lesson between a ${conversation.level} student and a tutor.
+Update the summary so it covers both the previous summary and the new messages. Keep topics discussed, vocabulary introduced and mistakes the student keeps making. Write at most 120 words in English. Respond with only the summary.
+
+Previous summary:
+${previousSummary ?? '(none)'}
+
+New messages:
+${formatTranscript(messages)}`;
+}
+
+// Fold messages into the conversation's rolling summary and persist it
+// Returns null if the summary could not be updated
+async function updateSummary(app: App, conversation: Conversation, messages: Message[]): Promise<string | null> {
+  try {
+    const result = await ai.generateText({
+      task: 'extraction',
+      purpose: 'summary',
+      prompt: buildSummaryPrompt(conversation, conversation.summary, messages),
+      userId: conversation.userId,
+    });
+
+    const summary = result.text.trim();
+    const cutoff = messages[messages.length - 1].createdAt;
+
+    await app.db
+      .update(schema.conversations)
+      .set({
+        summary,
+        summaryCutoffAt: cutoff,
+      })
+      .where(eq(schema.conversations.id, conversation.id));
+
+    app.logger.info({ conversationId: conversation.id, summarizedCount: messages.length }, 'Conversation summary updated');
+
+    return summary;
+  } catch (error) {
+    app.logger.warn({ err: error, conversationId: conversation.id }, 'Failed to update conversation summary (keeping previous summary)');
+    return null;
+  }
+}
+
+// Build the history sent to the model for the next reply
+// Keeps the last RECENT_TURNS turns verbatim within the chat model's token budget and
+// folds older turns into a rolling summary stored on the conversation
+// A pending rewrite builds the history as it will be once the edit or regeneration is stored
+export async function buildHistoryContext(app: App, conversation: Conversation, rewrite?: PendingRewrite): Promise<HistoryContext> {
+  const stored: Message[] = await app.db
+    .select()
+    .from(schema.messages)
+    .where(
+      and(
+        eq(schema.messages.conversationId, conversation.id),
+        rewrite ? lte(schema.messages.sequence, rewrite.throughSequence) : undefined
+      )
+    )
+    .orderBy(asc(schema.messages.sequence));
+
+  const messages = stored.map((msg) =>
+    rewrite?.content !== undefined && msg.sequence === rewrite.throughSequence ? { ...msg, content: rewrite.content } : msg
+  );
+
+  // Messages already covered by the summary are never sent again
+  const cutoff = conversation.summaryCutoffAt;
+  const unsummarized = cutoff ? messages.filter((msg) => msg.createdAt > cutoff) : messages;
+
+  const recentStart = Math.max(0, unsummarized.length - RECENT_TURNS * 2);
+  let older = unsummarized.slice(0, recentStart);
+  const recent = unsummarized.slice(recentStart);
+
+  let summary = conversation.summary;
+  if (older.length >= SUMMARY_BATCH_SIZE) {
+    const updated = await updateSummary(app, conversation, older);
+    if (updated !== null) {
+      summary = updated;
+      older = [];
+    }
+  }
+
+  // Older unsummarized messages stay verbatim until a full batch accumulates
+  let verbatim = [...older, ...recent];
+
+  // Drop the oldest messages until the history fits the model's budget, always keeping the latest one
+  const budget = getHistoryTokenBudget(aiModels.chat) - (summary ? estimateTokens(summary) : 0);
+  let total = verbatim.reduce((sum, msg) => sum + estimateTokens(msg.content), 0);
+  while (verbatim.length > 1 && total > budget) {
+    total -= estimateTokens(verbatim[0].content);
+    verbatim = verbatim.slice(1);
+  }
+
+  // Models expect the history to start with a user turn
+  while (verbatim.length > 1 && verbatim[0].role !== 'user') {
+    verbatim = verbatim.slice(1);
+  }
+
+  return {
+    summary,
+    messages: verbatim.map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+    })),
+  };
+}
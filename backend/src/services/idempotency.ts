@@ -0,0 +1,133 @@
+import type { App } from '../index.js';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// A request still processing after this long is assumed to have died and its key may be claimed again
+const PROCESSING_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Keys are remembered for a day; after that the same key starts a new exchange
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type IdempotencyKey = typeof schema.messageIdempotencyKeys.$inferSelect;
+
+// Read the Idempotency-Key header: undefined when it is absent, null when it is not a usable key
+export function parseIdempotencyKey(header: string | string[] | undefined): string | null | undefined {
+  if (header === undefined) {
+    return undefined;
+  }
+  if (typeof header !== 'string') {
+    return null;
+  }
+  const key = header.trim();
+  return key.length > 0 && key.length <= MAX_IDEMPOTENCY_KEY_LENGTH ? key : null;
+}
+
+export type IdempotencyClaim =
+  // The key is new: process the request, then complete or release the claim
+  | { status: 'claimed'; claimId: string }
+  // The key was already used for a completed exchange in this conversation
+  | { status: 'completed'; record: IdempotencyKey }
+  // Another request with the key is still being processed
+  | { status: 'processing' }
+  // The key was used in another conversation
+  | { status: 'mismatch' };
+
+// Claim a key for a message request
+// The unique index on (user, key) makes concurrent requests with the same key race for a single row, so only one claims it
+export async function claimIdempotencyKey(
+  app: App,
+  userId: string,
+  conversationId: string,
+  key: string
+): Promise<IdempotencyClaim> {
+  const [inserted] = await app.db
+    .insert(schema.messageIdempotencyKeys)
+    .values({ userId, key, conversationId })
+    .onConflictDoNothing()
+    .returning({ id: schema.messageIdempotencyKeys.id });
+
+  if (inserted) {
+    return { status: 'claimed', claimId: inserted.id };
+  }
+
+  // Take over a key whose request died mid-way, that has expired, or whose exchange is gone
+  // Deleting a message sets its id on the key to null, so an exchange removed by an edit, regeneration or
+  // truncation is never replayed with ids of messages that no longer exist
+  const now = Date.now();
+  const [reclaimed] = await app.db
+    .update(schema.messageIdempotencyKeys)
+    .set({
+      conversationId,
+      status: 'processing',
+      userMessageId: null,
+      assistantMessageId: null,
+      response: null,
+      createdAt: new Date(now),
+      completedAt: null,
+    })
+    .where(
+      and(
+        eq(schema.messageIdempotencyKeys.userId, userId),
+        eq(schema.messageIdempotencyKeys.key, key),
+        or(
+          and(
+            eq(schema.messageIdempotencyKeys.status, 'processing'),
+            lt(schema.messageIdempotencyKeys.createdAt, new Date(now - PROCESSING_TIMEOUT_MS))
+          ),
+          lt(schema.messageIdempotencyKeys.createdAt, new Date(now - KEY_TTL_MS)),
+          and(
+            eq(schema.messageIdempotencyKeys.status, 'completed'),
+            eq(schema.messageIdempotencyKeys.conversationId, conversationId),
+            or(
+              isNull(schema.messageIdempotencyKeys.userMessageId),
+              isNull(schema.messageIdempotencyKeys.assistantMessageId)
+            )
+          )
+        )
+      )
+    )
+    .returning({ id: schema.messageIdempotencyKeys.id });
+
+  if (reclaimed) {
+    return { status: 'claimed', claimId: reclaimed.id };
+  }
+
+  const record = await app.db
+    .select()
+    .from(schema.messageIdempotencyKeys)
+    .where(and(eq(schema.messageIdempotencyKeys.userId, userId), eq(schema.messageIdempotencyKeys.key, key)))
+    .then((result) => result[0]);
+
+  // The claim was released between the insert and the lookup; the client can simply retry
+  if (!record || record.status === 'processing') {
+    return { status: 'processing' };
+  }
+
+  if (record.conversationId !== conversationId) {
+    return { status: 'mismatch' };
+  }
+
+  return { status: 'completed', record };
+}
+
+// Store the exchange produced under a claimed key
+export async function completeIdempotencyKey(
+  app: App,
+  claimId: string,
+  exchange: { userMessageId: string; assistantMessageId: string; response: unknown }
+): Promise<void> {
+  await app.db
+    .update(schema.messageIdempotencyKeys)
+    .set({ ...exchange, status: 'completed', completedAt: new Date() })
+    .where(eq(schema.messageIdempotencyKeys.id, claimId));
+}
+
+// Give up a claimed key after a failed request so the client can retry with it
+export async function releaseIdempotencyKey(app: App, claimId: string): Promise<void> {
+  await app.db
+    .delete(schema.messageIdempotencyKeys)
+    .where(eq(schema.messageIdempotencyKeys.id, claimId));
+}
@@ -0,0 +1,84 @@
+import type { App } from '../../index.js';
+import { eq } from 'drizzle-orm';
+import * as schema from '../../db/schema/schema.js';
+import { saveReplyVocabulary } from '../vocabulary.js';
+import { storeReplyAudio } from '../speech.js';
+import { generateConversationTitle } from '../titles.js';
+import { enqueueJobs } from './queue.js';
+import type { Job, JobHandler, JobType, NewJob } from './types.js';
+
+type Message = typeof schema.messages.$inferSelect;
+type Conversation = typeof schema.conversations.$inferSelect;
+
+// Load a message with its conversation; undefined once either has been deleted
+async function loadMessage(app: App, messageId: string): Promise<{ message: Message; conversation: Conversation } | undefined> {
+  const row = await app.db
+    .select({ message: schema.messages, conversation: schema.conversations })
+    .from(schema.messages)
+    .innerJoin(schema.conversations, eq(schema.messages.conversationId, schema.conversations.id))
+    .where(eq(schema.messages.id, messageId))
+    .then((result: { message: Message; conversation: Conversation }[]) => result[0]);
+
+  return row;
+}
+
+// Replies removed by an edit or regeneration before their job ran are skipped
+const SKIPPED = { skipped: true };
+
+export const extractVocabularyJob: JobHandler<'extract-vocabulary'> = async (app, { messageId }) => {
+  const loaded = await loadMessage(app, messageId);
+  if (!loaded) {
+    return SKIPPED;
+  }
+
+  const saved = await saveReplyVocabulary(app, loaded.conversation, messageId, loaded.message.content);
+  return { count: saved.length };
+};
+
+export const generateAudioJob: JobHandler<'generate-audio'> = async (app, { messageId }) => {
+  const loaded = await loadMessage(app, messageId);
+  if (!loaded) {
+    return SKIPPED;
+  }
+
+  const { storageKey, durationMs } = await storeReplyAudio(app, loaded.conversation, messageId, loaded.message.content);
+  return { audioKey: storageKey, durationMs };
+};
+
+export const generateTitleJob: JobHandler<'generate-title'> = async (app, { userMessageId, assistantMessageId }) => {
+  const [userMessage, reply] = await Promise.all([loadMessage(app, userMessageId), loadMessage(app, assistantMessageId)]);
+  if (!userMessage || !reply) {
+    return SKIPPED;
+  }
+
+  const title =
+    reply.conversation.title ??
+    (await generateConversationTitle(app, reply.conversation, userMessage.message.content, reply.message.content));
+  return { title };
+};
+
+export interface QueuedJob {
+  id: string;
+  type: JobType;
+  status: Job['status'];
+}
+
+// Queue the work that follows a tutor reply: vocabulary extraction, speech and, for untitled conversations, a title
+export async function enqueueReplyEnrichment(
+  app: App,
+  conversation: Conversation,
+  userMessageId: string,
+  assistantMessageId: string
+): Promise<QueuedJob[]> {
+  const base = { userId: conversation.userId, conversationId: conversation.id };
+  const jobs: NewJob[] = [
+    { ...base, type: 'extract-vocabulary', payload: { messageId: assistantMessageId } },
+    { ...base, type: 'generate-audio', payload: { messageId: assistantMessageId } },
+  ];
+  if (!conversation.title) {
+    jobs.push({ ...base, type: 'generate-title', payload: { userMessageId, assistantMessageId } });
+  }
+
+  const queued = await enqueueJobs(app, jobs);
+  return queued.map((job) => ({ id: job.id, type: job.type as JobType, status: job.status }));
+}
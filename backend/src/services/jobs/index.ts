@@ -0,0 +1,4 @@
+export type { Job, JobHandler, JobPayloads, JobStatus, JobType, NewJob } from './types.js';
+export { enqueueJobs, claimNextJob, completeJob, failJob, getConversationJobs, getRetryDelay } from './queue.js';
+export { enqueueReplyEnrichment, type QueuedJob } from './enrichment.js';
+export { startJobWorker } from './worker.js';
@@ -0,0 +1,95 @@
+import type { App } from '../../index.js';
+import { and, asc, desc, eq, inArray, lt, lte, or, sql } from 'drizzle-orm';
+import * as schema from '../../db/schema/schema.js';
+import type { Job, NewJob } from './types.js';
+
+// A running job not finished after this long is assumed lost with its worker and is run again
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+// Exponential backoff: 5s, 10s, 20s, ... capped at ten minutes
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+export async function enqueueJobs(app: App, newJobs: NewJob[]): Promise<Job[]> {
+  if (newJobs.length === 0) {
+    return [];
+  }
+
+  const queued: Job[] = await app.db.insert(schema.jobs).values(newJobs).returning();
+
+  app.logger.info({ jobIds: queued.map((job) => job.id), types: newJobs.map((job) => job.type) }, 'Jobs enqueued');
+
+  return queued;
+}
+
+// Lock the next due job and count the attempt
+// SKIP LOCKED lets several workers poll the same table without taking the same job
+export async function claimNextJob(app: App): Promise<Job | undefined> {
+  const now = new Date();
+
+  const next = app.db
+    .select({ id: schema.jobs.id })
+    .from(schema.jobs)
+    .where(
+      or(
+        and(eq(schema.jobs.status, 'pending'), lte(schema.jobs.runAt, now)),
+        and(eq(schema.jobs.status, 'running'), lt(schema.jobs.lockedAt, new Date(now.getTime() - LOCK_TIMEOUT_MS)))
+      )
+    )
+    .orderBy(asc(schema.jobs.runAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [job]: Job[] = await app.db
+    .update(schema.jobs)
+    .set({ status: 'running', lockedAt: now, attempts: sql`${schema.jobs.attempts} + 1` })
+    .where(inArray(schema.jobs.id, next))
+    .returning();
+
+  return job;
+}
+
+export async function completeJob(app: App, jobId: string, result: unknown): Promise<void> {
+  await app.db
+    .update(schema.jobs)
+    .set({ status: 'completed', result: result ?? null, lockedAt: null, completedAt: new Date() })
+    .where(eq(schema.jobs.id, jobId));
+}
+
+// Schedule a failed job for another attempt, or dead-letter it once it has used all its attempts
+export async function failJob(app: App, job: Job, error: unknown): Promise<'retry' | 'dead'> {
+  const lastError = error instanceof Error ? error.message : String(error);
+
+  if (job.attempts >= job.maxAttempts) {
+    await app.db
+      .update(schema.jobs)
+      .set({ status: 'dead', lastError, lockedAt: null })
+      .where(eq(schema.jobs.id, job.id));
+    return 'dead';
+  }
+
+  await app.db
+    .update(schema.jobs)
+    .set({
+      status: 'pending',
+      lastError,
+      lockedAt: null,
+      runAt: new Date(Date.now() + getRetryDelay(job.attempts)),
+    })
+    .where(eq(schema.jobs.id, job.id));
+  return 'retry';
+}
+
+// Most recent jobs of a conversation, newest first
+export async function getConversationJobs(app: App, conversationId: string, limit: number): Promise<Job[]> {
+  return app.db
+    .select()
+    .from(schema.jobs)
+    .where(eq(schema.jobs.conversationId, conversationId))
+    .orderBy(desc(schema.jobs.createdAt))
+    .limit(limit);
+}
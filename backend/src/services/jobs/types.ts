@@ -0,0 +1,29 @@
+import type { App } from '../../index.js';
+import type * as schema from '../../db/schema/schema.js';
+
+// Payload stored with each kind of job
+export interface JobPayloads {
+  // Save the vocabulary taught in a tutor reply
+  'extract-vocabulary': { messageId: string };
+  // Synthesize the speech for a tutor reply
+  'generate-audio': { messageId: string };
+  // Title an untitled conversation after its first exchange
+  'generate-title': { userMessageId: string; assistantMessageId: string };
+}
+
+export type JobType = keyof JobPayloads;
+
+export type Job = typeof schema.jobs.$inferSelect;
+
+export type JobStatus = Job['status'];
+
+export interface NewJob<T extends JobType = JobType> {
+  type: T;
+  payload: JobPayloads[T];
+  userId: string;
+  conversationId?: string;
+  maxAttempts?: number;
+}
+
+// Run a job and return its result, stored on the job for clients polling it; throw to retry the job
+export type JobHandler<T extends JobType> = (app: App, payload: JobPayloads[T]) => Promise<unknown>;
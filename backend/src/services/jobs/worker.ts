@@ -0,0 +1,65 @@
+import type { App } from '../../index.js';
+import { claimNextJob, completeJob, failJob } from './queue.js';
+import { extractVocabularyJob, generateAudioJob, generateTitleJob } from './enrichment.js';
+import type { Job, JobHandler, JobType } from './types.js';
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+const JOB_HANDLERS: { [T in JobType]: JobHandler<T> } = {
+  'extract-vocabulary': extractVocabularyJob,
+  'generate-audio': generateAudioJob,
+  'generate-title': generateTitleJob,
+};
+
+async function processJob(app: App, job: Job): Promise<void> {
+  const handler = JOB_HANDLERS[job.type as JobType] as JobHandler<JobType> | undefined;
+  const startedAt = Date.now();
+
+  try {
+    if (!handler) {
+      throw new Error(`Unknown job type: ${job.type}`);
+    }
+    const result = await handler(app, job.payload as never);
+    await completeJob(app, job.id, result);
+    app.logger.info({ jobId: job.id, type: job.type, durationMs: Date.now() - startedAt }, 'Job completed');
+  } catch (error) {
+    const outcome = await failJob(app, job, error);
+    if (outcome === 'dead') {
+      app.logger.error({ err: error, jobId: job.id, type: job.type, attempts: job.attempts }, 'Job failed permanently');
+    } else {
+      app.logger.warn({ err: error, jobId: job.id, type: job.type, attempts: job.attempts }, 'Job failed, will retry');
+    }
+  }
+}
+
+// Poll the queue and run due jobs one at a time until stopped
+// Runs inside the API process; any number of processes can poll the same queue
+export function startJobWorker(app: App, env: NodeJS.ProcessEnv = process.env): () => void {
+  const parsed = Number(env.JOB_POLL_INTERVAL_MS);
+  const pollIntervalMs = Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_POLL_INTERVAL_MS;
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  const poll = async () => {
+    try {
+      let job = await claimNextJob(app);
+      while (job && !stopped) {
+        await processJob(app, job);
+        job = await claimNextJob(app);
+      }
+    } catch (error) {
+      app.logger.error({ err: error }, 'Job worker failed to poll the queue');
+    }
+    if (!stopped) {
+      timer = setTimeout(poll, pollIntervalMs);
+    }
+  };
+
+  app.logger.info({ pollIntervalMs }, 'Job worker started');
+  timer = setTimeout(poll, pollIntervalMs);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
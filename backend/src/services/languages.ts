@@ -0,0 +1,39 @@
+// Languages the tutor teaches, by the English name stored on conversations, scenarios and vocabulary
+export const TARGET_LANGUAGES = ['Latvian', 'Lithuanian', 'Estonian'] as const;
+export type TargetLanguage = (typeof TARGET_LANGUAGES)[number];
+
+export const DEFAULT_TARGET_LANGUAGE: TargetLanguage = 'Latvian';
+
+// Language that translations and explanations are given in
+export const SOURCE_LANGUAGE = 'English';
+
+export interface StarterWord {
+  term: string;
+  translation: string;
+  context: string;
+}
+
+// Everyday words served as the daily vocabulary when generation fails
+export const STARTER_WORDS: Record<TargetLanguage, StarterWord[]> = {
+  Latvian: [
+    { term: 'sveiki', translation: 'hello', context: 'Sveiki, kā jums klājas?' },
+    { term: 'paldies', translation: 'thank you', context: 'Paldies par jūsu palīdzību.' },
+    { term: 'lūdzu', translation: 'please', context: 'Lūdzu, palīdziet man.' },
+    { term: 'jā', translation: 'yes', context: 'Jā, es piekrītu.' },
+    { term: 'nē', translation: 'no', context: 'Nē, es nepiekrītu.' },
+  ],
+  Lithuanian: [
+    { term: 'labas', translation: 'hello', context: 'Labas, kaip jums sekasi?' },
+    { term: 'ačiū', translation: 'thank you', context: 'Ačiū už jūsų pagalbą.' },
+    { term: 'prašau', translation: 'please', context: 'Prašau, padėkite man.' },
+    { term: 'taip', translation: 'yes', context: 'Taip, aš sutinku.' },
+    { term: 'ne', translation: 'no', context: 'Ne, aš nesutinku.' },
+  ],
+  Estonian: [
+    { term: 'tere', translation: 'hello', context: 'Tere, kuidas teil läheb?' },
+    { term: 'aitäh', translation: 'thank you', context: 'Aitäh teie abi eest.' },
+    { term: 'palun', translation: 'please', context: 'Palun aidake mind.' },
+    { term: 'jah', translation: 'yes', context: 'Jah, ma olen nõus.' },
+    { term: 'ei', translation: 'no', context: 'Ei, ma ei ole nõus.' },
+  ],
+};
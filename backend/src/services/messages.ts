@@ -0,0 +1,96 @@
+import type { App } from '../index.js';
+import { randomUUID } from 'node:crypto';
+import { eq, sql } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+
+type Message = typeof schema.messages.$inferSelect;
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface MessageAudio {
+  audioKey: string;
+  durationMs: number | null;
+}
+
+// File extensions for the recording formats clients upload; anything else is stored as .bin
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/m4a': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+};
+
+// Append a message to a conversation with the next sequence number
+// The counter is bumped with a single UPDATE so concurrent appends never share a number;
+// a failed insert only leaves a gap, which keeps the sequence monotonic
+// Pass a transaction as the database to append the message as part of it
+export async function appendMessage(
+  app: Pick<App, 'db'>,
+  conversationId: string,
+  role: Message['role'],
+  content: string,
+  audio?: MessageAudio
+): Promise<Message> {
+  const [counter] = await app.db
+    .update(schema.conversations)
+    .set({ lastSequence: sql`${schema.conversations.lastSequence} + 1` })
+    .where(eq(schema.conversations.id, conversationId))
+    .returning({ lastSequence: schema.conversations.lastSequence });
+
+  const [message] = await app.db
+    .insert(schema.messages)
+    .values({
+      conversationId,
+      sequence: counter.lastSequence,
+      role,
+      content,
+      audioKey: audio?.audioKey ?? null,
+      durationMs: audio?.durationMs ?? null,
+    })
+    .returning();
+
+  return message;
+}
+
+// Link audio to a message that was saved before its audio existed, or unlink it with null
+export async function setMessageAudio(app: App, messageId: string, audio: MessageAudio | null): Promise<void> {
+  await app.db
+    .update(schema.messages)
+    .set({ audioKey: audio?.audioKey ?? null, durationMs: audio?.durationMs ?? null })
+    .where(eq(schema.messages.id, messageId));
+}
+
+// Upload a learner's recording under the conversation and return its storage key
+export async function storeUserAudio(app: App, conversationId: string, audio: Buffer, mimeType: string): Promise<string> {
+  const extension = AUDIO_EXTENSIONS[mimeType.split(';')[0].trim().toLowerCase()] ?? 'bin';
+  return app.storage.upload(`conversations/${conversationId}/audio/${randomUUID()}.${extension}`, audio);
+}
+
+// Sign the audio of each message; signed URLs expire, so they are created on every read rather than stored
+// Messages whose audio cannot be signed are left out and play nothing
+export async function getMessageAudioUrls(
+  app: App,
+  messages: Pick<Message, 'id' | 'audioKey'>[]
+): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+
+  await Promise.all(
+    messages.map(async (msg) => {
+      if (!msg.audioKey) return;
+      try {
+        const { url } = await app.storage.getSignedUrl(msg.audioKey);
+        urls.set(msg.id, url);
+      } catch (error) {
+        app.logger.warn({ err: error, messageId: msg.id, audioKey: msg.audioKey }, 'Failed to sign message audio');
+      }
+    })
+  );
+
+  return urls;
+}
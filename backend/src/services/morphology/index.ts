@@ -0,0 +1,17 @@
+import type { Lemma, Lemmatizer } from './types.js';
+import { lemmatizeLatvian } from './latvian.js';
+
+export type { Lemma, Lemmatizer } from './types.js';
+export { lemmatizeLatvian } from './latvian.js';
+
+// Local lemmatizers by the English language name stored on conversations and vocabulary
+const LEMMATIZERS: Record<string, Lemmatizer> = {
+  Latvian: lemmatizeLatvian,
+};
+
+// Map a word form to its dictionary form offline
+// Returns null for languages without a local lemmatizer
+export function lemmatize(language: string, word: string): Lemma | null {
+  const lemmatizer = LEMMATIZERS[language];
+  return lemmatizer ? lemmatizer(word) : null;
+}
@@ -0,0 +1,74 @@
+// Dictionary forms the Latvian lemmatizer knows
+// A candidate lemma found here wins over the rule-based guess, which is how the endings shared by several
+// declensions and conjugations are told apart (galdā → galds, skolā → skola, lasām → lasīt)
+export const LATVIAN_LEMMAS: readonly string[] = [
+  // Nouns, first declension (-s, -š)
+  'galds', 'vārds', 'draugs', 'tēvs', 'bērns', 'vīrs', 'zēns', 'zirgs', 'putns', 'mežs', 'kalns', 'ezers', 'laiks', 'gads',
+  'rīts', 'vakars', 'ēdiens', 'piens', 'darbs', 'veikals', 'cilvēks', 'zobs', 'dators', 'telefons', 'logs', 'krēsls',
+  'autobuss', 'vilciens', 'restorāns', 'sniegs', 'sports', 'jautājums', 'teikums', 'burts', 'students', 'ārsts', 'dārzs',
+  'ceļš', 'vējš', 'skolotājs', 'pārdevējs', 'brauciens', 'ābols',
+  // Nouns, second declension (-is, and -s in ūdens, suns)
+  'brālis', 'kaķis', 'puisis', 'mākonis', 'mēnesis', 'pavasaris', 'skapis', 'lācis', 'zaķis', 'ūdens', 'akmens', 'rudens',
+  'suns', 'mēness', 'zibens',
+  // Nouns, third declension (-us)
+  'tirgus', 'alus', 'medus', 'ledus', 'lietus', 'vidus', 'klepus',
+  // Nouns, fourth declension (-a)
+  'skola', 'māja', 'valoda', 'diena', 'dziesma', 'grāmata', 'istaba', 'pilsēta', 'iela', 'māsa', 'sieva', 'nedēļa',
+  'stunda', 'kafija', 'tēja', 'nauda', 'roka', 'kāja', 'galva', 'gulta', 'kleita', 'mašīna', 'lidosta', 'stacija', 'banka',
+  'aptieka', 'slimnīca', 'kafejnīca', 'viesnīca', 'cena', 'krāsa', 'vasara', 'ziema', 'mūzika', 'filma', 'skolotāja',
+  'pārdevēja', 'vecmāmiņa', 'palīdzība',
+  // Nouns, fifth declension (-e)
+  'upe', 'māte', 'maize', 'vēstule', 'virtuve', 'biļete', 'spēle', 'atbilde', 'saule', 'egle', 'zeme', 'puķe', 'mute',
+  'bilde', 'draudzene', 'meitene', 'sieviete', 'ģimene', 'studente',
+  // Nouns, sixth declension (-s)
+  'sirds', 'nakts', 'acs', 'auss', 'pils', 'valsts', 'durvis', 'govs', 'krāsns', 'zivs',
+  // Verbs, first conjugation
+  'būt', 'iet', 'nākt', 'braukt', 'nest', 'vest', 'dot', 'ņemt', 'pirkt', 'ēst', 'dzert', 'teikt', 'saprast', 'sākt',
+  'beigt', 'likt', 'celt', 'skriet', 'patikt', 'satikt', 'augt', 'just', 'lūgt', 'mest', 'sēst', 'kāpt', 'pārdot',
+  // Verbs, second conjugation
+  'strādāt', 'runāt', 'dzīvot', 'zināt', 'jautāt', 'maksāt', 'spēlēt', 'gatavot', 'mazgāt', 'staigāt', 'dejot', 'ceļot',
+  'mīlēt', 'dziedāt', 'peldēt', 'makšķerēt', 'domāt',
+  // Verbs, third conjugation
+  'rakstīt', 'mācīt', 'redzēt', 'dzirdēt', 'gribēt', 'varēt', 'darīt', 'gulēt', 'sēdēt', 'stāvēt', 'palīdzēt', 'tīrīt',
+  'zvanīt', 'sūtīt', 'atbildēt', 'ticēt', 'sacīt', 'turēt', 'smaidīt', 'lasīt', 'gaidīt', 'vārīt',
+  // Reflexive verbs
+  'mācīties', 'skatīties', 'klausīties', 'justies', 'saukties', 'priecāties', 'smieties', 'mazgāties', 'ģērbties',
+  'satikties', 'interesēties', 'sarunāties', 'atpūsties',
+  // Words that do not inflect
+  'paldies', 'lūdzu', 'sveiki', 'labdien', 'labrīt', 'labvakar', 'atā', 'jā', 'nē', 'un', 'bet', 'vai', 'arī', 'ļoti',
+  'šodien', 'rīt', 'vakar', 'tagad', 'te', 'tur', 'kur', 'kā', 'kad', 'kāpēc', 'cik', 'ar', 'uz', 'no', 'par', 'pie',
+  'bez', 'līdz', 'pēc', 'pirms', 'priekš', 'starp', 'virs', 'zem', 'aiz', 'caur', 'tikai', 'vēl', 'jau', 'nekad',
+  'vienmēr', 'bieži', 'labi', 'slikti', 'varbūt', 'protams', 'tāpēc', 'ka', 'ja',
+  'radio', 'kino', 'metro', 'foto', 'kafē',
+];
+
+// Forms no ending rule can reach: suppletive and irregular verbs, and first conjugation stems that change
+export const LATVIAN_IRREGULAR_FORMS: Readonly<Record<string, string>> = {
+  esmu: 'būt', esi: 'būt', ir: 'būt', esam: 'būt', esat: 'būt', biju: 'būt', biji: 'būt', bija: 'būt', bijām: 'būt',
+  bijāt: 'būt', būšu: 'būt', būsi: 'būt', būs: 'būt', būsim: 'būt', būsiet: 'būt', nav: 'būt',
+  eju: 'iet', ej: 'iet', ejam: 'iet', ejat: 'iet', gāju: 'iet', gāji: 'iet', gāja: 'iet', gājām: 'iet', gājāt: 'iet',
+  iešu: 'iet', iesi: 'iet', ies: 'iet', iesim: 'iet', iesiet: 'iet',
+  nāc: 'nākt', nācu: 'nākt', nāci: 'nākt', nāca: 'nākt', nācām: 'nākt', nāciet: 'nākt', nākšu: 'nākt', nāks: 'nākt',
+  dodu: 'dot', dod: 'dot', dodam: 'dot', dodat: 'dot', devu: 'dot', devi: 'dot', deva: 'dot', devām: 'dot', došu: 'dot',
+  ēdu: 'ēst', ēd: 'ēst', ēdam: 'ēst', ēdat: 'ēst', ēdām: 'ēst', ēdīšu: 'ēst', ēdīs: 'ēst',
+  saku: 'teikt', saki: 'teikt', saka: 'teikt', sakām: 'teikt', sakāt: 'teikt', teicu: 'teikt', teica: 'teikt',
+  teikšu: 'teikt', teiks: 'teikt',
+  pērku: 'pirkt', pērc: 'pirkt', pērk: 'pirkt', pērkam: 'pirkt', pirku: 'pirkt', pirka: 'pirkt', pirkšu: 'pirkt',
+  braucu: 'braukt', brauc: 'braukt', braucam: 'braukt', braucat: 'braukt', brauca: 'braukt', braukšu: 'braukt',
+  brauks: 'braukt',
+  sāc: 'sākt', sāku: 'sākt', sāk: 'sākt', sākam: 'sākt', sāka: 'sākt',
+  saprotu: 'saprast', saproti: 'saprast', saprot: 'saprast', saprotam: 'saprast', saprotat: 'saprast',
+  sapratu: 'saprast', saprata: 'saprast',
+  ņēmu: 'ņemt', ņēma: 'ņemt', ņēmām: 'ņemt',
+  lieku: 'likt', liec: 'likt', liek: 'likt', liekam: 'likt', liku: 'likt', lika: 'likt',
+  skrienu: 'skriet', skrien: 'skriet', skrienam: 'skriet', skrēju: 'skriet', skrēja: 'skriet',
+  patīk: 'patikt', patika: 'patikt', patiks: 'patikt',
+  satieku: 'satikt', satiek: 'satikt', satiekam: 'satikt',
+  guļu: 'gulēt', guļ: 'gulēt', guļam: 'gulēt', guļat: 'gulēt',
+  sēžu: 'sēdēt', sēž: 'sēdēt', sēžam: 'sēdēt',
+  stāvu: 'stāvēt', stāv: 'stāvēt',
+  jūtu: 'just', jūt: 'just', jūtam: 'just', jutu: 'just', juta: 'just',
+  jūtos: 'justies', jūties: 'justies', jūtas: 'justies', jūtamies: 'justies', jutos: 'justies', jutās: 'justies',
+  smejos: 'smieties', smejas: 'smieties', smējos: 'smieties', smējās: 'smieties',
+  zinu: 'zināt', zini: 'zināt', zina: 'zināt', zinām: 'zināt',
+};
@@ -0,0 +1,185 @@
+import type { Lemma } from './types.js';
+import { LATVIAN_IRREGULAR_FORMS, LATVIAN_LEMMAS } from './latvian-lexicon.js';
+
+// Endings of one declension or conjugation, each mapping an inflected ending to the ending of the lemma
+interface Paradigm {
+  name: string;
+  // Productive paradigms may guess lemmas of unknown words; the others only yield lemmas the lexicon knows
+  productive: boolean;
+  endings: [form: string, lemma: string][];
+}
+
+// Shortest stem left after removing an ending, so "es" or "un" are not read as inflected forms
+const MIN_STEM_LENGTH = 2;
+
+// Second conjugation verbs keep their theme vowel (strādāt, runāt, redzēt, lasīt, dzīvot) and add -j- in the present
+function secondConjugation(vowel: string): [string, string][] {
+  const lemma = `${vowel}t`;
+  return ['ju', 'ji', 'ja', 'jam', 'jat', 'jām', 'jāt', 'jot', 'šu', 'si', 'sim', 'siet', 'sit'].map((ending) => [
+    `${vowel}${ending}`,
+    lemma,
+  ]);
+}
+
+// Paradigms in order of preference: when no lexicon entry settles an ambiguous ending, the first
+// productive paradigm with the longest matching ending decides the guess
+const PARADIGMS: Paradigm[] = [
+  {
+    name: 'agent nouns (-tājs, -tāja)',
+    productive: true,
+    endings: [
+      ['tājs', 'tājs'], ['tājam', 'tājs'], ['tāji', 'tājs'], ['tājus', 'tājs'], ['tājiem', 'tājs'], ['tājos', 'tājs'],
+      ['tāja', 'tāja'], ['tājas', 'tāja'], ['tājai', 'tāja'], ['tāju', 'tāja'], ['tājā', 'tāja'], ['tājām', 'tāja'],
+      ['tājās', 'tāja'],
+    ],
+  },
+  {
+    name: 'second conjugation',
+    productive: true,
+    endings: [...secondConjugation('ā'), ...secondConjugation('ē'), ...secondConjugation('ī'), ...secondConjugation('o'), ['o', 'ot']],
+  },
+  {
+    name: 'noun declension 4 (-a)',
+    productive: true,
+    endings: [['a', 'a'], ['as', 'a'], ['ai', 'a'], ['u', 'a'], ['ā', 'a'], ['ām', 'a'], ['ās', 'a']],
+  },
+  {
+    name: 'noun declension 1 (-s)',
+    productive: true,
+    endings: [['s', 's'], ['a', 's'], ['am', 's'], ['u', 's'], ['ā', 's'], ['i', 's'], ['us', 's'], ['iem', 's'], ['os', 's']],
+  },
+  {
+    name: 'noun declension 5 (-e)',
+    productive: true,
+    endings: [['e', 'e'], ['es', 'e'], ['ei', 'e'], ['i', 'e'], ['ē', 'e'], ['u', 'e'], ['ēm', 'e'], ['ēs', 'e']],
+  },
+  {
+    name: 'noun declension 2 (-is)',
+    productive: true,
+    endings: [['is', 'is'], ['a', 'is'], ['im', 'is'], ['i', 'is'], ['ī', 'is'], ['u', 'is'], ['iem', 'is'], ['us', 'is'], ['os', 'is']],
+  },
+  {
+    name: 'noun declension 6 (-s)',
+    productive: true,
+    endings: [['s', 's'], ['ij', 's'], ['i', 's'], ['ī', 's'], ['is', 's'], ['u', 's'], ['īm', 's'], ['īs', 's']],
+  },
+  {
+    name: 'noun declension 3 (-us)',
+    productive: true,
+    endings: [['us', 'us'], ['um', 'us'], ['u', 'us'], ['ū', 'us'], ['i', 'us'], ['iem', 'us'], ['os', 'us']],
+  },
+  {
+    name: 'noun declension 1 (-š)',
+    productive: false,
+    endings: [['a', 'š'], ['am', 'š'], ['u', 'š'], ['ā', 'š'], ['i', 'š'], ['us', 'š'], ['iem', 'š'], ['os', 'š']],
+  },
+  {
+    name: 'noun declension 2 (-s: ūdens, suns)',
+    productive: false,
+    endings: [['s', 's'], ['im', 's'], ['i', 's'], ['ī', 's'], ['u', 's'], ['iem', 's'], ['us', 's'], ['os', 's']],
+  },
+  {
+    // Present forms shared with nouns (lasu, lasa, redz, redzam) and the bare third person present
+    name: 'second and third conjugation present',
+    productive: false,
+    endings: [
+      ['ā', 'āt'], ['ās', 'āt'], ['ē', 'ēt'], ['ēs', 'ēt'], ['ī', 'īt'], ['īs', 'īt'], ['os', 'ot'],
+      ['u', 'īt'], ['i', 'īt'], ['a', 'īt'], ['ām', 'īt'], ['āt', 'īt'], ['', 'īt'],
+      ['u', 'ēt'], ['i', 'ēt'], ['am', 'ēt'], ['at', 'ēt'], ['', 'ēt'],
+      ['u', 'āt'], ['a', 'āt'], ['ām', 'āt'], ['', 'āt'],
+    ],
+  },
+  {
+    name: 'first conjugation',
+    productive: false,
+    endings: [['u', 't'], ['i', 't'], ['', 't'], ['am', 't'], ['at', 't'], ['a', 't'], ['ām', 't'], ['āt', 't'], ['šu', 't'], ['s', 't']],
+  },
+  {
+    name: 'reflexive verbs',
+    productive: false,
+    endings: [
+      ['ājos', 'āties'], ['ājies', 'āties'], ['ājas', 'āties'], ['ājamies', 'āties'], ['ājaties', 'āties'], ['ājās', 'āties'],
+      ['ījos', 'īties'], ['ījies', 'īties'], ['ījās', 'īties'], ['ējos', 'ēties'], ['ējās', 'ēties'],
+      ['os', 'īties'], ['ies', 'īties'], ['ās', 'īties'], ['āmies', 'īties'], ['āties', 'īties'],
+      ['os', 'ēties'], ['ies', 'ēties'], ['as', 'ēties'], ['amies', 'ēties'], ['aties', 'ēties'],
+      ['os', 'ties'], ['ies', 'ties'], ['as', 'ties'], ['amies', 'ties'], ['aties', 'ties'],
+    ],
+  },
+];
+
+interface EndingRule {
+  form: string;
+  lemma: string;
+  productive: boolean;
+}
+
+// All endings, longest first; paradigm order is kept among endings of the same length
+const RULES: EndingRule[] = PARADIGMS.flatMap((paradigm) =>
+  paradigm.endings.map(([form, lemma]) => ({ form, lemma, productive: paradigm.productive }))
+).sort((a, b) => b.form.length - a.form.length);
+
+// Consonants that alternate at the end of the stem in the second, fifth and sixth declensions and in some verbs,
+// with the consonants they stand for in the lemma (brāļa → brālis, upju → upe, siržu → sirds)
+const ALTERNATIONS: [string, string[]][] = [
+  ['šļ', ['sl']], ['žļ', ['zl']], ['šņ', ['sn']], ['žņ', ['zn']], ['ļļ', ['ll']], ['ņņ', ['nn']],
+  ['pj', ['p']], ['bj', ['b']], ['mj', ['m']], ['vj', ['v']], ['fj', ['f']],
+  ['ļ', ['l']], ['ņ', ['n']], ['č', ['c']], ['š', ['s', 't']], ['ž', ['z', 'd']],
+];
+
+const KNOWN_LEMMAS = new Set(LATVIAN_LEMMAS);
+
+// The stem followed by the stems it may come from before consonant alternation
+function stemVariants(stem: string): string[] {
+  const alternation = ALTERNATIONS.find(([altered]) => stem.endsWith(altered));
+  if (!alternation) {
+    return [stem];
+  }
+  const [altered, originals] = alternation;
+  const base = stem.slice(0, stem.length - altered.length);
+  return [stem, ...originals.map((original) => base + original)];
+}
+
+// Map a Latvian word form to its dictionary form, covering the six noun declensions and the three verb conjugations
+// Irregular forms and lemmas in the lexicon are exact; other words get the lemma of the most likely paradigm for
+// their ending, and words no rule matches are their own lemma. Phrases are returned as written, in lower case
+export function lemmatizeLatvian(word: string): Lemma {
+  const form = word.trim().toLocaleLowerCase('lv');
+
+  if (/[\s-]/.test(form)) {
+    return { lemma: form, known: false };
+  }
+
+  const irregular = LATVIAN_IRREGULAR_FORMS[form];
+  if (irregular) {
+    return { lemma: irregular, known: true };
+  }
+
+  if (KNOWN_LEMMAS.has(form)) {
+    return { lemma: form, known: true };
+  }
+
+  let guess: string | null = null;
+
+  for (const rule of RULES) {
+    if (!form.endsWith(rule.form)) {
+      continue;
+    }
+    const stem = form.slice(0, form.length - rule.form.length);
+    if (stem.length < MIN_STEM_LENGTH) {
+      continue;
+    }
+
+    for (const variant of stemVariants(stem)) {
+      const lemma = variant + rule.lemma;
+      if (KNOWN_LEMMAS.has(lemma)) {
+        return { lemma, known: true };
+      }
+    }
+
+    if (guess === null && rule.productive) {
+      guess = stem + rule.lemma;
+    }
+  }
+
+  return { lemma: guess ?? form, known: false };
+}
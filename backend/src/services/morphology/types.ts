@@ -0,0 +1,8 @@
+export interface Lemma {
+  lemma: string;
+  // Whether the lemma came from the lexicon rather than a guess from the ending alone
+  known: boolean;
+}
+
+// Map a word form of one language to its dictionary form
+export type Lemmatizer = (word: string) => Lemma;
@@ -0,0 +1,88 @@
+import { CEFR_LEVELS, type CefrLevel } from '../../db/schema/schema.js';
+import type { PlacementItem, PlacementSkill } from './items.js';
+
+// The test stops once the estimate is precise enough, but never before MIN_ITEMS or after MAX_ITEMS
+export const MIN_ITEMS = 15;
+export const MAX_ITEMS = 25;
+const TARGET_STANDARD_ERROR = 0.4;
+
+// Three-parameter logistic model on the item difficulty scale: four options give a 25% chance of guessing,
+// and the slope was tuned by simulation so most tests finish within 15-20 items
+const GUESSING = 0.25;
+const DISCRIMINATION = 2;
+
+// Learners start at A2 with a wide prior, so a few answers are enough to move the estimate anywhere on the scale
+export const PRIOR_ABILITY = 2;
+export const PRIOR_STANDARD_ERROR = 1.5;
+
+const ABILITY_GRID = Array.from({ length: 121 }, (_, index) => index * 0.05);
+
+// Skills take turns so every test covers grammar, vocabulary and reading evenly
+const SKILL_ORDER: readonly PlacementSkill[] = ['grammar', 'vocabulary', 'reading'];
+
+export interface PlacementResponse {
+  difficulty: number;
+  correct: boolean;
+}
+
+export interface AbilityEstimate {
+  ability: number;
+  standardError: number;
+}
+
+function probabilityCorrect(ability: number, difficulty: number): number {
+  return GUESSING + (1 - GUESSING) / (1 + Math.exp(-DISCRIMINATION * (ability - difficulty)));
+}
+
+// Expected a posteriori estimate of the learner's ability over a fixed grid
+export function estimateAbility(responses: PlacementResponse[]): AbilityEstimate {
+  const weights = ABILITY_GRID.map((ability) => {
+    let likelihood = Math.exp(-0.5 * ((ability - PRIOR_ABILITY) / PRIOR_STANDARD_ERROR) ** 2);
+    for (const response of responses) {
+      const p = probabilityCorrect(ability, response.difficulty);
+      likelihood *= response.correct ? p : 1 - p;
+    }
+    return likelihood;
+  });
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const ability = ABILITY_GRID.reduce((sum, value, index) => sum + value * weights[index], 0) / total;
+  const variance = ABILITY_GRID.reduce((sum, value, index) => sum + (value - ability) ** 2 * weights[index], 0) / total;
+
+  return { ability, standardError: Math.sqrt(variance) };
+}
+
+// Pick the unanswered item of the next skill whose difficulty is closest to the current estimate
+// Ties are broken randomly so learners at the same level do not all see the same items
+export function selectNextItem(
+  items: readonly PlacementItem[],
+  answeredItemIds: ReadonlySet<string>,
+  ability: number
+): PlacementItem | null {
+  const remaining = items.filter((item) => !answeredItemIds.has(item.id));
+  if (remaining.length === 0) {
+    return null;
+  }
+
+  const skill = SKILL_ORDER[answeredItemIds.size % SKILL_ORDER.length];
+  const sameSkill = remaining.filter((item) => item.skill === skill);
+  const candidates = sameSkill.length > 0 ? sameSkill : remaining;
+
+  const closest = Math.min(...candidates.map((item) => Math.abs(item.difficulty - ability)));
+  const best = candidates.filter((item) => Math.abs(item.difficulty - ability) === closest);
+
+  return best[Math.floor(Math.random() * best.length)];
+}
+
+export function isPlacementComplete(answeredCount: number, estimate: AbilityEstimate): boolean {
+  if (answeredCount >= MAX_ITEMS) {
+    return true;
+  }
+  return answeredCount >= MIN_ITEMS && estimate.standardError <= TARGET_STANDARD_ERROR;
+}
+
+// Round the estimate to the nearest level; difficulty 1 is A1 and 5 is C1
+export function abilityToLevel(ability: number): CefrLevel {
+  const index = Math.min(CEFR_LEVELS.length, Math.max(1, Math.round(ability))) - 1;
+  return CEFR_LEVELS[index];
+}
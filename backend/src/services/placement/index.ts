@@ -0,0 +1,172 @@
+import type { App } from '../../index.js';
+import { and, asc, eq } from 'drizzle-orm';
+import * as schema from '../../db/schema/schema.js';
+import { setPlacedLevel } from '../profile.js';
+import { PLACEMENT_ITEMS, type PlacementItem, type PlacementSkill } from './items.js';
+import {
+  abilityToLevel,
+  estimateAbility,
+  isPlacementComplete,
+  selectNextItem,
+  MAX_ITEMS,
+  PRIOR_ABILITY,
+  PRIOR_STANDARD_ERROR,
+} from './engine.js';
+
+export { PLACEMENT_ITEMS, type PlacementItem, type PlacementSkill } from './items.js';
+export { MIN_ITEMS, MAX_ITEMS } from './engine.js';
+
+export type PlacementTest = typeof schema.placementTests.$inferSelect;
+
+// An item as shown to the learner, without its answer or difficulty
+export interface PlacementQuestion {
+  id: string;
+  skill: PlacementSkill;
+  prompt: string;
+  passage: string | null;
+  options: string[];
+}
+
+export interface PlacementState {
+  testId: string;
+  status: PlacementTest['status'];
+  answeredCount: number;
+  maxItems: number;
+  // Next question while the test is in progress
+  question: PlacementQuestion | null;
+  // Placed level once the test is completed
+  level: schema.CefrLevel | null;
+  completedAt: string | null;
+}
+
+const ITEMS_BY_ID = new Map(PLACEMENT_ITEMS.map((item) => [item.id, item]));
+
+export function getPlacementItem(itemId: string): PlacementItem | undefined {
+  return ITEMS_BY_ID.get(itemId);
+}
+
+function toQuestion(item: PlacementItem): PlacementQuestion {
+  return {
+    id: item.id,
+    skill: item.skill,
+    prompt: item.prompt,
+    passage: item.passage ?? null,
+    options: item.options,
+  };
+}
+
+function toPlacementState(test: PlacementTest, answeredCount: number): PlacementState {
+  const item = test.status === 'in_progress' && test.currentItemId ? getPlacementItem(test.currentItemId) : undefined;
+
+  return {
+    testId: test.id,
+    status: test.status,
+    answeredCount,
+    maxItems: MAX_ITEMS,
+    question: item ? toQuestion(item) : null,
+    level: test.level,
+    completedAt: test.completedAt ? test.completedAt.toISOString() : null,
+  };
+}
+
+async function getAnswers(app: App, testId: string): Promise<(typeof schema.placementAnswers.$inferSelect)[]> {
+  return app.db
+    .select()
+    .from(schema.placementAnswers)
+    .where(eq(schema.placementAnswers.testId, testId))
+    .orderBy(asc(schema.placementAnswers.createdAt));
+}
+
+// Start a new test; a test the learner left unfinished is abandoned
+export async function startPlacementTest(app: App, userId: string): Promise<PlacementState> {
+  await app.db
+    .update(schema.placementTests)
+    .set({ status: 'abandoned', currentItemId: null })
+    .where(and(eq(schema.placementTests.userId, userId), eq(schema.placementTests.status, 'in_progress')));
+
+  const first = selectNextItem(PLACEMENT_ITEMS, new Set(), PRIOR_ABILITY);
+
+  const [test] = await app.db
+    .insert(schema.placementTests)
+    .values({
+      userId,
+      currentItemId: first?.id ?? null,
+      ability: PRIOR_ABILITY,
+      standardError: PRIOR_STANDARD_ERROR,
+    })
+    .returning();
+
+  return toPlacementState(test, 0);
+}
+
+export async function getPlacementState(app: App, test: PlacementTest): Promise<PlacementState> {
+  const answers = await getAnswers(app, test.id);
+  return toPlacementState(test, answers.length);
+}
+
+// Record an answer to the current item, update the ability estimate and pick the next item
+// When the test is complete the placed level is saved on the learner's profile
+// Returns null if the item was already answered, e.g. by a retried request
+export async function answerPlacementItem(
+  app: App,
+  test: PlacementTest,
+  item: PlacementItem,
+  answer: number
+): Promise<PlacementState | null> {
+  const inserted = await app.db
+    .insert(schema.placementAnswers)
+    .values({
+      testId: test.id,
+      itemId: item.id,
+      skill: item.skill,
+      difficulty: item.difficulty,
+      answer,
+      correct: answer === item.answer,
+    })
+    .onConflictDoNothing()
+    .returning({ id: schema.placementAnswers.id });
+
+  if (inserted.length === 0) {
+    return null;
+  }
+
+  const answers = await getAnswers(app, test.id);
+  const estimate = estimateAbility(answers);
+  const next = isPlacementComplete(answers.length, estimate)
+    ? null
+    : selectNextItem(PLACEMENT_ITEMS, new Set(answers.map((row) => row.itemId)), estimate.ability);
+
+  if (next) {
+    const [updated] = await app.db
+      .update(schema.placementTests)
+      .set({ currentItemId: next.id, ability: estimate.ability, standardError: estimate.standardError })
+      .where(eq(schema.placementTests.id, test.id))
+      .returning();
+
+    return toPlacementState(updated, answers.length);
+  }
+
+  const level = abilityToLevel(estimate.ability);
+
+  const [completed] = await app.db
+    .update(schema.placementTests)
+    .set({
+      status: 'completed',
+      currentItemId: null,
+      ability: estimate.ability,
+      standardError: estimate.standardError,
+      level,
+      completedAt: new Date(),
+    })
+    .where(eq(schema.placementTests.id, test.id))
+    .returning();
+
+  await setPlacedLevel(app, test.userId, level);
+
+  app.logger.info(
+    { testId: test.id, userId: test.userId, level, ability: estimate.ability, answeredCount: answers.length },
+    'Placement test completed'
+  );
+
+  return toPlacementState(completed, answers.length);
+}
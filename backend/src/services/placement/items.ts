@@ -0,0 +1,414 @@
+import type { GrammarTopic } from '../../db/schema/schema.js';
+
+export type PlacementSkill = 'grammar' | 'vocabulary' | 'reading';
+
+export interface PlacementItem {
+  id: string;
+  skill: PlacementSkill;
+  // 1 = A1, 2 = A2, 3 = B1, 4 = B2, 5 = C1
+  difficulty: number;
+  // Instructions are in English so beginners can follow them
+  prompt: string;
+  // Latvian text the question is about, for reading items
+  passage?: string;
+  options: string[];
+  // Index of the correct option
+  answer: number;
+  // Grammar area a wrong answer counts against, for grammar items
+  topic?: GrammarTopic;
+}
+
+// Multiple-choice items, three per skill and level
+// Item ids are stored with answers, so existing ids must not be reused for different questions
+export const PLACEMENT_ITEMS: readonly PlacementItem[] = [
+  {
+    id: 'g-a1-1',
+    skill: 'grammar',
+    topic: 'present_tense',
+    difficulty: 1,
+    prompt: 'Choose the correct form: "Es ___ students."',
+    options: ['esmu', 'esam', 'esi', 'ir'],
+    answer: 0,
+  },
+  {
+    id: 'g-a1-2',
+    skill: 'grammar',
+    topic: 'present_tense',
+    difficulty: 1,
+    prompt: 'Choose the correct form: "Mana māja ___ liela."',
+    options: ['esat', 'ir', 'esmu', 'esi'],
+    answer: 1,
+  },
+  {
+    id: 'g-a1-3',
+    skill: 'grammar',
+    topic: 'present_tense',
+    difficulty: 1,
+    prompt: 'Choose the correct form: "Viņš ___ Rīgā." (to live)',
+    options: ['dzīvojam', 'dzīvoju', 'dzīvo', 'dzīvot'],
+    answer: 2,
+  },
+  {
+    id: 'g-a2-1',
+    skill: 'grammar',
+    topic: 'locative_case',
+    difficulty: 2,
+    prompt: 'Choose the correct form: "Es strādāju ___." (skola)',
+    options: ['skola', 'skolas', 'skolā', 'skolu'],
+    answer: 2,
+  },
+  {
+    id: 'g-a2-2',
+    skill: 'grammar',
+    topic: 'past_tense',
+    difficulty: 2,
+    prompt: 'Choose the correct form: "Vakar mēs ___ uz kino." (iet)',
+    options: ['gāja', 'iesim', 'ejam', 'gājām'],
+    answer: 3,
+  },
+  {
+    id: 'g-a2-3',
+    skill: 'grammar',
+    topic: 'accusative_case',
+    difficulty: 2,
+    prompt: 'Choose the correct form: "Es redzu lielu ___." (māja)',
+    options: ['māja', 'māju', 'mājas', 'mājā'],
+    answer: 1,
+  },
+  {
+    id: 'g-b1-1',
+    skill: 'grammar',
+    topic: 'future_tense',
+    difficulty: 3,
+    prompt: 'Choose the correct form: "Rīt es ___ vecmāmiņu." (apmeklēt)',
+    options: ['apmeklēju', 'apmeklētu', 'apmeklēšu', 'apmeklēšot'],
+    answer: 2,
+  },
+  {
+    id: 'g-b1-2',
+    skill: 'grammar',
+    topic: 'dative_case',
+    difficulty: 3,
+    prompt: 'Choose the correct form: "Es iedevu grāmatu ___." (brālis)',
+    options: ['brālis', 'brāļa', 'brālim', 'brāli'],
+    answer: 2,
+  },
+  {
+    id: 'g-b1-3',
+    skill: 'grammar',
+    topic: 'reflexive_verbs',
+    difficulty: 3,
+    prompt: 'Choose the correct form: "Es katru rītu ___." (mazgāties)',
+    options: ['mazgāties', 'mazgājas', 'mazgāju', 'mazgājos'],
+    answer: 3,
+  },
+  {
+    id: 'g-b2-1',
+    skill: 'grammar',
+    topic: 'conditional_mood',
+    difficulty: 4,
+    prompt: 'Choose the correct form: "Ja man būtu laiks, es ___ vairāk." (lasīt)',
+    options: ['lasīju', 'lasīšu', 'lasītu', 'lasu'],
+    answer: 2,
+  },
+  {
+    id: 'g-b2-2',
+    skill: 'grammar',
+    topic: 'definite_adjective_endings',
+    difficulty: 4,
+    prompt: 'Choose the correct form: "___ māja pie ezera ir mūsu." (the big one)',
+    options: ['Lielā', 'Lielais', 'Liela', 'Lielo'],
+    answer: 0,
+  },
+  {
+    id: 'g-b2-3',
+    skill: 'grammar',
+    topic: 'pronouns',
+    difficulty: 4,
+    prompt: 'Choose the correct form: "Grāmata, ___ es vakar nopirku, ir ļoti interesanta."',
+    options: ['kuras', 'kurai', 'kura', 'kuru'],
+    answer: 3,
+  },
+  {
+    id: 'g-c1-1',
+    skill: 'grammar',
+    topic: 'oblique_mood',
+    difficulty: 5,
+    prompt: 'Choose the reported (oblique) mood: "Kaimiņš stāsta, ka viņa dēls ___ Londonā."',
+    options: ['strādā', 'strādājot', 'strādātu', 'strādās'],
+    answer: 1,
+  },
+  {
+    id: 'g-c1-2',
+    skill: 'grammar',
+    topic: 'passive_voice',
+    difficulty: 5,
+    prompt: 'Choose the correct form: "Šī māja ___ 1905. gadā."',
+    options: ['uzcēla', 'tika uzcelta', 'uzcēlusi', 'tiek celt'],
+    answer: 1,
+  },
+  {
+    id: 'g-c1-3',
+    skill: 'grammar',
+    topic: 'debitive_mood',
+    difficulty: 5,
+    prompt: 'Choose the correct form: "Man vēl jāizlasa ___." (šī grāmata)',
+    options: ['šo grāmatu', 'šīs grāmatas', 'šī grāmata', 'šai grāmatai'],
+    answer: 2,
+  },
+  {
+    id: 'v-a1-1',
+    skill: 'vocabulary',
+    difficulty: 1,
+    prompt: 'What does "paldies" mean?',
+    options: ['goodbye', 'please', 'thank you', 'hello'],
+    answer: 2,
+  },
+  {
+    id: 'v-a1-2',
+    skill: 'vocabulary',
+    difficulty: 1,
+    prompt: 'What does "maize" mean?',
+    options: ['bread', 'water', 'cheese', 'milk'],
+    answer: 0,
+  },
+  {
+    id: 'v-a1-3',
+    skill: 'vocabulary',
+    difficulty: 1,
+    prompt: 'Which word means "red"?',
+    options: ['sarkans', 'dzeltens', 'zaļš', 'zils'],
+    answer: 0,
+  },
+  {
+    id: 'v-a2-1',
+    skill: 'vocabulary',
+    difficulty: 2,
+    prompt: 'What does "vakariņas" mean?',
+    options: ['lunch', 'breakfast', 'snack', 'dinner'],
+    answer: 3,
+  },
+  {
+    id: 'v-a2-2',
+    skill: 'vocabulary',
+    difficulty: 2,
+    prompt: 'Which word means "to buy"?',
+    options: ['meklēt', 'maksāt', 'pārdot', 'pirkt'],
+    answer: 3,
+  },
+  {
+    id: 'v-a2-3',
+    skill: 'vocabulary',
+    difficulty: 2,
+    prompt: 'What does "rudens" mean?',
+    options: ['winter', 'summer', 'spring', 'autumn'],
+    answer: 3,
+  },
+  {
+    id: 'v-b1-1',
+    skill: 'vocabulary',
+    difficulty: 3,
+    prompt: 'Choose the opposite of "lēts".',
+    options: ['vecs', 'dārgs', 'smags', 'tāls'],
+    answer: 1,
+  },
+  {
+    id: 'v-b1-2',
+    skill: 'vocabulary',
+    difficulty: 3,
+    prompt: 'What does "izdevīgs" mean?',
+    options: ['published', 'advantageous', 'generous', 'tiring'],
+    answer: 1,
+  },
+  {
+    id: 'v-b1-3',
+    skill: 'vocabulary',
+    difficulty: 3,
+    prompt: 'What does "tikšanās" mean?',
+    options: ['agreement', 'meeting', 'invitation', 'departure'],
+    answer: 1,
+  },
+  {
+    id: 'v-b2-1',
+    skill: 'vocabulary',
+    difficulty: 4,
+    prompt: 'What does "nodoklis" mean?',
+    options: ['salary', 'tax', 'receipt', 'loan'],
+    answer: 1,
+  },
+  {
+    id: 'v-b2-2',
+    skill: 'vocabulary',
+    difficulty: 4,
+    prompt: 'Choose the closest meaning of "steidzams".',
+    options: ['patīkams', 'lēns', 'slavens', 'neatliekams'],
+    answer: 3,
+  },
+  {
+    id: 'v-b2-3',
+    skill: 'vocabulary',
+    difficulty: 4,
+    prompt: 'What does "vienošanās" mean?',
+    options: ['decision', 'agreement', 'loneliness', 'unity'],
+    answer: 1,
+  },
+  {
+    id: 'v-c1-1',
+    skill: 'vocabulary',
+    difficulty: 5,
+    prompt: 'What does "apņēmīgs" mean?',
+    options: ['clumsy', 'determined', 'envious', 'reserved'],
+    answer: 1,
+  },
+  {
+    id: 'v-c1-2',
+    skill: 'vocabulary',
+    difficulty: 5,
+    prompt: 'What does "sekas" mean?',
+    options: ['traces', 'pursuit', 'seconds', 'consequences'],
+    answer: 3,
+  },
+  {
+    id: 'v-c1-3',
+    skill: 'vocabulary',
+    difficulty: 5,
+    prompt: 'What does "novērtēt" mean?',
+    options: ['to observe', 'to avoid', 'to assess', 'to turn away'],
+    answer: 2,
+  },
+  {
+    id: 'r-a1-1',
+    skill: 'reading',
+    difficulty: 1,
+    prompt: 'Where does Anna live?',
+    passage: 'Mani sauc Anna. Man ir divdesmit gadu. Es dzīvoju Rīgā.',
+    options: ['In Liepāja', 'In Tallinn', 'In Vilnius', 'In Riga'],
+    answer: 3,
+  },
+  {
+    id: 'r-a1-2',
+    skill: 'reading',
+    difficulty: 1,
+    prompt: 'What is true?',
+    passage: 'Šodien ir svētdiena. Veikals ir slēgts.',
+    options: ['Today is Monday', 'The shop is open', 'The shop is closed', 'The shop is new'],
+    answer: 2,
+  },
+  {
+    id: 'r-a1-3',
+    skill: 'reading',
+    difficulty: 1,
+    prompt: 'What colour is the dog?',
+    passage: 'Pētera kaķis ir melns, bet suns ir balts.',
+    options: ['Grey', 'Brown', 'White', 'Black'],
+    answer: 2,
+  },
+  {
+    id: 'r-a2-1',
+    skill: 'reading',
+    difficulty: 2,
+    prompt: 'What did they do yesterday?',
+    passage: 'Vakar lija lietus, tāpēc mēs palikām mājās un skatījāmies filmu.',
+    options: ['Worked in the garden', 'Watched a film at home', 'Went to the cinema', 'Went for a walk'],
+    answer: 1,
+  },
+  {
+    id: 'r-a2-2',
+    skill: 'reading',
+    difficulty: 2,
+    prompt: 'Where does the train leave from?',
+    passage: 'Vilciens uz Siguldu atiet pulksten 8:15 no otrā perona.',
+    options: ['Platform 8', 'Platform 15', 'Sigulda station', 'Platform 2'],
+    answer: 3,
+  },
+  {
+    id: 'r-a2-3',
+    skill: 'reading',
+    difficulty: 2,
+    prompt: 'What is Ilze\'s job?',
+    passage: 'Ilze strādā slimnīcā par medmāsu. Viņa bieži strādā naktīs.',
+    options: ['Nurse', 'Cook', 'Doctor', 'Teacher'],
+    answer: 0,
+  },
+  {
+    id: 'r-b1-1',
+    skill: 'reading',
+    difficulty: 3,
+    prompt: 'When is entry free?',
+    passage: 'Muzejs ir atvērts no otrdienas līdz svētdienai. Pirmdienās muzejs ir slēgts, bet pirmajā mēneša svētdienā ieeja ir bez maksas.',
+    options: ['Every Sunday', 'Every Tuesday', 'Every Monday', 'On the first Sunday of the month'],
+    answer: 3,
+  },
+  {
+    id: 'r-b1-2',
+    skill: 'reading',
+    difficulty: 3,
+    prompt: 'Why did Jānis take the bus?',
+    passage: 'Jānis gribēja braukt ar velosipēdu, taču riepa bija caura, tāpēc viņš devās ar autobusu.',
+    options: ['His tyre was flat', 'It was raining', 'The bus was faster', 'He had lost his bike'],
+    answer: 0,
+  },
+  {
+    id: 'r-b1-3',
+    skill: 'reading',
+    difficulty: 3,
+    prompt: 'What do you need to do to sign up?',
+    passage: 'Lai pieteiktos kursiem, līdz piektdienai jāaizpilda anketa un jāsamaksā reģistrācijas maksa.',
+    options: ['Phone the school on Friday', 'Pay after the course ends', 'Visit the office on Monday', 'Fill in a form and pay a fee by Friday'],
+    answer: 3,
+  },
+  {
+    id: 'r-b2-1',
+    skill: 'reading',
+    difficulty: 4,
+    prompt: 'Why were the works delayed?',
+    passage: 'Lai gan pilsētas dome solīja atjaunot parku jau pavasarī, darbi aizkavējās finansējuma trūkuma dēļ.',
+    options: ['Lack of funding', 'Protests by residents', 'The council changed its plans', 'Bad weather'],
+    answer: 0,
+  },
+  {
+    id: 'r-b2-2',
+    skill: 'reading',
+    difficulty: 4,
+    prompt: 'What do the authors stress?',
+    passage: 'Pētījums liecina, ka cilvēki, kuri regulāri lasa, labāk koncentrējas, tomēr autori uzsver, ka cēloņsakarība nav pierādīta.',
+    options: ['Reading harms concentration', 'Everyone should read daily', 'Cause and effect has not been proven', 'The study was too small'],
+    answer: 2,
+  },
+  {
+    id: 'r-b2-3',
+    skill: 'reading',
+    difficulty: 4,
+    prompt: 'What is the condition for working remotely?',
+    passage: 'Uzņēmums paziņoja, ka no nākamā gada darbinieki drīkstēs divas dienas nedēļā strādāt attālināti, ja vien vadītājs tam piekritīs.',
+    options: ['Living outside the city', 'Having worked there for a year', 'Working three days in the office', 'The manager has to agree'],
+    answer: 3,
+  },
+  {
+    id: 'r-c1-1',
+    skill: 'reading',
+    difficulty: 5,
+    prompt: 'What do the critics say about the play?',
+    passage: 'Kritiķi pārmet režisoram, ka izrāde, kaut arī vizuāli iespaidīga, ir saturiski tukša un balstās uz pārbaudītiem paņēmieniem, neriskējot ar ko jaunu.',
+    options: ['It is far too long', 'It looks poor but is full of meaning', 'It looks impressive but lacks substance and originality', 'It takes too many risks'],
+    answer: 2,
+  },
+  {
+    id: 'r-c1-2',
+    skill: 'reading',
+    difficulty: 5,
+    prompt: 'Why may wage growth be only apparent?',
+    passage: 'Ekonomisti brīdina, ka straujā cenu kāpuma apstākļos algu pieaugums var izrādīties šķietams, jo pirktspēja faktiski samazinās.',
+    options: ['Employers are cutting jobs', 'Taxes are going up', 'Prices rise so fast that purchasing power falls', 'Wages are paid late'],
+    answer: 2,
+  },
+  {
+    id: 'r-c1-3',
+    skill: 'reading',
+    difficulty: 5,
+    prompt: 'What is the author\'s tone?',
+    passage: 'Autors piezīmē, ka birokrātija esot vienīgā nozare, kurā ražīgumu mēra izdoto veidlapu skaitā.',
+    options: ['Angry', 'Neutral and factual', 'Ironic', 'Admiring'],
+    answer: 2,
+  },
+];
@@ -0,0 +1,67 @@
+import type { App } from '../index.js';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { applyTutorStyleChanges, resolveTutorStyle, type TutorStyleChanges } from './tutor-style.js';
+
+// Level used for new conversations until the learner has taken the placement test
+export const DEFAULT_LEVEL: schema.CefrLevel = 'A1';
+
+export interface UserProfile {
+  level: schema.CefrLevel | null;
+  placedAt: string | null;
+  // Default tutor style for new and existing conversations, with unset options filled in
+  tutorStyle: schema.TutorStyle;
+}
+
+function toUserProfile(profile: typeof schema.userProfiles.$inferSelect | undefined): UserProfile {
+  return {
+    level: profile?.level ?? null,
+    placedAt: profile?.placedAt ? profile.placedAt.toISOString() : null,
+    tutorStyle: resolveTutorStyle(profile?.tutorStyle ?? {}),
+  };
+}
+
+// Learners without a profile record have not been placed yet
+export async function getUserProfile(app: App, userId: string): Promise<UserProfile> {
+  const profile: typeof schema.userProfiles.$inferSelect | undefined = await app.db
+    .select()
+    .from(schema.userProfiles)
+    .where(eq(schema.userProfiles.userId, userId))
+    .then((result: (typeof schema.userProfiles.$inferSelect)[]) => result[0]);
+
+  return toUserProfile(profile);
+}
+
+// Change the learner's default tutor style, creating the profile record if needed
+export async function updateTutorStyleDefaults(app: App, userId: string, changes: TutorStyleChanges): Promise<UserProfile> {
+  const current: typeof schema.userProfiles.$inferSelect | undefined = await app.db
+    .select()
+    .from(schema.userProfiles)
+    .where(eq(schema.userProfiles.userId, userId))
+    .then((result: (typeof schema.userProfiles.$inferSelect)[]) => result[0]);
+
+  const tutorStyle = applyTutorStyleChanges(current?.tutorStyle ?? {}, changes);
+  const now = new Date();
+
+  const [profile] = await app.db
+    .insert(schema.userProfiles)
+    .values({ userId, tutorStyle })
+    .onConflictDoUpdate({
+      target: schema.userProfiles.userId,
+      set: { tutorStyle, updatedAt: now },
+    })
+    .returning();
+
+  return toUserProfile(profile);
+}
+
+export async function setPlacedLevel(app: App, userId: string, level: schema.CefrLevel): Promise<void> {
+  const now = new Date();
+  await app.db
+    .insert(schema.userProfiles)
+    .values({ userId, level, placedAt: now })
+    .onConflictDoUpdate({
+      target: schema.userProfiles.userId,
+      set: { level, placedAt: now, updatedAt: now },
+    });
+}
@@ -0,0 +1,202 @@
+import { transcribeAudio, type Transcription } from './transcription.js';
+import type { SttRequest } from './stt/index.js';
+
+export type WordStatus = 'correct' | 'diacritic' | 'mispronounced' | 'missing' | 'extra';
+
+export interface DiacriticIssue {
+  // Character index within the expected word
+  position: number;
+  expected: string;
+  heard: string;
+  // Long vowels (ā, ē, ī, ū) are marked separately from other diacritics (č, ģ, ķ, ļ, ņ, š, ž)
+  kind: 'long_vowel' | 'diacritic';
+}
+
+export interface AssessedWord {
+  expected: string | null;
+  heard: string | null;
+  status: WordStatus;
+  // 0-100; extra words are not scored
+  score: number | null;
+  issues: DiacriticIssue[];
+  startMs: number | null;
+  endMs: number | null;
+  confidence: number | null;
+}
+
+export interface PronunciationAssessment {
+  expectedText: string;
+  transcript: string;
+  // Mean score over the expected words, 0-100
+  score: number;
+  words: AssessedWord[];
+  language: string;
+  mixedLanguage: boolean;
+}
+
+const LONG_VOWELS: Record<string, string> = { ā: 'a', ē: 'e', ī: 'i', ū: 'u' };
+const DIACRITICS: Record<string, string> = { č: 'c', ģ: 'g', ķ: 'k', ļ: 'l', ņ: 'n', š: 's', ž: 'z' };
+
+// Words below this similarity are treated as a missing word plus an extra one rather than a mispronunciation
+const MIN_SIMILARITY = 0.34;
+const DIACRITIC_PENALTY = 15;
+const MIN_DIACRITIC_SCORE = 50;
+const MISPRONOUNCED_MAX_SCORE = 60;
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+function stripDiacritics(word: string): string {
+  return [...word].map((char) => LONG_VOWELS[char] ?? DIACRITICS[char] ?? char).join('');
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter((word) => normalizeWord(word).length > 0);
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+// Character positions where the words differ only by a long vowel or diacritic mark
+function findDiacriticIssues(expected: string, heard: string): DiacriticIssue[] {
+  const expectedChars = [...expected];
+  const heardChars = [...heard];
+  const issues: DiacriticIssue[] = [];
+
+  expectedChars.forEach((char, position) => {
+    const heardChar = heardChars[position];
+    if (char === heardChar) {
+      return;
+    }
+    const isLongVowel = char in LONG_VOWELS || heardChar in LONG_VOWELS;
+    issues.push({ position, expected: char, heard: heardChar, kind: isLongVowel ? 'long_vowel' : 'diacritic' });
+  });
+
+  return issues;
+}
+
+// Align expected and heard words with an edit-distance table over words
+// Substituting similar words is cheap, so near misses pair up instead of becoming missing plus extra
+function alignWords(expected: string[], heard: string[]): Array<[number | null, number | null]> {
+  const expectedNorm = expected.map(normalizeWord);
+  const heardNorm = heard.map(normalizeWord);
+  const substitutionCost = (i: number, j: number): number => {
+    const score = similarity(stripDiacritics(expectedNorm[i]), stripDiacritics(heardNorm[j]));
+    if (expectedNorm[i] === heardNorm[j]) return 0;
+    return score >= MIN_SIMILARITY ? 1 - score + 0.01 : Infinity;
+  };
+
+  const rows = expected.length + 1;
+  const cols = heard.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      cost[i][j] = Math.min(cost[i - 1][j] + 1, cost[i][j - 1] + 1, cost[i - 1][j - 1] + substitutionCost(i - 1, j - 1));
+    }
+  }
+
+  const pairs: Array<[number | null, number | null]> = [];
+  let i = expected.length;
+  let j = heard.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitutionCost(i - 1, j - 1)) {
+      pairs.push([i - 1, j - 1]);
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      pairs.push([i - 1, null]);
+      i--;
+    } else {
+      pairs.push([null, j - 1]);
+      j--;
+    }
+  }
+
+  return pairs.reverse();
+}
+
+function assessPair(expected: string, heard: string): Pick<AssessedWord, 'status' | 'score' | 'issues'> {
+  const expectedNorm = normalizeWord(expected);
+  const heardNorm = normalizeWord(heard);
+
+  if (expectedNorm === heardNorm) {
+    return { status: 'correct', score: 100, issues: [] };
+  }
+
+  if (stripDiacritics(expectedNorm) === stripDiacritics(heardNorm)) {
+    const issues = findDiacriticIssues(expectedNorm, heardNorm);
+    return {
+      status: 'diacritic',
+      score: Math.max(MIN_DIACRITIC_SCORE, 100 - DIACRITIC_PENALTY * issues.length),
+      issues,
+    };
+  }
+
+  return {
+    status: 'mispronounced',
+    score: Math.round(similarity(expectedNorm, heardNorm) * MISPRONOUNCED_MAX_SCORE),
+    issues: [],
+  };
+}
+
+// Compare a transcription with the sentence the learner was asked to read
+export function scorePronunciation(expectedText: string, transcription: Transcription): PronunciationAssessment {
+  const expected = splitWords(expectedText);
+  // Timings come from the STT words, which share the transcript's word order
+  const heardWords = transcription.words.filter((word) => normalizeWord(word.word).length > 0);
+  const heard = heardWords.map((word) => word.word);
+
+  const words: AssessedWord[] = alignWords(expected, heard).map(([expectedIndex, heardIndex]) => {
+    const timing = heardIndex !== null ? heardWords[heardIndex] : null;
+    const base = {
+      expected: expectedIndex !== null ? expected[expectedIndex] : null,
+      heard: heardIndex !== null ? heard[heardIndex] : null,
+      startMs: timing?.startMs ?? null,
+      endMs: timing?.endMs ?? null,
+      confidence: timing?.confidence ?? null,
+    };
+
+    if (expectedIndex === null) {
+      return { ...base, status: 'extra', score: null, issues: [] };
+    }
+    if (heardIndex === null) {
+      return { ...base, status: 'missing', score: 0, issues: [] };
+    }
+    return { ...base, ...assessPair(expected[expectedIndex], heard[heardIndex]) };
+  });
+
+  const scored = words.filter((word) => word.score !== null).map((word) => word.score as number);
+
+  return {
+    expectedText,
+    transcript: transcription.text,
+    score: scored.length > 0 ? Math.round(scored.reduce((sum, score) => sum + score, 0) / scored.length) : 0,
+    words,
+    language: transcription.language,
+    mixedLanguage: transcription.mixedLanguage,
+  };
+}
+
+// Transcribe a recording and score it word by word against the expected text
+export async function assessPronunciation(request: SttRequest, expectedText: string): Promise<PronunciationAssessment> {
+  const transcription = await transcribeAudio(request);
+  return scorePronunciation(expectedText, transcription);
+}
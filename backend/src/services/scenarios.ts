@@ -0,0 +1,70 @@
+import type { App } from '../index.js';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+
+export type Scenario = typeof schema.scenarios.$inferSelect;
+
+export interface ScenarioSummary {
+  id: string;
+  slug: string;
+  language: string;
+  title: string;
+  setting: string;
+  learnerGoal: string;
+  minLevel: schema.CefrLevel;
+}
+
+export interface ScenarioDetails extends ScenarioSummary {
+  tutorPersona: string;
+  starterMessage: string;
+  targetVocabulary: schema.ScenarioVocabularyItem[];
+}
+
+// Whether a CEFR level meets a scenario's minimum level
+export function isLevelAtLeast(level: schema.CefrLevel, minLevel: schema.CefrLevel): boolean {
+  return schema.CEFR_LEVELS.indexOf(level) >= schema.CEFR_LEVELS.indexOf(minLevel);
+}
+
+export async function getScenario(app: App, scenarioId: string): Promise<Scenario | undefined> {
+  return app.db
+    .select()
+    .from(schema.scenarios)
+    .where(eq(schema.scenarios.id, scenarioId))
+    .then((result: Scenario[]) => result[0]);
+}
+
+// Role-play instructions appended to the tutor system prompt
+export function buildScenarioPrompt(scenario: Scenario): string {
+  const vocabulary = scenario.targetVocabulary
+    .map((item) => `${item.term} (${item.translation})`)
+    .join(', ');
+
+  return `Role-play scenario: ${scenario.title}
+Setting: ${scenario.setting}
+Your role: ${scenario.tutorPersona}
+Student's goal: ${scenario.learnerGoal}
+You opened the conversation with: "${scenario.starterMessage}"
+Stay in character and keep the conversation within this setting. Work these words into the conversation naturally: ${vocabulary}.
+Still correct the student's mistakes briefly, then continue the role-play. When the student has reached their goal, congratulate them and suggest a follow-up situation.`;
+}
+
+export function toScenarioSummary(scenario: Scenario): ScenarioSummary {
+  return {
+    id: scenario.id,
+    slug: scenario.slug,
+    language: scenario.language,
+    title: scenario.title,
+    setting: scenario.setting,
+    learnerGoal: scenario.learnerGoal,
+    minLevel: scenario.minLevel,
+  };
+}
+
+export function toScenarioDetails(scenario: Scenario): ScenarioDetails {
+  return {
+    ...toScenarioSummary(scenario),
+    tutorPersona: scenario.tutorPersona,
+    starterMessage: scenario.starterMessage,
+    targetVocabulary: scenario.targetVocabulary,
+  };
+}
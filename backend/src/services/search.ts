@@ -0,0 +1,154 @@
+import type { App } from '../index.js';
+import { and, desc, eq, sql, type SQL } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+
+// Text search configuration created by the search_configuration migration: lowercases, and strips diacritics where
+// the unaccent extension is available; the text is folded beforehand either way
+// Inlined as a literal so the vector expressions match the GIN indexes in the schema
+const SEARCH_CONFIG = sql.raw(`'lv_unaccent'`);
+
+// Matches are wrapped in <mark> tags in the returned snippets
+const FRAGMENT_DELIMITER = ' … ';
+const HIGHLIGHT_TAG = /(<\/?mark>)/;
+const HEADLINE_OPTIONS = `StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter="${FRAGMENT_DELIMITER}"`;
+
+const PLAIN_LETTER = new Map([...schema.FOLDED_LETTERS].map((letter, index) => [letter, schema.PLAIN_LETTERS[index]]));
+
+export type SearchResultType = 'message' | 'conversation' | 'vocabulary';
+
+export interface SearchResult {
+  type: SearchResultType;
+  conversationId: string;
+  conversationTitle: string | null;
+  // Message to jump to; null for title matches and vocabulary without a source message
+  messageId: string | null;
+  sequence: number | null;
+  snippet: string;
+  rank: number;
+  createdAt: string;
+}
+
+// Replace letters with diacritics by their plain letters, the same way the search indexes fold text
+export function foldDiacritics(text: string): string {
+  return [...text].map((letter) => PLAIN_LETTER.get(letter) ?? letter).join('');
+}
+
+// Put the original letters back into a snippet highlighted in folded text
+// Folding keeps every letter in place, so each fragment is found in the folded text and copied from the same span of the original
+function restoreDiacritics(snippet: string, original: string): string {
+  const folded = foldDiacritics(original);
+
+  return snippet
+    .split(FRAGMENT_DELIMITER)
+    .map((fragment) => {
+      const parts = fragment.split(HIGHLIGHT_TAG);
+      let offset = folded.indexOf(parts.filter((part) => !HIGHLIGHT_TAG.test(part)).join(''));
+      if (offset < 0) {
+        return fragment;
+      }
+      return parts
+        .map((part) => {
+          if (HIGHLIGHT_TAG.test(part)) {
+            return part;
+          }
+          const restored = original.slice(offset, offset + part.length);
+          offset += part.length;
+          return restored;
+        })
+        .join('');
+    })
+    .join(FRAGMENT_DELIMITER);
+}
+
+// Turn free text into a prefix tsquery: every word must match, and "skol" also finds "skolā" and "skolas"
+// Diacritics are folded like the indexed text, so "skolā" and "skola" find the same messages
+// Returns null if the text has no searchable words
+export function buildSearchQuery(text: string): string | null {
+  const terms = foldDiacritics(text).match(/[\p{L}\p{N}]+/gu);
+  if (!terms) {
+    return null;
+  }
+  return terms.map((term) => `${term}:*`).join(' & ');
+}
+
+// Search the user's messages, conversation titles and vocabulary, best matches first
+export async function searchConversations(app: App, userId: string, text: string, limit: number): Promise<SearchResult[]> {
+  const searchQuery = buildSearchQuery(text);
+  if (!searchQuery) {
+    return [];
+  }
+
+  const query = sql`to_tsquery(${SEARCH_CONFIG}, ${searchQuery})`;
+
+  const vector = (document: SQL) => sql`to_tsvector(${SEARCH_CONFIG}, ${schema.foldedSearchText(document)})`;
+  const messageText = sql<string>`${schema.messages.content}`;
+  const titleText = sql<string>`coalesce(${schema.conversations.title}, '')`;
+  const vocabularyText = sql<string>`${schema.vocabulary.term} || ' ' || ${schema.vocabulary.translation}`;
+  const messageVector = vector(messageText);
+  const titleVector = vector(titleText);
+  const vocabularyVector = vector(vocabularyText);
+
+  // Highlighted in the folded text, since the query only matches that, and restored in the results
+  const headline = (document: SQL) =>
+    sql<string>`ts_headline(${SEARCH_CONFIG}, ${schema.foldedSearchText(document)}, ${query}, ${HEADLINE_OPTIONS})`;
+
+  const [messageRows, titleRows, vocabularyRows] = await Promise.all([
+    app.db
+      .select({
+        conversationId: schema.messages.conversationId,
+        conversationTitle: schema.conversations.title,
+        messageId: schema.messages.id,
+        sequence: schema.messages.sequence,
+        document: messageText,
+        snippet: headline(messageText),
+        rank: sql<number>`ts_rank(${messageVector}, ${query})`,
+        createdAt: schema.messages.createdAt,
+      })
+      .from(schema.messages)
+      .innerJoin(schema.conversations, eq(schema.messages.conversationId, schema.conversations.id))
+      .where(and(eq(schema.conversations.userId, userId), sql`${messageVector} @@ ${query}`))
+      .orderBy(desc(sql`ts_rank(${messageVector}, ${query})`))
+      .limit(limit),
+    app.db
+      .select({
+        conversationId: schema.conversations.id,
+        conversationTitle: schema.conversations.title,
+        document: titleText,
+        snippet: headline(titleText),
+        rank: sql<number>`ts_rank(${titleVector}, ${query})`,
+        createdAt: schema.conversations.createdAt,
+      })
+      .from(schema.conversations)
+      .where(and(eq(schema.conversations.userId, userId), sql`${titleVector} @@ ${query}`))
+      .limit(limit),
+    app.db
+      .select({
+        conversationId: schema.vocabulary.conversationId,
+        conversationTitle: schema.conversations.title,
+        messageId: schema.vocabulary.messageId,
+        sequence: schema.messages.sequence,
+        document: vocabularyText,
+        snippet: headline(vocabularyText),
+        rank: sql<number>`ts_rank(${vocabularyVector}, ${query})`,
+        createdAt: schema.vocabulary.createdAt,
+      })
+      .from(schema.vocabulary)
+      .innerJoin(schema.conversations, eq(schema.vocabulary.conversationId, schema.conversations.id))
+      .leftJoin(schema.messages, eq(schema.vocabulary.messageId, schema.messages.id))
+      .where(and(eq(schema.vocabulary.userId, userId), sql`${vocabularyVector} @@ ${query}`))
+      .limit(limit),
+  ]);
+
+  const results: SearchResult[] = [
+    ...messageRows.map((row) => ({ type: 'message' as const, ...row })),
+    ...titleRows.map((row) => ({ type: 'conversation' as const, ...row, messageId: null, sequence: null })),
+    ...vocabularyRows.map((row) => ({ type: 'vocabulary' as const, ...row })),
+  ].map(({ document, ...row }) => ({
+    ...row,
+    snippet: restoreDiacritics(row.snippet, document),
+    rank: Number(row.rank),
+    createdAt: row.createdAt.toISOString(),
+  }));
+
+  return results.sort((a, b) => b.rank - a.rank).slice(0, limit);
+}
@@ -0,0 +1,145 @@
+import type { App } from '../index.js';
+import { createHash } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { setMessageAudio } from './messages.js';
+import { tts, TTS_VOICES, DEFAULT_TTS_VOICE, DEFAULT_SPEAKING_RATE, type TtsRequest } from './tts/index.js';
+
+export interface SpeechAudio {
+  audio: Buffer;
+  contentType: string;
+  durationMs: number | null;
+  cached: boolean;
+}
+
+export interface SpeechUrl {
+  url: string;
+  storageKey: string;
+  durationMs: number | null;
+  cached: boolean;
+}
+
+type CacheEntry = typeof schema.ttsCache.$inferSelect;
+
+// Identical text, voice and rate always hash to the same key, so a phrase is synthesized once per provider
+function getCacheKey(request: TtsRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([tts.name, request.language.toLowerCase(), request.voice, request.rate.toFixed(2), request.text]))
+    .digest('hex');
+}
+
+function normalizeRequest(request: TtsRequest): TtsRequest {
+  return { ...request, text: request.text.trim().replace(/\s+/g, ' ') };
+}
+
+// Look up cached audio or synthesize and store it
+// Returns the freshly synthesized bytes when there was no cache hit
+async function resolveSpeech(app: App, request: TtsRequest): Promise<{ entry: CacheEntry; audio: Buffer | null }> {
+  const normalized = normalizeRequest(request);
+  const cacheKey = getCacheKey(normalized);
+
+  const cached: CacheEntry | undefined = await app.db
+    .select()
+    .from(schema.ttsCache)
+    .where(eq(schema.ttsCache.cacheKey, cacheKey))
+    .then((result: CacheEntry[]) => result[0]);
+
+  if (cached) {
+    app.logger.info({ cacheKey, storageKey: cached.storageKey }, 'Speech cache hit');
+    return { entry: cached, audio: null };
+  }
+
+  const synthesized = await tts.synthesize(normalized);
+  const storageKey = await app.storage.upload(`tts/${cacheKey}.${synthesized.format}`, synthesized.audio);
+
+  // A concurrent request may have stored the same phrase; both uploads share the same key
+  const [entry] = await app.db
+    .insert(schema.ttsCache)
+    .values({
+      cacheKey,
+      storageKey,
+      contentType: synthesized.contentType,
+      durationMs: synthesized.durationMs,
+    })
+    .onConflictDoUpdate({ target: schema.ttsCache.cacheKey, set: { storageKey } })
+    .returning();
+
+  app.logger.info(
+    { cacheKey, storageKey, provider: tts.name, audioSize: synthesized.audio.length, durationMs: synthesized.durationMs },
+    'Speech synthesized and cached'
+  );
+
+  return { entry, audio: synthesized.audio };
+}
+
+// Synthesize speech (or reuse the cached copy) and return the audio bytes
+export async function getSpeechAudio(app: App, request: TtsRequest): Promise<SpeechAudio> {
+  const { entry, audio } = await resolveSpeech(app, request);
+
+  if (audio) {
+    return { audio, contentType: entry.contentType, durationMs: entry.durationMs, cached: false };
+  }
+
+  const { url } = await app.storage.getSignedUrl(entry.storageKey);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load cached speech with status ${response.status}`);
+  }
+
+  return {
+    audio: Buffer.from(await response.arrayBuffer()),
+    contentType: entry.contentType,
+    durationMs: entry.durationMs,
+    cached: true,
+  };
+}
+
+// Synthesize speech (or reuse the cached copy) and return a signed URL to it
+export async function getSpeechUrl(app: App, request: TtsRequest): Promise<SpeechUrl> {
+  const { entry, audio } = await resolveSpeech(app, request);
+  const { url } = await app.storage.getSignedUrl(entry.storageKey);
+
+  return { url, storageKey: entry.storageKey, durationMs: entry.durationMs, cached: audio === null };
+}
+
+// Synthesize a tutor reply in the conversation's language and voice and link the audio to the message
+export async function storeReplyAudio(
+  app: App,
+  conversation: typeof schema.conversations.$inferSelect,
+  messageId: string,
+  text: string
+): Promise<SpeechUrl> {
+  app.logger.info({ conversationId: conversation.id, messageId }, 'Generating audio response');
+
+  const speech = await getSpeechUrl(app, {
+    text,
+    language: conversation.language,
+    ...getVoiceSettings(conversation),
+    userId: conversation.userId,
+  });
+
+  // Cached speech is shared between messages with the same text, so the message only points at it
+  await setMessageAudio(app, messageId, { audioKey: speech.storageKey, durationMs: speech.durationMs });
+
+  app.logger.info(
+    { conversationId: conversation.id, messageId, audioKey: speech.storageKey, cached: speech.cached },
+    'Audio response stored'
+  );
+
+  return speech;
+}
+
+// Resolve the voice and rate for a conversation: explicit choices first, then the conversation's preferences
+// Unknown voice names fall back to the preference rather than failing the request
+export function getVoiceSettings(
+  conversation: typeof schema.conversations.$inferSelect,
+  voice?: string,
+  rate?: number
+): Pick<TtsRequest, 'voice' | 'rate'> {
+  const requested = TTS_VOICES.find((name) => name === voice?.toLowerCase());
+
+  return {
+    voice: requested ?? conversation.voice ?? DEFAULT_TTS_VOICE,
+    rate: rate ?? conversation.speakingRate ?? DEFAULT_SPEAKING_RATE,
+  };
+}
@@ -0,0 +1,35 @@
+import type { SttProvider } from './types.js';
+
+const DEFAULT_TRANSCRIPT = 'Sveiki, kā tev klājas?';
+const WORD_MS = 350;
+const GAP_MS = 50;
+
+// Audio that is really UTF-8 text (as uploaded by tests) is "transcribed" to that text
+function decodeTextAudio(audio: Buffer): string | null {
+  const text = audio.toString('utf8');
+  if (!text.trim() || text.includes('�') || /[\u0000-\u0008\u000E-\u001F]/.test(text)) {
+    return null;
+  }
+  return text.trim();
+}
+
+// Deterministic offline provider for tests and local development
+// Words get evenly spaced timings and a fixed confidence; languages are left to the shared tagging
+export function createFakeSttProvider(): SttProvider {
+  return {
+    name: 'fake',
+
+    async transcribe(request) {
+      const text = decodeTextAudio(request.audio) ?? DEFAULT_TRANSCRIPT;
+      const words = text.split(/\s+/).map((word, index) => ({
+        word,
+        startMs: index * (WORD_MS + GAP_MS),
+        endMs: index * (WORD_MS + GAP_MS) + WORD_MS,
+        confidence: 0.9,
+        language: null,
+      }));
+
+      return { text, words, language: null };
+    },
+  };
+}
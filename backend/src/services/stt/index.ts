@@ -0,0 +1,24 @@
+import type { SttProvider } from './types.js';
+import { createModelSttProvider } from './model-provider.js';
+import { createFakeSttProvider } from './fake-provider.js';
+
+export type { SttProvider, SttRequest, SttResult, SttWord } from './types.js';
+export { detectWordLanguage, toLanguageCode } from './language.js';
+export { createFakeSttProvider } from './fake-provider.js';
+
+// Select the provider named by STT_PROVIDER ('model' by default, 'fake' for offline use)
+export function createSttProvider(env: NodeJS.ProcessEnv = process.env): SttProvider {
+  const providerName = env.STT_PROVIDER ?? 'model';
+
+  switch (providerName) {
+    case 'model':
+      return createModelSttProvider();
+    case 'fake':
+      return createFakeSttProvider();
+    default:
+      throw new Error(`Unknown STT_PROVIDER: ${providerName}`);
+  }
+}
+
+// Shared provider used by the routes
+export const stt = createSttProvider();
@@ -0,0 +1,56 @@
+// Lightweight word-level language tagging used when a provider does not label words itself
+// Only distinguishes the target language from English, which is what learners mix in
+
+const LANGUAGE_CODES: Record<string, string> = {
+  latvian: 'lv',
+  english: 'en',
+  lithuanian: 'lt',
+  estonian: 'et',
+  russian: 'ru',
+  german: 'de',
+  french: 'fr',
+  spanish: 'es',
+};
+
+// Frequent English words that never occur as Latvian words
+const ENGLISH_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'is', 'are', 'was', 'were', 'be', 'i', 'you', 'he', 'she', 'it', 'we', 'they',
+  'my', 'your', 'this', 'that', 'what', 'how', 'why', 'where', 'when', 'who', 'do', 'does', 'did', 'not', 'no', 'yes',
+  'have', 'has', 'can', 'will', 'would', 'to', 'of', 'in', 'on', 'for', 'with', 'at', 'from', 'please', 'thanks',
+  'thank', 'sorry', 'hello', 'hi', 'okay', 'ok', 'like', 'want', 'know', 'mean', 'word', 'say',
+]);
+
+// Frequent Latvian words without diacritics
+const LATVIAN_WORDS = new Set([
+  'es', 'tu', 'vins', 'vina', 'mes', 'jus', 'un', 'ar', 'uz', 'no', 'par', 'ka', 'kas', 'ir', 'bija', 'nav', 'jā',
+  'ne', 'labi', 'labdien', 'sveiki', 'paldies', 'cik', 'kur', 'kad', 'kapec', 'man', 'tev', 'mani', 'tevi', 'vai',
+  'bet', 'arī', 'ari', 'lielais', 'maza', 'liels', 'mazs', 'skola', 'mana', 'mans', 'tava', 'tavs', 'te', 'tur',
+]);
+
+const LATVIAN_LETTERS = /[āčēģīķļņšūž]/i;
+
+export function toLanguageCode(language: string): string {
+  const normalized = language.trim().toLowerCase();
+  if (normalized.length === 2) {
+    return normalized;
+  }
+  return LANGUAGE_CODES[normalized] ?? 'und';
+}
+
+// Guess the language of a single word, or null when it could be either
+export function detectWordLanguage(word: string, targetLanguage: string): string | null {
+  const normalized = word.toLowerCase().replace(/[^\p{L}']/gu, '');
+  if (!normalized) {
+    return null;
+  }
+
+  if (targetLanguage === 'lv' && (LATVIAN_LETTERS.test(normalized) || LATVIAN_WORDS.has(normalized))) {
+    return 'lv';
+  }
+
+  if (ENGLISH_WORDS.has(normalized)) {
+    return 'en';
+  }
+
+  return null;
+}
@@ -0,0 +1,95 @@
+import { ai } from '../ai/index.js';
+import type { SttProvider, SttResult, SttWord } from './types.js';
+
+interface RawWord {
+  word?: unknown;
+  start?: unknown;
+  end?: unknown;
+  confidence?: unknown;
+  language?: unknown;
+}
+
+function buildTranscriptionPrompt(languageHint: string): string {
+  return `Transcribe this audio. The speaker is learning ${languageHint} and may mix in English words.
+Return ONLY valid JSON in this exact format with no markdown or extra text:
+{
+  "language": "ISO 639-1 code of the main language spoken",
+  "words": [
+    {"word": "word exactly as spoken", "start": start time in milliseconds, "end": end time in milliseconds, "confidence": number between 0 and 1, "language": "ISO 639-1 code of this word"}
+  ]
+}
+Keep Latvian diacritics (ā, č, ē, ģ, ī, ķ, ļ, ņ, š, ū, ž) exactly as pronounced and keep punctuation attached to the words.`;
+}
+
+function toNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function parseWord(raw: RawWord): SttWord | null {
+  if (typeof raw.word !== 'string' || !raw.word.trim()) {
+    return null;
+  }
+
+  const confidence = toNumber(raw.confidence);
+
+  return {
+    word: raw.word.trim(),
+    startMs: toNumber(raw.start),
+    endMs: toNumber(raw.end),
+    confidence: confidence === null ? null : Math.min(1, Math.max(0, confidence)),
+    language: typeof raw.language === 'string' ? raw.language.toLowerCase() : null,
+  };
+}
+
+// Parse the model's JSON; models that ignore the format still yield a plain transcript without timings
+function parseTranscription(text: string): SttResult {
+  const stripped = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    const parsed = JSON.parse(stripped) as { language?: unknown; words?: RawWord[] };
+    const words = Array.isArray(parsed.words)
+      ? parsed.words.map(parseWord).filter((word): word is SttWord => word !== null)
+      : [];
+
+    return {
+      text: words.map((word) => word.word).join(' '),
+      words,
+      language: typeof parsed.language === 'string' ? parsed.language.toLowerCase() : null,
+    };
+  } catch {
+    return {
+      text: stripped,
+      words: stripped
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((word) => ({ word, startMs: null, endMs: null, confidence: null, language: null })),
+      language: null,
+    };
+  }
+}
+
+// Provider that sends the audio to the transcription model through the AI layer
+export function createModelSttProvider(): SttProvider {
+  return {
+    name: 'model',
+
+    async transcribe(request) {
+      const result = await ai.generateText({
+        task: 'transcription',
+        purpose: 'transcription',
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: buildTranscriptionPrompt(request.languageHint) },
+              { type: 'file', mediaType: request.mimeType, data: request.audio },
+            ],
+          },
+        ],
+        userId: request.userId,
+      });
+
+      return parseTranscription(result.text);
+    },
+  };
+}
@@ -0,0 +1,30 @@
+export interface SttRequest {
+  audio: Buffer;
+  mimeType: string;
+  // Language the learner is expected to speak, e.g. 'Latvian'
+  languageHint: string;
+  // Learner the recording belongs to, for AI usage accounting
+  userId?: string;
+}
+
+export interface SttWord {
+  word: string;
+  startMs: number | null;
+  endMs: number | null;
+  // 0-1, when the provider reports it
+  confidence: number | null;
+  // ISO 639-1 code, when the provider reports it
+  language: string | null;
+}
+
+export interface SttResult {
+  text: string;
+  words: SttWord[];
+  // Dominant language reported by the provider, if any
+  language: string | null;
+}
+
+export interface SttProvider {
+  name: string;
+  transcribe(request: SttRequest): Promise<SttResult>;
+}
@@ -0,0 +1,60 @@
+import type { App } from '../index.js';
+import { and, eq, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { ai } from './ai/index.js';
+
+const MAX_TITLE_LENGTH = 80;
+
+function buildTitlePrompt(language: string, userMessage: string, aiResponse: string): string {
+  return `Write a short title for a ${language} practice conversation that starts with the exchange below.
+Give the title in ${language} followed by its English translation, separated by " / ", for example "Kafejnīcā / At the café".
+Use at most five words in each language. Respond with only the title.
+
+Student: ${userMessage}
+Tutor: ${aiResponse}`;
+}
+
+// Generate a bilingual title after the first exchange of an untitled conversation
+// Returns the stored title, or null if the conversation already had one or generation failed
+export async function generateConversationTitle(
+  app: App,
+  conversation: typeof schema.conversations.$inferSelect,
+  userMessage: string,
+  aiResponse: string
+): Promise<string | null> {
+  if (conversation.title) {
+    return null;
+  }
+
+  try {
+    const result = await ai.generateText({
+      task: 'extraction',
+      purpose: 'title',
+      prompt: buildTitlePrompt(conversation.language, userMessage, aiResponse),
+      userId: conversation.userId,
+    });
+
+    const title = result.text.trim().replace(/^["']|["']$/g, '').slice(0, MAX_TITLE_LENGTH);
+    if (!title) {
+      return null;
+    }
+
+    // Only fill in the title if the user has not renamed the conversation meanwhile
+    const updated = await app.db
+      .update(schema.conversations)
+      .set({ title })
+      .where(and(eq(schema.conversations.id, conversation.id), isNull(schema.conversations.title)))
+      .returning();
+
+    if (updated.length === 0) {
+      return null;
+    }
+
+    app.logger.info({ conversationId: conversation.id, title }, 'Conversation title generated');
+
+    return title;
+  } catch (error) {
+    app.logger.warn({ err: error, conversationId: conversation.id }, 'Failed to generate conversation title (continuing without title)');
+    return null;
+  }
+}
@@ -0,0 +1,51 @@
+import { stt, detectWordLanguage, toLanguageCode, type SttRequest, type SttWord } from './stt/index.js';
+
+export interface Transcription {
+  text: string;
+  // ISO 639-1 code of the dominant language
+  language: string;
+  // Mean word confidence, when the provider reports it
+  confidence: number | null;
+  words: SttWord[];
+  // Every language heard, most frequent first
+  languages: string[];
+  // True when the learner switched languages mid-utterance, e.g. Latvian with English words
+  mixedLanguage: boolean;
+}
+
+// Transcribe audio with the configured provider and tag each word's language
+export async function transcribeAudio(request: SttRequest): Promise<Transcription> {
+  const result = await stt.transcribe(request);
+  const target = toLanguageCode(request.languageHint);
+
+  const words = result.words.map((word) => ({
+    ...word,
+    language: word.language ?? detectWordLanguage(word.word, target),
+  }));
+
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    if (word.language) {
+      counts.set(word.language, (counts.get(word.language) ?? 0) + 1);
+    }
+  }
+  const languages = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([language]) => language);
+
+  const confidences = words.map((word) => word.confidence).filter((value): value is number => value !== null);
+
+  return {
+    text: result.text.trim(),
+    language: languages[0] ?? result.language ?? target,
+    confidence: confidences.length > 0 ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : null,
+    words,
+    languages,
+    mixedLanguage: languages.length > 1,
+  };
+}
+
+// Approximate length of a recording: where the last timed word ends
+// Returns null when the provider reports no word timings
+export function getRecordingDuration(transcription: Transcription): number | null {
+  const ends = transcription.words.map((word) => word.endMs).filter((value): value is number => value !== null);
+  return ends.length > 0 ? Math.max(...ends) : null;
+}
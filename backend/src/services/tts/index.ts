@@ -0,0 +1,36 @@
+import type { TtsProvider, TtsRequest } from './types.js';
+import { createLocalTtsProvider } from './local-provider.js';
+import { createOpenAiTtsProvider } from './openai-provider.js';
+import { createMeteredTtsProvider } from './metered-provider.js';
+import { recordAiUsage } from '../ai/index.js';
+
+export type { TtsProvider, TtsRequest, TtsAudio, TtsVoice } from './types.js';
+export {
+  TTS_VOICES,
+  DEFAULT_TTS_VOICE,
+  DEFAULT_SPEAKING_RATE,
+  MIN_SPEAKING_RATE,
+  MAX_SPEAKING_RATE,
+} from './types.js';
+export { createLocalTtsProvider } from './local-provider.js';
+
+// Select the provider named by TTS_PROVIDER
+// Defaults to 'openai' when OPENAI_API_KEY is set and to the offline 'local' synthesizer otherwise
+export function createTtsProvider(env: NodeJS.ProcessEnv = process.env): TtsProvider {
+  const providerName = env.TTS_PROVIDER ?? (env.OPENAI_API_KEY ? 'openai' : 'local');
+
+  switch (providerName) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('TTS_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      return createOpenAiTtsProvider({ apiKey: env.OPENAI_API_KEY, model: env.TTS_MODEL });
+    case 'local':
+      return createLocalTtsProvider();
+    default:
+      throw new Error(`Unknown TTS_PROVIDER: ${providerName}`);
+  }
+}
+
+// Shared provider used by the routes; syntheses made for a user go to the AI usage recorder
+export const tts = createMeteredTtsProvider(createTtsProvider(), recordAiUsage);
@@ -0,0 +1,95 @@
+import type { TtsProvider, TtsRequest, TtsVoice } from './types.js';
+
+const SAMPLE_RATE = 16000;
+const CHARACTER_MS = 55;
+const PAUSE_MS = 250;
+const AMPLITUDE = 0.3;
+
+const BASE_FREQUENCY: Record<TtsVoice, number> = {
+  male: 120,
+  female: 220,
+  neutral: 170,
+};
+
+const VOWELS = new Set('aāeēiīoouūy');
+
+// Build a 16-bit mono PCM WAV file around the given samples
+function encodeWav(samples: Int16Array): Buffer {
+  const dataSize = samples.length * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // Mono
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28); // Byte rate
+  buffer.writeUInt16LE(2, 32); // Block align
+  buffer.writeUInt16LE(16, 34); // Bits per sample
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(dataSize, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i], 44 + i * 2);
+  }
+
+  return buffer;
+}
+
+// Render one short tone per character: vowels are held longer, punctuation becomes a pause
+function renderSamples(request: TtsRequest): Int16Array {
+  const baseFrequency = BASE_FREQUENCY[request.voice];
+  const chunks: Float32Array[] = [];
+
+  for (const char of request.text.toLowerCase()) {
+    const isPause = /[\s.,!?;:]/.test(char);
+    const durationMs = (isPause ? (char === ' ' ? CHARACTER_MS : PAUSE_MS) : VOWELS.has(char) ? CHARACTER_MS * 1.6 : CHARACTER_MS) / request.rate;
+    const length = Math.round((SAMPLE_RATE * durationMs) / 1000);
+    const chunk = new Float32Array(length);
+
+    if (!isPause) {
+      const frequency = baseFrequency * (1 + (char.codePointAt(0)! % 12) / 12);
+      for (let i = 0; i < length; i++) {
+        // Short fade in and out so consecutive tones do not click
+        const envelope = Math.min(1, i / 80, (length - i) / 80);
+        chunk[i] = AMPLITUDE * envelope * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+      }
+    }
+
+    chunks.push(chunk);
+  }
+
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const samples = new Int16Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    for (let i = 0; i < chunk.length; i++) {
+      samples[offset + i] = Math.round(chunk[i] * 32767);
+    }
+    offset += chunk.length;
+  }
+
+  return samples;
+}
+
+// Deterministic offline synthesizer for tests and local development
+// Produces audible placeholder tones whose length follows the text and speaking rate
+export function createLocalTtsProvider(): TtsProvider {
+  return {
+    name: 'local',
+
+    async synthesize(request) {
+      const samples = renderSamples(request);
+
+      return {
+        audio: encodeWav(samples),
+        contentType: 'audio/wav',
+        format: 'wav',
+        durationMs: Math.round((samples.length / SAMPLE_RATE) * 1000),
+      };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import type { TtsProvider } from './types.js';
+import { estimateTokens, type AiCallRecorder } from '../ai/index.js';
+
+// Wrap a provider so every synthesis made for a user is passed to the recorder with its outcome and latency
+// Speech providers report no usage, so the input is estimated from the text and the output left unknown
+export function createMeteredTtsProvider(provider: TtsProvider, record: AiCallRecorder): TtsProvider {
+  return {
+    name: provider.name,
+
+    async synthesize(request) {
+      const startedAt = Date.now();
+      let status: 'completed' | 'failed' = 'failed';
+      try {
+        const audio = await provider.synthesize(request);
+        status = 'completed';
+        return audio;
+      } finally {
+        if (request.userId) {
+          await record({
+            userId: request.userId,
+            task: 'speech',
+            purpose: 'speech',
+            model: provider.name,
+            status,
+            usage: { inputTokens: estimateTokens(request.text), outputTokens: null },
+            latencyMs: Date.now() - startedAt,
+          });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import type { TtsProvider, TtsVoice } from './types.js';
+
+export const DEFAULT_TTS_MODEL = 'gpt-4o-mini-tts';
+const TTS_TIMEOUT_MS = 15000;
+
+const VOICE_NAMES: Record<TtsVoice, string> = {
+  male: 'onyx',
+  female: 'nova',
+  neutral: 'alloy',
+};
+
+interface OpenAiTtsOptions {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+// Provider backed by the OpenAI speech endpoint
+export function createOpenAiTtsProvider({ apiKey, model = DEFAULT_TTS_MODEL, baseUrl = 'https://api.openai.com/v1' }: OpenAiTtsOptions): TtsProvider {
+  return {
+    name: `openai:${model}`,
+
+    async synthesize(request) {
+      const response = await fetch(`${baseUrl}/audio/speech`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          voice: VOICE_NAMES[request.voice],
+          input: request.text,
+          speed: request.rate,
+          instructions: `Speak ${request.language} clearly, as a patient language tutor.`,
+          response_format: 'mp3',
+        }),
+        signal: AbortSignal.timeout(TTS_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Speech synthesis failed with status ${response.status}`);
+      }
+
+      return {
+        audio: Buffer.from(await response.arrayBuffer()),
+        contentType: 'audio/mpeg',
+        format: 'mp3',
+        durationMs: null,
+      };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+// Voices offered to learners; providers map them onto their own voice names
+export const TTS_VOICES = ['male', 'female', 'neutral'] as const;
+
+export type TtsVoice = (typeof TTS_VOICES)[number];
+
+export const DEFAULT_TTS_VOICE: TtsVoice = 'female';
+
+// Speaking rate multiplier: 1 is normal speed, below 1 is slower
+export const MIN_SPEAKING_RATE = 0.5;
+export const MAX_SPEAKING_RATE = 2;
+export const DEFAULT_SPEAKING_RATE = 1;
+
+export interface TtsRequest {
+  text: string;
+  language: string;
+  voice: TtsVoice;
+  rate: number;
+  // Learner the speech is synthesized for; calls with a user are recorded in their AI usage
+  userId?: string;
+}
+
+export interface TtsAudio {
+  audio: Buffer;
+  contentType: string;
+  // File extension used for the stored audio
+  format: string;
+  // Length of the audio, when the provider can tell
+  durationMs: number | null;
+}
+
+export interface TtsProvider {
+  name: string;
+  synthesize(request: TtsRequest): Promise<TtsAudio>;
+}
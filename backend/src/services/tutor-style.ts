@@ -0,0 +1,147 @@
+import type { App } from '../index.js';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { SOURCE_LANGUAGE, type TargetLanguage } from './languages.js';
+
+// Style used for options neither the learner's defaults nor the conversation set
+export const DEFAULT_TUTOR_STYLE: schema.TutorStyle = {
+  persona: 'tutor',
+  strictness: 'balanced',
+  address: 'informal',
+  englishUse: 'some',
+  replyLength: 'medium',
+};
+
+// Changes to stored settings; null removes an option so it falls back again
+export type TutorStyleChanges = { [K in keyof schema.TutorStyle]?: schema.TutorStyle[K] | null };
+
+const TUTOR_STYLE_OPTIONS = {
+  persona: schema.TUTOR_PERSONAS,
+  strictness: schema.CORRECTION_STRICTNESS,
+  address: schema.FORMS_OF_ADDRESS,
+  englishUse: schema.ENGLISH_USE,
+  replyLength: schema.REPLY_LENGTHS,
+};
+
+// JSON schemas of tutor style settings for request and response bodies; the update schema also takes null
+export const TUTOR_STYLE_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  properties: Object.fromEntries(
+    Object.entries(TUTOR_STYLE_OPTIONS).map(([key, options]) => [key, { type: 'string', enum: [...options] }])
+  ),
+};
+
+export const TUTOR_STYLE_UPDATE_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  properties: Object.fromEntries(
+    Object.entries(TUTOR_STYLE_OPTIONS).map(([key, options]) => [key, { type: ['string', 'null'], enum: [...options, null] }])
+  ),
+};
+
+// The formal and informal "you" of each language
+const FORMS_OF_ADDRESS: Record<TargetLanguage, Record<schema.TutorStyle['address'], string>> = {
+  Latvian: { formal: 'jūs', informal: 'tu' },
+  Lithuanian: { formal: 'jūs', informal: 'tu' },
+  Estonian: { formal: 'teie', informal: 'sina' },
+};
+
+const PERSONA_INSTRUCTIONS: Record<schema.TutorStyle['persona'], string> = {
+  tutor: 'Act as a patient, encouraging tutor.',
+  friendly_peer:
+    "Act as a friendly peer rather than a teacher: chat casually about everyday life, share your own opinions and experiences, and ask about the student's.",
+  strict_teacher:
+    'Act as a strict, demanding teacher: expect precise answers, keep the conversation focused on practice and ask the student to repeat corrected sentences.',
+  riga_local:
+    'Act as a local from Riga: talk about life in the city, its neighbourhoods, food, events and customs, and use the everyday expressions locals use.',
+};
+
+const STRICTNESS_INSTRUCTIONS: Record<schema.TutorStyle['strictness'], string> = {
+  gentle: 'Only correct mistakes that get in the way of understanding, and keep corrections short so the conversation keeps flowing.',
+  balanced: 'Correct the important grammar and vocabulary mistakes, and let small slips pass when they do not change the meaning.',
+  strict: 'Correct every mistake, including small ones in endings, diacritics and word order, and explain each correction.',
+};
+
+const REPLY_LENGTH_INSTRUCTIONS: Record<schema.TutorStyle['replyLength'], string> = {
+  short: 'Keep your replies short: one or two sentences.',
+  medium: 'Keep your replies to about three to five sentences.',
+  long: 'Give detailed replies of several paragraphs where the topic allows.',
+};
+
+function englishUseInstruction(englishUse: schema.TutorStyle['englishUse'], language: string): string {
+  switch (englishUse) {
+    case 'none':
+      return `Do not use ${SOURCE_LANGUAGE}. When the student does not understand, explain with simpler ${language} words instead.`;
+    case 'some':
+      return `Provide translations or ${SOURCE_LANGUAGE} explanations when needed for comprehension.`;
+    case 'plenty':
+      return `Explain grammar and new words in ${SOURCE_LANGUAGE}, and add ${SOURCE_LANGUAGE} translations of sentences with new words.`;
+  }
+}
+
+function addressInstruction(address: schema.TutorStyle['address'], language: string): string {
+  const forms = FORMS_OF_ADDRESS[language as TargetLanguage];
+  const register = address === 'formal' ? 'formally' : 'informally';
+  return forms
+    ? `Address the student ${register}, using "${forms[address]}".`
+    : `Address the student ${register}.`;
+}
+
+// Layer stored settings over the defaults, later layers winning
+export function resolveTutorStyle(...layers: schema.TutorStyleSettings[]): schema.TutorStyle {
+  const style = { ...DEFAULT_TUTOR_STYLE };
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined && value !== null) {
+        Object.assign(style, { [key]: value });
+      }
+    }
+  }
+  return style;
+}
+
+// Apply changes to stored settings
+export function applyTutorStyleChanges(
+  settings: schema.TutorStyleSettings,
+  changes: TutorStyleChanges
+): schema.TutorStyleSettings {
+  const updated: Record<string, string> = { ...settings };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete updated[key];
+    } else if (value !== undefined) {
+      updated[key] = value;
+    }
+  }
+  return updated as schema.TutorStyleSettings;
+}
+
+// The learner's defaults with the conversation's overrides on top
+export async function getConversationTutorStyle(
+  app: App,
+  conversation: typeof schema.conversations.$inferSelect
+): Promise<schema.TutorStyle> {
+  const profile = await app.db
+    .select({ tutorStyle: schema.userProfiles.tutorStyle })
+    .from(schema.userProfiles)
+    .where(eq(schema.userProfiles.userId, conversation.userId))
+    .then((result) => result[0]);
+
+  return resolveTutorStyle(profile?.tutorStyle ?? {}, conversation.tutorStyle);
+}
+
+// Teaching style instructions for the tutor system prompt
+// A role-play scenario brings its own character, so the persona is left out when the conversation has one
+export function buildTutorStylePrompt(style: schema.TutorStyle, language: string, hasScenario: boolean): string {
+  const instructions = [
+    ...(hasScenario ? [] : [PERSONA_INSTRUCTIONS[style.persona]]),
+    STRICTNESS_INSTRUCTIONS[style.strictness],
+    addressInstruction(style.address, language),
+    englishUseInstruction(style.englishUse, language),
+    REPLY_LENGTH_INSTRUCTIONS[style.replyLength],
+  ];
+
+  return `Teaching style:
+${instructions.map((instruction) => `- ${instruction}`).join('\n')}`;
+}
@@ -0,0 +1,158 @@
+import type { App } from '../index.js';
+import { and, count, eq, gte, sql } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { setAiUsageRecorder, type AiCallRecord } from './ai/index.js';
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+const DEFAULT_DAILY_REQUEST_QUOTA = 300;
+const DEFAULT_DAILY_TOKEN_QUOTA = 200_000;
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+export interface UsageLimits {
+  // Model calls per learner per UTC day
+  dailyRequests: number;
+  // Input and output tokens per learner per UTC day
+  dailyTokens: number;
+  // Requests to the routes that call models, per learner per minute
+  requestsPerMinute: number;
+}
+
+export interface UsageAllowance {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface UsageReport {
+  // Start of the current UTC day and when the daily allowance resets
+  periodStart: string;
+  resetsAt: string;
+  requests: UsageAllowance;
+  tokens: UsageAllowance;
+  rateLimit: UsageAllowance & { windowSeconds: number };
+}
+
+export interface UsageDenial {
+  error: string;
+  retryAfterSeconds: number;
+}
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+}
+
+// Resolve the limits, letting AI_DAILY_REQUEST_QUOTA, AI_DAILY_TOKEN_QUOTA and AI_RATE_LIMIT_PER_MINUTE override the defaults
+export function getUsageLimits(env: NodeJS.ProcessEnv = process.env): UsageLimits {
+  return {
+    dailyRequests: positiveNumber(env.AI_DAILY_REQUEST_QUOTA, DEFAULT_DAILY_REQUEST_QUOTA),
+    dailyTokens: positiveNumber(env.AI_DAILY_TOKEN_QUOTA, DEFAULT_DAILY_TOKEN_QUOTA),
+    requestsPerMinute: positiveNumber(env.AI_RATE_LIMIT_PER_MINUTE, DEFAULT_REQUESTS_PER_MINUTE),
+  };
+}
+
+const limits = getUsageLimits();
+
+// Start times of each learner's requests within the last rate limit window
+// Kept in memory, so every instance enforces the rate limit on its own
+const recentRequests = new Map<string, number[]>();
+
+function requestsInWindow(userId: string, now: number): number[] {
+  const times = (recentRequests.get(userId) ?? []).filter((time) => time > now - RATE_LIMIT_WINDOW_MS);
+  if (times.length > 0) {
+    recentRequests.set(userId, times);
+  } else {
+    recentRequests.delete(userId);
+  }
+  return times;
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+async function getDailyUsage(app: App, userId: string, since: Date): Promise<{ requests: number; tokens: number }> {
+  const [row] = await app.db
+    .select({
+      requests: count(),
+      tokens: sql<string>`coalesce(sum(coalesce(${schema.aiUsage.inputTokens}, 0) + coalesce(${schema.aiUsage.outputTokens}, 0)), 0)`,
+    })
+    .from(schema.aiUsage)
+    .where(and(eq(schema.aiUsage.userId, userId), gte(schema.aiUsage.createdAt, since)));
+
+  return { requests: row.requests, tokens: Number(row.tokens) };
+}
+
+function allowance(used: number, limit: number): UsageAllowance {
+  return { used, limit, remaining: Math.max(0, limit - used) };
+}
+
+// Store one model call in the ai_usage table
+// Failures are logged so a reply is never lost over its accounting
+export async function recordAiCall(app: App, record: AiCallRecord): Promise<void> {
+  try {
+    await app.db.insert(schema.aiUsage).values({
+      userId: record.userId,
+      task: record.task,
+      purpose: record.purpose,
+      model: record.model,
+      status: record.status,
+      inputTokens: record.usage.inputTokens,
+      outputTokens: record.usage.outputTokens,
+      latencyMs: record.latencyMs,
+    });
+  } catch (error) {
+    app.logger.error({ err: error, userId: record.userId, task: record.task }, 'Failed to record AI usage');
+  }
+}
+
+// Record the usage of every model call the shared AI provider makes for a learner
+export function registerAiUsageRecording(app: App): void {
+  setAiUsageRecorder((record) => recordAiCall(app, record));
+}
+
+export async function getUsageReport(app: App, userId: string): Promise<UsageReport> {
+  const now = new Date();
+  const periodStart = startOfUtcDay(now);
+  const resetsAt = new Date(periodStart.getTime() + 24 * 60 * 60 * 1000);
+  const daily = await getDailyUsage(app, userId, periodStart);
+
+  return {
+    periodStart: periodStart.toISOString(),
+    resetsAt: resetsAt.toISOString(),
+    requests: allowance(daily.requests, limits.dailyRequests),
+    tokens: allowance(daily.tokens, limits.dailyTokens),
+    rateLimit: {
+      ...allowance(requestsInWindow(userId, now.getTime()).length, limits.requestsPerMinute),
+      windowSeconds: RATE_LIMIT_WINDOW_MS / 1000,
+    },
+  };
+}
+
+// Check a request to a route that calls models against the learner's daily quotas and rate limit
+// Returns null and counts the request if it may go ahead, or the reason it may not and when to retry
+export async function checkUsageAllowance(app: App, userId: string): Promise<UsageDenial | null> {
+  const now = new Date();
+  const periodStart = startOfUtcDay(now);
+  const daily = await getDailyUsage(app, userId, periodStart);
+
+  if (daily.requests >= limits.dailyRequests || daily.tokens >= limits.dailyTokens) {
+    const resetsAt = periodStart.getTime() + 24 * 60 * 60 * 1000;
+    return {
+      error: 'Daily AI usage quota exceeded',
+      retryAfterSeconds: Math.ceil((resetsAt - now.getTime()) / 1000),
+    };
+  }
+
+  const times = requestsInWindow(userId, now.getTime());
+  if (times.length >= limits.requestsPerMinute) {
+    return {
+      error: 'Too many requests',
+      retryAfterSeconds: Math.max(1, Math.ceil((times[0] + RATE_LIMIT_WINDOW_MS - now.getTime()) / 1000)),
+    };
+  }
+
+  recentRequests.set(userId, [...times, now.getTime()]);
+  return null;
+}
@@ -0,0 +1,350 @@
+import type { App } from '../index.js';
+import { asc, eq, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { ai } from './ai/index.js';
+import { lemmatize } from './morphology/index.js';
+import { SOURCE_LANGUAGE } from './languages.js';
+
+export type Gender = 'masculine' | 'feminine';
+
+export interface VocabularyPair {
+  // Word as it appears in the reply
+  term: string;
+  // Dictionary form, part of speech and noun gender; null when the pattern fallback found the pair
+  lemma: string | null;
+  partOfSpeech: schema.PartOfSpeech | null;
+  gender: Gender | null;
+  translation: string;
+  context: string;
+}
+
+// Shape the extraction model must answer in; every item is checked against it before it is saved
+export const VOCABULARY_ITEM_SCHEMA = {
+  type: 'object',
+  required: ['surface', 'lemma', 'partOfSpeech', 'gender', 'translation', 'example'],
+  properties: {
+    surface: { type: 'string', minLength: 1 },
+    lemma: { type: 'string', minLength: 1 },
+    partOfSpeech: { type: 'string', enum: [...schema.PARTS_OF_SPEECH] },
+    gender: { type: ['string', 'null'], enum: ['masculine', 'feminine', null] },
+    translation: { type: 'string', minLength: 1 },
+    example: { type: 'string', minLength: 1 },
+  },
+} as const;
+
+export const VOCABULARY_EXTRACTION_SCHEMA = {
+  type: 'object',
+  required: ['items'],
+  properties: {
+    items: { type: 'array', items: VOCABULARY_ITEM_SCHEMA },
+  },
+} as const;
+
+interface PropertySchema {
+  type: string | readonly string[];
+  enum?: readonly (string | null)[];
+  minLength?: number;
+}
+
+interface ExtractedItem {
+  surface: string;
+  lemma: string;
+  partOfSpeech: schema.PartOfSpeech;
+  gender: Gender | null;
+  translation: string;
+  example: string;
+}
+
+// Check a value against VOCABULARY_ITEM_SCHEMA: required properties, their types, enums and minimum lengths
+function isExtractedItem(value: unknown): value is ExtractedItem {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const item = value as Record<string, unknown>;
+  const properties: Record<string, PropertySchema> = VOCABULARY_ITEM_SCHEMA.properties;
+
+  return VOCABULARY_ITEM_SCHEMA.required.every((name) => {
+    const property = properties[name];
+    const field = item[name];
+    const types: readonly string[] = typeof property.type === 'string' ? [property.type] : property.type;
+    const type = field === null ? 'null' : typeof field;
+
+    if (!types.includes(type)) {
+      return false;
+    }
+    if (property.enum && !property.enum.includes(field as string | null)) {
+      return false;
+    }
+    if (typeof field === 'string' && property.minLength !== undefined && field.trim().length < property.minLength) {
+      return false;
+    }
+    return true;
+  });
+}
+
+// Strip a markdown code fence the model sometimes wraps around JSON output
+function stripCodeFence(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+}
+
+function buildVocabularyPrompt(language: string, reply: string): string {
+  return `You are building a vocabulary list for a student of ${language} from a tutor's reply. Pick the ${language} words and fixed phrases in the reply that are worth learning, at most 8. Skip names, placeholders and words in other languages.
+For each item give the form used in the reply, its dictionary form (nominative singular for nouns, infinitive for verbs), its part of speech, the gender for nouns (null otherwise), its ${SOURCE_LANGUAGE} translation and a short example sentence in ${language}.
+Return ONLY valid JSON matching this JSON schema, with no markdown or extra text:
+${JSON.stringify(VOCABULARY_EXTRACTION_SCHEMA)}
+Return an empty list when the reply has nothing worth learning.
+
+Tutor reply:
+${reply}`;
+}
+
+// Validate the model output, keeping only items whose surface form really occurs in the reply
+export function parseExtractedVocabulary(aiResponse: string, reply: string): VocabularyPair[] {
+  const parsed = JSON.parse(stripCodeFence(aiResponse)) as { items?: unknown };
+  if (!Array.isArray(parsed.items)) {
+    throw new Error('Vocabulary extraction response has no items list');
+  }
+
+  const replyText = reply.toLocaleLowerCase();
+
+  return parsed.items
+    .filter(isExtractedItem)
+    .filter((item) => replyText.includes(item.surface.trim().toLocaleLowerCase()))
+    .map((item) => ({
+      term: item.surface.trim(),
+      lemma: item.lemma.trim(),
+      partOfSpeech: item.partOfSpeech,
+      gender: item.partOfSpeech === 'noun' ? item.gender : null,
+      translation: item.translation.trim(),
+      context: item.example.trim(),
+    }));
+}
+
+// Ask the extraction model for the vocabulary of a tutor reply
+// Throws when the call fails or the answer does not match VOCABULARY_EXTRACTION_SCHEMA
+export async function extractVocabularyWithModel(
+  conversation: typeof schema.conversations.$inferSelect,
+  reply: string
+): Promise<VocabularyPair[]> {
+  const result = await ai.generateText({
+    task: 'extraction',
+    purpose: 'vocabulary',
+    prompt: buildVocabularyPrompt(conversation.language, reply),
+    userId: conversation.userId,
+  });
+
+  return parseExtractedVocabulary(result.text, reply);
+}
+
+// Fallback extractor used when the model is unavailable or answers in the wrong shape
+// Looks for patterns like: "word (translation)" or "word - translation"
+// Words are matched by Unicode letter class so diacritics in any language (ā, ė, õ) stay part of the word
+export function extractVocabulary(text: string): VocabularyPair[] {
+  const vocabulary: VocabularyPair[] = [];
+  const seen = new Set<string>();
+
+  // Pattern 1: "word (translation)" or "word(translation)"
+  const pattern1 = /([\p{L}\p{M}]+)\s*\(([^)]+)\)/gu;
+  let match;
+
+  while ((match = pattern1.exec(text)) !== null) {
+    const word = match[1].trim();
+    const translation = match[2].trim();
+
+    // Create unique key to avoid duplicates
+    const key = `${word.toLowerCase()}-${translation.toLowerCase()}`;
+
+    if (!seen.has(key) && word.length > 1 && translation.length > 1) {
+      seen.add(key);
+
+      // Extract surrounding context (sentence containing the vocabulary)
+      const start = Math.max(0, match.index - 50);
+      const end = Math.min(text.length, match.index + match[0].length + 50);
+      const context = text.substring(start, end).trim();
+
+      vocabulary.push({
+        term: word,
+        lemma: null,
+        partOfSpeech: null,
+        gender: null,
+        translation,
+        context,
+      });
+    }
+  }
+
+  // Pattern 2: "word - translation" or "word — translation"
+  // The dash must be spaced so hyphenated words such as "well-known" are not split into pairs
+  const pattern2 = /([\p{L}\p{M}]+)\s+[-–—]\s+([^.,\n]+)/gu;
+
+  while ((match = pattern2.exec(text)) !== null) {
+    const word = match[1].trim();
+    const translation = match[2].trim();
+
+    // Skip if translation contains multiple words with hyphens (likely not a vocabulary pair)
+    if (translation.split(/\s+/).length > 3) {
+      continue;
+    }
+
+    const key = `${word.toLowerCase()}-${translation.toLowerCase()}`;
+
+    if (!seen.has(key) && word.length > 1 && translation.length > 1) {
+      seen.add(key);
+
+      const start = Math.max(0, match.index - 50);
+      const end = Math.min(text.length, match.index + match[0].length + 50);
+      const context = text.substring(start, end).trim();
+
+      vocabulary.push({
+        term: word,
+        lemma: null,
+        partOfSpeech: null,
+        gender: null,
+        translation,
+        context,
+      });
+    }
+  }
+
+  return vocabulary;
+}
+
+// Dictionary form a word is stored and deduplicated under, in lower case
+// The local lemmatizer wins when its lexicon knows the word; otherwise the model's lemma is trusted over the
+// lemmatizer's guess from the ending
+export function resolveLemma(language: string, word: { term: string; lemma: string | null }): string {
+  const local = lemmatize(language, word.term);
+  if (local?.known) {
+    return local.lemma;
+  }
+  return (word.lemma ?? local?.lemma ?? word.term).trim().toLocaleLowerCase();
+}
+
+// Extract vocabulary from a tutor reply and save it for the conversation, one word per dictionary form
+// Words already stored for the conversation, and repeats within the reply, only gain an occurrence, so
+// "skolā" and "skolas" are both kept as forms of "skola"
+// Saved words are linked to the reply they were first seen in so they are removed with it, and tagged with the conversation's language
+// Returns the newly saved words
+export async function saveReplyVocabulary(
+  app: App,
+  conversation: typeof schema.conversations.$inferSelect,
+  messageId: string,
+  reply: string
+): Promise<VocabularyPair[]> {
+  const conversationId = conversation.id;
+  app.logger.info({ conversationId, messageId }, 'Extracting vocabulary from AI response');
+
+  let vocabularyPairs: VocabularyPair[];
+  try {
+    vocabularyPairs = await extractVocabularyWithModel(conversation, reply);
+  } catch (error) {
+    app.logger.warn({ err: error, conversationId, messageId }, 'Model vocabulary extraction failed, falling back to pattern extraction');
+    vocabularyPairs = extractVocabulary(reply);
+  }
+
+  if (vocabularyPairs.length === 0) {
+    return [];
+  }
+
+  // Check which words already exist for this conversation
+  const existingVocab = await app.db
+    .select()
+    .from(schema.vocabulary)
+    .where(eq(schema.vocabulary.conversationId, conversationId));
+
+  const existingIds = new Map<string, string>(existingVocab.map((v) => [resolveLemma(conversation.language, v), v.id]));
+
+  // Group the reply's pairs by dictionary form, keeping every surface form
+  const newWords = new Map<string, { word: VocabularyPair; forms: VocabularyPair[] }>();
+  const repeatedOccurrences: (typeof schema.vocabularyOccurrences.$inferInsert)[] = [];
+
+  for (const pair of vocabularyPairs) {
+    const lemma = resolveLemma(conversation.language, pair);
+    const existingId = existingIds.get(lemma);
+
+    if (existingId) {
+      repeatedOccurrences.push({ vocabularyId: existingId, messageId, term: pair.term, context: pair.context });
+    } else if (newWords.has(lemma)) {
+      newWords.get(lemma)!.forms.push(pair);
+    } else {
+      newWords.set(lemma, { word: { ...pair, term: lemma, lemma }, forms: [pair] });
+    }
+  }
+
+  const occurrences = [...repeatedOccurrences];
+  const newVocabulary = [...newWords.values()];
+
+  if (newVocabulary.length > 0) {
+    const saved = await app.db
+      .insert(schema.vocabulary)
+      .values(
+        newVocabulary.map(({ word }) => ({
+          conversationId,
+          messageId,
+          userId: conversation.userId,
+          term: word.term,
+          lemma: word.lemma,
+          partOfSpeech: word.partOfSpeech,
+          gender: word.gender,
+          translation: word.translation,
+          targetLanguage: conversation.language,
+          sourceLanguage: SOURCE_LANGUAGE,
+          context: word.context,
+        }))
+      )
+      .returning({ id: schema.vocabulary.id });
+
+    // Inserted rows come back in insertion order
+    newVocabulary.forEach(({ forms }, index) => {
+      for (const form of forms) {
+        occurrences.push({ vocabularyId: saved[index].id, messageId, term: form.term, context: form.context });
+      }
+    });
+
+    app.logger.info({ conversationId, count: newVocabulary.length }, 'Vocabulary items saved');
+  }
+
+  // A rerun of the job, e.g. after its lock timed out, finds the occurrences it already saved
+  if (occurrences.length > 0) {
+    await app.db.insert(schema.vocabularyOccurrences).values(occurrences).onConflictDoNothing();
+  }
+
+  return newVocabulary.map(({ word }) => word);
+}
+
+export interface VocabularyOccurrence {
+  term: string;
+  context: string | null;
+  messageId: string | null;
+  createdAt: string;
+}
+
+// Load the occurrences of a set of vocabulary words, oldest first, grouped by word id
+export async function getOccurrencesByVocabulary(
+  app: App,
+  vocabularyIds: string[]
+): Promise<Map<string, VocabularyOccurrence[]>> {
+  const grouped = new Map<string, VocabularyOccurrence[]>();
+  if (vocabularyIds.length === 0) {
+    return grouped;
+  }
+
+  const rows = await app.db
+    .select()
+    .from(schema.vocabularyOccurrences)
+    .where(inArray(schema.vocabularyOccurrences.vocabularyId, vocabularyIds))
+    .orderBy(asc(schema.vocabularyOccurrences.createdAt));
+
+  for (const row of rows) {
+    const list = grouped.get(row.vocabularyId) ?? [];
+    list.push({
+      term: row.term,
+      context: row.context,
+      messageId: row.messageId,
+      createdAt: row.createdAt.toISOString(),
+    });
+    grouped.set(row.vocabularyId, list);
+  }
+
+  return grouped;
+}
@@ -0,0 +1,201 @@
+import type { App } from '../index.js';
+import { and, eq, gte, isNotNull, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema/schema.js';
+import { PLACEMENT_ITEMS } from './placement/index.js';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const DEFAULT_WEAKNESS_WEEKS = 8;
+export const MAX_WEAKNESS_WEEKS = 52;
+
+// Weeks of mistakes the tutor looks at when choosing topics to practise, and how many it is given
+const STEERING_WEEKS = 4;
+const STEERING_TOPICS = 3;
+// Topics with fewer mistakes than this are not treated as weaknesses
+const MIN_STEERING_MISTAKES = 2;
+
+// A half of the period with at least this much change against the other half counts as a trend
+const TREND_THRESHOLD = 0.25;
+
+export const GRAMMAR_TOPIC_LABELS: Record<schema.GrammarTopic, string> = {
+  nominative_case: 'Nominative case',
+  genitive_case: 'Genitive case',
+  dative_case: 'Dative case',
+  accusative_case: 'Accusative case',
+  locative_case: 'Locative case',
+  vocative_case: 'Vocative case',
+  noun_declension: 'Noun declension',
+  adjective_agreement: 'Adjective agreement',
+  definite_adjective_endings: 'Definite adjective endings',
+  pronouns: 'Pronouns',
+  numerals: 'Numerals',
+  present_tense: 'Present tense',
+  past_tense: 'Past tense',
+  future_tense: 'Future tense',
+  verb_conjugation: 'Verb conjugation',
+  reflexive_verbs: 'Reflexive verbs',
+  imperative_mood: 'Imperative mood',
+  conditional_mood: 'Conditional mood',
+  debitive_mood: 'Debitive mood',
+  oblique_mood: 'Oblique (reported) mood',
+  participles: 'Participles',
+  passive_voice: 'Passive voice',
+  prepositions: 'Prepositions',
+  negation: 'Negation',
+  word_order: 'Word order',
+  spelling_diacritics: 'Spelling and diacritics',
+  word_choice: 'Word choice',
+  other: 'Other',
+};
+
+export type WeaknessTrend = 'improving' | 'steady' | 'worsening';
+
+export interface WeaknessWeek {
+  // Monday the week starts on (UTC)
+  weekStart: string;
+  mistakes: number;
+}
+
+export interface TopicWeakness {
+  topic: schema.GrammarTopic;
+  label: string;
+  mistakes: number;
+  // Mistakes found by tutor corrections and by exercises (placement test answers)
+  corrections: number;
+  exerciseMistakes: number;
+  lastSeenAt: string;
+  // Mistakes in the second half of the period against the first half
+  trend: WeaknessTrend;
+  weekly: WeaknessWeek[];
+}
+
+export interface WeaknessReport {
+  since: string;
+  weeks: number;
+  topics: TopicWeakness[];
+}
+
+interface Mistake {
+  topic: schema.GrammarTopic;
+  source: 'correction' | 'exercise';
+  at: Date;
+}
+
+const TOPIC_BY_ITEM = new Map(PLACEMENT_ITEMS.map((item) => [item.id, item.topic]));
+
+// Monday 00:00 UTC of the week containing the date
+function startOfUtcWeek(date: Date): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - sinceMonday * 24 * 60 * 60 * 1000);
+}
+
+function trendOf(weekly: WeaknessWeek[]): WeaknessTrend {
+  const half = Math.floor(weekly.length / 2);
+  if (half === 0) {
+    return 'steady';
+  }
+  const sum = (weeks: WeaknessWeek[]) => weeks.reduce((total, week) => total + week.mistakes, 0);
+  const earlier = sum(weekly.slice(0, half));
+  const later = sum(weekly.slice(weekly.length - half));
+
+  if (later > earlier * (1 + TREND_THRESHOLD)) {
+    return 'worsening';
+  }
+  if (later < earlier * (1 - TREND_THRESHOLD)) {
+    return 'improving';
+  }
+  return 'steady';
+}
+
+// Classified correction topics and wrong grammar exercise answers of a learner since the given date
+// Corrections copied into forks are left out, as the mistake was already counted in the conversation it was made in
+async function getMistakes(app: App, userId: string, since: Date): Promise<Mistake[]> {
+  const corrections = await app.db
+    .select({ topic: schema.messageCorrections.topic, createdAt: schema.messageCorrections.createdAt })
+    .from(schema.messageCorrections)
+    .innerJoin(schema.messages, eq(schema.messageCorrections.messageId, schema.messages.id))
+    .innerJoin(schema.conversations, eq(schema.messages.conversationId, schema.conversations.id))
+    .where(
+      and(
+        eq(schema.conversations.userId, userId),
+        isNotNull(schema.messageCorrections.topic),
+        isNull(schema.messageCorrections.copiedFromId),
+        gte(schema.messageCorrections.createdAt, since)
+      )
+    );
+
+  const wrongAnswers = await app.db
+    .select({ itemId: schema.placementAnswers.itemId, createdAt: schema.placementAnswers.createdAt })
+    .from(schema.placementAnswers)
+    .innerJoin(schema.placementTests, eq(schema.placementAnswers.testId, schema.placementTests.id))
+    .where(
+      and(
+        eq(schema.placementTests.userId, userId),
+        eq(schema.placementAnswers.correct, false),
+        gte(schema.placementAnswers.createdAt, since)
+      )
+    );
+
+  const mistakes: Mistake[] = corrections.map((row) => ({ topic: row.topic!, source: 'correction', at: row.createdAt }));
+
+  for (const row of wrongAnswers) {
+    const topic = TOPIC_BY_ITEM.get(row.itemId);
+    if (topic) {
+      mistakes.push({ topic, source: 'exercise', at: row.createdAt });
+    }
+  }
+
+  return mistakes;
+}
+
+// Aggregate a learner's mistakes by grammar topic over the last `weeks` calendar weeks, including the current one
+// Topics are ordered by mistakes, most first; topics without mistakes are left out
+export async function getWeaknessReport(app: App, userId: string, weeks = DEFAULT_WEAKNESS_WEEKS): Promise<WeaknessReport> {
+  const since = new Date(startOfUtcWeek(new Date()).getTime() - (weeks - 1) * WEEK_MS);
+  const mistakes = await getMistakes(app, userId, since);
+
+  const byTopic = new Map<schema.GrammarTopic, Mistake[]>();
+  for (const mistake of mistakes) {
+    const list = byTopic.get(mistake.topic) ?? [];
+    list.push(mistake);
+    byTopic.set(mistake.topic, list);
+  }
+
+  const topics = [...byTopic.entries()].map(([topic, list]): TopicWeakness => {
+    const weekly = Array.from({ length: weeks }, (_, index) => ({
+      weekStart: new Date(since.getTime() + index * WEEK_MS).toISOString().slice(0, 10),
+      mistakes: 0,
+    }));
+    for (const mistake of list) {
+      weekly[Math.min(weeks - 1, Math.floor((mistake.at.getTime() - since.getTime()) / WEEK_MS))].mistakes++;
+    }
+
+    const corrections = list.filter((mistake) => mistake.source === 'correction').length;
+    const lastSeenAt = new Date(Math.max(...list.map((mistake) => mistake.at.getTime())));
+
+    return {
+      topic,
+      label: GRAMMAR_TOPIC_LABELS[topic],
+      mistakes: list.length,
+      corrections,
+      exerciseMistakes: list.length - corrections,
+      lastSeenAt: lastSeenAt.toISOString(),
+      trend: trendOf(weekly),
+      weekly,
+    };
+  });
+
+  topics.sort((a, b) => b.mistakes - a.mistakes || b.lastSeenAt.localeCompare(a.lastSeenAt));
+
+  return { since: since.toISOString(), weeks, topics };
+}
+
+// The grammar topics a learner has recently struggled with most, for steering the tutor toward practising them
+// "Other" and word choice are left out since they give the tutor nothing specific to practise
+export async function getWeakestTopics(app: App, userId: string): Promise<TopicWeakness[]> {
+  const report = await getWeaknessReport(app, userId, STEERING_WEEKS);
+  return report.topics
+    .filter((topic) => topic.mistakes >= MIN_STEERING_MISTAKES && topic.topic !== 'other' && topic.topic !== 'word_choice')
+    .slice(0, STEERING_TOPICS);
+}
@@ -24,14 +24,14 @@ describe("API Integration Tests", () => {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           language: "Spanish",
-          level: "beginner",
+          level: "A1",
         }),
       });
       await expectStatus(res, 201);
       const data = await res.json();
       expect(data.conversationId).toBeDefined();
       expect(data.language).toBe("Spanish");
-      expect(data.level).toBe("beginner");
+      expect(data.level).toBe("A1");
       expect(data.createdAt).toBeDefined();
       conversationId = data.conversationId;
     });
@@ -42,13 +42,13 @@ describe("API Integration Tests", () => {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          level: "beginner",
+          level: "A1",
         }),
       });
       await expectStatus(res, 400);
     });
 
-    test("Create conversation without level field returns error", async () => {
+    test("Create conversation without level defaults to A1 before placement", async () => {
       const res = await authenticatedApi("/api/conversations", authToken, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -56,6 +56,20 @@ describe("API Integration Tests", () => {
           language: "Spanish",
         }),
       });
+      await expectStatus(res, 201);
+      const data = await res.json();
+      expect(data.level).toBe("A1");
+    });
+
+    test("Create conversation with a non-CEFR level returns 400", async () => {
+      const res = await authenticatedApi("/api/conversations", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          language: "Spanish",
+          level: "Beginner",
+        }),
+      });
       await expectStatus(res, 400);
     });
 
@@ -66,7 +80,7 @@ describe("API Integration Tests", () => {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           language: "French",
-          level: "intermediate",
+          level: "B1",
         }),
       });
       await expectStatus(res, 401);
@@ -82,7 +96,7 @@ describe("API Integration Tests", () => {
       const found = data.find((c: any) => c.conversationId === conversationId);
       expect(found).toBeDefined();
       expect(found.language).toBe("Spanish");
-      expect(found.level).toBe("beginner");
+      expect(found.level).toBe("A1");
       expect(found.createdAt).toBeDefined();
     });
 
@@ -91,6 +105,29 @@ describe("API Integration Tests", () => {
       const res = await api("/api/conversations");
       await expectStatus(res, 401);
     });
+
+    // READ: GET /api/conversations/{id}
+    test("Get single conversation", async () => {
+      const res = await authenticatedApi(`/api/conversations/${conversationId}`, authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.conversationId).toBe(conversationId);
+      expect(data.language).toBe("Spanish");
+      expect(data.summary).toBeNull();
+    });
+
+    test("Get single conversation without auth returns 401", async () => {
+      const res = await api(`/api/conversations/${conversationId}`);
+      await expectStatus(res, 401);
+    });
+
+    test("Get nonexistent conversation returns 404", async () => {
+      const res = await authenticatedApi(
+        "/api/conversations/00000000-0000-0000-0000-000000000000",
+        authToken
+      );
+      await expectStatus(res, 404);
+    });
   });
 
   describe("Messages - CRUD Flow", () => {
@@ -111,6 +148,25 @@ describe("API Integration Tests", () => {
       const data = await res.json();
       expect(data.response).toBeDefined();
       expect(data.messageId).toBeDefined();
+      expect(data.title).toBeDefined();
+    });
+
+    test("Send message returns structured corrections for the user message", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            message: "Yo tiene dos hermano",
+          }),
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.userMessageId).toBeDefined();
+      expect(Array.isArray(data.corrections)).toBe(true);
     });
 
     // CREATE: Missing required message field
@@ -134,85 +190,1123 @@ describe("API Integration Tests", () => {
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            message: "Test message",
-          }),
+          body: JSON.stringify({
+            message: "Test message",
+          }),
+        }
+      );
+      await expectStatus(res, 401);
+    });
+
+    // CREATE: Nonexistent conversation
+    test("Send message to nonexistent conversation returns 404", async () => {
+      const res = await authenticatedApi(
+        "/api/conversations/00000000-0000-0000-0000-000000000000/messages",
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            message: "Test message",
+          }),
+        }
+      );
+      await expectStatus(res, 404);
+    });
+
+    // CREATE: Invalid conversation UUID format
+    test("Send message with invalid conversation UUID format returns 400", async () => {
+      const res = await authenticatedApi(
+        "/api/conversations/invalid-uuid/messages",
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            message: "Test message",
+          }),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    // CREATE: POST /api/conversations/{id}/messages/stream
+    test("Stream message response as server-sent events", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages/stream`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            message: "¿Qué tal el tiempo hoy?",
+          }),
+        }
+      );
+      await expectStatus(res, 200);
+      expect(res.headers.get("content-type")).toContain("text/event-stream");
+      const body = await res.text();
+      expect(body).toContain("event: delta");
+      expect(body).toContain("event: message");
+      expect(body).toContain("event: corrections");
+      expect(body).toContain("event: jobs");
+      expect(body).toContain("event: done");
+    });
+
+    test("Stream message without message field returns error", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages/stream`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({}),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Stream message without auth returns 401", async () => {
+      const res = await api(
+        `/api/conversations/${conversationId}/messages/stream`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            message: "Test message",
+          }),
+        }
+      );
+      await expectStatus(res, 401);
+    });
+
+    test("Stream message to nonexistent conversation returns 404", async () => {
+      const res = await authenticatedApi(
+        "/api/conversations/00000000-0000-0000-0000-000000000000/messages/stream",
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            message: "Test message",
+          }),
+        }
+      );
+      await expectStatus(res, 404);
+    });
+
+    // READ: GET /api/conversations/{id}/messages
+    test("Get messages from conversation", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages`,
+        authToken
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(Array.isArray(data)).toBe(true);
+      // Should have at least user and AI response messages
+      if (data.length > 0) {
+        expect(data[0].id).toBeDefined();
+        expect(data[0].role).toBeDefined();
+        expect(data[0].content).toBeDefined();
+        expect(data[0].createdAt).toBeDefined();
+        expect(Array.isArray(data[0].corrections)).toBe(true);
+      }
+    });
+
+    test("Messages include audio fields", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages`,
+        authToken
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      for (const message of data) {
+        expect(message).toHaveProperty("audioUrl");
+        expect(message).toHaveProperty("durationMs");
+      }
+      // Typed messages have no recording
+      const typed = data.find((message: { role: string }) => message.role === "user");
+      expect(typed.audioUrl).toBeNull();
+    });
+
+    test("Messages are returned in sequence order", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages`,
+        authToken
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      const sequences = data.map((msg: { sequence: number }) => msg.sequence);
+      expect(sequences).toEqual([...sequences].sort((a: number, b: number) => a - b));
+    });
+
+    test("Page backwards through messages with a before cursor", async () => {
+      const latestRes = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages?limit=1`,
+        authToken
+      );
+      await expectStatus(latestRes, 200);
+      const latest = await latestRes.json();
+      expect(latest.length).toBe(1);
+
+      const olderRes = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages?before=${latest[0].sequence}&limit=2`,
+        authToken
+      );
+      await expectStatus(olderRes, 200);
+      const older = await olderRes.json();
+      expect(older.length).toBeGreaterThan(0);
+      expect(older.length).toBeLessThanOrEqual(2);
+      expect(older[older.length - 1].sequence).toBeLessThan(latest[0].sequence);
+    });
+
+    test("Page forwards through messages with an after cursor", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages?after=0&limit=1`,
+        authToken
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.length).toBe(1);
+      expect(data[0].sequence).toBeGreaterThan(0);
+    });
+
+    test("Get messages with out-of-range limit returns 400", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages?limit=0`,
+        authToken
+      );
+      await expectStatus(res, 400);
+    });
+
+    // READ: Unauthenticated request
+    test("Get messages without auth returns 401", async () => {
+      const res = await api(
+        `/api/conversations/${conversationId}/messages`
+      );
+      await expectStatus(res, 401);
+    });
+
+    // READ: Nonexistent conversation
+    test("Get messages from nonexistent conversation returns 404", async () => {
+      const res = await authenticatedApi(
+        "/api/conversations/00000000-0000-0000-0000-000000000000/messages",
+        authToken
+      );
+      await expectStatus(res, 404);
+    });
+
+    // READ: Invalid conversation UUID format
+    test("Get messages with invalid conversation UUID format returns 400", async () => {
+      const res = await authenticatedApi(
+        "/api/conversations/invalid-uuid/messages",
+        authToken
+      );
+      await expectStatus(res, 400);
+    });
+  });
+
+  describe("Messages - Idempotency", () => {
+    let idempotencyConversationId: string;
+
+    const sendWithKey = (targetId: string, key: string, message: string) =>
+      authenticatedApi(`/api/conversations/${targetId}/messages`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+        body: JSON.stringify({ message }),
+      });
+
+    const countMessages = async () => {
+      const res = await authenticatedApi(`/api/conversations/${idempotencyConversationId}/messages`, authToken);
+      await expectStatus(res, 200);
+      return (await res.json()).length;
+    };
+
+    test("Create conversation for idempotency tests", async () => {
+      const res = await authenticatedApi("/api/conversations", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: "Latvian", level: "A1" }),
+      });
+      await expectStatus(res, 201);
+      idempotencyConversationId = (await res.json()).conversationId;
+    });
+
+    test("Retrying with the same Idempotency-Key replays the original response", async () => {
+      const key = `retry-${Date.now()}`;
+      const first = await sendWithKey(idempotencyConversationId, key, "Labdien!");
+      await expectStatus(first, 200);
+      const original = await first.json();
+
+      const retry = await sendWithKey(idempotencyConversationId, key, "Labdien!");
+      await expectStatus(retry, 200);
+      expect(retry.headers.get("idempotent-replayed")).toBe("true");
+      const replayed = await retry.json();
+      expect(replayed.messageId).toBe(original.messageId);
+      expect(replayed.userMessageId).toBe(original.userMessageId);
+      expect(replayed.response).toBe(original.response);
+
+      expect(await countMessages()).toBe(2);
+    });
+
+    test("Concurrent requests with the same Idempotency-Key produce one exchange", async () => {
+      const key = `concurrent-${Date.now()}`;
+      const responses = await Promise.all([
+        sendWithKey(idempotencyConversationId, key, "Kā tev iet?"),
+        sendWithKey(idempotencyConversationId, key, "Kā tev iet?"),
+      ]);
+      const statuses = responses.map((res) => res.status);
+      expect(statuses).toContain(200);
+      for (const status of statuses) {
+        expect([200, 409]).toContain(status);
+      }
+
+      expect(await countMessages()).toBe(4);
+    });
+
+    test("Reusing an Idempotency-Key in another conversation returns 422", async () => {
+      const key = `reused-${Date.now()}`;
+      const first = await sendWithKey(idempotencyConversationId, key, "Paldies!");
+      await expectStatus(first, 200);
+
+      const res = await sendWithKey(conversationId, key, "Paldies!");
+      await expectStatus(res, 422);
+    });
+
+    test("Send message with an overlong Idempotency-Key returns 400", async () => {
+      const res = await sendWithKey(idempotencyConversationId, "k".repeat(256), "Sveiki!");
+      await expectStatus(res, 400);
+    });
+
+    test("A key whose reply was regenerated is not replayed", async () => {
+      const key = `regenerated-${Date.now()}`;
+      const first = await sendWithKey(idempotencyConversationId, key, "Uz redzēšanos!");
+      await expectStatus(first, 200);
+      const original = await first.json();
+
+      const regenerate = await authenticatedApi(
+        `/api/conversations/${idempotencyConversationId}/messages/${original.messageId}/regenerate`,
+        authToken,
+        { method: "POST" }
+      );
+      await expectStatus(regenerate, 200);
+
+      const retry = await sendWithKey(idempotencyConversationId, key, "Uz redzēšanos!");
+      await expectStatus(retry, 200);
+      expect(retry.headers.get("idempotent-replayed")).toBeNull();
+      const data = await retry.json();
+      expect(data.messageId).not.toBe(original.messageId);
+    });
+  });
+
+  describe("Jobs - /api/conversations/{id}/jobs", () => {
+    let queuedJobIds: string[] = [];
+
+    test("Send message queues enrichment jobs", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: "Man patīk kafija" }),
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(Array.isArray(data.jobs)).toBe(true);
+      const types = data.jobs.map((job: any) => job.type);
+      expect(types).toContain("extract-vocabulary");
+      expect(types).toContain("generate-audio");
+      queuedJobIds = data.jobs.map((job: any) => job.id);
+    });
+
+    test("Queued jobs complete in the background", async () => {
+      let jobs: any[] = [];
+      for (let attempt = 0; attempt < 30; attempt++) {
+        const res = await authenticatedApi(`/api/conversations/${conversationId}/jobs`, authToken);
+        await expectStatus(res, 200);
+        jobs = (await res.json()).filter((job: any) => queuedJobIds.includes(job.id));
+        if (jobs.length === queuedJobIds.length && jobs.every((job: any) => job.status === "completed" || job.status === "dead")) {
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+      expect(jobs.length).toBe(queuedJobIds.length);
+      for (const job of jobs) {
+        expect(job.status).toBe("completed");
+        expect(job.completedAt).toBeDefined();
+      }
+    });
+
+    test("List jobs without auth returns 401", async () => {
+      const res = await api(`/api/conversations/${conversationId}/jobs`);
+      await expectStatus(res, 401);
+    });
+
+    test("List jobs of a nonexistent conversation returns 404", async () => {
+      const res = await authenticatedApi("/api/conversations/00000000-0000-0000-0000-000000000000/jobs", authToken);
+      await expectStatus(res, 404);
+    });
+  });
+
+  describe("Messages - Edit and Regenerate", () => {
+    let userMessageId: string;
+    let replyId: string;
+
+    test("Send message to edit", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: "Es dzivoju Riga" }),
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      userMessageId = data.userMessageId;
+      replyId = data.messageId;
+    });
+
+    test("Edit user message and get a new reply", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages/${userMessageId}`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: "Es dzīvoju Rīgā" }),
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.userMessageId).toBe(userMessageId);
+      expect(data.messageId).not.toBe(replyId);
+      expect(data.response).toBeDefined();
+      expect(Array.isArray(data.corrections)).toBe(true);
+      replyId = data.messageId;
+    });
+
+    test("Edited message replaces the old exchange", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages`,
+        authToken
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      const edited = data.find((msg: { id: string }) => msg.id === userMessageId);
+      expect(edited.content).toBe("Es dzīvoju Rīgā");
+      expect(data[data.length - 1].id).toBe(replyId);
+    });
+
+    test("Edit whose reply fails leaves the old exchange in place", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages/${userMessageId}`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          // The stub tutor fails on this marker
+          body: JSON.stringify({ message: "Es dzīvoju Liepājā [stub-failure]" }),
+        }
+      );
+      await expectStatus(res, 500);
+
+      const messagesRes = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages`,
+        authToken
+      );
+      await expectStatus(messagesRes, 200);
+      const data = await messagesRes.json();
+      const edited = data.find((msg: { id: string }) => msg.id === userMessageId);
+      expect(edited.content).toBe("Es dzīvoju Rīgā");
+      expect(data[data.length - 1].id).toBe(replyId);
+    });
+
+    test("Edit message with blank text returns 400", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages/${userMessageId}`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: "   " }),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Edit assistant message returns 400", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages/${replyId}`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: "Labdien" }),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Edit message without auth returns 401", async () => {
+      const res = await api(
+        `/api/conversations/${conversationId}/messages/${userMessageId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: "Labdien" }),
+        }
+      );
+      await expectStatus(res, 401);
+    });
+
+    test("Edit nonexistent message returns 404", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages/00000000-0000-0000-0000-000000000000`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: "Labdien" }),
+        }
+      );
+      await expectStatus(res, 404);
+    });
+
+    test("Regenerate assistant reply", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages/${replyId}/regenerate`,
+        authToken,
+        { method: "POST" }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.userMessageId).toBe(userMessageId);
+      expect(data.messageId).not.toBe(replyId);
+      expect(data.response).toBeDefined();
+    });
+
+    test("Regenerated reply is no longer listed", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages`,
+        authToken
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.some((msg: { id: string }) => msg.id === replyId)).toBe(false);
+    });
+
+    test("Regenerate user message returns 400", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages/${userMessageId}/regenerate`,
+        authToken,
+        { method: "POST" }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Regenerate without auth returns 401", async () => {
+      const res = await api(
+        `/api/conversations/${conversationId}/messages/${replyId}/regenerate`,
+        { method: "POST" }
+      );
+      await expectStatus(res, 401);
+    });
+
+    test("Regenerate nonexistent message returns 404", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages/00000000-0000-0000-0000-000000000000/regenerate`,
+        authToken,
+        { method: "POST" }
+      );
+      await expectStatus(res, 404);
+    });
+  });
+
+  describe("Conversations - Update", () => {
+    test("Rename conversation", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ title: "Kafejnīcā / At the café" }),
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.conversationId).toBe(conversationId);
+      expect(data.title).toBe("Kafejnīcā / At the café");
+    });
+
+    test("Change conversation level", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ level: "B1" }),
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.level).toBe("B1");
+      expect(data.title).toBe("Kafejnīcā / At the café");
+    });
+
+    test("Set conversation voice preferences", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ voice: "male", speakingRate: 0.8 }),
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.voice).toBe("male");
+      expect(data.speakingRate).toBeCloseTo(0.8);
+    });
+
+    test("Update conversation with unknown voice returns 400", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ voice: "robot" }),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Update conversation with empty body returns 400", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({}),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Update conversation with blank title returns 400", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}`,
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ title: "   " }),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Update conversation without auth returns 401", async () => {
+      const res = await api(`/api/conversations/${conversationId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: "Untitled" }),
+      });
+      await expectStatus(res, 401);
+    });
+
+    test("Update nonexistent conversation returns 404", async () => {
+      const res = await authenticatedApi(
+        "/api/conversations/00000000-0000-0000-0000-000000000000",
+        authToken,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ title: "Untitled" }),
+        }
+      );
+      await expectStatus(res, 404);
+    });
+  });
+
+  describe("Conversations - Fork", () => {
+    let fromMessageId: string;
+    let forkId: string;
+
+    test("Fork conversation from its first reply", async () => {
+      const messagesRes = await authenticatedApi(
+        `/api/conversations/${conversationId}/messages`,
+        authToken
+      );
+      await expectStatus(messagesRes, 200);
+      const messages = await messagesRes.json();
+      fromMessageId = messages.find((msg: { role: string }) => msg.role === "assistant").id;
+
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/fork`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ fromMessageId }),
+        }
+      );
+      await expectStatus(res, 201);
+      const data = await res.json();
+      expect(data.conversationId).not.toBe(conversationId);
+      expect(data.parentConversationId).toBe(conversationId);
+      expect(data.forkedFromMessageId).toBe(fromMessageId);
+      forkId = data.conversationId;
+    });
+
+    test("Fork copies the history up to the chosen message", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${forkId}/messages`,
+        authToken
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.length).toBeGreaterThan(0);
+      expect(data[data.length - 1].role).toBe("assistant");
+      expect(data.some((msg: { id: string }) => msg.id === fromMessageId)).toBe(false);
+    });
+
+    test("Fork is listed with its parent", async () => {
+      const res = await authenticatedApi("/api/conversations", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      const fork = data.find((conv: { conversationId: string }) => conv.conversationId === forkId);
+      expect(fork.parentConversationId).toBe(conversationId);
+    });
+
+    test("Fork without fromMessageId returns 400", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${conversationId}/fork`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({}),
+        }
+      );
+      await expectStatus(res, 400);
+    });
+
+    test("Fork from a message of another conversation returns 404", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${forkId}/fork`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ fromMessageId }),
         }
       );
+      await expectStatus(res, 404);
+    });
+
+    test("Fork without auth returns 401", async () => {
+      const res = await api(`/api/conversations/${conversationId}/fork`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fromMessageId }),
+      });
       await expectStatus(res, 401);
     });
 
-    // CREATE: Nonexistent conversation
-    test("Send message to nonexistent conversation returns 404", async () => {
+    test("Fork nonexistent conversation returns 404", async () => {
       const res = await authenticatedApi(
-        "/api/conversations/00000000-0000-0000-0000-000000000000/messages",
+        "/api/conversations/00000000-0000-0000-0000-000000000000/fork",
         authToken,
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            message: "Test message",
-          }),
+          body: JSON.stringify({ fromMessageId }),
         }
       );
       await expectStatus(res, 404);
     });
+  });
 
-    // CREATE: Invalid conversation UUID format
-    test("Send message with invalid conversation UUID format returns 400", async () => {
+  describe("Search - /api/search", () => {
+    let searchedMessageId: string;
+
+    test("Send message to search for", async () => {
       const res = await authenticatedApi(
-        "/api/conversations/invalid-uuid/messages",
+        `/api/conversations/${conversationId}/messages`,
         authToken,
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            message: "Test message",
-          }),
+          body: JSON.stringify({ message: "Mana māsa strādā skolā" }),
         }
       );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      searchedMessageId = data.userMessageId;
+    });
+
+    test("Search ignores diacritics and highlights matches", async () => {
+      // "strada" only appears in the message as "strādā", so it matches once diacritics are folded
+      const res = await authenticatedApi("/api/search?q=strada", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      const match = data.find(
+        (result: { type: string; messageId: string | null }) =>
+          result.type === "message" && result.messageId === searchedMessageId
+      );
+      expect(match).toBeDefined();
+      expect(match.conversationId).toBe(conversationId);
+      expect(typeof match.sequence).toBe("number");
+      expect(match.snippet).toContain("<mark>strādā</mark>");
+    });
+
+    test("Search without matches returns an empty list", async () => {
+      const res = await authenticatedApi("/api/search?q=zzzzzz", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data).toEqual([]);
+    });
+
+    test("Search without query returns 400", async () => {
+      const res = await authenticatedApi("/api/search", authToken);
       await expectStatus(res, 400);
     });
 
-    // READ: GET /api/conversations/{id}/messages
-    test("Get messages from conversation", async () => {
+    test("Search without auth returns 401", async () => {
+      const res = await api("/api/search?q=skola");
+      await expectStatus(res, 401);
+    });
+  });
+
+  describe("Export - /api/conversations/{id}/export", () => {
+    test("Export conversation as Markdown", async () => {
+      const res = await authenticatedApi(`/api/conversations/${conversationId}/export?format=md`, authToken);
+      await expectStatus(res, 200);
+      expect(res.headers.get("content-type")).toContain("text/markdown");
+      expect(res.headers.get("content-disposition")).toContain(".md");
+      const text = await res.text();
+      expect(text).toContain("## Transcript");
+      expect(text).toContain("Mana māsa strādā skolā");
+    });
+
+    test("Export conversation as JSON", async () => {
+      const res = await authenticatedApi(`/api/conversations/${conversationId}/export?format=json`, authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.conversation.id).toBe(conversationId);
+      expect(Array.isArray(data.messages)).toBe(true);
+      expect(data.messages.length).toBeGreaterThan(0);
+      expect(typeof data.messages[0].sequence).toBe("number");
+      expect(Array.isArray(data.messages[0].corrections)).toBe(true);
+      expect(Array.isArray(data.vocabulary)).toBe(true);
+    });
+
+    test("Export conversation as HTML", async () => {
+      const res = await authenticatedApi(`/api/conversations/${conversationId}/export?format=html`, authToken);
+      await expectStatus(res, 200);
+      expect(res.headers.get("content-type")).toContain("text/html");
+      const text = await res.text();
+      expect(text).toContain("<!DOCTYPE html>");
+      expect(text).toContain('<html lang="es">');
+      expect(text).toContain("@media print");
+    });
+
+    test("Export with invalid format returns 400", async () => {
+      const res = await authenticatedApi(`/api/conversations/${conversationId}/export?format=pdf`, authToken);
+      await expectStatus(res, 400);
+    });
+
+    test("Export nonexistent conversation returns 404", async () => {
       const res = await authenticatedApi(
-        `/api/conversations/${conversationId}/messages`,
+        "/api/conversations/00000000-0000-0000-0000-000000000000/export",
         authToken
       );
+      await expectStatus(res, 404);
+    });
+
+    test("Export without auth returns 401", async () => {
+      const res = await api(`/api/conversations/${conversationId}/export`);
+      await expectStatus(res, 401);
+    });
+
+    test("Export all conversations as zip", async () => {
+      const res = await authenticatedApi("/api/conversations/export?format=json", authToken);
+      await expectStatus(res, 200);
+      expect(res.headers.get("content-type")).toContain("application/zip");
+      const archive = new Uint8Array(await res.arrayBuffer());
+      // Local file header signature "PK\x03\x04"
+      expect(Array.from(archive.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    });
+
+    test("Export all conversations without auth returns 401", async () => {
+      const res = await api("/api/conversations/export");
+      await expectStatus(res, 401);
+    });
+  });
+
+  describe("Placement test", () => {
+    let testId: string;
+    let state: any;
+
+    test("Profile has no level before placement", async () => {
+      const res = await authenticatedApi("/api/me/profile", authToken);
       await expectStatus(res, 200);
       const data = await res.json();
-      expect(Array.isArray(data)).toBe(true);
-      // Should have at least user and AI response messages
-      if (data.length > 0) {
-        expect(data[0].id).toBeDefined();
-        expect(data[0].role).toBeDefined();
-        expect(data[0].content).toBeDefined();
-        expect(data[0].createdAt).toBeDefined();
+      expect(data.level).toBeNull();
+      expect(data.placedAt).toBeNull();
+    });
+
+    test("Start placement test", async () => {
+      const res = await authenticatedApi("/api/placement-tests", authToken, { method: "POST" });
+      await expectStatus(res, 201);
+      state = await res.json();
+      testId = state.testId;
+      expect(state.status).toBe("in_progress");
+      expect(state.answeredCount).toBe(0);
+      expect(state.question.id).toBeDefined();
+      expect(state.question.options.length).toBe(4);
+      expect(state.question.answer).toBeUndefined();
+    });
+
+    test("Answer for a different question returns 400", async () => {
+      const res = await authenticatedApi(`/api/placement-tests/${testId}/answers`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemId: "not-an-item", answer: 0 }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Answer questions until the test completes", async () => {
+      while (state.status === "in_progress") {
+        const res = await authenticatedApi(`/api/placement-tests/${testId}/answers`, authToken, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ itemId: state.question.id, answer: 0 }),
+        });
+        await expectStatus(res, 200);
+        state = await res.json();
       }
+      expect(state.status).toBe("completed");
+      expect(state.answeredCount).toBeGreaterThanOrEqual(15);
+      expect(state.answeredCount).toBeLessThanOrEqual(25);
+      expect(["A1", "A2", "B1", "B2", "C1"]).toContain(state.level);
+      expect(state.question).toBeNull();
     });
 
-    // READ: Unauthenticated request
-    test("Get messages without auth returns 401", async () => {
-      const res = await api(
-        `/api/conversations/${conversationId}/messages`
+    test("Answering a completed test returns 409", async () => {
+      const res = await authenticatedApi(`/api/placement-tests/${testId}/answers`, authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemId: "g-a1-1", answer: 0 }),
+      });
+      await expectStatus(res, 409);
+    });
+
+    test("Get completed placement test", async () => {
+      const res = await authenticatedApi(`/api/placement-tests/${testId}`, authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.level).toBe(state.level);
+      expect(data.completedAt).toBeDefined();
+    });
+
+    test("Profile stores the placed level", async () => {
+      const res = await authenticatedApi("/api/me/profile", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.level).toBe(state.level);
+      expect(data.placedAt).toBeDefined();
+    });
+
+    test("New conversations default to the placed level", async () => {
+      const res = await authenticatedApi("/api/conversations", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: "Latvian" }),
+      });
+      await expectStatus(res, 201);
+      const data = await res.json();
+      expect(data.level).toBe(state.level);
+    });
+
+    test("Get nonexistent placement test returns 404", async () => {
+      const res = await authenticatedApi(
+        "/api/placement-tests/00000000-0000-0000-0000-000000000000",
+        authToken
       );
+      await expectStatus(res, 404);
+    });
+
+    test("Start placement test without auth returns 401", async () => {
+      const res = await api("/api/placement-tests", { method: "POST" });
       await expectStatus(res, 401);
     });
+  });
 
-    // READ: Nonexistent conversation
-    test("Get messages from nonexistent conversation returns 404", async () => {
+  describe("Scenarios", () => {
+    let scenarioId: string;
+    let advancedScenarioId: string;
+    let scenarioConversationId: string;
+
+    test("List scenarios", async () => {
+      const res = await authenticatedApi("/api/scenarios", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(Array.isArray(data)).toBe(true);
+      expect(data.length).toBeGreaterThan(0);
+      expect(data[0].title).toBeDefined();
+      expect(data[0].language).toBe("Latvian");
+      expect(data[0].minLevel).toBeDefined();
+      scenarioId = data.find((s: any) => s.minLevel === "A1").id;
+      advancedScenarioId = data.find((s: any) => s.minLevel === "C1").id;
+    });
+
+    test("List scenarios available at a level", async () => {
+      const res = await authenticatedApi("/api/scenarios?level=A1", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.length).toBeGreaterThan(0);
+      for (const scenario of data) {
+        expect(scenario.minLevel).toBe("A1");
+      }
+    });
+
+    test("List scenarios at an unknown level returns 400", async () => {
+      const res = await authenticatedApi("/api/scenarios?level=beginner", authToken);
+      await expectStatus(res, 400);
+    });
+
+    test("List scenarios without auth returns 401", async () => {
+      const res = await api("/api/scenarios");
+      await expectStatus(res, 401);
+    });
+
+    test("Get scenario details", async () => {
+      const res = await authenticatedApi(`/api/scenarios/${scenarioId}`, authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.id).toBe(scenarioId);
+      expect(data.tutorPersona).toBeDefined();
+      expect(data.starterMessage).toBeDefined();
+      expect(Array.isArray(data.targetVocabulary)).toBe(true);
+    });
+
+    test("Get nonexistent scenario returns 404", async () => {
       const res = await authenticatedApi(
-        "/api/conversations/00000000-0000-0000-0000-000000000000/messages",
+        "/api/scenarios/00000000-0000-0000-0000-000000000000",
         authToken
       );
       await expectStatus(res, 404);
     });
 
-    // READ: Invalid conversation UUID format
-    test("Get messages with invalid conversation UUID format returns 400", async () => {
+    test("Create conversation from a scenario", async () => {
+      const res = await authenticatedApi("/api/conversations", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          language: "Latvian",
+          level: "A1",
+          scenarioId,
+        }),
+      });
+      await expectStatus(res, 201);
+      const data = await res.json();
+      expect(data.scenarioId).toBe(scenarioId);
+      expect(data.title).toBeDefined();
+      scenarioConversationId = data.conversationId;
+    });
+
+    test("Scenario conversation opens with the tutor's starter message", async () => {
       const res = await authenticatedApi(
-        "/api/conversations/invalid-uuid/messages",
+        `/api/conversations/${scenarioConversationId}/messages`,
+        authToken
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.length).toBe(1);
+      expect(data[0].role).toBe("assistant");
+    });
+
+    test("Create conversation below the scenario's minimum level returns 400", async () => {
+      const res = await authenticatedApi("/api/conversations", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          language: "Latvian",
+          level: "A1",
+          scenarioId: advancedScenarioId,
+        }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Create conversation in another language than the scenario returns 400", async () => {
+      const res = await authenticatedApi("/api/conversations", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          language: "Estonian",
+          level: "A1",
+          scenarioId,
+        }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Create conversation with nonexistent scenario returns 404", async () => {
+      const res = await authenticatedApi("/api/conversations", authToken, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          language: "Latvian",
+          level: "A1",
+          scenarioId: "00000000-0000-0000-0000-000000000000",
+        }),
+      });
+      await expectStatus(res, 404);
+    });
+  });
+
+  describe("Conversations - Pagination", () => {
+    test("Page through conversations newest first", async () => {
+      const firstRes = await authenticatedApi("/api/conversations?limit=1", authToken);
+      await expectStatus(firstRes, 200);
+      const first = await firstRes.json();
+      expect(first.length).toBe(1);
+
+      const nextRes = await authenticatedApi(
+        `/api/conversations?before=${first[0].conversationId}&limit=1`,
+        authToken
+      );
+      await expectStatus(nextRes, 200);
+      const next = await nextRes.json();
+      expect(next.length).toBe(1);
+      expect(next[0].conversationId).not.toBe(first[0].conversationId);
+      expect(next[0].createdAt <= first[0].createdAt).toBe(true);
+
+      const backRes = await authenticatedApi(
+        `/api/conversations?after=${next[0].conversationId}&limit=1`,
+        authToken
+      );
+      await expectStatus(backRes, 200);
+      const back = await backRes.json();
+      expect(back[0].conversationId).toBe(first[0].conversationId);
+    });
+
+    test("Get conversations with unknown cursor returns 400", async () => {
+      const res = await authenticatedApi(
+        "/api/conversations?before=00000000-0000-0000-0000-000000000000",
         authToken
       );
       await expectStatus(res, 400);
@@ -229,7 +1323,7 @@ describe("API Integration Tests", () => {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           language: "German",
-          level: "advanced",
+          level: "C1",
         }),
       });
       await expectStatus(res, 201);
@@ -306,7 +1400,7 @@ describe("API Integration Tests", () => {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           language: "Spanish",
-          level: "intermediate",
+          level: "B1",
         }),
       });
       await expectStatus(res, 201);
@@ -330,6 +1424,31 @@ describe("API Integration Tests", () => {
       const data = await res.json();
       expect(data.text).toBeDefined();
       expect(data.language).toBeDefined();
+      expect(Array.isArray(data.words)).toBe(true);
+      expect(Array.isArray(data.languages)).toBe(true);
+      expect(typeof data.mixedLanguage).toBe("boolean");
+    });
+
+    test("Transcription includes per-word timings and confidence", async () => {
+      const form = new FormData();
+      form.append("file", createTestFile("audio.wav", "Es gribu kafiju please", "audio/wav"));
+      const res = await authenticatedApi(
+        `/api/conversations/${sttConversationId}/speech-to-text`,
+        authToken,
+        {
+          method: "POST",
+          body: form,
+        }
+      );
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.words.length).toBeGreaterThan(0);
+      for (const word of data.words) {
+        expect(word.word).toBeDefined();
+        expect("startMs" in word).toBe(true);
+        expect("endMs" in word).toBe(true);
+        expect("confidence" in word).toBe(true);
+      }
     });
 
     // POST: Missing file
@@ -400,7 +1519,7 @@ describe("API Integration Tests", () => {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           language: "French",
-          level: "beginner",
+          level: "A1",
         }),
       });
       await expectStatus(res, 201);
@@ -408,8 +1527,48 @@ describe("API Integration Tests", () => {
       ttsConversationId = data.conversationId;
     });
 
-    // POST: Generate audio from text with required fields
-    test("Generate audio from text with required fields", async () => {
+    // POST: Generate audio from text with required fields
+    test("Generate audio from text with required fields", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${ttsConversationId}/text-to-speech`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            text: "Bonjour, comment allez-vous?",
+            language: "French",
+          }),
+        }
+      );
+      await expectStatus(res, 200);
+      // Response is binary audio data
+      const buffer = await res.arrayBuffer();
+      expect(buffer.byteLength).toBeGreaterThan(0);
+    });
+
+    // POST: Generate audio with optional voice parameter
+    test("Generate audio with optional voice parameter", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${ttsConversationId}/text-to-speech`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            text: "Bonsoir",
+            language: "French",
+            voice: "female",
+          }),
+        }
+      );
+      await expectStatus(res, 200);
+      const buffer = await res.arrayBuffer();
+      expect(buffer.byteLength).toBeGreaterThan(0);
+    });
+
+    // POST: Generate audio with a speaking rate
+    test("Generate audio with a slower speaking rate", async () => {
       const res = await authenticatedApi(
         `/api/conversations/${ttsConversationId}/text-to-speech`,
         authToken,
@@ -417,19 +1576,50 @@ describe("API Integration Tests", () => {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            text: "Bonjour, comment allez-vous?",
+            text: "Bonsoir",
             language: "French",
+            voice: "female",
+            rate: 0.75,
           }),
         }
       );
       await expectStatus(res, 200);
-      // Response is binary audio data
       const buffer = await res.arrayBuffer();
       expect(buffer.byteLength).toBeGreaterThan(0);
     });
 
-    // POST: Generate audio with optional voice parameter
-    test("Generate audio with optional voice parameter", async () => {
+    // POST: Repeated text, voice and rate reuse the cached audio
+    test("Repeated text is served from the speech cache", async () => {
+      const request = {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text: "Merci beaucoup",
+          language: "French",
+          voice: "male",
+        }),
+      };
+      const first = await authenticatedApi(
+        `/api/conversations/${ttsConversationId}/text-to-speech`,
+        authToken,
+        request
+      );
+      await expectStatus(first, 200);
+      const firstBuffer = await first.arrayBuffer();
+
+      const second = await authenticatedApi(
+        `/api/conversations/${ttsConversationId}/text-to-speech`,
+        authToken,
+        request
+      );
+      await expectStatus(second, 200);
+      expect(second.headers.get("X-Speech-Cache")).toBe("hit");
+      const secondBuffer = await second.arrayBuffer();
+      expect(secondBuffer.byteLength).toBe(firstBuffer.byteLength);
+    });
+
+    // POST: Out-of-range speaking rate
+    test("Generate audio with out-of-range rate returns 400", async () => {
       const res = await authenticatedApi(
         `/api/conversations/${ttsConversationId}/text-to-speech`,
         authToken,
@@ -439,13 +1629,11 @@ describe("API Integration Tests", () => {
           body: JSON.stringify({
             text: "Bonsoir",
             language: "French",
-            voice: "female",
+            rate: 5,
           }),
         }
       );
-      await expectStatus(res, 200);
-      const buffer = await res.arrayBuffer();
-      expect(buffer.byteLength).toBeGreaterThan(0);
+      await expectStatus(res, 400);
     });
 
     // POST: Missing required text field
@@ -531,6 +1719,59 @@ describe("API Integration Tests", () => {
     });
   });
 
+  describe("Pronunciation - /api/pronunciation/assess", () => {
+    test("Assess pronunciation of a sentence", async () => {
+      const form = new FormData();
+      form.append("expectedText", "Sveiki, kā tev klājas?");
+      form.append("file", createTestFile("audio.wav", "Sveiki, ka tev klajas?", "audio/wav"));
+      const res = await authenticatedApi("/api/pronunciation/assess", authToken, {
+        method: "POST",
+        body: form,
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.expectedText).toBe("Sveiki, kā tev klājas?");
+      expect(typeof data.score).toBe("number");
+      expect(Array.isArray(data.words)).toBe(true);
+      expect(data.words.length).toBeGreaterThan(0);
+      for (const word of data.words) {
+        expect(word.status).toBeDefined();
+        expect(Array.isArray(word.issues)).toBe(true);
+      }
+    });
+
+    test("Assess pronunciation without audio returns 400", async () => {
+      const form = new FormData();
+      form.append("expectedText", "Sveiki");
+      const res = await authenticatedApi("/api/pronunciation/assess", authToken, {
+        method: "POST",
+        body: form,
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Assess pronunciation without expected text returns 400", async () => {
+      const form = new FormData();
+      form.append("file", createTestFile("audio.wav", "audio data", "audio/wav"));
+      const res = await authenticatedApi("/api/pronunciation/assess", authToken, {
+        method: "POST",
+        body: form,
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Assess pronunciation without auth returns 401", async () => {
+      const form = new FormData();
+      form.append("expectedText", "Sveiki");
+      form.append("file", createTestFile("audio.wav", "audio data", "audio/wav"));
+      const res = await api("/api/pronunciation/assess", {
+        method: "POST",
+        body: form,
+      });
+      await expectStatus(res, 401);
+    });
+  });
+
   describe("Vocabulary - Get", () => {
     let vocabConversationId: string;
 
@@ -541,7 +1782,7 @@ describe("API Integration Tests", () => {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           language: "Latvian",
-          level: "beginner",
+          level: "A1",
         }),
       });
       await expectStatus(res, 201);
@@ -574,12 +1815,24 @@ describe("API Integration Tests", () => {
       // Check structure if items exist
       if (data.length > 0) {
         expect(data[0].id).toBeDefined();
-        expect(data[0].latvianWord).toBeDefined();
-        expect(data[0].englishTranslation).toBeDefined();
+        expect(data[0].term).toBeDefined();
+        expect(data[0].translation).toBeDefined();
+        expect(data[0].targetLanguage).toBeDefined();
+        expect(data[0].sourceLanguage).toBe("English");
         expect(data[0].createdAt).toBeDefined();
       }
     });
 
+    test("Filter user vocabulary by language", async () => {
+      const res = await authenticatedApi("/api/vocabulary?language=Latvian", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.length).toBeGreaterThan(0);
+      for (const item of data) {
+        expect(item.targetLanguage).toBe("Latvian");
+      }
+    });
+
     // READ: Unauthenticated request
     test("Get vocabulary without auth returns 401", async () => {
       const res = await api("/api/vocabulary");
@@ -597,6 +1850,64 @@ describe("API Integration Tests", () => {
       expect(Array.isArray(data)).toBe(true);
     });
 
+    test("Extracted vocabulary has dictionary form and part of speech", async () => {
+      let data: any[] = [];
+      for (let attempt = 0; attempt < 30 && data.length === 0; attempt++) {
+        const res = await authenticatedApi(`/api/conversations/${vocabConversationId}/vocabulary`, authToken);
+        await expectStatus(res, 200);
+        data = await res.json();
+        if (data.length === 0) {
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+        }
+      }
+      expect(data.length).toBeGreaterThan(0);
+      for (const item of data) {
+        expect(item.term).toMatch(/^[\p{L}\p{M}' -]+$/u);
+        expect(item.term).not.toBe("word");
+        if (item.partOfSpeech !== null) {
+          expect(typeof item.lemma).toBe("string");
+          if (item.partOfSpeech !== "noun") {
+            expect(item.gender).toBeNull();
+          }
+        }
+      }
+    });
+
+    test("Repeated words are stored once by dictionary form with each occurrence", async () => {
+      const res = await authenticatedApi(
+        `/api/conversations/${vocabConversationId}/messages`,
+        authToken,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: "Teach me new words" }),
+        }
+      );
+      await expectStatus(res, 200);
+      const jobIds: string[] = (await res.json()).jobs.map((job: any) => job.id);
+
+      for (let attempt = 0; attempt < 30; attempt++) {
+        const jobsRes = await authenticatedApi(`/api/conversations/${vocabConversationId}/jobs`, authToken);
+        const jobs = (await jobsRes.json()).filter((job: any) => jobIds.includes(job.id));
+        if (jobs.every((job: any) => job.status === "completed" || job.status === "dead")) {
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+
+      const vocabRes = await authenticatedApi(`/api/conversations/${vocabConversationId}/vocabulary`, authToken);
+      await expectStatus(vocabRes, 200);
+      const data = await vocabRes.json();
+      const terms = data.map((item: any) => item.term.toLowerCase());
+      expect(new Set(terms).size).toBe(terms.length);
+      for (const item of data) {
+        expect(Array.isArray(item.occurrences)).toBe(true);
+        expect(item.occurrences.length).toBeGreaterThan(0);
+      }
+      const occurrenceCount = data.reduce((sum: number, item: any) => sum + item.occurrences.length, 0);
+      expect(occurrenceCount).toBeGreaterThan(data.length);
+    });
+
     // READ: Unauthenticated request
     test("Get conversation vocabulary without auth returns 401", async () => {
       const res = await api(
@@ -635,12 +1946,26 @@ describe("API Integration Tests", () => {
       // Check structure if words exist
       if (data.words.length > 0) {
         expect(data.words[0].id).toBeDefined();
-        expect(data.words[0].latvianWord).toBeDefined();
-        expect(data.words[0].englishTranslation).toBeDefined();
+        expect(data.words[0].term).toBeDefined();
+        expect(data.words[0].translation).toBeDefined();
         expect(data.words[0].date).toBeDefined();
       }
     });
 
+    test("Get daily vocabulary in another language", async () => {
+      const res = await authenticatedApi("/api/vocabulary/daily?language=Lithuanian", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.targetLanguage).toBe("Lithuanian");
+      expect(data.sourceLanguage).toBe("English");
+      expect(Array.isArray(data.words)).toBe(true);
+    });
+
+    test("Get daily vocabulary in an unsupported language returns 400", async () => {
+      const res = await authenticatedApi("/api/vocabulary/daily?language=Klingon", authToken);
+      await expectStatus(res, 400);
+    });
+
     // READ: Unauthenticated request
     test("Get daily vocabulary without auth returns 401", async () => {
       const res = await api("/api/vocabulary/daily");
@@ -648,6 +1973,338 @@ describe("API Integration Tests", () => {
     });
   });
 
+  describe("Usage - /api/me/usage", () => {
+    test("Get AI usage after sending messages", async () => {
+      const res = await authenticatedApi("/api/me/usage", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.periodStart).toBeDefined();
+      expect(data.resetsAt).toBeDefined();
+      expect(data.requests.used).toBeGreaterThan(0);
+      expect(data.requests.remaining).toBe(Math.max(0, data.requests.limit - data.requests.used));
+      expect(data.tokens.used).toBeGreaterThan(0);
+      expect(data.tokens.limit).toBeGreaterThan(0);
+      expect(data.rateLimit.limit).toBeGreaterThan(0);
+      expect(data.rateLimit.windowSeconds).toBe(60);
+    });
+
+    test("New user has the full allowance", async () => {
+      const { token } = await signUpTestUser();
+      const res = await authenticatedApi("/api/me/usage", token);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.requests.used).toBe(0);
+      expect(data.requests.remaining).toBe(data.requests.limit);
+      expect(data.tokens.used).toBe(0);
+      expect(data.rateLimit.remaining).toBe(data.rateLimit.limit);
+    });
+
+    test("Get AI usage without auth returns 401", async () => {
+      const res = await api("/api/me/usage");
+      await expectStatus(res, 401);
+    });
+  });
+
+  describe("Hints - /api/conversations/{id}/hints", () => {
+    let token: string;
+    let hintConversationId: string;
+
+    test("Get reply hints for a conversation", async () => {
+      ({ token } = await signUpTestUser());
+      const createRes = await authenticatedApi("/api/conversations", token, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: "Latvian", level: "A1" }),
+      });
+      await expectStatus(createRes, 201);
+      hintConversationId = (await createRes.json()).conversationId;
+
+      const res = await authenticatedApi(`/api/conversations/${hintConversationId}/hints`, token, { method: "POST" });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.hints.length).toBeGreaterThanOrEqual(2);
+      expect(data.hints.length).toBeLessThanOrEqual(3);
+      for (const hint of data.hints) {
+        expect(["easier", "at_level", "stretch"]).toContain(hint.difficulty);
+        expect(hint.text.length).toBeGreaterThan(0);
+        expect(hint.gloss.length).toBeGreaterThan(0);
+      }
+    });
+
+    test("Hints are not saved as messages", async () => {
+      const res = await authenticatedApi(`/api/conversations/${hintConversationId}/messages`, token);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.length).toBe(0);
+    });
+
+    test("Message sent after hints is marked as assisted", async () => {
+      const sendRes = await authenticatedApi(`/api/conversations/${hintConversationId}/messages`, token, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: "Jā, paldies." }),
+      });
+      await expectStatus(sendRes, 200);
+      const sent = await sendRes.json();
+
+      const unassistedRes = await authenticatedApi(`/api/conversations/${hintConversationId}/messages`, token, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: "Es mācos latviešu valodu." }),
+      });
+      await expectStatus(unassistedRes, 200);
+      const unassisted = await unassistedRes.json();
+
+      const res = await authenticatedApi(`/api/conversations/${hintConversationId}/messages`, token);
+      await expectStatus(res, 200);
+      const messages = await res.json();
+      expect(messages.find((msg: any) => msg.id === sent.userMessageId).assisted).toBe(true);
+      expect(messages.find((msg: any) => msg.id === unassisted.userMessageId).assisted).toBe(false);
+      expect(messages.filter((msg: any) => msg.role === "assistant").every((msg: any) => msg.assisted === false)).toBe(true);
+    });
+
+    test("Hints for non-existent conversation returns 404", async () => {
+      const res = await authenticatedApi("/api/conversations/00000000-0000-0000-0000-000000000000/hints", token, { method: "POST" });
+      await expectStatus(res, 404);
+    });
+
+    test("Hints for another user's conversation returns 403", async () => {
+      const res = await authenticatedApi(`/api/conversations/${hintConversationId}/hints`, authToken, { method: "POST" });
+      await expectStatus(res, 403);
+    });
+
+    test("Hints without auth returns 401", async () => {
+      const res = await api(`/api/conversations/${hintConversationId}/hints`, { method: "POST" });
+      await expectStatus(res, 401);
+    });
+  });
+
+  describe("Tutor style", () => {
+    let token: string;
+    let styledConversationId: string;
+
+    test("Profile has the default tutor style", async () => {
+      ({ token } = await signUpTestUser());
+      const res = await authenticatedApi("/api/me/profile", token);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.tutorStyle).toEqual({
+        persona: "tutor",
+        strictness: "balanced",
+        address: "informal",
+        englishUse: "some",
+        replyLength: "medium",
+      });
+    });
+
+    test("Update default tutor style", async () => {
+      const res = await authenticatedApi("/api/me/profile", token, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tutorStyle: { persona: "riga_local", address: "formal" } }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.tutorStyle.persona).toBe("riga_local");
+      expect(data.tutorStyle.address).toBe("formal");
+      expect(data.tutorStyle.strictness).toBe("balanced");
+      expect(data.level).toBeNull();
+    });
+
+    test("Null resets a default option", async () => {
+      const res = await authenticatedApi("/api/me/profile", token, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tutorStyle: { address: null } }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.tutorStyle.persona).toBe("riga_local");
+      expect(data.tutorStyle.address).toBe("informal");
+    });
+
+    test("Unknown tutor style option returns 400", async () => {
+      const res = await authenticatedApi("/api/me/profile", token, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tutorStyle: { persona: "pirate" } }),
+      });
+      await expectStatus(res, 400);
+    });
+
+    test("Create conversation with tutor style overrides", async () => {
+      const res = await authenticatedApi("/api/conversations", token, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          language: "Latvian",
+          level: "A1",
+          tutorStyle: { strictness: "strict", replyLength: "short" },
+        }),
+      });
+      await expectStatus(res, 201);
+      const data = await res.json();
+      styledConversationId = data.conversationId;
+      expect(data.tutorStyle).toEqual({ strictness: "strict", replyLength: "short" });
+    });
+
+    test("Send message in a conversation with a tutor style", async () => {
+      const res = await authenticatedApi(`/api/conversations/${styledConversationId}/messages`, token, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: "Sveiki!" }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.response).toBeDefined();
+    });
+
+    test("Update conversation tutor style overrides", async () => {
+      const res = await authenticatedApi(`/api/conversations/${styledConversationId}`, token, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tutorStyle: { strictness: null, englishUse: "none" } }),
+      });
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.tutorStyle).toEqual({ replyLength: "short", englishUse: "none" });
+    });
+
+    test("Update tutor style without auth returns 401", async () => {
+      const res = await api("/api/me/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tutorStyle: { persona: "tutor" } }),
+      });
+      await expectStatus(res, 401);
+    });
+  });
+
+  describe("Weaknesses - /api/me/weaknesses", () => {
+    test("Corrections are aggregated by grammar topic", async () => {
+      const { token } = await signUpTestUser();
+      const createRes = await authenticatedApi("/api/conversations", token, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: "Latvian", level: "A1" }),
+      });
+      await expectStatus(createRes, 201);
+      const conversation = await createRes.json();
+
+      const sendRes = await authenticatedApi(
+        `/api/conversations/${conversation.conversationId}/messages`,
+        token,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: "Es dzivoju Riga" }),
+        }
+      );
+      await expectStatus(sendRes, 200);
+      const sent = await sendRes.json();
+      expect(sent.corrections.some((correction: any) => correction.topic === "locative_case")).toBe(true);
+
+      const res = await authenticatedApi("/api/me/weaknesses", token);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.weeks).toBe(8);
+      expect(data.since).toBeDefined();
+      const locative = data.topics.find((topic: any) => topic.topic === "locative_case");
+      expect(locative).toBeDefined();
+      expect(locative.mistakes).toBeGreaterThanOrEqual(1);
+      expect(locative.corrections).toBeGreaterThanOrEqual(1);
+      expect(locative.weekly.length).toBe(8);
+      expect(["improving", "steady", "worsening"]).toContain(locative.trend);
+    });
+
+    test("Corrections copied into forks are not counted again", async () => {
+      const { token } = await signUpTestUser();
+      const createRes = await authenticatedApi("/api/conversations", token, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: "Latvian", level: "A1" }),
+      });
+      await expectStatus(createRes, 201);
+      const conversation = await createRes.json();
+
+      const sendRes = await authenticatedApi(
+        `/api/conversations/${conversation.conversationId}/messages`,
+        token,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: "Es dzivoju Riga" }),
+        }
+      );
+      await expectStatus(sendRes, 200);
+      const sent = await sendRes.json();
+
+      const beforeRes = await authenticatedApi("/api/me/weaknesses", token);
+      await expectStatus(beforeRes, 200);
+      const before = await beforeRes.json();
+
+      const forkRes = await authenticatedApi(
+        `/api/conversations/${conversation.conversationId}/fork`,
+        token,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ fromMessageId: sent.messageId }),
+        }
+      );
+      await expectStatus(forkRes, 201);
+      const fork = await forkRes.json();
+
+      // A fork of the fork copies the copied corrections once more
+      const forkMessagesRes = await authenticatedApi(`/api/conversations/${fork.conversationId}/messages`, token);
+      await expectStatus(forkMessagesRes, 200);
+      const forkMessages = await forkMessagesRes.json();
+      const nestedRes = await authenticatedApi(
+        `/api/conversations/${fork.conversationId}/fork`,
+        token,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ fromMessageId: forkMessages[forkMessages.length - 1].id }),
+        }
+      );
+      await expectStatus(nestedRes, 201);
+
+      const afterRes = await authenticatedApi("/api/me/weaknesses", token);
+      await expectStatus(afterRes, 200);
+      const after = await afterRes.json();
+      expect(after.topics).toEqual(before.topics);
+    });
+
+    test("Weeks parameter sets the number of weekly buckets", async () => {
+      const res = await authenticatedApi("/api/me/weaknesses?weeks=4", authToken);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.weeks).toBe(4);
+      for (const topic of data.topics) {
+        expect(topic.weekly.length).toBe(4);
+      }
+    });
+
+    test("New user has no weaknesses", async () => {
+      const { token } = await signUpTestUser();
+      const res = await authenticatedApi("/api/me/weaknesses", token);
+      await expectStatus(res, 200);
+      const data = await res.json();
+      expect(data.topics).toEqual([]);
+    });
+
+    test("Weeks out of range returns 400", async () => {
+      const res = await authenticatedApi("/api/me/weaknesses?weeks=0", authToken);
+      await expectStatus(res, 400);
+    });
+
+    test("Get weaknesses without auth returns 401", async () => {
+      const res = await api("/api/me/weaknesses");
+      await expectStatus(res, 401);
+    });
+  });
+
   describe("Vocabulary - Delete", () => {
     let deleteVocabConversationId: string;
     let vocabItemToDelete: any;
@@ -659,7 +2316,7 @@ describe("API Integration Tests", () => {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           language: "Portuguese",
-          level: "intermediate",
+          level: "B1",
         }),
       });
       await expectStatus(res, 201);
@@ -766,7 +2423,7 @@ describe("API Integration Tests", () => {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           language: "Italian",
-          level: "intermediate",
+          level: "B1",
         }),
       });
       await expectStatus(res, 201);
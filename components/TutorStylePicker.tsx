@@ -0,0 +1,77 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { colors } from "@/styles/commonStyles";
+import { TUTOR_STYLE_OPTIONS, TutorStyleKey, TutorStyleSettings } from "@/constants/TutorStyle";
+
+interface TutorStylePickerProps {
+  value: TutorStyleSettings;
+  // null clears the option so it falls back to the default
+  onChange: (key: TutorStyleKey, value: string | null) => void;
+  // Offer a "default" choice for each option, for per-conversation overrides
+  allowDefault?: boolean;
+  disabled?: boolean;
+}
+
+export default function TutorStylePicker({ value, onChange, allowDefault = false, disabled = false }: TutorStylePickerProps) {
+  const renderChip = (key: TutorStyleKey, optionValue: string | null, label: string) => {
+    const isSelected = (value[key] ?? null) === optionValue;
+    return (
+      <TouchableOpacity
+        key={optionValue ?? "default"}
+        style={[styles.chip, isSelected && styles.chipSelected]}
+        onPress={() => onChange(key, optionValue)}
+        disabled={disabled || isSelected}
+      >
+        <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View>
+      {TUTOR_STYLE_OPTIONS.map((option) => (
+        <View key={option.key} style={styles.option}>
+          <Text style={styles.optionLabel}>{option.label}</Text>
+          <View style={styles.chips}>
+            {allowDefault && renderChip(option.key, null, "Noklusējums")}
+            {option.values.map((item) => renderChip(option.key, item.value, item.label))}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  option: {
+    marginBottom: 16,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.text,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.background,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: colors.text,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+  },
+});
@@ -0,0 +1,25 @@
+import { colors } from "@/styles/commonStyles";
+
+export interface Language {
+  code: string;
+  // English name, as sent to and stored by the backend
+  name: string;
+  // Name shown in the app
+  label: string;
+  flag: string;
+  color: string;
+}
+
+export const LANGUAGES: Language[] = [
+  { code: "lv", name: "Latvian", label: "Latviešu", flag: "🇱🇻", color: colors.primary },
+  { code: "lt", name: "Lithuanian", label: "Lietuviešu", flag: "🇱🇹", color: colors.success },
+  { code: "et", name: "Estonian", label: "Igauņu", flag: "🇪🇪", color: colors.info },
+];
+
+export const DEFAULT_LANGUAGE = LANGUAGES[0];
+
+// Language of translations and explanations
+export const SOURCE_LANGUAGE_LABEL = "Angļu";
+
+export const findLanguage = (name: string): Language | undefined =>
+  LANGUAGES.find(l => l.name === name || l.code === name);
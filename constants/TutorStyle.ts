@@ -0,0 +1,68 @@
+// Tutor style options, as stored by the backend, with the labels shown in the app
+
+export interface TutorStyle {
+  persona: "tutor" | "friendly_peer" | "strict_teacher" | "riga_local";
+  strictness: "gentle" | "balanced" | "strict";
+  address: "formal" | "informal";
+  englishUse: "none" | "some" | "plenty";
+  replyLength: "short" | "medium" | "long";
+}
+
+export type TutorStyleKey = keyof TutorStyle;
+
+// Options a conversation overrides; the rest come from the learner's defaults
+export type TutorStyleSettings = Partial<TutorStyle>;
+
+export interface TutorStyleOption {
+  key: TutorStyleKey;
+  label: string;
+  values: { value: string; label: string }[];
+}
+
+export const TUTOR_STYLE_OPTIONS: TutorStyleOption[] = [
+  {
+    key: "persona",
+    label: "Loma",
+    values: [
+      { value: "tutor", label: "Skolotājs" },
+      { value: "friendly_peer", label: "Draugs" },
+      { value: "strict_teacher", label: "Stingrs skolotājs" },
+      { value: "riga_local", label: "Rīdzinieks" },
+    ],
+  },
+  {
+    key: "strictness",
+    label: "Labojumi",
+    values: [
+      { value: "gentle", label: "Saudzīgi" },
+      { value: "balanced", label: "Mēreni" },
+      { value: "strict", label: "Stingri" },
+    ],
+  },
+  {
+    key: "address",
+    label: "Uzruna",
+    values: [
+      { value: "formal", label: "Jūs" },
+      { value: "informal", label: "Tu" },
+    ],
+  },
+  {
+    key: "englishUse",
+    label: "Skaidrojumi angļu valodā",
+    values: [
+      { value: "none", label: "Nekad" },
+      { value: "some", label: "Kad vajag" },
+      { value: "plenty", label: "Bieži" },
+    ],
+  },
+  {
+    key: "replyLength",
+    label: "Atbilžu garums",
+    values: [
+      { value: "short", label: "Īsas" },
+      { value: "medium", label: "Vidējas" },
+      { value: "long", label: "Garas" },
+    ],
+  },
+];
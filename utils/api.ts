@@ -247,6 +247,7 @@ export const authenticatedDelete = async <T = any>(endpoint: string, data: any =
  * @param fieldName - Form field name (default: 'audio')
  * @param fileName - File name (default: 'recording.m4a')
  * @param mimeType - MIME type (default: 'audio/m4a')
+ * @param fields - Extra text fields sent before the file
  * @returns Parsed JSON response
  */
 export const authenticatedPostFormData = async <T = any>(
@@ -254,7 +255,8 @@ export const authenticatedPostFormData = async <T = any>(
   fileUri: string,
   fieldName: string = 'audio',
   fileName: string = 'recording.m4a',
-  mimeType: string = 'audio/m4a'
+  mimeType: string = 'audio/m4a',
+  fields: Record<string, string> = {}
 ): Promise<T> => {
   if (!isBackendConfigured()) {
     throw new Error("Backend URL not configured. Please rebuild the app.");
@@ -273,6 +275,7 @@ export const authenticatedPostFormData = async <T = any>(
     if (Platform.OS === 'web') {
       console.log('[API] Web platform: using FormData with blob');
       const formData = new FormData();
+      Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
       const audioResponse = await fetch(fileUri);
       const audioBlob = await audioResponse.blob();
       console.log('[API] Audio blob size:', audioBlob.size, 'type:', audioBlob.type);
@@ -331,6 +334,7 @@ export const authenticatedPostFormData = async <T = any>(
         xhr.setRequestHeader('Authorization', `Bearer ${token}`);
         
         const formData = new FormData();
+        Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
         formData.append(fieldName, {
           uri: fileUri,
           type: mimeType,
@@ -390,3 +394,133 @@ export const authenticatedPostBinary = async (
   console.log("[API] Binary response received, size:", buffer.byteLength);
   return buffer;
 };
+
+/**
+ * Authenticated GET request that returns the raw response (e.g., conversation exports)
+ * Callers read the body as text or binary depending on the endpoint
+ */
+export const authenticatedGetRaw = async (endpoint: string): Promise<Response> => {
+  if (!isBackendConfigured()) {
+    throw new Error("Backend URL not configured. Please rebuild the app.");
+  }
+
+  const token = await getBearerToken();
+  if (!token) {
+    throw new Error("Authentication token not found. Please sign in.");
+  }
+
+  const url = `${BACKEND_URL}${endpoint}`;
+  console.log("[API] Calling (raw):", url, "GET");
+
+  const response = await fetch(url, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    console.error("[API] Error response:", response.status, text);
+    throw new Error(`API error: ${response.status} - ${text}`);
+  }
+
+  return response;
+};
+
+/**
+ * Authenticated POST request that consumes a Server-Sent Events response
+ * Uses XMLHttpRequest because React Native's fetch does not expose a readable stream;
+ * progress events deliver the growing response text on both web and native
+ *
+ * @param endpoint - API endpoint path
+ * @param data - JSON request body
+ * @param onEvent - Called for every event with its name and parsed JSON data; E describes the events the endpoint sends
+ * @param headers - Extra request headers, e.g. an Idempotency-Key
+ * @returns Resolves when the stream ends
+ */
+export const authenticatedPostStream = async <E extends { event: string; data: unknown } = { event: string; data: any }>(
+  endpoint: string,
+  data: any,
+  onEvent: (streamEvent: E) => void,
+  headers: Record<string, string> = {}
+): Promise<void> => {
+  if (!isBackendConfigured()) {
+    throw new Error("Backend URL not configured. Please rebuild the app.");
+  }
+
+  const token = await getBearerToken();
+  if (!token) {
+    throw new Error("Authentication token not found. Please sign in.");
+  }
+
+  const url = `${BACKEND_URL}${endpoint}`;
+  console.log("[API] Calling (stream):", url, "POST");
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let processedLength = 0;
+
+    // Dispatch every complete event ("\n\n"-terminated) received since the last call
+    const processChunk = () => {
+      const text = xhr.responseText;
+      let boundary = text.indexOf("\n\n", processedLength);
+
+      while (boundary !== -1) {
+        const frame = text.slice(processedLength, boundary);
+        processedLength = boundary + 2;
+
+        let eventName = "message";
+        const dataLines: string[] = [];
+        for (const line of frame.split("\n")) {
+          if (line.startsWith("event:")) {
+            eventName = line.slice(6).trim();
+          } else if (line.startsWith("data:")) {
+            dataLines.push(line.slice(5).trim());
+          }
+        }
+
+        if (dataLines.length > 0) {
+          try {
+            onEvent({ event: eventName, data: JSON.parse(dataLines.join("\n")) } as E);
+          } catch (error) {
+            console.error("[API] Error parsing stream event:", error);
+          }
+        }
+
+        boundary = text.indexOf("\n\n", processedLength);
+      }
+    };
+
+    xhr.onprogress = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        processChunk();
+      }
+    };
+
+    xhr.onload = () => {
+      console.log("[API] Stream response status:", xhr.status);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        processChunk();
+        resolve();
+      } else {
+        console.error("[API] Error response:", xhr.status, xhr.responseText);
+        reject(new Error(`API error: ${xhr.status} - ${xhr.responseText}`));
+      }
+    };
+
+    xhr.onerror = () => {
+      console.error("[API] XHR network error");
+      reject(new Error("Network request failed"));
+    };
+
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Content-Type", "application/json");
+    xhr.setRequestHeader("Accept", "text/event-stream");
+    xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.send(JSON.stringify(data));
+  });
+};